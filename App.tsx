@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { MemoryRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { Sidebar } from './components/Layout/Sidebar';
 import { Dashboard } from './pages/Dashboard';
@@ -20,14 +20,33 @@ import { Governance } from './pages/Governance';
 import { ChatWidget } from './components/Chat/ChatWidget';
 import { ToastContainer } from './components/Common/Toast';
 import { CommandPalette } from './components/Common/CommandPalette';
+import { RequirePermission } from './components/Common/RequirePermission';
+import { DualAuthorizationPanel } from './components/Common/DualAuthorizationPanel';
 import { GlobalAnnunciator } from './components/Layout/GlobalAnnunciator';
 import { ROUTES } from './constants';
 import { GridProvider } from './context/GridContext';
+import { SessionProvider, useSession } from './context/SessionContext';
+import { syncService } from './services/syncService';
 
 const AppContent: React.FC = () => {
   const location = useLocation();
   const isLoginPage = location.pathname === '/login';
   const [isMobileNavOpen, setIsMobileNavOpen] = useState(false);
+  const { session } = useSession();
+
+  // Join the control room as the session operator so supervisors are present
+  // for two-person approvals
+  useEffect(() => {
+    if (!session) {
+      if (syncService.isConnectedToRoom()) syncService.disconnect();
+      return;
+    }
+    if (syncService.isConnectedToRoom()) return;
+    syncService.initOperator(session.name, session.role, session.operatorId);
+    syncService.connectToRoom('ERCOT-CONTROL');
+  }, [session]);
+
+  if (!isLoginPage && !session) return <Navigate to="/login" replace />;
 
   return (
     <div className="min-h-screen bg-[var(--bg-primary)] text-[var(--text-primary)] font-sans flex flex-col relative">
@@ -75,10 +94,10 @@ const AppContent: React.FC = () => {
               <Route path={ROUTES.HISTORICAL} element={<Historical />} />
               <Route path={ROUTES.SCENARIOS} element={<Scenarios />} />
               <Route path={ROUTES.REPORTS} element={<Reports />} />
-              <Route path={ROUTES.AUDIT} element={<AuditLog />} />
+              <Route path={ROUTES.AUDIT} element={<RequirePermission permission="VIEW_AUDIT" area="Audit Trail"><AuditLog /></RequirePermission>} />
               <Route path={ROUTES.CYBERSIM} element={<CyberSim />} />
               <Route path={ROUTES.RESEARCH} element={<Research />} />
-              <Route path={ROUTES.GOVERNANCE} element={<Governance />} />
+              <Route path={ROUTES.GOVERNANCE} element={<RequirePermission permission="MANAGE_GOVERNANCE" area="Governance"><Governance /></RequirePermission>} />
               <Route path="*" element={<Navigate to="/login" replace />} />
             </Routes>
           </div>
@@ -88,6 +107,7 @@ const AppContent: React.FC = () => {
       {/* Global Overlays */}
       {!isLoginPage && <ChatWidget />}
       {!isLoginPage && <CommandPalette />}
+      {!isLoginPage && <DualAuthorizationPanel />}
       <ToastContainer />
     </div>
   );
@@ -95,11 +115,13 @@ const AppContent: React.FC = () => {
 
 const App: React.FC = () => {
   return (
-    <GridProvider>
-      <MemoryRouter initialEntries={['/login']}>
-        <AppContent />
-      </MemoryRouter>
-    </GridProvider>
+    <SessionProvider>
+      <GridProvider>
+        <MemoryRouter initialEntries={['/login']}>
+          <AppContent />
+        </MemoryRouter>
+      </GridProvider>
+    </SessionProvider>
   );
 };
 
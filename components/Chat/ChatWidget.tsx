@@ -1,10 +1,16 @@
 
 import React, { useState, useRef, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '../Common/Button';
 import { genAiService } from '../../services/genAiService';
 import { liveService } from '../../services/liveService';
 import { auditService } from '../../services/auditService';
 import { notificationService } from '../../services/notificationService';
+import { dualAuthorization } from '../../services/dualAuthorization';
+import { sessionService } from '../../services/sessionService';
+import { useSession } from '../../context/SessionContext';
+import { GeoChunk } from '../../services/geoRetrieval';
+import { ROUTES } from '../../constants';
 
 interface Message {
   id: string;
@@ -22,6 +28,7 @@ interface Message {
   confidence?: number; // New: 0-100
   reasoning?: string;  // New: Chain of Thought
   feedback?: 'positive' | 'negative' | 'flagged'; // RLHF State
+  cancelled?: boolean; // Operator stopped the stream; content is partial
 }
 
 // 1x1 Pixel Red Dot (Placeholder) -> Replaced with a tiny thermal-like pattern for demo
@@ -37,9 +44,13 @@ const QUICK_ACTIONS = [
 ];
 
 export const ChatWidget: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { can } = useSession();
   const [isOpen, setIsOpen] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  const [activeStream, setActiveStream] = useState<AbortController | null>(null);
   const [inputValue, setInputValue] = useState('');
   const [isAiConnected, setIsAiConnected] = useState(false);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
@@ -269,7 +280,7 @@ export const ChatWidget: React.FC = () => {
 
     // Log to Immutable Audit Ledger
     auditService.log({
-      operatorId: "USR-DEMO",
+      operatorId: sessionService.getOperatorId(),
       eventType: "AI_RECOMMENDATION",
       resource: "LLM_RESPONSE",
       details: `User marked response ${msgId} as ${type.toUpperCase()}`
@@ -282,6 +293,16 @@ export const ChatWidget: React.FC = () => {
     }
   };
 
+  // Cited map feature: fly the Digital Twin there, opening it if needed
+  const flyToChunk = (chunk: GeoChunk) => {
+    const target = { coords: [chunk.geo.lon, chunk.geo.lat], label: chunk.geo.title };
+    if (location.pathname === ROUTES.RECON) {
+      window.dispatchEvent(new CustomEvent('gridguard-navigate-map', { detail: target }));
+    } else {
+      navigate(ROUTES.RECON, { state: { flyTo: target } });
+    }
+  };
+
   const handleChipClick = (prompt: string) => {
     setInputValue(prompt);
     // Optional: Auto-send or just fill
@@ -357,7 +378,19 @@ export const ChatWidget: React.FC = () => {
             const finalPrompt = showReasoning
               ? `${userMsg.content} (Explicitly separate your Chain of Thought REASONING from your FINAL RESPONSE)`
               : userMsg.content;
-            const responseText = await genAiService.sendMessage(finalPrompt);
+            // Stream into a reply bubble that appears with the first chunk
+            const replyId = (Date.now() + 1).toString();
+            const upsertReply = (patch: Partial<Message>) => setMessages(prev => prev.some(m => m.id === replyId)
+              ? prev.map(m => m.id === replyId ? { ...m, ...patch } : m)
+              : [...prev, { id: replyId, role: 'assistant', content: '', timestamp: new Date().toLocaleTimeString(), ...patch }]);
+
+            const controller = new AbortController();
+            setActiveStream(controller);
+            const result = await genAiService.sendMessageStream(finalPrompt, {
+              signal: controller.signal,
+              onChunk: text => upsertReply({ content: text })
+            }).finally(() => setActiveStream(null));
+            const responseText = result.text;
 
             // Check for Guardrail Intervention Signal
             const isGuardrail = responseText.startsWith("GUARDRAIL_INTERVENTION:");
@@ -371,14 +404,12 @@ export const ChatWidget: React.FC = () => {
               cleanText = cleanText.replace(confMatch[0], "").trim();
             }
 
-            setMessages(prev => [...prev, {
-              id: (Date.now() + 1).toString(),
-              role: 'assistant',
-              content: cleanText,
-              timestamp: new Date().toLocaleTimeString(),
+            upsertReply({
+              content: cleanText || (result.cancelled ? '(Stopped before any output.)' : ''),
               isGuardrail: isGuardrail,
-              confidence: confidence > 0 ? confidence : undefined
-            }]);
+              confidence: confidence > 0 ? confidence : undefined,
+              cancelled: result.cancelled
+            });
           }
         }
       } else {
@@ -404,23 +435,54 @@ export const ChatWidget: React.FC = () => {
   };
 
   const handleApproval = async (msgId: string, approved: boolean, toolName: string, args: any) => {
+    if (!sessionService.authorize('ACTUATE', `${approved ? 'Approve' : 'Reject'} ${toolName}`)) return;
+
     setMessages(prev => prev.map(m =>
       m.id === msgId && m.approvalRequest
         ? { ...m, approvalRequest: { ...m.approvalRequest, status: approved ? 'approved' : 'rejected' } }
         : m
     ));
 
-    auditService.log({
-      operatorId: "USR-DEMO",
-      eventType: approved ? "OPERATOR_APPROVAL" : "OPERATOR_OVERRIDE",
-      resource: toolName,
-      details: JSON.stringify(args)
-    });
-
     if (approved) {
+      // Two-person rule: RED-tier / above-threshold calls wait for a supervisor
+      let approvedBy = sessionService.getOperatorId();
+      let dualAuthorizationId: string | undefined;
+      if (genAiService.assessTool(toolName, args).requiresSecondApprover) {
+        const requestedBy = dualAuthorization.localOperator();
+        const pending = genAiService.requestToolApproval(toolName, args, requestedBy);
+        setMessages(prev => [...prev, {
+          id: `dual-${Date.now()}`,
+          role: 'system',
+          content: `TWO-PERSON RULE: ${pending.riskTier} action awaiting supervisor second approval.`,
+          timestamp: new Date().toLocaleTimeString()
+        }]);
+
+        const decision = await dualAuthorization.waitForDecision(pending.id);
+        if (decision.status !== 'APPROVED') {
+          setMessages(prev => [...prev, {
+            id: `dual-${Date.now()}`,
+            role: 'system',
+            content: `ACTION NOT AUTHORIZED: second approval ${decision.status}${decision.approvedBy ? ` by ${decision.approvedBy.name}` : ''}${decision.reason ? ` (${decision.reason})` : ''}.`,
+            timestamp: new Date().toLocaleTimeString()
+          }]);
+          return;
+        }
+        approvedBy = requestedBy.id;
+        dualAuthorizationId = decision.id;
+      }
+
+      // Recorded once authorized, so a refused second approval leaves no approval entry
+      auditService.log({
+        operatorId: approvedBy,
+        eventType: "OPERATOR_APPROVAL",
+        resource: toolName,
+        details: JSON.stringify(args),
+        metadata: { dualAuthorizationId }
+      });
+
       setIsTyping(true);
       try {
-        const result = await genAiService.executeTool(toolName, args);
+        const result = await genAiService.executeTool(toolName, args, approvedBy, dualAuthorizationId);
         setMessages(prev => [...prev, {
           id: `res-${Date.now()}`,
           role: 'assistant',
@@ -444,6 +506,12 @@ export const ChatWidget: React.FC = () => {
         setIsTyping(false);
       }
     } else {
+      auditService.log({
+        operatorId: sessionService.getOperatorId(),
+        eventType: "OPERATOR_OVERRIDE",
+        resource: toolName,
+        details: JSON.stringify(args)
+      });
       setMessages(prev => [...prev, {
         id: `rej-${Date.now()}`,
         role: 'system',
@@ -543,7 +611,7 @@ export const ChatWidget: React.FC = () => {
       <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-[var(--bg-primary)]">
         {messages.map((msg) => (
           <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
-            <div className={`max-w-[90%] rounded px-3 py-2 text-sm group relative ${msg.role === 'user'
+            <div className={`max-w-[90%] rounded px-3 py-2 text-sm whitespace-pre-wrap group relative ${msg.role === 'user'
               ? 'bg-[var(--status-info)] text-[var(--text-inverse)]'
               : msg.role === 'system'
                 ? 'bg-transparent text-[var(--text-muted)] font-mono text-xs border border-[var(--border-default)] w-full text-center'
@@ -564,6 +632,9 @@ export const ChatWidget: React.FC = () => {
                 <img src={msg.imageUrl} alt="Uploaded" className="max-w-full h-auto rounded mb-2 border border-white/20" />
               )}
               {msg.content}
+              {msg.cancelled && (
+                <div className="mt-1 text-[10px] font-mono uppercase text-[var(--status-warning)]">Response stopped by operator</div>
+              )}
 
               {/* GOOGLE GROUNDING SOURCES */}
               {msg.groundingChunks && msg.groundingChunks.length > 0 && (
@@ -573,6 +644,19 @@ export const ChatWidget: React.FC = () => {
                     Verified Sources
                   </div>
                   {msg.groundingChunks.map((chunk, idx) => {
+                    if (chunk.geo) {
+                      return (
+                        <button
+                          key={`geo-${idx}`}
+                          onClick={() => flyToChunk(chunk)}
+                          className="block w-full text-left text-xs text-[var(--text-link)] hover:underline truncate"
+                          title={chunk.geo.text}
+                        >
+                          [{idx + 1}] {chunk.geo.title}
+                          {chunk.geo.distanceMiles !== undefined && <span className="text-[var(--text-muted)]"> · {chunk.geo.distanceMiles} mi</span>}
+                        </button>
+                      );
+                    }
                     if (chunk.web?.uri) {
                       return (
                         <a key={`web-${idx}`} href={chunk.web.uri} target="_blank" rel="noopener noreferrer" className="block text-xs text-[var(--text-link)] hover:underline truncate">
@@ -649,13 +733,15 @@ export const ChatWidget: React.FC = () => {
                     <div className="flex gap-2">
                       <button
                         onClick={() => handleApproval(msg.id, true, msg.approvalRequest!.toolName, msg.approvalRequest!.args)}
-                        className="flex-1 bg-[var(--status-normal)] hover:bg-[var(--status-normal-emphasis)] text-white text-xs py-1 rounded transition-colors"
+                        disabled={!can('ACTUATE')}
+                        className="flex-1 bg-[var(--status-normal)] hover:bg-[var(--status-normal-emphasis)] text-white text-xs py-1 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         APPROVE
                       </button>
                       <button
                         onClick={() => handleApproval(msg.id, false, msg.approvalRequest!.toolName, msg.approvalRequest!.args)}
-                        className="flex-1 bg-[var(--bg-hover)] hover:bg-[var(--bg-tertiary)] text-[var(--text-secondary)] text-xs py-1 rounded transition-colors border border-[var(--border-default)]"
+                        disabled={!can('ACTUATE')}
+                        className="flex-1 bg-[var(--bg-hover)] hover:bg-[var(--bg-tertiary)] text-[var(--text-secondary)] text-xs py-1 rounded transition-colors border border-[var(--border-default)] disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         REJECT
                       </button>
@@ -765,13 +851,24 @@ export const ChatWidget: React.FC = () => {
             className={`flex-1 bg-[var(--bg-primary)] border border-[var(--border-default)] text-[var(--text-primary)] text-sm rounded px-3 py-2 focus:outline-none focus:border-[var(--border-emphasis)] focus:ring-1 focus:ring-[var(--border-emphasis)] font-mono ${isVoiceActive ? 'opacity-50 cursor-not-allowed' : ''}`}
           />
 
-          <button
-            type="submit"
-            disabled={(!inputValue.trim() && !selectedImage) || isTyping || isVoiceActive}
-            className="text-[var(--text-link)] hover:text-[var(--text-primary)] disabled:opacity-50 p-2"
-          >
-            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="22" y1="2" x2="11" y2="13"></line><polygon points="22 2 15 22 11 13 2 9 22 2"></polygon></svg>
-          </button>
+          {activeStream ? (
+            <button
+              type="button"
+              onClick={() => activeStream.abort()}
+              className="text-[var(--status-critical)] hover:text-[var(--text-primary)] p-2"
+              title="Stop Response"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="6" width="12" height="12" rx="1"></rect></svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={(!inputValue.trim() && !selectedImage) || isTyping || isVoiceActive}
+              className="text-[var(--text-link)] hover:text-[var(--text-primary)] disabled:opacity-50 p-2"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="22" y1="2" x2="11" y2="13"></line><polygon points="22 2 15 22 11 13 2 9 22 2"></polygon></svg>
+            </button>
+          )}
         </div>
       </form>
     </div>
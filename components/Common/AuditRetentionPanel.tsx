@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card } from './Card';
+import { Button } from './Button';
+import { auditService } from '../../services/auditService';
+import { auditArchive, AuditArchiveManifest, ArchiveVerification } from '../../services/auditArchive';
+import { sessionService } from '../../services/sessionService';
+import { notificationService } from '../../services/notificationService';
+import { useSession } from '../../context/SessionContext';
+
+/**
+ * Audit retention: hot window policy, archive bundles for download, and
+ * verification of a re-imported bundle. Changing the policy or archiving
+ * requires EDIT_SETTINGS.
+ */
+export const AuditRetentionPanel: React.FC = () => {
+  const { can } = useSession();
+  const [hotDays, setHotDays] = useState(auditService.getRetentionPolicy().hotDays);
+  const [autoArchive, setAutoArchive] = useState(auditService.getRetentionPolicy().autoArchive);
+  const [archives, setArchives] = useState<AuditArchiveManifest[]>([]);
+  const [verification, setVerification] = useState<ArchiveVerification | null>(null);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const bundleInput = useRef<HTMLInputElement>(null);
+
+  // Archival runs in the background too; refresh the list on audit activity
+  useEffect(() => auditService.subscribe(() => setArchives([...auditArchive.getManifests()].reverse())), []);
+
+  const savePolicy = async () => {
+    if (!sessionService.authorize('EDIT_SETTINGS', 'Change audit retention')) return;
+    const days = Math.max(1, Math.round(hotDays));
+    await auditService.setRetentionPolicy({ hotDays: days, autoArchive }, sessionService.getOperatorId());
+    setHotDays(days);
+    notificationService.success('Retention Updated', `Keeping ${days} days of audit entries hot.`);
+  };
+
+  const archiveNow = async () => {
+    if (!sessionService.authorize('EDIT_SETTINGS', 'Archive audit entries')) return;
+    setIsArchiving(true);
+    const manifest = await auditService.applyRetention(sessionService.getOperatorId());
+    setIsArchiving(false);
+    if (manifest) {
+      notificationService.success('Audit Archived', `${manifest.entryCount} entries sealed in ${manifest.archiveId}.`);
+    } else {
+      notificationService.info('Nothing to Archive', 'No sealed checkpoint range is older than the retention window.');
+    }
+  };
+
+  const download = async (manifest: AuditArchiveManifest) => {
+    const bundle = await auditArchive.getBundle(manifest.archiveId);
+    if (!bundle) return;
+    const url = URL.createObjectURL(bundle);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `gridguard_audit_${manifest.archiveId.toLowerCase()}.json.gz`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    auditService.log({
+      operatorId: sessionService.getOperatorId(),
+      eventType: 'EXPORT_GENERATED',
+      resource: 'AUDIT_ARCHIVE',
+      details: `Archive bundle ${manifest.archiveId} downloaded`
+    });
+  };
+
+  const verifyBundle = async (file?: File) => {
+    if (file) setVerification(await auditArchive.verifyBundle(file));
+  };
+
+  return (
+    <Card className="bg-[var(--bg-secondary)]">
+      <div className="p-3 space-y-3 text-xs">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <span className="text-[var(--text-secondary)] uppercase">Retention</span>
+          <div className="flex items-center gap-2">
+            <label className="text-[var(--text-muted)]">Keep hot</label>
+            <input
+              type="number"
+              min={1}
+              value={hotDays}
+              onChange={e => setHotDays(Number(e.target.value))}
+              disabled={!can('EDIT_SETTINGS')}
+              className="w-16 bg-[var(--bg-primary)] border border-[var(--border-default)] rounded px-2 py-1 font-mono text-[var(--text-primary)] disabled:opacity-50"
+            />
+            <span className="text-[var(--text-muted)]">days</span>
+            <label className="flex items-center gap-1 text-[var(--text-muted)] ml-2">
+              <input type="checkbox" checked={autoArchive} onChange={e => setAutoArchive(e.target.checked)} disabled={!can('EDIT_SETTINGS')} />
+              Auto-archive
+            </label>
+            <Button variant="secondary" size="sm" onClick={savePolicy} disabled={!can('EDIT_SETTINGS')}>
+              Save
+            </Button>
+            <Button variant="secondary" size="sm" onClick={archiveNow} disabled={!can('EDIT_SETTINGS') || isArchiving}>
+              {isArchiving ? 'Archiving…' : 'Archive Now'}
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => bundleInput.current?.click()}>
+              Verify Bundle
+            </Button>
+            <input
+              ref={bundleInput}
+              type="file"
+              accept=".gz,application/gzip"
+              className="hidden"
+              onChange={e => { verifyBundle(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </div>
+        </div>
+
+        {archives.length > 0 && (
+          <div className="space-y-1 font-mono">
+            {archives.map(m => (
+              <div key={m.archiveId} className="flex items-center justify-between bg-[var(--bg-primary)] border border-[var(--border-muted)] rounded px-2 py-1">
+                <span className="text-[var(--text-primary)]">
+                  {m.archiveId} · {m.entryCount} entries · {new Date(m.fromTimestampMs).toLocaleDateString()} → {new Date(m.toTimestampMs).toLocaleDateString()}
+                  <span className="text-[var(--text-muted)] ml-2">final {m.finalHash}</span>
+                </span>
+                <button onClick={() => download(m)} className="text-[var(--text-link)] hover:underline">DOWNLOAD</button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {verification && (
+          <div className={`font-mono ${verification.valid ? 'text-green-400' : 'text-red-400'}`}>
+            {verification.valid
+              ? `${verification.manifest?.archiveId}: seal, ${verification.manifest?.entryCount} hash links and ${verification.checkpoints.length} signed checkpoints verified`
+              : `${verification.manifest?.archiveId ?? 'Bundle'}: ${verification.errors.join('; ')}`}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Card } from './Card';
+import { Button } from './Button';
+import {
+  complianceEvidence, EVIDENCE_STANDARDS, EvidencePeriod, EvidenceStandard
+} from '../../services/complianceEvidence';
+import { sessionService } from '../../services/sessionService';
+import { notificationService } from '../../services/notificationService';
+
+const STANDARD_IDS = Object.keys(EVIDENCE_STANDARDS) as EvidenceStandard[];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (ms: number) => new Date(ms).toISOString().substring(0, 10);
+
+/**
+ * NERC evidence package export: pick standards, a UTC date window and the
+ * summary period, then download the ZIP.
+ */
+export const ComplianceEvidencePanel: React.FC = () => {
+  const [standards, setStandards] = useState<EvidenceStandard[]>(STANDARD_IDS);
+  const [startDate, setStartDate] = useState(toDateInput(Date.now() - 30 * DAY_MS));
+  const [endDate, setEndDate] = useState(toDateInput(Date.now()));
+  const [period, setPeriod] = useState<EvidencePeriod>('WEEK');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const toggle = (id: EvidenceStandard) => {
+    setStandards(current => current.includes(id) ? current.filter(s => s !== id) : [...current, id]);
+  };
+
+  const generate = async () => {
+    setIsGenerating(true);
+    try {
+      const { blob, filename, evidence } = await complianceEvidence.exportPackage({
+        standards,
+        startTime: Date.parse(`${startDate}T00:00:00Z`),
+        endTime: Date.parse(`${endDate}T23:59:59.999Z`),
+        period
+      }, sessionService.getOperatorId());
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      const total = evidence.standards.reduce((sum, s) => sum + s.totalEntries, 0);
+      if (evidence.chainVerification.valid) {
+        notificationService.success('Evidence Package Ready', `${total} entries across ${standards.join(', ')}.`);
+      } else {
+        notificationService.warning('Evidence Package Ready', 'Audit chain verification FAILED; see chain_verification.json.');
+      }
+    } catch (e) {
+      notificationService.error('Evidence Export Failed', e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const inputClass = 'bg-[var(--bg-primary)] border border-[var(--border-default)] rounded px-2 py-1 font-mono text-[var(--text-primary)]';
+
+  return (
+    <Card className="bg-[var(--bg-secondary)]">
+      <div className="p-3 flex items-center justify-between gap-3 flex-wrap text-xs">
+        <span className="text-[var(--text-secondary)] uppercase">NERC Evidence</span>
+        <div className="flex items-center gap-2 flex-wrap">
+          {STANDARD_IDS.map(id => (
+            <label key={id} className="flex items-center gap-1 text-[var(--text-muted)]" title={EVIDENCE_STANDARDS[id].scope}>
+              <input type="checkbox" checked={standards.includes(id)} onChange={() => toggle(id)} />
+              {id}
+            </label>
+          ))}
+          <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClass} />
+          <span className="text-[var(--text-muted)]">→</span>
+          <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className={inputClass} />
+          <select value={period} onChange={e => setPeriod(e.target.value as EvidencePeriod)} className={inputClass}>
+            <option value="DAY">Daily</option>
+            <option value="WEEK">Weekly</option>
+            <option value="MONTH">Monthly</option>
+          </select>
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={generate}
+            disabled={isGenerating || standards.length === 0 || !startDate || !endDate || startDate > endDate}
+          >
+            {isGenerating ? 'Generating…' : 'Export ZIP'}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { dualAuthorization, DualAuthRequest } from '../../services/dualAuthorization';
+
+/**
+ * Two-person rule prompt: lists actions awaiting a supervisor's second
+ * approval with their expiry countdown. The supervisor signs in here with
+ * their own username and password and gives a reason for approving or
+ * rejecting.
+ */
+const PendingAuthorization: React.FC<{ request: DualAuthRequest; now: number }> = ({ request, now }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const secondsLeft = Math.max(0, Math.ceil((request.expiresAt - now) / 1000));
+  const ready = username.trim() && password && reason.trim() && !isVerifying;
+
+  const decide = async (approve: boolean) => {
+    setIsVerifying(true);
+    const credentials = { username, password };
+    const result = approve
+      ? await dualAuthorization.approve(request.id, credentials, reason)
+      : await dualAuthorization.reject(request.id, credentials, reason);
+    setIsVerifying(false);
+    setPassword('');
+    setError(result.ok ? null : result.error ?? 'Authorization failed');
+  };
+
+  return (
+    <div className="pointer-events-auto rounded-lg border border-[var(--status-critical)] bg-[var(--bg-secondary)] shadow-lg p-4 space-y-3">
+      <div className="flex justify-between items-start gap-2">
+        <div>
+          <p className="text-xs font-bold uppercase tracking-wide text-[var(--status-critical)]">Supervisor Approval Required</p>
+          <p className="text-sm font-mono text-[var(--text-primary)] mt-1">{request.summary}</p>
+        </div>
+        <span className={`text-xs font-mono px-2 py-0.5 rounded border ${secondsLeft <= 30 ? 'border-[var(--status-critical)] text-[var(--status-critical)]' : 'border-[var(--border-default)] text-[var(--text-secondary)]'}`}>
+          {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+        </span>
+      </div>
+
+      <div className="text-xs text-[var(--text-secondary)] space-y-1">
+        <p>Tier <span className="font-bold text-[var(--text-primary)]">{request.riskTier}</span> · {request.source} · first approval by {request.requestedBy.name}</p>
+        {request.riskReasons.length > 0 && <p className="font-mono opacity-80">{request.riskReasons.join('; ')}</p>}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={username}
+          onChange={e => setUsername(e.target.value)}
+          placeholder="Supervisor username"
+          autoComplete="off"
+          className="w-1/2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded text-xs p-2 text-[var(--text-primary)]"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete="off"
+          className="w-1/2 bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded text-xs p-2 text-[var(--text-primary)]"
+        />
+      </div>
+
+      <textarea
+        value={reason}
+        onChange={e => setReason(e.target.value)}
+        placeholder="Reason (required)"
+        rows={2}
+        className="w-full bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded text-xs p-2 text-[var(--text-primary)] resize-none"
+      />
+
+      {error && <p className="text-xs text-[var(--status-critical)]">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => decide(true)}
+          disabled={!ready}
+          className="flex-1 bg-[var(--status-critical)] text-white text-xs font-bold py-1.5 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isVerifying ? 'VERIFYING…' : 'AUTHORIZE'}
+        </button>
+        <button
+          onClick={() => decide(false)}
+          disabled={!ready}
+          className="flex-1 bg-[var(--bg-hover)] text-[var(--text-secondary)] text-xs py-1.5 rounded border border-[var(--border-default)] disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          REJECT
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const DualAuthorizationPanel: React.FC = () => {
+  const [pending, setPending] = useState<DualAuthRequest[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    return dualAuthorization.subscribe(requests => setPending(requests.filter(r => r.status === 'PENDING')));
+  }, []);
+
+  useEffect(() => {
+    if (pending.length === 0) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pending.length]);
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 lg:left-72 z-[90] flex flex-col gap-2 w-full max-w-sm pointer-events-none">
+      {pending.map(request => (
+        <PendingAuthorization key={request.id} request={request} now={now} />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from './Card';
+import { Button } from './Button';
+import type { LlmFeature } from '../../services/llmProvider';
+import {
+  llmScheduler, DailyUsage, FeatureUsage, FEATURE_PRIORITY, LLM_FEATURE_LABELS, LLM_PRIORITIES,
+  SchedulerPolicy, SchedulerSnapshot
+} from '../../services/llmScheduler';
+import { sessionService } from '../../services/sessionService';
+import { notificationService } from '../../services/notificationService';
+import { useSession } from '../../context/SessionContext';
+
+const FEATURES = Object.keys(LLM_FEATURE_LABELS) as LlmFeature[];
+
+const POLICY_FIELDS: { key: keyof SchedulerPolicy; label: string; step: number; min: number; max?: number }[] = [
+  { key: 'requestsPerMinute', label: 'Requests / min', step: 1, min: 1 },
+  { key: 'tokensPerMinute', label: 'Tokens / min', step: 1000, min: 1 },
+  { key: 'maxConcurrent', label: 'Concurrent', step: 1, min: 1 },
+  { key: 'operatorReserve', label: 'Operator reserve', step: 0.05, min: 0, max: 1 },
+  { key: 'dailyTokenBudget', label: 'Daily tokens (0 = ∞)', step: 100000, min: 0 },
+  { key: 'dailyCostBudgetUsd', label: 'Daily USD (0 = ∞)', step: 1, min: 0 },
+  { key: 'maxRetries', label: 'Retries on 429', step: 1, min: 0 }
+];
+
+const formatTokens = (n: number) => n >= 1e6 ? `${(n / 1e6).toFixed(2)}M` : n >= 1e3 ? `${(n / 1e3).toFixed(1)}k` : String(n);
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const dayTotals = (day: DailyUsage) => Object.values(day.features).reduce(
+  (sum, u: FeatureUsage) => ({ tokens: sum.tokens + u.inputTokens + u.outputTokens, costUsd: sum.costUsd + u.costUsd }),
+  { tokens: 0, costUsd: 0 }
+);
+
+/**
+ * LLM usage: today's spend per feature against the daily budgets, the
+ * week's cost history, live queue/backoff state and the scheduler limits.
+ * Changing the limits requires EDIT_SETTINGS.
+ */
+export const LlmUsagePanel: React.FC = () => {
+  const { can } = useSession();
+  const [snapshot, setSnapshot] = useState<SchedulerSnapshot>(llmScheduler.getSnapshot());
+  const [history, setHistory] = useState<DailyUsage[]>(llmScheduler.getUsage(7));
+  const [policy, setPolicy] = useState<SchedulerPolicy>(llmScheduler.getPolicy());
+
+  useEffect(() => llmScheduler.subscribe(s => {
+    setSnapshot(s);
+    setHistory(llmScheduler.getUsage(7));
+  }), []);
+
+  const savePolicy = () => {
+    if (!sessionService.authorize('EDIT_SETTINGS', 'Change LLM limits and budgets')) return;
+    let applied: SchedulerPolicy;
+    try {
+      applied = llmScheduler.setPolicy(policy, sessionService.getOperatorId());
+    } catch (e) {
+      notificationService.error('LLM Limits Not Saved', e instanceof Error ? e.message : String(e));
+      return;
+    }
+    setPolicy(applied);
+    notificationService.success('LLM Limits Updated', `${applied.requestsPerMinute} req/min, daily budget ${applied.dailyCostBudgetUsd ? `$${applied.dailyCostBudgetUsd}` : 'unlimited'}.`);
+  };
+
+  const today = dayTotals(snapshot.today);
+  const maxCost = Math.max(...history.map(d => dayTotals(d).costUsd), 0.0001);
+  const budgetBar = (used: number, budget: number) => budget > 0 ? Math.min(100, (used / budget) * 100) : 0;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card title="Today's Spend" status={snapshot.budgetExhausted ? 'warning' : 'default'}>
+        <div className="space-y-4 text-xs">
+          {[
+            { label: 'Tokens', used: today.tokens, budget: policy.dailyTokenBudget, format: formatTokens },
+            { label: 'Cost', used: today.costUsd, budget: policy.dailyCostBudgetUsd, format: formatCost }
+          ].map(({ label, used, budget, format }) => (
+            <div key={label}>
+              <div className="flex justify-between">
+                <span className="text-[var(--text-muted)] uppercase">{label}</span>
+                <span className="font-mono text-[var(--text-primary)]">{format(used)}{budget > 0 ? ` / ${format(budget)}` : ''}</span>
+              </div>
+              <div className="h-2 bg-[var(--bg-tertiary)] rounded mt-1 overflow-hidden">
+                <div
+                  className={`h-full ${budgetBar(used, budget) >= 100 ? 'bg-[var(--status-critical)]' : budgetBar(used, budget) >= 80 ? 'bg-[var(--status-warning)]' : 'bg-[var(--status-normal)]'}`}
+                  style={{ width: `${budgetBar(used, budget)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+          {snapshot.budgetExhausted && (
+            <div className="text-[var(--status-warning)]">Budget spent: agents and embeddings paused until midnight.</div>
+          )}
+
+          <div className="pt-2 border-t border-[var(--border-muted)] font-mono space-y-1">
+            {LLM_PRIORITIES.map(p => (
+              <div key={p} className="flex justify-between">
+                <span className="text-[var(--text-muted)]">{p}</span>
+                <span className="text-[var(--text-primary)]">{snapshot.queued[p]} queued</span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span className="text-[var(--text-muted)]">IN FLIGHT</span>
+              <span className="text-[var(--text-primary)]">{snapshot.inFlight}</span>
+            </div>
+            {snapshot.backoffUntil && (
+              <div className="text-[var(--status-warning)]">Rate limited; backing off until {new Date(snapshot.backoffUntil).toLocaleTimeString()}</div>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      <Card title="Usage by Feature (Today)" className="lg:col-span-2">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-[var(--text-muted)] text-left">
+              <th className="py-1">Feature</th>
+              <th>Priority</th>
+              <th className="text-right">Requests</th>
+              <th className="text-right">Tokens in / out</th>
+              <th className="text-right">Cost</th>
+              <th className="text-right">Errors</th>
+              <th className="text-right">Throttled</th>
+              <th className="text-right">Refused</th>
+            </tr>
+          </thead>
+          <tbody>
+            {FEATURES.map(feature => {
+              const u = snapshot.today.features[feature];
+              return (
+                <tr key={feature} className="border-t border-[var(--border-muted)] text-[var(--text-primary)]">
+                  <td className="py-1 font-sans">{LLM_FEATURE_LABELS[feature]}</td>
+                  <td className="text-[var(--text-muted)]">{FEATURE_PRIORITY[feature]}</td>
+                  <td className="text-right">{u?.requests ?? 0}</td>
+                  <td className="text-right">{formatTokens(u?.inputTokens ?? 0)} / {formatTokens(u?.outputTokens ?? 0)}</td>
+                  <td className="text-right">{formatCost(u?.costUsd ?? 0)}</td>
+                  <td className={`text-right ${u?.errors ? 'text-[var(--status-critical)]' : ''}`}>{u?.errors ?? 0}</td>
+                  <td className={`text-right ${u?.throttled ? 'text-[var(--status-warning)]' : ''}`}>{u?.throttled ?? 0}</td>
+                  <td className={`text-right ${u?.rejected ? 'text-[var(--status-warning)]' : ''}`}>{u?.rejected ?? 0}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="text-[10px] text-[var(--text-muted)] mt-2">
+          Cost uses list prices for Gemini models; local and replayed models are counted as free.
+        </div>
+      </Card>
+
+      <Card title="Cost, Last 7 Days">
+        <div className="flex items-end gap-2 h-32">
+          {history.map(day => {
+            const { costUsd } = dayTotals(day);
+            return (
+              <div key={day.date} className="flex-1 flex flex-col items-center justify-end h-full" title={`${day.date}: ${formatCost(costUsd)}`}>
+                <div className="w-full bg-[var(--status-info)] rounded-t" style={{ height: `${(costUsd / maxCost) * 100}%` }} />
+                <span className="text-[10px] text-[var(--text-muted)] mt-1 font-mono">{day.date.slice(5)}</span>
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+
+      <Card title="Limits & Budgets" className="lg:col-span-2">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+          {POLICY_FIELDS.map(({ key, label, step, min, max }) => (
+            <label key={key} className="flex flex-col gap-1">
+              <span className="text-[var(--text-muted)]">{label}</span>
+              <input
+                type="number"
+                min={min}
+                max={max}
+                step={step}
+                value={policy[key]}
+                onChange={e => setPolicy({ ...policy, [key]: Number(e.target.value) })}
+                disabled={!can('EDIT_SETTINGS')}
+                className="bg-[var(--bg-primary)] border border-[var(--border-default)] rounded px-2 py-1 font-mono text-[var(--text-primary)] disabled:opacity-50"
+              />
+            </label>
+          ))}
+          <div className="flex items-end">
+            <Button variant="secondary" size="sm" onClick={savePolicy} disabled={!can('EDIT_SETTINGS')}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ import { genAiService } from '../../services/genAiService';
 import { auditService } from '../../services/auditService';
 import { knowledgeService } from '../../services/knowledgeService';
 import { notificationService } from '../../services/notificationService';
+import { useSession } from '../../context/SessionContext';
 
 interface ModelCardProps {
   isOpen: boolean;
@@ -15,6 +16,7 @@ export const ModelCard: React.FC<ModelCardProps> = ({ isOpen, onClose }) => {
   const [activeTab, setActiveTab] = useState<'RISK' | 'CONTROLS' | 'CONSTITUTION'>('RISK');
   const [safetyState, setSafetyState] = useState(genAiService.safetyState);
   const [knowledgeItems, setKnowledgeItems] = useState(knowledgeService.getKnowledgeBase());
+  const canToggle = useSession().can('TOGGLE_SAFETY');
 
   useEffect(() => {
     if (isOpen) {
@@ -25,7 +27,9 @@ export const ModelCard: React.FC<ModelCardProps> = ({ isOpen, onClose }) => {
   }, [isOpen]);
 
   const toggleSwitch = (key: keyof typeof genAiService.safetyState, label: string) => {
+    const previous = genAiService.safetyState[key];
     const newState = genAiService.toggleKillSwitch(key);
+    if (newState === previous) return; // Denied by role (audited in sessionService)
     setSafetyState(prev => ({ ...prev, [key]: newState }));
     
     if (newState) {
@@ -177,7 +181,8 @@ export const ModelCard: React.FC<ModelCardProps> = ({ isOpen, onClose }) => {
                       </div>
                       <button 
                         onClick={() => toggleSwitch('aiActuationEnabled', 'AI Actuation')}
-                        className={`w-14 h-7 rounded-full p-1 transition-colors ${safetyState.aiActuationEnabled ? 'bg-[var(--status-normal)]' : 'bg-[var(--border-default)]'}`}
+                        disabled={!canToggle}
+                        className={`w-14 h-7 rounded-full p-1 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${safetyState.aiActuationEnabled ? 'bg-[var(--status-normal)]' : 'bg-[var(--border-default)]'}`}
                       >
                          <div className={`w-5 h-5 bg-white rounded-full shadow transition-transform ${safetyState.aiActuationEnabled ? 'translate-x-7' : 'translate-x-0'}`}></div>
                       </button>
@@ -191,7 +196,8 @@ export const ModelCard: React.FC<ModelCardProps> = ({ isOpen, onClose }) => {
                       </div>
                       <button 
                         onClick={() => toggleSwitch('externalToolsEnabled', 'Agent Sandbox')}
-                        className={`w-14 h-7 rounded-full p-1 transition-colors ${safetyState.externalToolsEnabled ? 'bg-[var(--status-normal)]' : 'bg-[var(--border-default)]'}`}
+                        disabled={!canToggle}
+                        className={`w-14 h-7 rounded-full p-1 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${safetyState.externalToolsEnabled ? 'bg-[var(--status-normal)]' : 'bg-[var(--border-default)]'}`}
                       >
                          <div className={`w-5 h-5 bg-white rounded-full shadow transition-transform ${safetyState.externalToolsEnabled ? 'translate-x-7' : 'translate-x-0'}`}></div>
                       </button>
@@ -205,7 +211,8 @@ export const ModelCard: React.FC<ModelCardProps> = ({ isOpen, onClose }) => {
                       </div>
                       <button 
                         onClick={() => toggleSwitch('safeMode', 'Safe Mode')}
-                        className={`w-14 h-7 rounded-full p-1 transition-colors ${safetyState.safeMode ? 'bg-[var(--status-critical)]' : 'bg-[var(--border-default)]'}`}
+                        disabled={!canToggle}
+                        className={`w-14 h-7 rounded-full p-1 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${safetyState.safeMode ? 'bg-[var(--status-critical)]' : 'bg-[var(--border-default)]'}`}
                       >
                          <div className={`w-5 h-5 bg-white rounded-full shadow transition-transform ${safetyState.safeMode ? 'translate-x-7' : 'translate-x-0'}`}></div>
                       </button>
@@ -0,0 +1,42 @@
+import React, { useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useSession } from '../../context/SessionContext';
+import { sessionService } from '../../services/sessionService';
+import { Permission } from '../../types';
+
+interface RequirePermissionProps {
+  permission?: Permission;
+  area: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Route guard: sends anonymous users to login and shows an access-denied
+ * panel (recorded in the audit trail) when the role lacks the permission.
+ */
+export const RequirePermission: React.FC<RequirePermissionProps> = ({ permission, area, children }) => {
+  const { session, can } = useSession();
+  const denied = !!session && !!permission && !can(permission);
+
+  useEffect(() => {
+    if (denied && permission) sessionService.authorize(permission, `Open ${area}`);
+  }, [denied, permission, area]);
+
+  if (!session) return <Navigate to="/login" replace />;
+
+  if (denied) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center gap-3">
+        <div className="text-[10px] font-mono text-[var(--status-critical)] border border-[var(--status-critical)] px-2 py-0.5 rounded bg-[var(--status-critical-muted)] uppercase tracking-wider">
+          Access Denied
+        </div>
+        <h2 className="text-xl font-semibold text-[var(--text-primary)]">{area}</h2>
+        <p className="text-sm text-[var(--text-secondary)] max-w-md">
+          Your role ({session.role}) does not grant access to this area. Contact a supervisor or administrator.
+        </p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { accountService, AccountSummary } from '../../services/accountService';
+import { OPERATOR_ROLES, OperatorRole } from '../../services/sessionService';
+import { notificationService } from '../../services/notificationService';
+
+/**
+ * Operator account administration (ADMIN, inside SettingsModal)
+ */
+export const OperatorAccountsSection: React.FC = () => {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [role, setRole] = useState<OperatorRole>('OPERATOR');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refresh = () => accountService.listAccounts().then(setAccounts).catch(() => setAccounts([]));
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    const result = await accountService.createAccount(username, displayName, role, password);
+    setIsSaving(false);
+    if (!result.ok) {
+      setError(result.error || 'Account creation failed');
+      return;
+    }
+    notificationService.success('Account Created', `${displayName || username} (${role})`);
+    setUsername('');
+    setDisplayName('');
+    setPassword('');
+    setError('');
+    refresh();
+  };
+
+  const handleUnlock = async (account: AccountSummary) => {
+    if (await accountService.unlock(account.username)) refresh();
+  };
+
+  const inputClass = 'w-full bg-[var(--bg-primary)] border border-[var(--border-default)] rounded px-3 py-2 text-xs text-[var(--text-primary)] focus:border-[var(--status-info)] outline-none font-mono';
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-[var(--border-muted)]">
+      <label className="text-xs font-mono text-[var(--text-secondary)] uppercase">Operator Accounts</label>
+
+      <div className="space-y-1">
+        {accounts.map(account => {
+          const locked = !!account.lockedUntil && account.lockedUntil > Date.now();
+          return (
+            <div key={account.username} className="flex items-center justify-between text-[10px] font-mono bg-[var(--bg-primary)] border border-[var(--border-muted)] rounded px-2 py-1">
+              <span className="text-[var(--text-primary)] truncate">{account.displayName} <span className="text-[var(--text-muted)]">({account.username})</span></span>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-[var(--status-info)]">{account.role}</span>
+                {locked && (
+                  <button onClick={() => handleUnlock(account)} className="text-[var(--status-critical)] hover:underline">UNLOCK</button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input value={username} onChange={e => setUsername(e.target.value)} placeholder="Username" className={inputClass} />
+        <input value={displayName} onChange={e => setDisplayName(e.target.value)} placeholder="Display name" className={inputClass} />
+        <input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="Password (12+ chars)" autoComplete="new-password" className={inputClass} />
+        <select value={role} onChange={e => setRole(e.target.value as OperatorRole)} className={inputClass}>
+          {OPERATOR_ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+        </select>
+      </div>
+      {error && <p className="text-[10px] text-[var(--status-critical)] font-mono">{error}</p>}
+      <button
+        onClick={handleCreate}
+        disabled={isSaving || !username || !password}
+        className="text-xs px-3 py-1.5 rounded border border-[var(--border-default)] bg-[var(--bg-tertiary)] hover:bg-[var(--bg-hover)] text-[var(--text-primary)] disabled:opacity-50"
+      >
+        {isSaving ? 'Creating…' : 'Add Account'}
+      </button>
+    </div>
+  );
+};
@@ -1,12 +1,19 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '../Common/Button';
 import { genAiService } from '../../services/genAiService';
 import { liveService } from '../../services/liveService';
 import { apiService } from '../../services/apiService';
 import { agentOrchestrator } from '../../services/agentOrchestrator';
+import { vectorStore } from '../../services/vectorStore';
+import { createLlmProvider, DEFAULT_LOCAL_BASE_URL, getLlmSettings, LLM_PROVIDERS, LlmProviderId, LlmSettings } from '../../services/llmProvider';
+import { parseFixture, replayFixtures, ReplayMode } from '../../services/replayProvider';
+import { auditService } from '../../services/auditService';
 import { notificationService } from '../../services/notificationService';
 import { API_CONFIG } from '../../services/apiConfig';
+import { sessionService } from '../../services/sessionService';
+import { useSession } from '../../context/SessionContext';
+import { OperatorAccountsSection } from './OperatorAccountsSection';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -14,9 +21,19 @@ interface SettingsModalProps {
 }
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
+  const { can } = useSession();
   const [gridKey, setGridKey] = useState('');
   const [ercotKey, setErcotKey] = useState('');
   const [aiKey, setAiKey] = useState('');
+  const [llmProvider, setLlmProvider] = useState<LlmProviderId>('GEMINI');
+  const [localBaseUrl, setLocalBaseUrl] = useState('');
+  const [localModel, setLocalModel] = useState('');
+  const [localEmbeddingModel, setLocalEmbeddingModel] = useState('');
+  const [localApiKey, setLocalApiKey] = useState('');
+  const [replayMode, setReplayMode] = useState<ReplayMode>('REPLAY');
+  const [replaySource, setReplaySource] = useState<LlmSettings['replaySource']>('GEMINI');
+  const [fixtureSummary, setFixtureSummary] = useState({ entries: 0, source: 'none' });
+  const fixtureInput = useRef<HTMLInputElement>(null);
   const [cesiumKey, setCesiumKey] = useState('');
   
   // GridStatus Test State
@@ -29,12 +46,34 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
   const [ercotStatus, setErcotStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [ercotError, setErcotError] = useState<string>('');
 
+  // LLM Provider Test State
+  const [testingLlm, setTestingLlm] = useState(false);
+  const [llmStatus, setLlmStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [llmMessage, setLlmMessage] = useState('');
+
   useEffect(() => {
     if (isOpen) {
+      // System configuration is ADMIN-only
+      if (!sessionService.authorize('EDIT_SETTINGS', 'System configuration')) {
+        onClose();
+        return;
+      }
+
       // Prioritize hardcoded keys, then local storage
       setGridKey(API_CONFIG.GRID_STATUS_KEY || localStorage.getItem('GRID_STATUS_KEY') || '');
       setErcotKey(API_CONFIG.ERCOT_API_KEY || localStorage.getItem('ERCOT_API_KEY') || '');
       setAiKey(API_CONFIG.GOOGLE_API_KEY || localStorage.getItem('GOOGLE_API_KEY') || '');
+      const llmSettings = getLlmSettings();
+      setLlmProvider(llmSettings.provider);
+      setReplayMode(llmSettings.replayMode);
+      setReplaySource(llmSettings.replaySource);
+      refreshFixtureSummary();
+      setLocalBaseUrl(API_CONFIG.LOCAL_LLM_BASE_URL || localStorage.getItem('LOCAL_LLM_BASE_URL') || '');
+      setLocalModel(API_CONFIG.LOCAL_LLM_MODEL || localStorage.getItem('LOCAL_LLM_MODEL') || '');
+      setLocalEmbeddingModel(API_CONFIG.LOCAL_LLM_EMBEDDING_MODEL || localStorage.getItem('LOCAL_LLM_EMBEDDING_MODEL') || '');
+      setLocalApiKey(API_CONFIG.LOCAL_LLM_API_KEY || localStorage.getItem('LOCAL_LLM_API_KEY') || '');
+      setLlmStatus('idle');
+      setLlmMessage('');
       setCesiumKey(API_CONFIG.CESIUM_ION_TOKEN || localStorage.getItem('CESIUM_ION_TOKEN') || '');
       
       setErcotStatus('idle');
@@ -83,17 +122,125 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
       }
   };
 
+  // Backend whose connection fields are shown: a replayed fixture needs none
+  const backend: LlmSettings['replaySource'] | null = llmProvider !== 'REPLAY'
+    ? llmProvider
+    : replayMode === 'RECORD' ? replaySource : null;
+
+  const refreshFixtureSummary = () => {
+    const fixture = replayFixtures.load();
+    setFixtureSummary({ entries: fixture.entries.length, source: fixture.source });
+  };
+
+  const handleTestLlm = async () => {
+    if (!backend) {
+      // Nothing to connect to; report what the fixture can serve
+      setLlmStatus(fixtureSummary.entries > 0 ? 'success' : 'error');
+      setLlmMessage(`${fixtureSummary.entries} recorded`);
+      return;
+    }
+
+    setTestingLlm(true);
+    setLlmStatus('idle');
+    setLlmMessage('');
+
+    // Test the recording source directly so the probe is not written to the fixture
+    const provider = createLlmProvider({
+      provider: backend,
+      replayMode,
+      replaySource,
+      googleApiKey: aiKey,
+      localBaseUrl,
+      localModel,
+      localEmbeddingModel,
+      localApiKey
+    });
+    try {
+      if (!provider) throw new Error(backend === 'GEMINI' ? 'API key required' : 'Model name required');
+      const response = await provider.generate({ model: 'fast', contents: 'Reply with the single word OK.', temperature: 0 });
+      setLlmStatus('success');
+      setLlmMessage(response.model);
+      notificationService.success("AI Provider Verified", `${provider.label} answered using ${response.model}.`);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      setLlmStatus('error');
+      setLlmMessage('Failed');
+      notificationService.error("Connection Failed", message);
+    } finally {
+      setTestingLlm(false);
+    }
+  };
+
+  const exportFixture = () => {
+    const { blob, filename } = replayFixtures.toFile(replayFixtures.load());
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    auditService.log({
+      operatorId: sessionService.getOperatorId(),
+      eventType: 'EXPORT_GENERATED',
+      resource: 'LLM_FIXTURE',
+      details: `LLM replay fixture exported (${fixtureSummary.entries} entries)`
+    });
+  };
+
+  const importFixture = async (file?: File) => {
+    if (!file) return;
+    try {
+      const fixture = parseFixture(await file.text());
+      const persisted = replayFixtures.save(fixture);
+      refreshFixtureSummary();
+      setLlmStatus('idle');
+      auditService.log({
+        operatorId: sessionService.getOperatorId(),
+        eventType: 'CONFIG_CHANGE',
+        resource: 'LLM_FIXTURE',
+        details: `LLM replay fixture imported from ${file.name} (${fixture.entries.length} entries)`,
+        metadata: { source: fixture.source, createdAt: fixture.createdAt }
+      });
+      if (persisted) notificationService.success("Fixture Imported", `${fixture.entries.length} recorded responses. Save to apply.`);
+    } catch (e) {
+      notificationService.error("Import Failed", e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const clearFixture = () => {
+    replayFixtures.clear();
+    refreshFixtureSummary();
+    setLlmStatus('idle');
+    auditService.log({
+      operatorId: sessionService.getOperatorId(),
+      eventType: 'CONFIG_CHANGE',
+      resource: 'LLM_FIXTURE',
+      details: 'LLM replay fixture cleared'
+    });
+  };
+
   const handleSave = () => {
+    if (!sessionService.authorize('EDIT_SETTINGS', 'Save system configuration')) return;
+
     // Only save to localStorage if user modified it (and it's not hardcoded)
     if (gridKey !== API_CONFIG.GRID_STATUS_KEY) localStorage.setItem('GRID_STATUS_KEY', gridKey);
     if (ercotKey !== API_CONFIG.ERCOT_API_KEY) localStorage.setItem('ERCOT_API_KEY', ercotKey);
     if (aiKey !== API_CONFIG.GOOGLE_API_KEY) localStorage.setItem('GOOGLE_API_KEY', aiKey);
+    if (!API_CONFIG.LLM_PROVIDER) localStorage.setItem('LLM_PROVIDER', llmProvider);
+    if (!API_CONFIG.LLM_REPLAY_MODE) localStorage.setItem('LLM_REPLAY_MODE', replayMode);
+    if (!API_CONFIG.LLM_REPLAY_SOURCE) localStorage.setItem('LLM_REPLAY_SOURCE', replaySource);
+    if (localBaseUrl !== API_CONFIG.LOCAL_LLM_BASE_URL) localStorage.setItem('LOCAL_LLM_BASE_URL', localBaseUrl);
+    if (localModel !== API_CONFIG.LOCAL_LLM_MODEL) localStorage.setItem('LOCAL_LLM_MODEL', localModel);
+    if (localEmbeddingModel !== API_CONFIG.LOCAL_LLM_EMBEDDING_MODEL) localStorage.setItem('LOCAL_LLM_EMBEDDING_MODEL', localEmbeddingModel);
+    if (localApiKey !== API_CONFIG.LOCAL_LLM_API_KEY) localStorage.setItem('LOCAL_LLM_API_KEY', localApiKey);
     if (cesiumKey !== API_CONFIG.CESIUM_ION_TOKEN) localStorage.setItem('CESIUM_ION_TOKEN', cesiumKey);
     
     // Hot Reload Services
     genAiService.updateKey();
     liveService.updateKey();
     agentOrchestrator.updateKey();
+    vectorStore.refreshApiKey();
     
     // Dispatch Global Event to force Dashboard refresh
     window.dispatchEvent(new Event('gridguard-config-updated'));
@@ -102,7 +249,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
     onClose();
   };
 
-  if (!isOpen) return null;
+  if (!isOpen || !can('EDIT_SETTINGS')) return null;
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
@@ -182,19 +329,119 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
               )}
            </div>
 
-           {/* GEMINI KEY */}
+           {/* AI PROVIDER */}
            <div className="space-y-1">
-              <label className="text-xs font-mono text-[var(--text-secondary)] uppercase">Google Gemini API Key</label>
-              <input 
-                type="password"
-                value={aiKey}
-                onChange={(e) => setAiKey(e.target.value.trim())}
-                disabled={!!API_CONFIG.GOOGLE_API_KEY}
-                className={`w-full bg-[var(--bg-primary)] border border-[var(--border-default)] rounded px-3 py-2 text-sm text-[var(--text-primary)] focus:border-[var(--status-info)] outline-none font-mono ${!!API_CONFIG.GOOGLE_API_KEY ? 'opacity-50 cursor-not-allowed' : ''}`}
-                placeholder={API_CONFIG.GOOGLE_API_KEY ? "(Key Hardcoded in Config)" : "Enter Key..."}
-              />
+              <div className="flex justify-between items-center">
+                  <label className="text-xs font-mono text-[var(--text-secondary)] uppercase">AI Provider</label>
+                  {llmStatus === 'success' && <span className="text-[var(--status-normal)] text-[10px] font-bold">✓ {llmMessage}</span>}
+                  {llmStatus === 'error' && <span className="text-[var(--status-critical)] text-[10px] font-bold">✕ {llmMessage}</span>}
+              </div>
+              <div className="flex gap-2">
+                <select
+                    value={llmProvider}
+                    onChange={(e) => { setLlmProvider(e.target.value as LlmProviderId); setLlmStatus('idle'); }}
+                    disabled={!!API_CONFIG.LLM_PROVIDER}
+                    className={`w-full bg-[var(--bg-primary)] border border-[var(--border-default)] rounded px-3 py-2 text-sm text-[var(--text-primary)] focus:border-[var(--status-info)] outline-none font-mono ${!!API_CONFIG.LLM_PROVIDER ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                    {(Object.keys(LLM_PROVIDERS) as LlmProviderId[]).map(id => (
+                        <option key={id} value={id}>{LLM_PROVIDERS[id]}</option>
+                    ))}
+                </select>
+                <Button 
+                    variant="secondary" 
+                    size="sm" 
+                    onClick={handleTestLlm} 
+                    disabled={testingLlm || (backend === 'GEMINI' ? !aiKey : backend === 'OPENAI_COMPATIBLE' && !localModel)}
+                    className="min-w-[80px]"
+                >
+                    {testingLlm ? "..." : "TEST"}
+                </Button>
+              </div>
            </div>
 
+           {llmProvider === 'REPLAY' && (
+             /* RECORD / REPLAY FIXTURE */
+             <div className="space-y-2 p-3 rounded border border-[var(--border-muted)]">
+                <div className="flex gap-2">
+                  <select
+                      value={replayMode}
+                      onChange={(e) => { setReplayMode(e.target.value as ReplayMode); setLlmStatus('idle'); }}
+                      disabled={!!API_CONFIG.LLM_REPLAY_MODE}
+                      className="w-full bg-[var(--bg-primary)] border border-[var(--border-default)] rounded px-3 py-2 text-sm text-[var(--text-primary)] outline-none font-mono disabled:opacity-50"
+                  >
+                      <option value="REPLAY">Replay fixture (offline)</option>
+                      <option value="RECORD">Record from…</option>
+                  </select>
+                  {replayMode === 'RECORD' && (
+                    <select
+                        value={replaySource}
+                        onChange={(e) => { setReplaySource(e.target.value as LlmSettings['replaySource']); setLlmStatus('idle'); }}
+                        disabled={!!API_CONFIG.LLM_REPLAY_SOURCE}
+                        className="w-full bg-[var(--bg-primary)] border border-[var(--border-default)] rounded px-3 py-2 text-sm text-[var(--text-primary)] outline-none font-mono disabled:opacity-50"
+                    >
+                        <option value="GEMINI">{LLM_PROVIDERS.GEMINI}</option>
+                        <option value="OPENAI_COMPATIBLE">{LLM_PROVIDERS.OPENAI_COMPATIBLE}</option>
+                    </select>
+                  )}
+                </div>
+                <div className="flex items-center justify-between text-[10px] font-mono text-[var(--text-muted)]">
+                  <span>{fixtureSummary.entries} recorded{fixtureSummary.entries > 0 ? ` from ${fixtureSummary.source}` : ''}</span>
+                  <span className="flex gap-3">
+                    <button onClick={exportFixture} disabled={fixtureSummary.entries === 0} className="text-[var(--text-link)] hover:underline disabled:opacity-50">EXPORT</button>
+                    <button onClick={() => fixtureInput.current?.click()} className="text-[var(--text-link)] hover:underline">IMPORT</button>
+                    <button onClick={clearFixture} disabled={fixtureSummary.entries === 0} className="text-[var(--status-critical)] hover:underline disabled:opacity-50">CLEAR</button>
+                  </span>
+                  <input
+                    ref={fixtureInput}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={e => { importFixture(e.target.files?.[0]); e.target.value = ''; }}
+                  />
+                </div>
+             </div>
+           )}
+
+           {backend === 'GEMINI' && (
+             /* GEMINI KEY */
+             <div className="space-y-1">
+                <label className="text-xs font-mono text-[var(--text-secondary)] uppercase">Google Gemini API Key</label>
+                <input 
+                  type="password"
+                  value={aiKey}
+                  onChange={(e) => { setAiKey(e.target.value.trim()); setLlmStatus('idle'); }}
+                  disabled={!!API_CONFIG.GOOGLE_API_KEY}
+                  className={`w-full bg-[var(--bg-primary)] border border-[var(--border-default)] rounded px-3 py-2 text-sm text-[var(--text-primary)] focus:border-[var(--status-info)] outline-none font-mono ${!!API_CONFIG.GOOGLE_API_KEY ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  placeholder={API_CONFIG.GOOGLE_API_KEY ? "(Key Hardcoded in Config)" : "Enter Key..."}
+                />
+             </div>
+           )}
+
+           {backend === 'OPENAI_COMPATIBLE' && (
+             /* LOCAL OPENAI-COMPATIBLE SERVER (llama.cpp / Ollama / vLLM) */
+             <div className="space-y-2 p-3 rounded border border-[var(--border-muted)]">
+                {([
+                  ['Server URL', localBaseUrl, setLocalBaseUrl, API_CONFIG.LOCAL_LLM_BASE_URL, DEFAULT_LOCAL_BASE_URL, 'text'],
+                  ['Chat Model', localModel, setLocalModel, API_CONFIG.LOCAL_LLM_MODEL, 'e.g. llama3.1:8b', 'text'],
+                  ['Embedding Model', localEmbeddingModel, setLocalEmbeddingModel, API_CONFIG.LOCAL_LLM_EMBEDDING_MODEL, '(Defaults to Chat Model)', 'text'],
+                  ['API Key', localApiKey, setLocalApiKey, API_CONFIG.LOCAL_LLM_API_KEY, '(Optional)', 'password']
+                ] as const).map(([label, value, setValue, hardcoded, placeholder, type]) => (
+                  <div key={label} className="space-y-1">
+                    <label className="text-xs font-mono text-[var(--text-secondary)] uppercase">{label}</label>
+                    <input
+                      type={type}
+                      value={value}
+                      onChange={(e) => { setValue(e.target.value.trim()); setLlmStatus('idle'); }}
+                      disabled={!!hardcoded}
+                      className={`w-full bg-[var(--bg-primary)] border border-[var(--border-default)] rounded px-3 py-2 text-sm text-[var(--text-primary)] focus:border-[var(--status-info)] outline-none font-mono ${!!hardcoded ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      placeholder={hardcoded ? "(Hardcoded in Config)" : placeholder}
+                    />
+                  </div>
+                ))}
+                <p className="text-[10px] text-[var(--text-muted)]">Web search grounding and voice mode require Gemini.</p>
+             </div>
+           )}
+
            {/* CESIUM KEY */}
            <div className="space-y-1">
               <label className="text-xs font-mono text-[var(--text-secondary)] uppercase">
@@ -209,6 +456,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                 placeholder={API_CONFIG.CESIUM_ION_TOKEN ? "(Key Hardcoded in Config)" : "Enter Ion Token..."}
               />
            </div>
+
+           <OperatorAccountsSection />
            
            <div className="p-3 bg-[var(--bg-primary)] rounded border border-[var(--border-muted)]">
               <div className="text-xs text-[var(--text-muted)] mb-2">System Version: Stable</div>
@@ -5,6 +5,8 @@ import { ROUTES } from '../../constants';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { SettingsModal } from './SettingsModal';
 import { useGrid } from '../../context/GridContext';
+import { useSession } from '../../context/SessionContext';
+import { sessionService } from '../../services/sessionService';
 
 interface SidebarProps {
   isMobileOpen?: boolean;
@@ -124,9 +126,9 @@ const navItems: NavRoute[] = [
   { path: ROUTES.HISTORICAL, label: 'Historical', icon: Icons.Historical },
   { path: ROUTES.SCENARIOS, label: 'Scenarios', icon: Icons.Scenarios },
   { path: ROUTES.REPORTS, label: 'Reports', icon: Icons.Reports },
-  { path: ROUTES.AUDIT, label: 'Audit Trail', icon: Icons.Audit },
+  { path: ROUTES.AUDIT, label: 'Audit Trail', icon: Icons.Audit, permission: 'VIEW_AUDIT' },
   { path: ROUTES.CYBERSIM, label: 'Cyber Sim', icon: Icons.CyberSim },
-  { path: ROUTES.GOVERNANCE, label: 'Governance', icon: Icons.Governance },
+  { path: ROUTES.GOVERNANCE, label: 'Governance', icon: Icons.Governance, permission: 'MANAGE_GOVERNANCE' },
 ];
 
 export const Sidebar: React.FC<SidebarProps> = ({ isMobileOpen, onMobileClose }) => {
@@ -136,6 +138,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ isMobileOpen, onMobileClose })
 
   // Use Global Grid Context
   const { safetyState, toggleSafety, connectionStatus } = useGrid();
+  const { session, can } = useSession();
 
   // Initialize from LocalStorage, or default to Dark Mode
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -201,7 +204,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ isMobileOpen, onMobileClose })
         </div>
 
         <nav className="flex-1 py-6 px-3 space-y-1" aria-label="Main Navigation">
-          {navItems.map((item) => {
+          {navItems.filter(item => !item.permission || can(item.permission)).map((item) => {
             const isActive = location.pathname === item.path;
             return (
               <Link
@@ -256,16 +259,25 @@ export const Sidebar: React.FC<SidebarProps> = ({ isMobileOpen, onMobileClose })
               </button>
             </div>
 
-            <button
-              onClick={() => { setIsSettingsOpen(true); onMobileClose?.(); }}
-              className="flex items-center gap-2 text-[10px] font-mono text-[var(--text-secondary)] hover:text-[var(--status-info)] transition-colors text-left"
-            >
-              <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="3"></circle><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z"></path></svg>
-              SYSTEM CONFIG
-            </button>
+            {session && (
+              <div className="flex items-center justify-between text-[10px] font-mono">
+                <span className="text-[var(--text-primary)] truncate max-w-[120px]" title={session.operatorId}>{session.name}</span>
+                <span className="text-[var(--status-info)] border border-[var(--status-info)] px-1.5 rounded">{session.role}</span>
+              </div>
+            )}
+
+            {can('EDIT_SETTINGS') && (
+              <button
+                onClick={() => { setIsSettingsOpen(true); onMobileClose?.(); }}
+                className="flex items-center gap-2 text-[10px] font-mono text-[var(--text-secondary)] hover:text-[var(--status-info)] transition-colors text-left"
+              >
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="3"></circle><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z"></path></svg>
+                SYSTEM CONFIG
+              </button>
+            )}
 
             <button
-              onClick={() => { navigate('/login'); onMobileClose?.(); }}
+              onClick={() => { sessionService.end(); navigate('/login'); onMobileClose?.(); }}
               className="flex items-center gap-2 text-[10px] font-mono text-[var(--text-secondary)] hover:text-[var(--status-critical)] transition-colors text-left"
             >
               <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4"></path><polyline points="16 17 21 12 16 7"></polyline><line x1="21" y1="12" x2="9" y2="12"></line></svg>
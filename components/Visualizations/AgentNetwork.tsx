@@ -1,129 +1,111 @@
-
 import React from 'react';
 import { AGENT_LIST } from '../../constants';
+import { NodeStatus, WorkflowDefinition, WorkflowRun, workflowLayers } from '../../services/agentWorkflow';
 
 interface AgentNetworkProps {
+  workflow: WorkflowDefinition;
+  run?: WorkflowRun<unknown> | null; // Latest execution; colors nodes by status
   activeAgent?: string | null; // ID of the agent currently "speaking"
+  onSelectNode?: (nodeId: string) => void;
 }
 
-export const AgentNetwork: React.FC<AgentNetworkProps> = ({ activeAgent }) => {
-  // Center: Comms Manager (CM)
-  // Inner Ring (Tier 2): Core Analysis (LF, WA, GS, AM)
-  // Outer Ring (Tier 3): Execution/Support (Rest)
+const STATUS_STYLE: Record<NodeStatus, { fill: string; stroke: string; text: string }> = {
+  PENDING: { fill: 'fill-[var(--bg-tertiary)]', stroke: 'stroke-[var(--border-muted)]', text: 'fill-[var(--text-muted)]' },
+  RUNNING: { fill: 'fill-[var(--status-info)]', stroke: 'stroke-white', text: 'fill-white' },
+  SUCCEEDED: { fill: 'fill-[var(--bg-secondary)]', stroke: 'stroke-[var(--status-normal)]', text: 'fill-[var(--status-normal)]' },
+  FAILED: { fill: 'fill-[var(--bg-secondary)]', stroke: 'stroke-[var(--status-critical)]', text: 'fill-[var(--status-critical)]' },
+  SKIPPED: { fill: 'fill-[var(--bg-tertiary)]', stroke: 'stroke-[var(--border-muted)]', text: 'fill-[var(--text-muted)]' }
+};
+
+export const AgentNetwork: React.FC<AgentNetworkProps> = ({ workflow, run, activeAgent, onSelectNode }) => {
+  // Layered DAG: one column per dependency depth, left to right
 
   const width = 800;
   const height = 500;
-  const centerX = width / 2;
-  const centerY = height / 2;
-  
-  const innerRadius = 120;
-  const outerRadius = 220;
-
-  // Helper to place nodes in circle
-  const getPosition = (index: number, total: number, radius: number) => {
-    const angle = (index / total) * 2 * Math.PI - Math.PI / 2; // Start at top
-    return {
-      x: centerX + radius * Math.cos(angle),
-      y: centerY + radius * Math.sin(angle)
-    };
-  };
+  const marginX = 90;
+  const radius = 26;
 
-  const cmNode = AGENT_LIST.find(a => a.id === 'CM');
-  const tier2Nodes = AGENT_LIST.filter(a => ['LF', 'WA', 'GS', 'AM'].includes(a.id));
-  const tier3Nodes = AGENT_LIST.filter(a => !['CM', 'LF', 'WA', 'GS', 'AM'].includes(a.id));
+  const layers = workflowLayers(workflow);
+  const positions: Record<string, { x: number; y: number }> = {};
+  layers.forEach((layer, col) => {
+    const x = layers.length === 1 ? width / 2 : marginX + (col * (width - 2 * marginX)) / (layers.length - 1);
+    layer.forEach((id, row) => {
+      positions[id] = { x, y: ((row + 1) * height) / (layer.length + 1) };
+    });
+  });
 
   const isActive = (id: string) => activeAgent === id;
+  const statusOf = (id: string): NodeStatus => run?.nodes[id]?.status ?? 'PENDING';
+
+  const edges = workflow.nodes.flatMap(node => [
+    ...node.dependsOn.map(dep => ({ from: dep, to: node.id, optional: false })),
+    ...(node.optionalInputs ?? []).map(dep => ({ from: dep, to: node.id, optional: true }))
+  ]);
 
   return (
     <div className="relative w-full h-[400px] bg-[var(--bg-secondary)] rounded-lg overflow-hidden flex items-center justify-center border border-[var(--border-muted)]">
-      
+
       <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-full absolute inset-0">
         <defs>
-          <filter id="glow" x="-20%" y="-20%" width="140%" height="140%">
-            <feGaussianBlur stdDeviation="3" result="blur" />
-            <feComposite in="SourceGraphic" in2="blur" operator="over" />
-          </filter>
-          <filter id="active-glow" x="-50%" y="-50%" width="200%" height="200%">
-             <feGaussianBlur stdDeviation="8" result="blur" />
-             <feComposite in="SourceGraphic" in2="blur" operator="over" />
-          </filter>
+          <marker id="dag-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-[var(--border-emphasis)]" />
+          </marker>
         </defs>
 
-        {/* Connections Layer (Background) */}
-        <g className="opacity-20 stroke-[var(--border-emphasis)] stroke-[1px] stroke-dasharray-[4,4]">
-           {/* CM to Tier 2 */}
-           {tier2Nodes.map((node, i) => {
-             const pos = getPosition(i, tier2Nodes.length, innerRadius);
-             const activeLink = isActive('CM') || isActive(node.id);
-             return (
-               <line 
-                  key={`l2-${i}`} 
-                  x1={centerX} y1={centerY} x2={pos.x} y2={pos.y} 
-                  className={`transition-all duration-300 ${activeLink ? 'stroke-[var(--status-info)] stroke-[2px] opacity-100' : ''}`}
-               />
-             );
-           })}
-           {/* Tier 2 to Tier 3 (Simplified: Connect nearest) */}
-           {tier3Nodes.map((node, i) => {
-             const pos = getPosition(i, tier3Nodes.length, outerRadius);
-             const activeLink = isActive(node.id); // Simplified logic
-             return (
-               <line 
-                 key={`l3-${i}`} x1={centerX} y1={centerY} x2={pos.x} y2={pos.y} 
-                 className={`opacity-50 transition-all duration-300 ${activeLink ? 'stroke-[var(--status-info)] stroke-[2px] opacity-100' : ''}`} 
-               />
-             );
-           })}
-        </g>
-
-        {/* Nodes Layer */}
-        
-        {/* Tier 3: Support */}
-        {tier3Nodes.map((agent, i) => {
-          const pos = getPosition(i, tier3Nodes.length, outerRadius);
-          const active = isActive(agent.id);
-          return (
-            <g key={agent.id} transform={`translate(${pos.x}, ${pos.y})`}>
-              {active && <circle r="28" className="fill-[var(--status-info)]/20 animate-ping" />}
-              <circle 
-                r="18" 
-                className={`transition-colors duration-300 ${active ? 'fill-[var(--status-info)] stroke-[var(--text-inverse)]' : 'fill-[var(--bg-tertiary)] stroke-[var(--border-muted)]'} stroke-2`} 
+        {/* Dependency edges (dashed = optional input) */}
+        <g>
+          {edges.map(({ from, to, optional }) => {
+            const a = positions[from];
+            const b = positions[to];
+            if (!a || !b) return null;
+            const dx = b.x - a.x;
+            const dy = b.y - a.y;
+            const len = Math.hypot(dx, dy) || 1;
+            const activeLink = isActive(from) || isActive(to);
+            return (
+              <line
+                key={`${from}-${to}`}
+                x1={a.x + (dx / len) * radius} y1={a.y + (dy / len) * radius}
+                x2={b.x - (dx / len) * (radius + 4)} y2={b.y - (dy / len) * (radius + 4)}
+                markerEnd="url(#dag-arrow)"
+                strokeDasharray={optional ? '6,4' : undefined}
+                className={`transition-all duration-300 ${activeLink ? 'stroke-[var(--status-info)] stroke-[2px]' : 'stroke-[var(--border-emphasis)] stroke-[1px] opacity-60'}`}
               />
-              <text dy="4" textAnchor="middle" className={`text-[10px] font-mono font-bold pointer-events-none ${active ? 'fill-[var(--text-inverse)]' : 'fill-[var(--text-muted)]'}`}>{agent.id}</text>
-            </g>
-          );
-        })}
+            );
+          })}
+        </g>
 
-        {/* Tier 2: Core */}
-        {tier2Nodes.map((agent, i) => {
-          const pos = getPosition(i, tier2Nodes.length, innerRadius);
-          const active = isActive(agent.id);
+        {/* Nodes */}
+        {workflow.nodes.map(node => {
+          const pos = positions[node.id];
+          if (!pos) return null;
+          const status = statusOf(node.id);
+          const style = STATUS_STYLE[status];
+          const state = run?.nodes[node.id];
+          const active = isActive(node.id) || status === 'RUNNING';
+          const name = AGENT_LIST.find(a => a.id === node.persona)?.name ?? node.label;
           return (
-             <g key={agent.id} transform={`translate(${pos.x}, ${pos.y})`}>
-              {active && <circle r="34" className="fill-[var(--text-link)]/20 animate-ping" />}
-              <circle 
-                r="22" 
-                className={`transition-colors duration-300 ${active ? 'fill-[var(--text-link)] stroke-white' : 'fill-[var(--bg-secondary)] stroke-[var(--text-link)]'} stroke-2`} 
+            <g
+              key={node.id}
+              transform={`translate(${pos.x}, ${pos.y})`}
+              onClick={() => onSelectNode?.(node.id)}
+              className={onSelectNode ? 'cursor-pointer' : ''}
+            >
+              <title>{`${name}: ${status}${state?.error ? ` (${state.error})` : ''}`}</title>
+              {active && <circle r={radius + 10} className="fill-[var(--status-info)]/20 animate-ping" />}
+              <circle
+                r={radius}
+                strokeDasharray={status === 'SKIPPED' ? '4,3' : undefined}
+                className={`transition-colors duration-300 stroke-2 ${style.fill} ${style.stroke}`}
               />
-              <text dy="5" textAnchor="middle" className={`text-[12px] font-mono font-bold pointer-events-none ${active ? 'fill-white' : 'fill-[var(--text-link)]'}`}>{agent.id}</text>
+              <text dy="5" textAnchor="middle" className={`text-[13px] font-mono font-bold pointer-events-none ${style.text}`}>{node.id}</text>
+              <text dy={radius + 16} textAnchor="middle" className="text-[10px] font-mono pointer-events-none fill-[var(--text-muted)]">
+                {status}{state?.durationMs !== undefined ? ` · ${(state.durationMs / 1000).toFixed(1)}s` : ''}{(state?.attempts ?? 0) > 1 ? ` · ×${state!.attempts}` : ''}
+              </text>
             </g>
           );
         })}
-
-        {/* Tier 1: Center (CM) */}
-        <g transform={`translate(${centerX}, ${centerY})`}>
-          {isActive('CM') && <circle r="40" className="fill-[var(--status-info)]/30 animate-pulse" />}
-          <circle r="30" className="fill-[var(--bg-primary)] stroke-[var(--status-info)] stroke-[3px]" filter="url(#glow)" />
-          <text dy="6" textAnchor="middle" className="text-[14px] fill-[var(--text-primary)] font-mono font-bold">CM</text>
-        </g>
       </svg>
-
-      {/* Empty State Overlay */}
-      {!activeAgent && (
-        <div className="absolute inset-0 bg-[var(--bg-primary)]/10 backdrop-blur-[0px] pointer-events-none flex flex-col items-center justify-center p-6 text-center z-10 opacity-0 transition-opacity">
-           {/* Can be used for "Offline" state if needed */}
-        </div>
-      )}
     </div>
   );
 };
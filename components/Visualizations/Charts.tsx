@@ -10,6 +10,7 @@ import {
   ResponsiveContainer,
   Area,
   ReferenceLine,
+  ReferenceDot,
   BarChart,
   Bar,
   ComposedChart,
@@ -47,6 +48,15 @@ interface ChartProps {
   isLoading?: boolean; // New Prop for visual stability
   isEmpty?: boolean;   // New Prop for empty states
   emptyMessage?: string; 
+  markers?: ChartMarker[]; // Highlighted points (HistoricalComparisonChart)
+}
+
+export interface ChartMarker {
+  time: string;
+  value: number;
+  severity: 'INFO' | 'WARNING' | 'CRITICAL';
+  label?: string;
+  vertical?: boolean; // Draw a full-height line instead of a dot
 }
 
 // --- Theme Hook ---
@@ -296,8 +306,12 @@ export const ReservesGauge: React.FC<ChartProps & { label?: string }> = ({ data,
     );
 };
 
-export const HistoricalComparisonChart: React.FC<ChartProps> = ({ data, height = 300, title1 = "Actual Load", title2 = "Demand (Est.)", isLoading, isEmpty, emptyMessage }) => {
+export const HistoricalComparisonChart: React.FC<ChartProps> = ({ data, height = 300, title1 = "Actual Load", title2 = "Demand (Est.)", isLoading, isEmpty, emptyMessage, markers = [] }) => {
   const THEME = useChartTheme();
+  const markerColor = (m: ChartMarker) => m.severity === 'CRITICAL' ? THEME.colors.critical : m.severity === 'WARNING' ? THEME.colors.warning : THEME.colors.primary;
+  // Only mark points currently on the chart (playback shows a prefix)
+  const shown = new Set((data || []).map(d => d.time));
+  const visible = markers.filter(m => shown.has(m.time));
 
   return (
     <ChartContainer isLoading={isLoading} isEmpty={isEmpty || (!data || data.length === 0)} emptyMessage={emptyMessage} height={height}>
@@ -312,6 +326,11 @@ export const HistoricalComparisonChart: React.FC<ChartProps> = ({ data, height =
           />
           <Line type="monotone" dataKey="value" stroke={THEME.colors.critical} dot={false} strokeWidth={2} name={title1} />
           <Line type="monotone" dataKey="value2" stroke={THEME.colors.success} dot={false} strokeWidth={2} name={title2} strokeDasharray="5 5" />
+          {visible.map((m, i) => m.vertical ? (
+            <ReferenceLine key={`m-${i}`} x={m.time} stroke={markerColor(m)} strokeDasharray="3 3" label={m.label ? { value: m.label, fill: markerColor(m), fontSize: 9, position: 'top' } : undefined} />
+          ) : (
+            <ReferenceDot key={`m-${i}`} x={m.time} y={m.value} r={4} fill={markerColor(m)} stroke="none" />
+          ))}
           <Legend verticalAlign="top" height={36} wrapperStyle={{ fontSize: '10px' }}/>
         </LineChart>
       </ResponsiveContainer>
@@ -3,6 +3,8 @@ import React, { createContext, useContext, useState, useEffect, useRef } from 'r
 import { dataService } from '../services/dataServiceFactory';
 import { genAiService } from '../services/genAiService';
 import { agentOrchestrator } from '../services/agentOrchestrator';
+import { gridTelemetry, classifyRiskTier } from '../services/gridTelemetry';
+import { sessionService } from '../services/sessionService';
 import { GridStatus, MetricData, RiskTier } from '../types';
 
 interface GridContextType {
@@ -72,10 +74,10 @@ export const GridProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       // Real-time Risk Tier Logic based on Frequency Deviation
       if (freq) {
-        if (freq < 59.90 || freq > 60.10) setRiskTier(RiskTier.RED);
-        else if (freq < 59.95 || freq > 60.05) setRiskTier(RiskTier.YELLOW);
-        else if (gridStatus === GridStatus.CRITICAL) setRiskTier(RiskTier.RED);
-        else setRiskTier(RiskTier.GREEN);
+        const tier = classifyRiskTier(freq, gridStatus);
+        setRiskTier(tier);
+        // Publish for SafetyGuard interlocks
+        gridTelemetry.update({ frequencyHz: freq, riskTier: tier, status: gridStatus });
       }
     } catch (e) {
       // Silent fail on fast poll to avoid jitter
@@ -108,6 +110,10 @@ export const GridProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       setLoadMetric(currentLoad);
       setGenMetric(generation);
+      gridTelemetry.update({
+        loadMW: currentLoad?.value != null ? Number(currentLoad.value) : undefined,
+        generationMW: generation?.value != null ? Number(generation.value) : undefined
+      });
       setAlerts(activeAlerts);
       setWeatherData(Array.isArray(regionWeather) ? regionWeather : []);
       setLastUpdated(new Date().toLocaleTimeString());
@@ -125,6 +131,7 @@ export const GridProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Sync Safety State with Service
   const toggleSafety = (key: 'aiActuation' | 'autoDispatch') => {
+    if (!sessionService.authorize('TOGGLE_SAFETY', `Toggle ${key}`)) return;
     setSafetyState(prev => {
       const newState = !prev[key];
       if (key === 'aiActuation') {
@@ -0,0 +1,33 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { sessionService, Session } from '../services/sessionService';
+import { Permission } from '../types';
+
+interface SessionContextType {
+  session: Session | null;
+  can: (permission: Permission) => boolean;
+}
+
+const SessionContext = createContext<SessionContextType | undefined>(undefined);
+
+export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(sessionService.getSession());
+
+  useEffect(() => sessionService.subscribe(setSession), []);
+
+  return (
+    <SessionContext.Provider value={{
+      session,
+      can: (permission: Permission) => sessionService.can(permission, session?.role)
+    }}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
+
+export const useSession = () => {
+  const context = useContext(SessionContext);
+  if (context === undefined) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+};
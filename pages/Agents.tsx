@@ -3,10 +3,10 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Card } from '../components/Common/Card';
 import { Button } from '../components/Common/Button';
 import { AgentNetwork } from '../components/Visualizations/AgentNetwork';
-import { AGENT_LIST } from '../constants';
 import { StatusIndicator } from '../components/Common/StatusIndicator';
 import { GridStatus } from '../types';
-import { agentOrchestrator, OrchestratorStatus, AgentLog } from '../services/agentOrchestrator';
+import { agentOrchestrator, OrchestratorStatus, AgentLog, AgentOutput } from '../services/agentOrchestrator';
+import { describeWorkflow, WorkflowRun } from '../services/agentWorkflow';
 
 // Sub-component for Logs
 const MCPLogView: React.FC<{ logs: AgentLog[]; status: OrchestratorStatus; onSelect: (log: AgentLog) => void; selectedLog: AgentLog | null }> = ({ logs, status, onSelect, selectedLog }) => {
@@ -27,6 +27,12 @@ const MCPLogView: React.FC<{ logs: AgentLog[]; status: OrchestratorStatus; onSel
                 color: 'text-[var(--status-warning)]',
                 dot: 'bg-[var(--status-warning)]'
             };
+        case 'BUDGET_EXHAUSTED':
+            return {
+                text: '[DAILY LLM BUDGET SPENT - PAUSED]',
+                color: 'text-[var(--status-warning)]',
+                dot: 'bg-[var(--status-warning)]'
+            };
         case 'RUNNING':
             return {
                 text: '[LIVE ORCHESTRATION]',
@@ -59,7 +65,7 @@ const MCPLogView: React.FC<{ logs: AgentLog[]; status: OrchestratorStatus; onSel
         </div>
         <div className="flex gap-1">
           <div className={`w-2 h-2 rounded-full ${status === 'ERROR' ? 'animate-ping' : ''} bg-[var(--status-critical)]`}></div>
-          <div className={`w-2 h-2 rounded-full ${status === 'BACKOFF_429' ? 'animate-ping' : ''} bg-[var(--status-warning)]`}></div>
+          <div className={`w-2 h-2 rounded-full ${status === 'BACKOFF_429' || status === 'BUDGET_EXHAUSTED' ? 'animate-ping' : ''} bg-[var(--status-warning)]`}></div>
           <div className={`w-2 h-2 rounded-full ${status === 'RUNNING' ? 'animate-pulse' : ''} bg-[var(--status-normal)]`}></div>
         </div>
       </div>
@@ -97,7 +103,14 @@ const MCPLogView: React.FC<{ logs: AgentLog[]; status: OrchestratorStatus; onSel
   );
 };
 
-// Insight Panel Component (Unchanged)
+// Signed USD with k/M suffix, e.g. "+$45k", "-$1.2M"
+const formatUsd = (usd: number) => {
+    const abs = Math.abs(usd);
+    const body = abs >= 1e6 ? `${(abs / 1e6).toFixed(1)}M` : abs >= 1e3 ? `${Math.round(abs / 1e3)}k` : `${Math.round(abs)}`;
+    return `${usd > 0 ? '+' : usd < 0 ? '-' : ''}$${body}`;
+};
+
+// Insight Panel Component
 const InsightPanel: React.FC<{ log: AgentLog | null }> = ({ log }) => {
     if (!log) return (
         <div className="h-full flex flex-col items-center justify-center text-[var(--text-muted)] text-center p-6 border border-[var(--border-muted)] border-dashed rounded bg-[var(--bg-secondary)]/50">
@@ -125,6 +138,8 @@ const InsightPanel: React.FC<{ log: AgentLog | null }> = ({ log }) => {
                 <h3 className="text-lg font-bold text-[var(--text-primary)] mb-4 flex items-center gap-2">
                     Executive Summary
                 </h3>
+
+                {log.bluf && <p className="text-sm font-semibold text-[var(--text-primary)] mb-3">{log.bluf}</p>}
                 
                 <div className="prose prose-sm text-[var(--text-secondary)] max-w-none mb-6 leading-relaxed border-l-2 border-[var(--status-info)] pl-4">
                     {log.analysis || "No deep analysis available for this node."}
@@ -139,11 +154,32 @@ const InsightPanel: React.FC<{ log: AgentLog | null }> = ({ log }) => {
                     </div>
                     <div className="bg-[var(--bg-tertiary)] p-3 rounded border border-[var(--border-default)]">
                         <div className="text-[10px] text-[var(--text-muted)] uppercase tracking-wider font-bold mb-1">Projected Impact</div>
-                        <div className="text-sm font-mono font-bold text-[var(--status-normal)]">
-                            {log.financial_impact || "Calculating..."}
+                        <div className={`text-sm font-mono font-bold ${(log.financial_impact ?? 0) < 0 ? 'text-[var(--status-critical)]' : 'text-[var(--status-normal)]'}`}>
+                            {log.financial_impact !== undefined ? formatUsd(log.financial_impact) : "Calculating..."}
                         </div>
                     </div>
                 </div>
+
+                {log.impact_mw !== undefined && (
+                    <div className="grid grid-cols-3 gap-4 mt-4 text-center">
+                        {([
+                            ['MW at Stake', `${log.impact_mw.toLocaleString()} MW`],
+                            ['Probability', `${Math.round((log.probability ?? 0) * 100)}%`],
+                            ['Confidence', `${Math.round(log.confidence ?? 0)}%`]
+                        ] as const).map(([label, value]) => (
+                            <div key={label} className="bg-[var(--bg-tertiary)] p-2 rounded border border-[var(--border-default)]">
+                                <div className="text-[10px] text-[var(--text-muted)] uppercase tracking-wider font-bold">{label}</div>
+                                <div className="text-sm font-mono font-bold text-[var(--text-primary)]">{value}</div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {(log.repairs ?? 0) > 0 && (
+                    <div className="mt-3 text-[10px] font-mono text-[var(--status-warning)]">
+                        Output passed schema validation after {log.repairs} repair round{log.repairs === 1 ? '' : 's'}
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -154,6 +190,8 @@ export const Agents: React.FC = () => {
   const [activeAgentId, setActiveAgentId] = useState<string | null>(null);
   const [status, setStatus] = useState<OrchestratorStatus>('IDLE');
   const [selectedLog, setSelectedLog] = useState<AgentLog | null>(null);
+  const [run, setRun] = useState<WorkflowRun<AgentOutput> | null>(null);
+  const workflow = agentOrchestrator.getWorkflow();
 
   useEffect(() => {
     // 1. Subscribe to Status
@@ -178,12 +216,37 @@ export const Agents: React.FC = () => {
         }
     });
 
+    // 3. Subscribe to the workflow DAG execution
+    const unsubRun = agentOrchestrator.subscribeRun(setRun);
+
     return () => {
         unsubStatus();
         unsubLogs();
+        unsubRun();
     };
   }, []);
 
+  // Clicking a graph node shows that node's output from the latest run
+  const selectNode = (nodeId: string) => {
+    const state = run?.nodes[nodeId];
+    if (!state?.output) return;
+    setSelectedLog({
+      source: nodeId,
+      target: 'DASHBOARD',
+      message: state.output.log_code,
+      bluf: state.output.bluf,
+      analysis: state.output.analysis,
+      recommendation: state.output.recommendation,
+      financial_impact: state.output.exposure_usd,
+      impact_mw: state.output.impact_mw,
+      probability: state.output.probability,
+      confidence: state.output.confidence,
+      repairs: state.output.repairs,
+      timestamp: new Date(state.finishedAt ?? Date.now()).toLocaleTimeString('en-US', { hour12: false }),
+      type: 'INFO'
+    });
+  };
+
   return (
     <div className="space-y-6 h-[calc(100vh-100px)] flex flex-col">
       <header className="flex justify-between items-center mb-2 shrink-0">
@@ -199,19 +262,26 @@ export const Agents: React.FC = () => {
         <div className="flex gap-6 text-sm w-full">
            <div className="flex items-center gap-2">
              <span className="text-[var(--text-secondary)] uppercase tracking-wider text-xs">Active Agents</span>
-             <span className="font-mono font-bold text-[var(--text-primary)]">{AGENT_LIST.length} Nodes</span>
+             <span className="font-mono font-bold text-[var(--text-primary)]">{workflow.nodes.length} Nodes</span>
            </div>
            <div className="w-px h-4 bg-[var(--border-muted)]"></div>
            <div className="flex items-center gap-2">
              <span className="text-[var(--text-secondary)] uppercase tracking-wider text-xs">Orchestrator</span>
-             <span className={`font-mono font-bold ${status === 'BACKOFF_429' ? 'text-[var(--status-warning)]' : 'text-[var(--text-primary)]'}`}>
-                {status === 'BACKOFF_429' ? 'RATE LIMIT - PAUSED' : 'OPTIMAL'}
+             <span className={`font-mono font-bold ${status === 'BACKOFF_429' || status === 'BUDGET_EXHAUSTED' ? 'text-[var(--status-warning)]' : 'text-[var(--text-primary)]'}`}>
+                {status === 'BACKOFF_429' ? 'RATE LIMIT - PAUSED' : status === 'BUDGET_EXHAUSTED' ? 'BUDGET SPENT - PAUSED' : 'OPTIMAL'}
+             </span>
+           </div>
+           <div className="w-px h-4 bg-[var(--border-muted)]"></div>
+           <div className="flex items-center gap-2">
+             <span className="text-[var(--text-secondary)] uppercase tracking-wider text-xs">Last Run</span>
+             <span className={`font-mono font-bold ${run?.status === 'FAILED' ? 'text-[var(--status-critical)]' : run?.status === 'PARTIAL' ? 'text-[var(--status-warning)]' : 'text-[var(--text-primary)]'}`}>
+                {run ? `${run.status}${run.finishedAt ? ` · ${((run.finishedAt - run.startedAt) / 1000).toFixed(1)}s` : ''}` : '—'}
              </span>
            </div>
            <div className="w-px h-4 bg-[var(--border-muted)]"></div>
            <div className="flex items-center gap-2 ml-auto">
              <span className="text-[var(--text-secondary)] uppercase tracking-wider text-xs">Workflow</span>
-             <span className="font-mono font-bold text-[var(--text-link)]">WA → LF → GS → OP</span>
+             <span className="font-mono font-bold text-[var(--text-link)]">{describeWorkflow(workflow)}</span>
            </div>
         </div>
       </div>
@@ -222,7 +292,7 @@ export const Agents: React.FC = () => {
         {/* LEFT: NETWORK VISUALIZATION */}
         <div className="lg:col-span-4 flex flex-col gap-6">
            <Card title="Topology" className="flex-1">
-              <AgentNetwork activeAgent={activeAgentId} />
+              <AgentNetwork workflow={workflow} run={run} activeAgent={activeAgentId} onSelectNode={selectNode} />
            </Card>
            <Card title="Terminal Feed" className="h-[250px]">
              <MCPLogView 
@@ -1,8 +1,14 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Card } from '../components/Common/Card';
 import { Button } from '../components/Common/Button';
-import { auditService, AuditEntry, AuditEventType } from '../services/auditService';
+import {
+    auditService, AuditEventType, AuditQuery, AuditQueryPage, ChainIntegrityReport, SavedAuditFilter, AUDIT_EVENT_TYPES
+} from '../services/auditService';
+import { verifyReceipt, RECEIPT_FORMAT, ReceiptVerification } from '../services/auditCheckpoints';
+import { sessionService } from '../services/sessionService';
+import { AuditRetentionPanel } from '../components/Common/AuditRetentionPanel';
+import { ComplianceEvidencePanel } from '../components/Common/ComplianceEvidencePanel';
 
 const EVENT_TYPE_COLORS: Record<AuditEventType, string> = {
     'SYSTEM_BOOT': 'text-blue-400',
@@ -13,6 +19,8 @@ const EVENT_TYPE_COLORS: Record<AuditEventType, string> = {
     'OPERATOR_OVERRIDE': 'text-orange-400',
     'OPERATOR_APPROVAL': 'text-green-400',
     'SAFETY_SWITCH': 'text-yellow-400',
+    'SAFETY_CHECK': 'text-gray-400',
+    'ACCESS_DENIED': 'text-red-400',
     'DATA_FETCH': 'text-gray-500',
     'NAVIGATION': 'text-gray-500',
     'ALERT_TRIGGERED': 'text-red-400',
@@ -21,24 +29,166 @@ const EVENT_TYPE_COLORS: Record<AuditEventType, string> = {
     'ERROR': 'text-red-500'
 };
 
+const PAGE_SIZE = 100;
+
+const toLocalInput = (ms?: number) =>
+    ms === undefined ? '' : new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const downloadFile = (content: string, type: string, filename: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
 export const AuditLog: React.FC = () => {
-    const [logs, setLogs] = useState<AuditEntry[]>([]);
-    const [filter, setFilter] = useState<AuditEventType | 'ALL'>('ALL');
-    const [chainValid, setChainValid] = useState<boolean | null>(null);
+    const [eventTypes, setEventTypes] = useState<AuditEventType[]>([]);
+    const [operatorFilter, setOperatorFilter] = useState('');
+    const [searchText, setSearchText] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [page, setPage] = useState<AuditQueryPage>({ entries: [] });
+    const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+    const [typeCounts, setTypeCounts] = useState<Record<AuditEventType, number> | null>(null);
+    const [savedFilters, setSavedFilters] = useState<SavedAuditFilter[]>(() => auditService.getSavedFilters());
+    const [filterName, setFilterName] = useState('');
+    const [liveTick, setLiveTick] = useState(0);
+    const [integrity, setIntegrity] = useState<ChainIntegrityReport | null>(null);
+    const [receiptCheck, setReceiptCheck] = useState<ReceiptVerification | null>(null);
     const [isExporting, setIsExporting] = useState(false);
+    const receiptInput = useRef<HTMLInputElement>(null);
+    const chainValid = integrity ? integrity.valid : null;
+
+    const query: AuditQuery = useMemo(() => {
+        const operatorIds = operatorFilter.split(',').map(o => o.trim()).filter(Boolean);
+        return {
+            eventTypes: eventTypes.length ? eventTypes : undefined,
+            operatorIds: operatorIds.length ? operatorIds : undefined,
+            text: searchText.trim() || undefined,
+            startTime: startDate ? new Date(startDate).getTime() : undefined,
+            endTime: endDate ? new Date(endDate).getTime() : undefined
+        };
+    }, [eventTypes, operatorFilter, searchText, startDate, endDate]);
+
+    const queryRef = useRef(query);
+    queryRef.current = query;
+    const pageIndex = cursors.length - 1;
+    const pageIndexRef = useRef(pageIndex);
+    pageIndexRef.current = pageIndex;
+
+    // Per-type counts ignore the event type selection so every chip shows its total
+    const refreshCounts = async () => {
+        setTypeCounts(await auditService.countByEventType({ ...queryRef.current, eventTypes: undefined }));
+    };
 
+    const loadFirstPage = async () => {
+        const first = await auditService.queryLogs({ ...queryRef.current, limit: PAGE_SIZE });
+        setCursors([undefined]);
+        setPage(first);
+    };
+
+    // New query: back to the newest page (debounced for typing)
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            loadFirstPage();
+            refreshCounts();
+        }, 250);
+        return () => clearTimeout(timer);
+    }, [query]);
+
+    // New entries: refresh counts, and the table only while viewing the newest page
+    useEffect(() => auditService.subscribe(() => setLiveTick(t => t + 1)), []);
     useEffect(() => {
-        const unsubscribe = auditService.subscribe(setLogs);
-        return unsubscribe;
-    }, []);
+        const timer = setTimeout(() => {
+            refreshCounts();
+            if (pageIndexRef.current === 0) loadFirstPage();
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [liveTick]);
+
+    const goOlder = async () => {
+        if (!page.nextCursor) return;
+        const cursor = page.nextCursor;
+        setPage(await auditService.queryLogs({ ...query, limit: PAGE_SIZE, cursor }));
+        setCursors(c => [...c, cursor]);
+    };
+
+    const goNewer = async () => {
+        if (pageIndex === 0) return;
+        const previous = cursors.slice(0, -1);
+        setPage(await auditService.queryLogs({ ...query, limit: PAGE_SIZE, cursor: previous[previous.length - 1] }));
+        setCursors(previous);
+    };
 
-    const filteredLogs = filter === 'ALL'
-        ? logs
-        : logs.filter(l => l.eventType === filter);
+    const toggleEventType = (type: AuditEventType) => {
+        setEventTypes(types => types.includes(type) ? types.filter(t => t !== type) : [...types, type]);
+    };
+
+    const saveCurrentFilter = () => {
+        if (!filterName.trim()) return;
+        setSavedFilters(auditService.saveFilter(filterName.trim(), query));
+        setFilterName('');
+    };
+
+    const applySavedFilter = (name: string) => {
+        const saved = savedFilters.find(f => f.name === name);
+        if (!saved) return;
+        setEventTypes(saved.query.eventTypes ?? []);
+        setOperatorFilter((saved.query.operatorIds ?? []).join(', '));
+        setSearchText(saved.query.text ?? '');
+        setStartDate(toLocalInput(saved.query.startTime));
+        setEndDate(toLocalInput(saved.query.endTime));
+    };
+
+    const countOf = (type: AuditEventType) => typeCounts?.[type] ?? 0;
+    const matchingTotal = typeCounts
+        ? (eventTypes.length ? eventTypes : AUDIT_EVENT_TYPES).reduce((sum, t) => sum + countOf(t), 0)
+        : 0;
 
     const verifyChain = async () => {
-        const result = await auditService.verifyChainIntegrity();
-        setChainValid(result.valid);
+        setIntegrity(await auditService.verifyChainIntegrity());
+    };
+
+    const exportJSON = async () => {
+        setIsExporting(true);
+        downloadFile(await auditService.exportToJSON(), 'application/json', `gridguard_audit_${new Date().toISOString().split('T')[0]}.json`);
+
+        auditService.log({
+            operatorId: sessionService.getOperatorId(),
+            eventType: 'EXPORT_GENERATED',
+            resource: 'AUDIT_LOGS',
+            details: 'JSON export downloaded'
+        });
+
+        setIsExporting(false);
+    };
+
+    const exportReceipt = async () => {
+        setIsExporting(true);
+        downloadFile(await auditService.exportCheckpointReceipt(), 'application/json', `gridguard_audit_receipt_${new Date().toISOString().split('T')[0]}.json`);
+
+        auditService.log({
+            operatorId: sessionService.getOperatorId(),
+            eventType: 'EXPORT_GENERATED',
+            resource: 'AUDIT_RECEIPT',
+            details: 'Signed checkpoint receipt downloaded'
+        });
+
+        setIsExporting(false);
+    };
+
+    // Expects two files: a checkpoint receipt and a JSON log export
+    const checkReceipt = async (files: FileList | null) => {
+        if (!files || files.length !== 2) {
+            setReceiptCheck({ valid: false, checkpoints: [], error: 'Select a receipt file and a JSON log export' });
+            return;
+        }
+        const [first, second] = await Promise.all(Array.from(files).map(f => f.text()));
+        const firstIsReceipt = first.includes(RECEIPT_FORMAT);
+        setReceiptCheck(await verifyReceipt(firstIsReceipt ? first : second, firstIsReceipt ? second : first));
     };
 
     const exportCSV = () => {
@@ -53,7 +203,7 @@ export const AuditLog: React.FC = () => {
         URL.revokeObjectURL(url);
 
         auditService.log({
-            operatorId: 'OPERATOR',
+            operatorId: sessionService.getOperatorId(),
             eventType: 'EXPORT_GENERATED',
             resource: 'AUDIT_LOGS',
             details: 'CSV export downloaded'
@@ -74,7 +224,7 @@ export const AuditLog: React.FC = () => {
         URL.revokeObjectURL(url);
 
         auditService.log({
-            operatorId: 'OPERATOR',
+            operatorId: sessionService.getOperatorId(),
             eventType: 'EXPORT_GENERATED',
             resource: 'NIST_ARTIFACT',
             details: 'NIST AI RMF 1.0 compliance artifact generated'
@@ -106,10 +256,29 @@ export const AuditLog: React.FC = () => {
                         )}
                     </div>
 
+                    {/* Checkpoint Receipts */}
+                    <Button variant="secondary" size="sm" onClick={exportReceipt} disabled={isExporting}>
+                        Receipt
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => receiptInput.current?.click()}>
+                        Verify Receipt
+                    </Button>
+                    <input
+                        ref={receiptInput}
+                        type="file"
+                        accept=".json,application/json"
+                        multiple
+                        className="hidden"
+                        onChange={e => { checkReceipt(e.target.files); e.target.value = ''; }}
+                    />
+
                     {/* Export Buttons */}
                     <Button variant="secondary" size="sm" onClick={exportCSV} disabled={isExporting}>
                         Export CSV
                     </Button>
+                    <Button variant="secondary" size="sm" onClick={exportJSON} disabled={isExporting}>
+                        Export JSON
+                    </Button>
                     <Button variant="primary" size="sm" onClick={exportNIST} disabled={isExporting}>
                         NIST Artifact
                     </Button>
@@ -120,15 +289,15 @@ export const AuditLog: React.FC = () => {
             <div className="grid grid-cols-4 gap-4">
                 <Card className="bg-[var(--bg-secondary)] border-l-4 border-l-[var(--status-info)]">
                     <div className="p-3">
-                        <div className="text-xs text-[var(--text-secondary)] uppercase">Total Entries</div>
-                        <div className="text-2xl font-mono text-[var(--text-primary)]">{logs.length}</div>
+                        <div className="text-xs text-[var(--text-secondary)] uppercase">Matching Entries</div>
+                        <div className="text-2xl font-mono text-[var(--text-primary)]">{matchingTotal}</div>
                     </div>
                 </Card>
                 <Card className="bg-[var(--bg-secondary)] border-l-4 border-l-cyan-400">
                     <div className="p-3">
                         <div className="text-xs text-[var(--text-secondary)] uppercase">AI Recommendations</div>
                         <div className="text-2xl font-mono text-cyan-400">
-                            {logs.filter(l => l.eventType === 'AI_RECOMMENDATION').length}
+                            {countOf('AI_RECOMMENDATION')}
                         </div>
                     </div>
                 </Card>
@@ -136,7 +305,7 @@ export const AuditLog: React.FC = () => {
                     <div className="p-3">
                         <div className="text-xs text-[var(--text-secondary)] uppercase">Operator Overrides</div>
                         <div className="text-2xl font-mono text-orange-400">
-                            {logs.filter(l => l.eventType === 'OPERATOR_OVERRIDE').length}
+                            {countOf('OPERATOR_OVERRIDE')}
                         </div>
                     </div>
                 </Card>
@@ -146,25 +315,107 @@ export const AuditLog: React.FC = () => {
                         <div className="text-2xl font-mono text-green-400">
                             {chainValid === null ? 'UNVERIFIED' : chainValid ? 'INTACT' : 'COMPROMISED'}
                         </div>
+                        {integrity && (
+                            <div className="text-[10px] font-mono text-[var(--text-muted)]">
+                                {integrity.checkpoints.length} checkpoints · {integrity.unsealedEntries} unsealed
+                            </div>
+                        )}
                     </div>
                 </Card>
             </div>
 
+            {/* INTEGRITY FINDINGS */}
+            {(integrity && !integrity.valid) || receiptCheck ? (
+                <Card className={`bg-[var(--bg-secondary)] border-l-4 ${(integrity && !integrity.valid) || (receiptCheck && !receiptCheck.valid) ? 'border-l-red-400' : 'border-l-green-400'}`}>
+                    <div className="p-3 space-y-1 text-xs font-mono">
+                        {integrity?.brokenAt && (
+                            <div className="text-red-400">Hash link broken at entry {integrity.brokenAt}</div>
+                        )}
+                        {integrity?.failedRanges.map(range => (
+                            <div key={range.checkpointId} className="text-red-400">
+                                {range.status} {range.checkpointId} (#{range.fromSequence}–#{range.toSequence}, {new Date(range.fromTimestampMs).toLocaleString()} → {new Date(range.toTimestampMs).toLocaleString()}): {range.reason}
+                            </div>
+                        ))}
+                        {receiptCheck && (
+                            <div className={receiptCheck.valid ? 'text-green-400' : 'text-red-400'}>
+                                Receipt: {receiptCheck.error || (receiptCheck.valid
+                                    ? `${receiptCheck.checkpoints.length} checkpoints verified against log export`
+                                    : receiptCheck.checkpoints.filter(c => c.status !== 'VALID').map(c => `${c.checkpointId} ${c.status}${c.reason ? ` (${c.reason})` : ''}`).join('; '))}
+                            </div>
+                        )}
+                    </div>
+                </Card>
+            ) : null}
+
             {/* FILTER BAR */}
-            <div className="flex items-center gap-2 flex-wrap">
-                <span className="text-xs text-[var(--text-secondary)] uppercase mr-2">Filter:</span>
-                {['ALL', 'AI_RECOMMENDATION', 'OPERATOR_OVERRIDE', 'SAFETY_SWITCH', 'ALERT_TRIGGERED', 'ERROR'].map(type => (
+            <div className="space-y-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-xs text-[var(--text-secondary)] uppercase mr-2">Filter:</span>
                     <button
-                        key={type}
-                        onClick={() => setFilter(type as AuditEventType | 'ALL')}
-                        className={`px-3 py-1 text-xs rounded border transition-all ${filter === type
+                        onClick={() => setEventTypes([])}
+                        className={`px-3 py-1 text-xs rounded border transition-all ${eventTypes.length === 0
                                 ? 'bg-[var(--status-info-muted)] border-[var(--status-info)] text-[var(--text-primary)]'
                                 : 'bg-[var(--bg-secondary)] border-[var(--border-default)] text-[var(--text-muted)] hover:border-[var(--border-hover)]'
                             }`}
                     >
-                        {type.replace(/_/g, ' ')}
+                        ALL
                     </button>
-                ))}
+                    {AUDIT_EVENT_TYPES.filter(type => countOf(type) > 0 || eventTypes.includes(type)).map(type => (
+                        <button
+                            key={type}
+                            onClick={() => toggleEventType(type)}
+                            className={`px-3 py-1 text-xs rounded border transition-all ${eventTypes.includes(type)
+                                    ? 'bg-[var(--status-info-muted)] border-[var(--status-info)] text-[var(--text-primary)]'
+                                    : 'bg-[var(--bg-secondary)] border-[var(--border-default)] text-[var(--text-muted)] hover:border-[var(--border-hover)]'
+                                }`}
+                        >
+                            {type.replace(/_/g, ' ')} <span className="opacity-60 font-mono">{countOf(type)}</span>
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex items-center gap-2 flex-wrap">
+                    <input
+                        value={searchText}
+                        onChange={e => setSearchText(e.target.value)}
+                        placeholder="Search details / metadata"
+                        className="bg-[var(--bg-secondary)] border border-[var(--border-default)] rounded px-2 py-1 text-xs text-[var(--text-primary)] font-mono outline-none focus:border-[var(--status-info)] w-56"
+                    />
+                    <input
+                        value={operatorFilter}
+                        onChange={e => setOperatorFilter(e.target.value)}
+                        placeholder="Operator IDs (comma separated)"
+                        className="bg-[var(--bg-secondary)] border border-[var(--border-default)] rounded px-2 py-1 text-xs text-[var(--text-primary)] font-mono outline-none focus:border-[var(--status-info)] w-56"
+                    />
+                    <input type="datetime-local" value={startDate} onChange={e => setStartDate(e.target.value)} className="bg-[var(--bg-secondary)] border border-[var(--border-default)] rounded px-2 py-1 text-xs text-[var(--text-primary)] font-mono outline-none focus:border-[var(--status-info)]" title="From" />
+                    <span className="text-xs text-[var(--text-muted)]">→</span>
+                    <input type="datetime-local" value={endDate} onChange={e => setEndDate(e.target.value)} className="bg-[var(--bg-secondary)] border border-[var(--border-default)] rounded px-2 py-1 text-xs text-[var(--text-primary)] font-mono outline-none focus:border-[var(--status-info)]" title="To" />
+
+                    <div className="flex items-center gap-2 ml-auto">
+                        <select
+                            value=""
+                            onChange={e => applySavedFilter(e.target.value)}
+                            className="bg-[var(--bg-secondary)] border border-[var(--border-default)] rounded px-2 py-1 text-xs text-[var(--text-primary)] font-mono outline-none focus:border-[var(--status-info)]"
+                        >
+                            <option value="">Saved filters…</option>
+                            {savedFilters.map(f => <option key={f.name} value={f.name}>{f.name}</option>)}
+                        </select>
+                        <input
+                            value={filterName}
+                            onChange={e => setFilterName(e.target.value)}
+                            placeholder="Filter name"
+                            className="bg-[var(--bg-secondary)] border border-[var(--border-default)] rounded px-2 py-1 text-xs text-[var(--text-primary)] font-mono outline-none focus:border-[var(--status-info)] w-32"
+                        />
+                        <Button variant="secondary" size="sm" onClick={saveCurrentFilter} disabled={!filterName.trim()}>
+                            Save
+                        </Button>
+                        {savedFilters.some(f => f.name === filterName.trim()) && (
+                            <Button variant="secondary" size="sm" onClick={() => setSavedFilters(auditService.deleteSavedFilter(filterName.trim()))}>
+                                Delete
+                            </Button>
+                        )}
+                    </div>
+                </div>
             </div>
 
             {/* LOG TABLE */}
@@ -182,7 +433,7 @@ export const AuditLog: React.FC = () => {
                             </tr>
                         </thead>
                         <tbody>
-                            {filteredLogs.slice(0, 100).map((log, idx) => (
+                            {page.entries.map((log, idx) => (
                                 <tr
                                     key={log.id}
                                     className={`border-b border-[var(--border-muted)] hover:bg-[var(--bg-hover)] transition-colors ${idx % 2 === 0 ? 'bg-[var(--bg-primary)]' : 'bg-[var(--bg-secondary)]'
@@ -214,17 +465,29 @@ export const AuditLog: React.FC = () => {
                     </table>
                 </div>
 
-                {filteredLogs.length > 100 && (
-                    <div className="text-center py-3 text-xs text-[var(--text-muted)] border-t border-[var(--border-muted)]">
-                        Showing 100 of {filteredLogs.length} entries
+                {(pageIndex > 0 || page.nextCursor) && (
+                    <div className="flex items-center justify-center gap-4 py-3 text-xs text-[var(--text-muted)] border-t border-[var(--border-muted)]">
+                        <Button variant="secondary" size="sm" onClick={goNewer} disabled={pageIndex === 0}>
+                            ← Newer
+                        </Button>
+                        <span className="font-mono">Page {pageIndex + 1} · {page.entries.length} entries</span>
+                        <Button variant="secondary" size="sm" onClick={goOlder} disabled={!page.nextCursor}>
+                            Older →
+                        </Button>
                     </div>
                 )}
             </Card>
 
+            {/* COMPLIANCE EVIDENCE */}
+            <ComplianceEvidencePanel />
+
+            {/* RETENTION */}
+            <AuditRetentionPanel />
+
             {/* COMPLIANCE NOTE */}
             <div className="text-xs text-[var(--text-muted)] text-center">
-                Audit logs are cryptographically chained using SHA-256 hashing.
-                Export NIST AI RMF 1.0 artifact for regulatory compliance.
+                Audit logs are cryptographically chained using SHA-256 hashing and sealed by signed Merkle checkpoints.
+                Export NIST AI RMF 1.0 artifact or NERC evidence packages for regulatory compliance.
             </div>
         </div>
     );
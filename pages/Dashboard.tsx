@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Card } from '../components/Common/Card';
 import { Button } from '../components/Common/Button';
 import { GridMap } from '../components/Visualizations/GridMap';
@@ -13,7 +13,11 @@ import { useGrid } from '../context/GridContext';
 import { dataService } from '../services/dataServiceFactory';
 import { Tooltip } from '../components/Common/Tooltip';
 import { predictiveService, CorridorRisk, PredictiveAlert } from '../services/predictiveService';
-import { getDispatchRecommendations, executeDispatch, SCEDAnalysisResult, DispatchDecision } from '../services/scedService';
+import { getDispatchRecommendations, getLookaheadSchedule, buildLookaheadIntervals, executeDispatch, requestDispatchApproval, SCEDAnalysisResult, SCEDLookaheadResult, DispatchDecision } from '../services/scedService';
+import { dispatchLedger, DispatchCommand, DispatchCommandStatus } from '../services/dispatchLedger';
+import { dualAuthorization } from '../services/dualAuthorization';
+import { sessionService } from '../services/sessionService';
+import { useSession } from '../context/SessionContext';
 
 // --- SUB-COMPONENTS FOR CONTROL ROOM ---
 
@@ -122,6 +126,53 @@ const CongestionBar: React.FC<{ source: string; target: string; loadPct: number;
     </div>
 );
 
+const LEDGER_STATUS_COLOR: Record<DispatchCommandStatus, string> = {
+    PENDING: 'text-[var(--text-muted)]',
+    SENT: 'text-[var(--status-info)]',
+    ACKNOWLEDGED: 'text-[var(--status-info)]',
+    RAMPING: 'text-[var(--status-warning)]',
+    COMPLETE: 'text-[var(--status-normal)]',
+    FAILED: 'text-[var(--status-critical)]',
+    CANCELLED: 'text-[var(--text-muted)]',
+    ROLLING_BACK: 'text-[var(--status-warning)]',
+    ROLLED_BACK: 'text-[var(--status-warning)]'
+};
+
+const DispatchLedgerPanel: React.FC = () => {
+    const [commands, setCommands] = useState<DispatchCommand[]>([]);
+    useEffect(() => dispatchLedger.subscribe(setCommands), []);
+
+    const handleRollback = async (command: DispatchCommand) => {
+        const ok = await dispatchLedger.rollback(command.id);
+        if (!ok) notificationService.error('Rollback Failed', `${command.resource} could not be restored to ${command.previousSetpointMW}MW.`);
+    };
+
+    if (commands.length === 0) return null;
+
+    return (
+        <div className="border-t border-[var(--border-muted)] pt-2 mt-2 space-y-1 flex-shrink-0">
+            <div className="text-[10px] text-[var(--text-muted)] font-mono uppercase tracking-wider">Dispatch Ledger</div>
+            {commands.slice(0, 4).map(command => (
+                <div key={command.id} className="flex items-center justify-between gap-2 text-[10px] font-mono">
+                    <div className="truncate">
+                        <span className="text-[var(--text-primary)]">{command.resource}</span>
+                        <span className="text-[var(--text-muted)]"> {command.action} {command.currentMW}/{command.setpointMW}MW</span>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className={`font-bold ${LEDGER_STATUS_COLOR[command.status]}`} title={command.error}>{command.status}</span>
+                        {(command.status === 'PENDING' || command.status === 'SENT') && (
+                            <button className="text-[var(--text-link)] hover:underline" onClick={() => dispatchLedger.cancel(command.id)}>CANCEL</button>
+                        )}
+                        {dispatchLedger.canRollback(command.id) && (
+                            <button className="text-[var(--text-link)] hover:underline" onClick={() => handleRollback(command)}>ROLLBACK</button>
+                        )}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
 export const Dashboard: React.FC = () => {
     // Access Global Grid State
     const {
@@ -134,8 +185,11 @@ export const Dashboard: React.FC = () => {
         lastUpdated,
         isLoading,
         isDemoMode,
-        connectionStatus
+        connectionStatus,
+        safetyState,
+        toggleSafety
     } = useGrid();
+    const { can } = useSession();
 
     // Local State for specific dashboard widgets
     const [isModelCardOpen, setIsModelCardOpen] = useState(false);
@@ -152,6 +206,8 @@ export const Dashboard: React.FC = () => {
     // SCED Analysis State (AI-powered dispatch recommendations)
     const [scedAnalysis, setScedAnalysis] = useState<SCEDAnalysisResult | null>(null);
     const [scedLoading, setScedLoading] = useState(false);
+    const [scedView, setScedView] = useState<'NOW' | 'LOOKAHEAD'>('NOW');
+    const [scedLookahead, setScedLookahead] = useState<SCEDLookaheadResult | null>(null);
 
     // Predictive Alerts State
     const [corridorRisks, setCorridorRisks] = useState<CorridorRisk[]>([]);
@@ -187,12 +243,23 @@ export const Dashboard: React.FC = () => {
 
                 setScedLoading(true);
                 try {
+                    const triggeredBy = sessionService.getOperatorId();
                     const analysis = await getDispatchRecommendations({
                         currentLoadMW: currentLoad,
                         currentPricePerMWh: currentPrice,
                         prevPricePerMWh: prices.length > 1 ? prices[prices.length - 2].value : currentPrice
-                    });
+                    }, triggeredBy);
                     setScedAnalysis(analysis);
+
+                    // 60-minute look-ahead over the load forecast and price curve
+                    if (forecast && forecast.length > 0) {
+                        const intervals = buildLookaheadIntervals(
+                            forecast.map(f => ({ time: f.time, value: f.forecast })),
+                            prices.map(p => ({ time: p.time, value: p.value })),
+                            60
+                        );
+                        if (intervals.length > 0) setScedLookahead(await getLookaheadSchedule({ intervals }, triggeredBy));
+                    }
                 } catch (e) {
                     console.warn('[SCED] Analysis failed:', e);
                 } finally {
@@ -216,21 +283,62 @@ export const Dashboard: React.FC = () => {
         };
     }, []);
 
-    const handleScedExecute = async (decision: DispatchDecision) => {
-        await executeDispatch(decision);
+    const [awaitingSecondApproval, setAwaitingSecondApproval] = useState<string[]>([]);
+
+    const handleScedExecute = async (decision: DispatchDecision, auto = false) => {
+        // Two-person rule: a supervisor co-approves RED-tier / large moves first
+        let approvedBy = sessionService.getOperatorId();
+        let dualAuthorizationId: string | undefined;
+        if (!auto && decision.requiresSecondApprover) {
+            const requestedBy = dualAuthorization.localOperator();
+            const pending = requestDispatchApproval(decision, requestedBy);
+            setAwaitingSecondApproval(prev => [...prev, decision.id]);
+            const outcome = await dualAuthorization.waitForDecision(pending.id);
+            setAwaitingSecondApproval(prev => prev.filter(id => id !== decision.id));
+            if (outcome.status !== 'APPROVED') {
+                notificationService.error(
+                    'SCED Command Not Authorized',
+                    `${decision.action} on ${decision.resource}: second approval ${outcome.status.toLowerCase()}${outcome.reason ? ` (${outcome.reason})` : ''}`
+                );
+                return;
+            }
+            approvedBy = requestedBy.id;
+            dualAuthorizationId = outcome.id;
+        }
+
+        const result = auto
+            ? await executeDispatch(decision, 'AUTO_DISPATCH')
+            : await executeDispatch(decision, 'SCED', approvedBy, dualAuthorizationId);
+        if (!result.executed) {
+            notificationService.error(
+                'SCED Command Refused',
+                `${decision.action} on ${decision.resource}: ${result.reason || 'not acknowledged'}`
+            );
+            return;
+        }
         notificationService.success(
-            'SCED Command Sent',
-            `${decision.action} ${decision.targetMW}MW on ${decision.resource} routed to DNP3 gateway.`
+            auto ? 'SCED Auto-Dispatch' : 'SCED Command Acknowledged',
+            `${decision.action} ${decision.targetMW}MW on ${decision.resource} acknowledged by control system (${result.riskTier}).`
         );
         // Remove executed decision from the list
-        if (scedAnalysis) {
-            setScedAnalysis({
-                ...scedAnalysis,
-                decisions: scedAnalysis.decisions.filter(d => d.id !== decision.id)
-            });
-        }
+        setScedAnalysis(prev => prev && {
+            ...prev,
+            decisions: prev.decisions.filter(d => d.id !== decision.id)
+        });
     };
 
+    // Auto-dispatch: GREEN-tier decisions execute unattended when enabled
+    const autoDispatchedRef = useRef(new Set<string>());
+    useEffect(() => {
+        if (!safetyState.autoDispatch || !scedAnalysis) return;
+        scedAnalysis.decisions
+            .filter(d => d.action !== 'HOLD' && d.riskTier === RiskTier.GREEN && !autoDispatchedRef.current.has(d.id))
+            .forEach(d => {
+                autoDispatchedRef.current.add(d.id);
+                handleScedExecute(d, true);
+            });
+    }, [scedAnalysis, safetyState.autoDispatch]);
+
     const fuelMixChartData = fuelMix
         ? Object.entries(fuelMix).map(([name, value]) => ({ name, value: Number(value) })).sort((a, b) => b.value - a.value)
         : [];
@@ -422,15 +530,58 @@ export const Dashboard: React.FC = () => {
                             {/* Analysis Status Header */}
                             <div className="text-[10px] text-[var(--text-muted)] mb-3 bg-[var(--bg-tertiary)] p-2 rounded border border-[var(--border-muted)] flex justify-between items-center">
                                 <span>AI Engine: {scedAnalysis?.marketCondition || 'ANALYZING'}</span>
-                                {scedAnalysis && (
-                                    <span className="text-[var(--text-link)]">
-                                        {scedAnalysis.analysisTimeMs}ms
-                                    </span>
-                                )}
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => toggleSafety('autoDispatch')}
+                                        title="Execute GREEN-tier decisions without operator approval"
+                                        className={`px-1.5 rounded font-mono ${safetyState.autoDispatch ? 'bg-[var(--status-normal)] text-[var(--text-inverse)]' : 'text-[var(--text-secondary)] hover:text-[var(--text-link)]'}`}
+                                    >
+                                        AUTO
+                                    </button>
+                                    {(['NOW', 'LOOKAHEAD'] as const).map(view => (
+                                        <button
+                                            key={view}
+                                            onClick={() => setScedView(view)}
+                                            disabled={view === 'LOOKAHEAD' && !scedLookahead}
+                                            className={`px-1.5 rounded font-mono ${scedView === view ? 'bg-[var(--status-info)] text-[var(--text-inverse)]' : 'text-[var(--text-secondary)] hover:text-[var(--text-link)]'} disabled:opacity-40`}
+                                        >
+                                            {view === 'NOW' ? 'NOW' : '60MIN'}
+                                        </button>
+                                    ))}
+                                    {scedAnalysis && (
+                                        <span className="text-[var(--text-link)]">
+                                            {scedAnalysis.analysisTimeMs}ms
+                                        </span>
+                                    )}
+                                </div>
                             </div>
 
                             <div className="flex-1 overflow-y-auto space-y-3 pr-1">
-                                {scedLoading ? (
+                                {scedView === 'LOOKAHEAD' && scedLookahead ? (
+                                    scedLookahead.schedule.filter(interval => interval.decisions.length > 0).map(interval => (
+                                        <div key={interval.index} className="bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded-lg p-2 space-y-1">
+                                            <div className="flex justify-between text-[10px] font-mono">
+                                                <span className="font-bold text-[var(--text-primary)]">
+                                                    {new Date(interval.timestamp).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit' })}
+                                                </span>
+                                                <span className="text-[var(--text-secondary)]">
+                                                    LMP ${interval.pricePerMWh.toFixed(2)} • λ ${interval.systemLambda.toFixed(2)}
+                                                </span>
+                                            </div>
+                                            {interval.decisions.map(decision => (
+                                                <div key={decision.id} className="flex justify-between text-[10px] font-mono">
+                                                    <span className="text-[var(--text-secondary)]">{decision.resource}</span>
+                                                    <span className={decision.linkedDecisionId ? 'text-[var(--status-info)]' : 'text-[var(--text-primary)]'}>
+                                                        {decision.action} {decision.targetMW}MW
+                                                    </span>
+                                                </div>
+                                            ))}
+                                            <div className="text-[9px] font-mono text-[var(--text-muted)]">
+                                                SoC: {Object.keys(interval.stateOfChargeMWh).map(id => `${id} ${interval.stateOfChargeMWh[id].toFixed(0)}MWh`).join(' • ')}
+                                            </div>
+                                        </div>
+                                    ))
+                                ) : scedLoading ? (
                                     <div className="flex flex-col items-center justify-center h-full text-[var(--text-muted)] text-xs">
                                         <div className="animate-pulse mb-2 text-[var(--status-info)]">◉ Analyzing Market Conditions...</div>
                                         <div className="text-[10px]">Running optimization model</div>
@@ -452,6 +603,17 @@ export const Dashboard: React.FC = () => {
                                                     </div>
                                                 </div>
                                                 <div className="text-right">
+                                                    {decision.riskTier && (
+                                                        <div
+                                                            title={decision.riskReasons?.join('\n')}
+                                                            className={`text-[9px] font-bold font-mono ${decision.riskTier === RiskTier.GREEN ? 'text-[var(--status-normal)]' :
+                                                                decision.riskTier === RiskTier.YELLOW ? 'text-[var(--status-warning)]' :
+                                                                    'text-[var(--status-critical)]'
+                                                                }`}
+                                                        >
+                                                            {decision.riskTier} • {decision.disposition?.replace('_', ' ')}
+                                                        </div>
+                                                    )}
                                                     <div className="text-[10px] text-[var(--text-muted)]">Confidence</div>
                                                     <div className={`text-sm font-mono font-bold ${decision.confidence > 0.8 ? 'text-[var(--status-normal)]' :
                                                             decision.confidence > 0.6 ? 'text-[var(--status-warning)]' :
@@ -466,7 +628,7 @@ export const Dashboard: React.FC = () => {
                                             <div className="border-t border-[var(--border-muted)] pt-2">
                                                 <div className="text-[10px] text-[var(--text-muted)] mb-1">Why:</div>
                                                 <ul className="text-[10px] text-[var(--text-secondary)] space-y-0.5">
-                                                    {decision.reasoning.slice(0, 2).map((reason, i) => (
+                                                    {decision.reasoning.slice(0, 3).map((reason, i) => (
                                                         <li key={i} className="flex items-start gap-1">
                                                             <span className="text-[var(--status-info)]">→</span>
                                                             {reason}
@@ -475,15 +637,39 @@ export const Dashboard: React.FC = () => {
                                                 </ul>
                                             </div>
 
+                                            {/* State of Charge Trajectory (storage only) */}
+                                            {decision.socTrajectory && decision.socTrajectory.length > 1 && (
+                                                <div className="border-t border-[var(--border-muted)] pt-2">
+                                                    <div className="flex justify-between text-[10px] text-[var(--text-muted)] mb-1 font-mono">
+                                                        <span>SoC (next {(decision.socTrajectory.length - 1) * 5}min)</span>
+                                                        <span>
+                                                            {(decision.socTrajectory[0].socPct * 100).toFixed(0)}% → {(decision.socTrajectory[decision.socTrajectory.length - 1].socPct * 100).toFixed(0)}%
+                                                        </span>
+                                                    </div>
+                                                    <div className="flex items-end gap-px h-6">
+                                                        {decision.socTrajectory.map(point => (
+                                                            <div
+                                                                key={point.timestamp}
+                                                                className="flex-1 bg-[var(--status-info)] opacity-70 rounded-sm"
+                                                                style={{ height: `${Math.max(4, point.socPct * 100)}%` }}
+                                                            />
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            )}
+
                                             {/* Execute Button */}
                                             {decision.action !== 'HOLD' && (
                                                 <Button
                                                     size="sm"
                                                     variant="primary"
                                                     onClick={() => handleScedExecute(decision)}
+                                                    disabled={!can('ACTUATE') || awaitingSecondApproval.includes(decision.id)}
                                                     className="w-full mt-2"
                                                 >
-                                                    EXECUTE {decision.action}
+                                                    {awaitingSecondApproval.includes(decision.id)
+                                                        ? 'AWAITING SUPERVISOR…'
+                                                        : decision.requiresSecondApprover ? 'REQUEST SUPERVISOR APPROVAL' : `EXECUTE ${decision.action}`}
                                                 </Button>
                                             )}
                                         </div>
@@ -495,6 +681,7 @@ export const Dashboard: React.FC = () => {
                                     </div>
                                 )}
                             </div>
+                            <DispatchLedgerPanel />
                         </div>
                     </Card>
 
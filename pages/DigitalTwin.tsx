@@ -1,5 +1,6 @@
 
 import React, { useEffect, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
 import { Button } from '../components/Common/Button';
 import { getActiveKey } from '../services/apiConfig';
 import { dataService } from '../services/dataServiceFactory';
@@ -18,6 +19,14 @@ const DESTINATIONS: Record<string, { coords: number[], heading: number, pitch: n
   'Overview': { coords: [-99.0, 30.5, 1200000.0], heading: 25, pitch: -35 }
 };
 
+// Camera height for fly-to targets from chat citations
+const FOCUS_HEIGHT_M = 60000.0;
+
+interface MapTarget {
+  coords: number[]; // [lon, lat]
+  label?: string;
+}
+
 const REGION_BOUNDS: Record<string, number[][]> = {
   'West / Panhandle': [[-103.0, 36.5], [-100.0, 36.5], [-100.0, 31.0], [-106.0, 31.0]],
   'North (DFW)': [[-100.0, 34.0], [-94.0, 34.0], [-94.0, 32.0], [-100.0, 32.0]],
@@ -70,6 +79,10 @@ export const DigitalTwin: React.FC = () => {
   const satelliteLayerRef = useRef<any>(null);
   const dataSourcesRef = useRef<Record<string, any>>({});
   const selectionRingRef = useRef<any>(null);
+  const focusMarkerRef = useRef<any>(null);
+  // Fly-to requested before the viewer finished loading (e.g. from a chat citation)
+  const location = useLocation();
+  const pendingTargetRef = useRef<MapTarget | null>((location.state as { flyTo?: MapTarget } | null)?.flyTo ?? null);
   const powerRef = useRef(isPowerVisible);
 
   // Visibility Refs to fix stale closures in Cesium callbacks
@@ -625,7 +638,13 @@ export const DigitalTwin: React.FC = () => {
               roll: 0
             },
             duration: 4.0,
-            complete: () => setCesiumReady(true)
+            complete: () => {
+              setCesiumReady(true);
+              if (pendingTargetRef.current) {
+                flyToTarget(pendingTargetRef.current);
+                pendingTargetRef.current = null;
+              }
+            }
           });
         }, 500);
 
@@ -709,6 +728,11 @@ export const DigitalTwin: React.FC = () => {
     initEngine();
 
     const handleNavEvent = (e: any) => {
+      if (Array.isArray(e.detail?.coords)) {
+        if (viewerRef.current) flyToTarget(e.detail);
+        else pendingTargetRef.current = e.detail;
+        return;
+      }
       const loc = e.detail?.destination || e.detail?.location || 'Overview';
       flyTo(loc);
     };
@@ -821,6 +845,51 @@ export const DigitalTwin: React.FC = () => {
     }
   };
 
+  // Fly to arbitrary coordinates and drop a labelled marker there
+  const flyToTarget = (target: MapTarget) => {
+    const v = viewerRef.current;
+    if (!v) return;
+    const [lon, lat] = target.coords;
+
+    try {
+      if (focusMarkerRef.current) v.entities.remove(focusMarkerRef.current);
+      focusMarkerRef.current = v.entities.add({
+        position: Cesium.Cartesian3.fromDegrees(lon, lat),
+        point: {
+          pixelSize: 14,
+          color: Cesium.Color.CYAN,
+          outlineColor: Cesium.Color.WHITE,
+          outlineWidth: 2,
+          heightReference: Cesium.HeightReference.CLAMP_TO_GROUND,
+          disableDepthTestDistance: Number.POSITIVE_INFINITY
+        },
+        label: target.label ? {
+          text: target.label,
+          font: '12px monospace',
+          fillColor: Cesium.Color.WHITE,
+          outlineColor: Cesium.Color.BLACK,
+          outlineWidth: 2,
+          style: Cesium.LabelStyle.FILL_AND_OUTLINE,
+          pixelOffset: new Cesium.Cartesian2(0, -24),
+          heightReference: Cesium.HeightReference.CLAMP_TO_GROUND,
+          disableDepthTestDistance: Number.POSITIVE_INFINITY
+        } : undefined
+      });
+
+      // Look north at the target from just south of it
+      v.camera.setView({
+        destination: Cesium.Cartesian3.fromDegrees(lon, lat - 0.35, FOCUS_HEIGHT_M),
+        orientation: {
+          heading: 0,
+          pitch: Cesium.Math.toRadians(-45),
+          roll: 0
+        }
+      });
+    } catch (e) {
+      console.error('[NAV] Camera error:', e);
+    }
+  };
+
   const zoomIn = () => {
     const v = viewerRef.current;
     if (!v) return;
@@ -5,9 +5,13 @@ import { Button } from '../components/Common/Button';
 import { biasTestingService, FairnessMetrics, BiasTestCase } from '../services/biasTestingService';
 import { modelMonitorService, DriftMetrics, ModelPerformance, HallucinationCheck } from '../services/modelMonitorService';
 import { notificationService } from '../services/notificationService';
+import { safetyGuard, DryRunReport, SafetyDecision } from '../services/safetyGuard';
+import { RulePack } from '../services/safetyRules';
+import { sessionService } from '../services/sessionService';
+import { LlmUsagePanel } from '../components/Common/LlmUsagePanel';
 
 export const Governance: React.FC = () => {
-    const [activeTab, setActiveTab] = useState<'FAIRNESS' | 'MONITORING' | 'HALLUCINATIONS'>('FAIRNESS');
+    const [activeTab, setActiveTab] = useState<'FAIRNESS' | 'MONITORING' | 'HALLUCINATIONS' | 'SAFETY_RULES' | 'USAGE'>('FAIRNESS');
 
     // Fairness State
     const [fairnessMetrics, setFairnessMetrics] = useState<FairnessMetrics | null>(null);
@@ -21,10 +25,20 @@ export const Governance: React.FC = () => {
     // Hallucination State
     const [hallucinationHistory, setHallucinationHistory] = useState<HallucinationCheck[]>([]);
 
+    // Safety Rules State
+    const [activePack, setActivePack] = useState<RulePack | null>(null);
+    const [safetyDecisions, setSafetyDecisions] = useState<SafetyDecision[]>([]);
+    const [candidateJson, setCandidateJson] = useState('');
+    const [dryRun, setDryRun] = useState<DryRunReport | null>(null);
+
     useEffect(() => {
         // Subscribe to services
         const unsubBias = biasTestingService.subscribe(setFairnessMetrics);
         const unsubDrift = modelMonitorService.subscribe(setDriftMetrics);
+        const unsubRules = safetyGuard.subscribe(pack => {
+            setActivePack(pack);
+            setSafetyDecisions(safetyGuard.getDecisions());
+        });
 
         // Load initial data
         setTestHistory(biasTestingService.getTestHistory());
@@ -34,6 +48,7 @@ export const Governance: React.FC = () => {
         return () => {
             unsubBias();
             unsubDrift();
+            unsubRules();
         };
     }, []);
 
@@ -48,6 +63,38 @@ export const Governance: React.FC = () => {
         }
     };
 
+    const parseCandidate = (): RulePack | null => {
+        try {
+            return JSON.parse(candidateJson);
+        } catch (e) {
+            notificationService.error('Invalid JSON', 'Rule pack could not be parsed');
+            return null;
+        }
+    };
+
+    const runDryRun = () => {
+        const pack = parseCandidate();
+        if (!pack) return;
+        try {
+            setSafetyDecisions(safetyGuard.getDecisions());
+            setDryRun(safetyGuard.dryRun(pack));
+        } catch (e: any) {
+            setDryRun(null);
+            notificationService.error('Rule Pack Rejected', e.message);
+        }
+    };
+
+    const activateCandidate = () => {
+        const pack = parseCandidate();
+        if (!pack) return;
+        try {
+            safetyGuard.loadRulePack(pack, sessionService.getOperatorId());
+            setDryRun(null);
+        } catch (e: any) {
+            notificationService.error('Rule Pack Rejected', e.message);
+        }
+    };
+
     return (
         <div className="space-y-6">
             {/* HEADER */}
@@ -66,6 +113,12 @@ export const Governance: React.FC = () => {
                     <Button variant={activeTab === 'HALLUCINATIONS' ? 'primary' : 'secondary'} size="sm" onClick={() => setActiveTab('HALLUCINATIONS')}>
                         Fact Checking
                     </Button>
+                    <Button variant={activeTab === 'SAFETY_RULES' ? 'primary' : 'secondary'} size="sm" onClick={() => setActiveTab('SAFETY_RULES')}>
+                        Safety Rules
+                    </Button>
+                    <Button variant={activeTab === 'USAGE' ? 'primary' : 'secondary'} size="sm" onClick={() => setActiveTab('USAGE')}>
+                        AI Usage
+                    </Button>
                 </div>
             </header>
 
@@ -257,6 +310,81 @@ export const Governance: React.FC = () => {
                     )}
                 </Card>
             )}
+            {/* SAFETY RULES TAB */}
+            {activeTab === 'SAFETY_RULES' && activePack && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <Card title={`Active Rule Pack: ${activePack.id} v${activePack.version}`}>
+                        <div className="space-y-2 max-h-[500px] overflow-y-auto">
+                            {activePack.rules.map(rule => (
+                                <div key={rule.id} className="p-3 bg-[var(--bg-tertiary)] rounded text-xs">
+                                    <div className="flex justify-between items-center">
+                                        <span className="font-mono font-bold text-[var(--text-primary)]">{rule.id}@v{rule.version}</span>
+                                        <span className={`font-bold px-2 py-0.5 rounded text-white ${rule.effect === 'BLOCK' ? 'bg-[var(--status-critical)]' : 'bg-[var(--status-warning)]'}`}>
+                                            {rule.effect}
+                                        </span>
+                                    </div>
+                                    <div className="text-[var(--text-secondary)] mt-1">{rule.description}</div>
+                                    <div className="text-[var(--text-muted)] font-mono mt-1">{rule.tool} • {rule.violationCode} • {rule.severity}</div>
+                                </div>
+                            ))}
+                            <div className="text-xs text-[var(--text-muted)] pt-2">
+                                Published {new Date(activePack.publishedAt).toLocaleString()} by {activePack.author} • {safetyDecisions.length} decisions recorded
+                            </div>
+                        </div>
+                    </Card>
+
+                    <Card title="Load Rule Pack">
+                        <div className="space-y-3">
+                            <textarea
+                                value={candidateJson}
+                                onChange={e => setCandidateJson(e.target.value)}
+                                placeholder='Paste rule pack JSON ({ "id", "version", "rules": [...] })'
+                                className="w-full h-40 p-2 text-xs font-mono bg-[var(--bg-tertiary)] border border-[var(--border-default)] rounded text-[var(--text-primary)]"
+                            />
+                            <div className="flex gap-2">
+                                <Button size="sm" variant="secondary" onClick={() => setCandidateJson(JSON.stringify(activePack, null, 2))}>
+                                    Edit Active
+                                </Button>
+                                <Button size="sm" variant="secondary" onClick={runDryRun} disabled={!candidateJson}>
+                                    Dry Run
+                                </Button>
+                                <Button size="sm" variant="primary" onClick={activateCandidate} disabled={!dryRun}>
+                                    Activate
+                                </Button>
+                            </div>
+
+                            {dryRun && (
+                                <div className="space-y-2">
+                                    <div className="text-xs text-[var(--text-secondary)]">
+                                        {dryRun.callsReplayed} recent calls replayed against {dryRun.candidatePackId} v{dryRun.candidatePackVersion} (active v{dryRun.activePackVersion}):
+                                        <span className="text-[var(--status-critical)] font-bold"> {dryRun.newlyBlocked} newly blocked</span>,
+                                        <span className="text-[var(--status-normal)] font-bold"> {dryRun.newlyAllowed} newly allowed</span>
+                                    </div>
+                                    <div className="max-h-[240px] overflow-y-auto space-y-1">
+                                        {dryRun.entries.filter(e => e.change !== 'UNCHANGED').map(entry => (
+                                            <div key={entry.decision.id} className={`p-2 rounded border text-xs ${entry.change === 'NEWLY_BLOCKED' ? 'border-[var(--status-critical)] bg-[var(--status-critical-muted)]' : 'border-[var(--status-normal)] bg-[var(--status-normal-muted)]'}`}>
+                                                <div className="flex justify-between font-mono">
+                                                    <span className="text-[var(--text-primary)]">{entry.decision.toolName}</span>
+                                                    <span className="font-bold">{entry.change.replace('_', ' ')}</span>
+                                                </div>
+                                                <div className="text-[var(--text-muted)] truncate">{JSON.stringify(entry.decision.args)}</div>
+                                                <div className="text-[var(--text-secondary)]">
+                                                    {entry.candidate.blockedBy
+                                                        ? `${entry.candidate.blockedBy.ruleId}@v${entry.candidate.blockedBy.ruleVersion}: ${entry.candidate.blockedBy.reason}`
+                                                        : `Previously blocked by ${entry.decision.evaluation.blockedBy?.ruleId}@v${entry.decision.evaluation.blockedBy?.ruleVersion}`}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </Card>
+                </div>
+            )}
+
+            {/* AI USAGE TAB */}
+            {activeTab === 'USAGE' && <LlmUsagePanel />}
         </div>
     );
 };
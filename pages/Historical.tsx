@@ -5,7 +5,8 @@ import { Button } from '../components/Common/Button';
 import { dataService } from '../services/dataServiceFactory';
 import { genAiService } from '../services/genAiService';
 import { knowledgeService } from '../services/knowledgeService';
-import { HistoricalComparisonChart } from '../components/Visualizations/Charts';
+import { HistoricalComparisonChart, ChartMarker } from '../components/Visualizations/Charts';
+import { TimeSeriesReport } from '../services/timeSeriesAnalysis';
 import { notificationService } from '../services/notificationService';
 import { incidentRecorder, IncidentRecording } from '../services/incidentRecorder';
 
@@ -62,7 +63,7 @@ export const Historical: React.FC = () => {
     const [displayedData, setDisplayedData] = useState<any[] | null>(null); // What is currently shown (for animation)
     const [loading, setLoading] = useState(false);
     const [analyzing, setAnalyzing] = useState(false);
-    const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
+    const [aiAnalysis, setAiAnalysis] = useState<TimeSeriesReport | null>(null);
     const [currentCase, setCurrentCase] = useState<string>("None");
 
     // Playback State
@@ -110,11 +111,16 @@ export const Historical: React.FC = () => {
         try {
             const response = await dataService.getHistorical(start, end);
             if (response && response.length > 0) {
-                const transformed = response.map((d: any) => ({
-                    time: new Date(d.period).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', month: 'short', day: 'numeric' }),
-                    value: d.value,
-                    value2: d.value2 // Secondary line (Demand vs Load) for Uri simulation
-                }));
+                // EIA hourly periods look like "2021-02-15T06" (UTC); playback and analysis run oldest first
+                const toMs = (period: string) => Date.parse(/T\d{2}$/.test(period) ? `${period}:00:00Z` : period);
+                const transformed = response
+                    .map((d: any) => ({
+                        time: new Date(toMs(d.period)).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', month: 'short', day: 'numeric' }),
+                        timestamp: toMs(d.period),
+                        value: Number(d.value),
+                        value2: d.value2 // Secondary line (Demand vs Load) for Uri simulation
+                    }))
+                    .sort((a: any, b: any) => (a.timestamp - b.timestamp) || 0);
                 setFullData(transformed);
                 setDisplayedData(transformed); // Show full data initially
                 setPlaybackIndex(transformed.length - 1); // Set cursor to end
@@ -184,11 +190,20 @@ export const Historical: React.FC = () => {
         let context = "";
         if (currentCase.includes("Uri")) context = "CONTEXT: This is the Winter Storm Uri event (Feb 2021). The drop in 'value' represents Load Shedding (Blackouts). 'value2' is the estimated Demand.";
 
-        const result = await genAiService.analyzeTimeSeries(fullData);
-        setAiAnalysis(result);
-        setAnalyzing(false);
+        try {
+            setAiAnalysis(await genAiService.analyzeTimeSeries(fullData, context || undefined));
+        } catch (e) {
+            notificationService.error("Analysis Failed", e instanceof Error ? e.message : String(e));
+        } finally {
+            setAnalyzing(false);
+        }
     };
 
+    // Findings worth marking on the timeline (changepoints as vertical lines)
+    const chartMarkers: ChartMarker[] = (aiAnalysis?.findings || [])
+        .filter(f => f.kind === 'CHANGEPOINT' || f.severity !== 'INFO' || f.kind === 'PEAK' || f.kind === 'TROUGH')
+        .map(f => ({ time: f.time, value: f.value, severity: f.severity, vertical: f.kind === 'CHANGEPOINT', label: f.kind === 'CHANGEPOINT' ? 'SHIFT' : undefined }));
+
     // --- DATASET GENERATOR LOGIC ---
     const generateTrainingData = () => {
         setLoading(true);
@@ -649,6 +664,7 @@ export const Historical: React.FC = () => {
                                     <HistoricalComparisonChart
                                         data={displayedData}
                                         height={260}
+                                        markers={chartMarkers}
                                         title1="Actual Load (Supply)"
                                         title2={currentCase.includes('Uri') || currentCase.includes('Synthetic') ? "Estimated Demand (Gap)" : "Forecast"}
                                     />
@@ -669,9 +685,14 @@ export const Historical: React.FC = () => {
                                     <div className="animate-in fade-in slide-in-from-bottom-2">
                                         <div className="flex items-center gap-2 mb-2 pb-2 border-b border-[var(--border-muted)]">
                                             <div className="w-2 h-2 bg-[var(--status-info)] rounded-full"></div>
-                                            <span className="text-xs font-mono text-[var(--text-secondary)]">GENERATED BY GEMINI 3 PRO</span>
+                                            <span className="text-xs font-mono text-[var(--text-secondary)]">
+                                                {aiAnalysis.narrativeSource === 'LLM' ? `LOCAL ANALYSIS · NARRATED BY ${(aiAnalysis.narratedBy ?? 'AI').toUpperCase()}` : 'LOCAL STATISTICAL ANALYSIS'}
+                                            </span>
+                                            <span className="ml-auto text-xs font-mono text-[var(--text-muted)]">
+                                                {aiAnalysis.findings.filter(f => f.severity === 'CRITICAL').length} critical · {aiAnalysis.findings.length} findings
+                                            </span>
                                         </div>
-                                        <ReportRenderer text={aiAnalysis} />
+                                        <ReportRenderer text={aiAnalysis.narrative} />
                                     </div>
                                 ) : (
                                     <div className="h-full flex flex-col items-center justify-center text-center p-4">
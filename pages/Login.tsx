@@ -8,10 +8,17 @@ import { liveService } from '../services/liveService';
 import { agentOrchestrator } from '../services/agentOrchestrator';
 import { API_CONFIG } from '../services/apiConfig';
 import { SystemManifestModal } from '../components/Layout/SystemManifestModal';
+import { accountService } from '../services/accountService';
 
 export const Login: React.FC = () => {
   const navigate = useNavigate();
-  const [accessCode, setAccessCode] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  // First run: no accounts yet, create the initial ADMIN
+  const [needsBootstrap, setNeedsBootstrap] = useState(false);
+  const [displayName, setDisplayName] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
 
   const [gridKey, setGridKey] = useState('');
   const [eiaKey, setEiaKey] = useState('');
@@ -20,6 +27,8 @@ export const Login: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [isDemoHovered, setIsDemoHovered] = useState(false);
+  // Set by "use simulated keys"; selects synthetic data, never the login path
+  const [useSimulatedData, setUseSimulatedData] = useState(false);
 
   // Manifest Modal State
   const [isManifestOpen, setIsManifestOpen] = useState(false);
@@ -27,6 +36,12 @@ export const Login: React.FC = () => {
   // Auto-typing boot sequence for the right side visual only
   const [bootSequence, setBootSequence] = useState<string[]>([]);
 
+  useEffect(() => {
+    accountService.hasAccounts()
+      .then(exists => setNeedsBootstrap(!exists))
+      .catch(() => setError('ACCOUNT STORE UNAVAILABLE: USE DEMO MODE.'));
+  }, []);
+
   useEffect(() => {
     // PRE-FILL KEYS IF HARDCODED IN CONFIG
     if (API_CONFIG.GRID_STATUS_KEY) setGridKey(API_CONFIG.GRID_STATUS_KEY);
@@ -56,7 +71,6 @@ export const Login: React.FC = () => {
 
   const enableDemoMode = () => {
     localStorage.setItem('DEMO_MODE', 'true');
-    setAccessCode('DEMO_ACCESS_GRANTED');
     performLogin('demo');
   };
 
@@ -64,32 +78,43 @@ export const Login: React.FC = () => {
     setGridKey('SIMULATED_GRID_KEY');
     setEiaKey('SIMULATED_EIA_KEY');
     setAiKey('SIMULATED_GEMINI_KEY');
-    localStorage.setItem('DEMO_MODE', 'true');
+    setUseSimulatedData(true);
   };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (gridKey.includes('SIMULATED')) {
-      localStorage.setItem('DEMO_MODE', 'true');
-      performLogin('demo');
-    } else {
-      localStorage.removeItem('DEMO_MODE');
-      performLogin('normal');
-    }
+    // Credentials are always checked; simulated keys only switch the data source
+    if (useSimulatedData) localStorage.setItem('DEMO_MODE', 'true');
+    else localStorage.removeItem('DEMO_MODE');
+    performLogin('normal');
   };
 
-  const performLogin = (mode: 'normal' | 'demo') => {
+  const performLogin = async (mode: 'normal' | 'demo') => {
     setIsLoading(true);
     setError('');
 
-    setTimeout(() => {
-      if (mode === 'normal' && accessCode && accessCode !== 'admin') {
-        setError('ACCESS DENIED: INVALID AUTHORIZATION CODE.');
-        setIsLoading(false);
-        return;
+    const fail = (message: string) => {
+      setError(message.toUpperCase());
+      setIsLoading(false);
+    };
+
+    try {
+      if (mode === 'demo') {
+        await accountService.startDemoSession();
+      } else {
+        if (needsBootstrap) {
+          if (password !== confirmPassword) return fail('Passwords do not match.');
+          const created = await accountService.createAccount(username, displayName, 'ADMIN', password);
+          if (!created.ok) return fail(created.error || 'Account creation failed.');
+          setNeedsBootstrap(false);
+        }
+        const result = await accountService.login(username, password);
+        setPassword('');
+        setConfirmPassword('');
+        if (!result.ok) return fail(`ACCESS DENIED: ${result.error}`);
       }
 
-      if (mode === 'normal') {
+      if (mode === 'normal' && !useSimulatedData) {
         // Only save to localStorage if NOT hardcoded to avoid redundant storage
         if (gridKey && gridKey !== API_CONFIG.GRID_STATUS_KEY) localStorage.setItem('GRID_STATUS_KEY', gridKey);
         if (eiaKey && eiaKey !== API_CONFIG.EIA_KEY) localStorage.setItem('EIA_KEY', eiaKey);
@@ -102,7 +127,9 @@ export const Login: React.FC = () => {
       agentOrchestrator.updateKey();
 
       navigate(ROUTES.DASHBOARD);
-    }, 1200);
+    } catch (e) {
+      fail('ACCOUNT STORE UNAVAILABLE: USE DEMO MODE.');
+    }
   };
 
   return (
@@ -222,22 +249,66 @@ export const Login: React.FC = () => {
               </div>
             </div>
 
-            <h2 className="text-xl font-semibold text-[var(--text-primary)] mb-1">Identify</h2>
-            <p className="text-xs text-[var(--text-secondary)] mb-6">Enter secure credentials to access the control plane.</p>
+            <h2 className="text-xl font-semibold text-[var(--text-primary)] mb-1">{needsBootstrap ? 'Initialize' : 'Identify'}</h2>
+            <p className="text-xs text-[var(--text-secondary)] mb-6">
+              {needsBootstrap
+                ? 'No operator accounts exist. Create the initial administrator account.'
+                : 'Enter secure credentials to access the control plane.'}
+            </p>
 
             <form onSubmit={handleLogin} className="space-y-5">
               <div className="space-y-1">
-                <label className="text-[10px] font-mono uppercase text-[var(--text-muted)] tracking-wider">Access Code</label>
+                <label className="text-[10px] font-mono uppercase text-[var(--text-muted)] tracking-wider">Username</label>
+                <input
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="w-full bg-[var(--bg-tertiary)] border border-[var(--border-default)] text-[var(--text-primary)] px-4 py-3 rounded text-sm font-mono focus:outline-none focus:border-[var(--status-info)] focus:ring-1 focus:ring-[var(--status-info)] transition-all"
+                  placeholder="operator.id"
+                  autoComplete="username"
+                  autoFocus
+                />
+              </div>
+
+              {needsBootstrap && (
+                <div className="space-y-1">
+                  <label className="text-[10px] font-mono uppercase text-[var(--text-muted)] tracking-wider">Display Name</label>
+                  <input
+                    type="text"
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                    className="w-full bg-[var(--bg-tertiary)] border border-[var(--border-default)] text-[var(--text-primary)] px-4 py-3 rounded text-sm font-mono focus:outline-none focus:border-[var(--status-info)] focus:ring-1 focus:ring-[var(--status-info)] transition-all"
+                    placeholder="Full name"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <label className="text-[10px] font-mono uppercase text-[var(--text-muted)] tracking-wider">Password</label>
                 <input
                   type="password"
-                  value={accessCode}
-                  onChange={(e) => setAccessCode(e.target.value)}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
                   className="w-full bg-[var(--bg-tertiary)] border border-[var(--border-default)] text-[var(--text-primary)] px-4 py-3 rounded text-sm font-mono focus:outline-none focus:border-[var(--status-info)] focus:ring-1 focus:ring-[var(--status-info)] transition-all"
                   placeholder="••••••••••••"
-                  autoFocus
+                  autoComplete={needsBootstrap ? 'new-password' : 'current-password'}
                 />
               </div>
 
+              {needsBootstrap && (
+                <div className="space-y-1">
+                  <label className="text-[10px] font-mono uppercase text-[var(--text-muted)] tracking-wider">Confirm Password</label>
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full bg-[var(--bg-tertiary)] border border-[var(--border-default)] text-[var(--text-primary)] px-4 py-3 rounded text-sm font-mono focus:outline-none focus:border-[var(--status-info)] focus:ring-1 focus:ring-[var(--status-info)] transition-all"
+                    placeholder="••••••••••••"
+                    autoComplete="new-password"
+                  />
+                </div>
+              )}
+
               <div className="pt-4 border-t border-[var(--border-muted)]">
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-[10px] font-mono uppercase text-[var(--text-muted)] tracking-wider">API Configuration (Optional)</span>
@@ -251,14 +322,14 @@ export const Login: React.FC = () => {
                     <input
                       type="password"
                       value={gridKey}
-                      onChange={(e) => setGridKey(e.target.value)}
+                      onChange={(e) => { setGridKey(e.target.value); setUseSimulatedData(false); }}
                       placeholder="GridStatus.io API Key"
                       className="w-full bg-[var(--bg-tertiary)] border border-[var(--border-default)] text-[var(--text-secondary)] px-3 py-2 rounded text-xs font-mono focus:outline-none focus:border-[var(--border-emphasis)]"
                     />
                     <input
                       type="password"
                       value={aiKey}
-                      onChange={(e) => setAiKey(e.target.value)}
+                      onChange={(e) => { setAiKey(e.target.value); setUseSimulatedData(false); }}
                       placeholder="Google Gemini API Key"
                       className="w-full bg-[var(--bg-tertiary)] border border-[var(--border-default)] text-[var(--text-secondary)] px-3 py-2 rounded text-xs font-mono focus:outline-none focus:border-[var(--border-emphasis)]"
                     />
@@ -283,7 +354,7 @@ export const Login: React.FC = () => {
                 className="w-full py-2 text-sm tracking-widest font-mono"
                 disabled={isLoading}
               >
-                {isLoading ? "VERIFYING CREDENTIALS..." : "INITIATE SESSION"}
+                {isLoading ? "VERIFYING CREDENTIALS..." : needsBootstrap ? "CREATE ADMIN & SIGN IN" : "INITIATE SESSION"}
               </Button>
             </form>
 
@@ -310,7 +381,7 @@ export const Login: React.FC = () => {
                 </div>
                 <div className="text-left">
                   <div className={`font-bold text-sm ${isDemoHovered ? 'text-white' : 'text-[var(--text-primary)]'}`}>ENTER DEMO MODE (SIMULATION)</div>
-                  <div className={`text-xs ${isDemoHovered ? 'text-white/80' : 'text-[var(--text-secondary)]'}`}>Load high-fidelity synthetic data (No API Keys required)</div>
+                  <div className={`text-xs ${isDemoHovered ? 'text-white/80' : 'text-[var(--text-secondary)]'}`}>{needsBootstrap ? 'Load high-fidelity synthetic data (No API Keys required)' : 'Read-only synthetic data (sign in to act)'}</div>
                 </div>
               </div>
               <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke={isDemoHovered ? 'white' : 'var(--text-muted)'} strokeWidth="2" className={`transition-transform duration-300 ${isDemoHovered ? 'translate-x-1' : ''}`}><line x1="5" y1="12" x2="19" y2="12"></line><polyline points="12 5 19 12 12 19"></polyline></svg>
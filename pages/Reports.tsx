@@ -4,6 +4,25 @@ import { Card } from '../components/Common/Card';
 import { Button } from '../components/Common/Button';
 import { genAiService } from '../services/genAiService';
 import { auditService, AuditEntry } from '../services/auditService';
+import { OperationsReport, ReportRow, toHtml, toMarkdown } from '../services/reportBuilder';
+import { notificationService } from '../services/notificationService';
+
+const ReportTable: React.FC<{ headers: string[]; rows: string[][] }> = ({ headers, rows }) => (
+   rows.length === 0 ? <p className="italic text-gray-500">None recorded.</p> : (
+      <table className="w-full border-collapse text-xs font-mono">
+         <thead>
+            <tr>{headers.map(h => <th key={h} className="border border-gray-300 bg-gray-100 px-2 py-1 text-left">{h}</th>)}</tr>
+         </thead>
+         <tbody>
+            {rows.map((row, i) => (
+               <tr key={i}>{row.map((cell, j) => <td key={j} className="border border-gray-300 px-2 py-1 align-top">{cell}</td>)}</tr>
+            ))}
+         </tbody>
+      </table>
+   )
+);
+
+const rowCells = (rows: ReportRow[]) => rows.map(r => [r.time, r.label, r.actor, r.detail]);
 
 export const Reports: React.FC = () => {
    const activeTabState = useState<'BUILDER' | 'AUDIT'>('BUILDER');
@@ -14,7 +33,9 @@ export const Reports: React.FC = () => {
    const [dateRange, setDateRange] = useState("Last 24 Hours");
    const [isGenerating, setIsGenerating] = useState(false);
    const [generationStep, setGenerationStep] = useState<string>("");
-   const [generatedReport, setGeneratedReport] = useState<string | null>(null);
+   const [customStart, setCustomStart] = useState("");
+   const [customEnd, setCustomEnd] = useState("");
+   const [generatedReport, setGeneratedReport] = useState<OperationsReport | null>(null);
    const [logs, setLogs] = useState<AuditEntry[]>([]);
 
    // Refresh logs when tab opens
@@ -28,13 +49,46 @@ export const Reports: React.FC = () => {
       setIsGenerating(true);
       setGeneratedReport(null);
 
-      setGenerationStep("Analyzing Grid Telemetry & Open Data...");
+      setGenerationStep("Compiling telemetry, audit trail, incidents and dispatch records...");
 
-      // Real call
-      const text = await genAiService.generateReport({ type: reportType, range: dateRange });
+      const custom = dateRange === "Custom Range...";
+      try {
+         const report = await genAiService.generateReport({
+            type: reportType,
+            range: dateRange,
+            startTime: custom ? Date.parse(`${customStart}T00:00:00Z`) : undefined,
+            endTime: custom ? Date.parse(`${customEnd}T23:59:59.999Z`) : undefined
+         });
+         setGeneratedReport(report);
+      } catch (e) {
+         notificationService.error('Report Failed', e instanceof Error ? e.message : String(e));
+      } finally {
+         setIsGenerating(false);
+      }
+   };
 
-      setIsGenerating(false);
-      setGeneratedReport(text);
+   const download = (content: string, extension: string, mime: string) => {
+      if (!generatedReport) return;
+      const url = URL.createObjectURL(new Blob([content], { type: mime }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `gridguard_${generatedReport.id.toLowerCase()}.${extension}`;
+      a.click();
+      URL.revokeObjectURL(url);
+   };
+
+   // Print the standalone layout so the browser's "Save as PDF" gets clean pages
+   const printReport = () => {
+      if (!generatedReport) return;
+      const win = window.open('', '_blank');
+      if (!win) {
+         notificationService.warning('Pop-up Blocked', 'Allow pop-ups to print, or download the HTML and print it.');
+         return;
+      }
+      win.document.write(toHtml(generatedReport));
+      win.document.close();
+      win.focus();
+      win.print();
    };
 
    const resetView = () => {
@@ -150,6 +204,15 @@ export const Reports: React.FC = () => {
                               </div>
                            </div>
                         </div>
+                        {dateRange === "Custom Range..." && (
+                           <div className="flex-1 w-full space-y-1">
+                              <label className="text-xs text-[var(--text-secondary)] uppercase font-semibold">From / To (UTC)</label>
+                              <div className="flex gap-2">
+                                 <input type="date" value={customStart} onChange={(e) => setCustomStart(e.target.value)} className="w-full px-2 py-2 bg-[var(--bg-primary)] border border-[var(--border-default)] rounded text-sm text-[var(--text-primary)]" />
+                                 <input type="date" value={customEnd} onChange={(e) => setCustomEnd(e.target.value)} className="w-full px-2 py-2 bg-[var(--bg-primary)] border border-[var(--border-default)] rounded text-sm text-[var(--text-primary)]" />
+                              </div>
+                           </div>
+                        )}
                         <div className="w-32 space-y-1">
                            <label htmlFor="format" className="text-xs text-[var(--text-secondary)] uppercase font-semibold">Format</label>
                            <div id="format" className="w-full px-3 py-2 bg-[var(--bg-primary)] border border-[var(--border-default)] rounded text-sm text-[var(--text-secondary)] flex justify-between items-center opacity-70 cursor-not-allowed">
@@ -161,7 +224,7 @@ export const Reports: React.FC = () => {
                            variant="primary"
                            className="w-full md:w-auto min-w-[120px]"
                            onClick={handleGenerate}
-                           disabled={isGenerating}
+                           disabled={isGenerating || (dateRange === "Custom Range..." && (!customStart || !customEnd || customStart > customEnd))}
                         >
                            {isGenerating ? "ANALYZING..." : "COMPILE REPORT"}
                         </Button>
@@ -207,7 +270,13 @@ export const Reports: React.FC = () => {
                /* GENERATED REPORT VIEW (Paper Mode) */
                <div className="w-full bg-white text-black p-8 rounded shadow-lg min-h-[600px] animate-in fade-in slide-in-from-bottom-4 duration-500 relative">
                   <div className="absolute top-4 right-4 flex gap-2 print:hidden">
-                     <Button variant="secondary" size="sm" className="bg-gray-100 hover:bg-gray-200 text-gray-800 border-gray-300" onClick={() => window.print()}>
+                     <Button variant="secondary" size="sm" className="bg-gray-100 hover:bg-gray-200 text-gray-800 border-gray-300" onClick={() => download(toMarkdown(generatedReport), 'md', 'text/markdown')}>
+                        Markdown
+                     </Button>
+                     <Button variant="secondary" size="sm" className="bg-gray-100 hover:bg-gray-200 text-gray-800 border-gray-300" onClick={() => download(toHtml(generatedReport), 'html', 'text/html')}>
+                        HTML
+                     </Button>
+                     <Button variant="secondary" size="sm" className="bg-gray-100 hover:bg-gray-200 text-gray-800 border-gray-300" onClick={printReport}>
                         <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-2"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
                         Print / Save PDF
                      </Button>
@@ -223,18 +292,45 @@ export const Reports: React.FC = () => {
                            <p className="text-xs font-mono uppercase text-gray-600">Automated Intelligence Division</p>
                         </div>
                         <div className="text-right text-xs font-mono">
-                           <p>ID: {Math.random().toString(36).substring(2, 8).toUpperCase()}</p>
-                           <p>DATE: {new Date().toLocaleDateString()}</p>
+                           <p>ID: {generatedReport.id}</p>
+                           <p>DATE: {new Date(generatedReport.generatedAt).toLocaleDateString()}</p>
                         </div>
                      </div>
 
-                     <div className="prose prose-sm max-w-none whitespace-pre-line font-serif leading-relaxed">
-                        {generatedReport}
+                     <div className="space-y-6 text-sm leading-relaxed">
+                        <div>
+                           <h2 className="text-xl font-bold">{generatedReport.type}</h2>
+                           <p className="text-xs font-mono text-gray-600">Window (UTC): {generatedReport.window.start} → {generatedReport.window.end}</p>
+                        </div>
+                        <section>
+                           <h3 className="font-bold uppercase border-b border-gray-400 mb-2">Executive Summary</h3>
+                           <div className="whitespace-pre-line">{generatedReport.executiveSummary}</div>
+                        </section>
+                        <section>
+                           <h3 className="font-bold uppercase border-b border-gray-400 mb-2">Key Performance Indicators</h3>
+                           <ReportTable headers={['Indicator', 'Value']} rows={generatedReport.kpis.map(k => [k.label, k.value])} />
+                        </section>
+                        <section>
+                           <h3 className="font-bold uppercase border-b border-gray-400 mb-2">Incidents</h3>
+                           <ReportTable
+                              headers={['Name', 'Start (UTC)', 'Duration', 'Severity', 'Peak Load', 'Min Freq', 'Alerts']}
+                              rows={generatedReport.incidents.map(i => [i.name, i.start, `${i.durationMin} min`, i.severity, `${Math.round(i.peakLoadMW).toLocaleString()} MW`, `${i.minFrequencyHz.toFixed(3)} Hz`, String(i.alertCount)])}
+                           />
+                        </section>
+                        <section>
+                           <h3 className="font-bold uppercase border-b border-gray-400 mb-2">Events</h3>
+                           <ReportTable headers={['Time (UTC)', 'Type', 'By', 'Detail']} rows={rowCells(generatedReport.events)} />
+                        </section>
+                        <section>
+                           <h3 className="font-bold uppercase border-b border-gray-400 mb-2">Actions Taken</h3>
+                           <ReportTable headers={['Time (UTC)', 'Type', 'By', 'Detail']} rows={rowCells(generatedReport.actions)} />
+                        </section>
+                        {generatedReport.truncated && <p className="text-xs italic text-gray-500">Events and actions are limited to the most recent entries.</p>}
                      </div>
 
                      <div className="mt-12 pt-4 border-t border-gray-300 flex justify-between text-xs text-gray-500 font-mono">
                         <p>CONFIDENTIAL // ERCOT INTERNAL USE ONLY</p>
-                        <p>Generated by Gemini 3 Pro (Automated Analyst)</p>
+                        <p>{generatedReport.narrativeSource === 'LLM' ? `Summary drafted by ${generatedReport.narratedBy ?? 'AI'} from computed figures` : 'Computed from recorded data'}</p>
                      </div>
                   </div>
                </div>
@@ -3,18 +3,8 @@ import React, { useState, useEffect } from 'react';
 import { Card } from '../components/Common/Card';
 import { Button } from '../components/Common/Button';
 import { genAiService } from '../services/genAiService';
-
-interface ScenarioState {
-  temp: string;
-  wind: string;
-  solar: string;
-  load: string;
-  growth: string;
-  ev: string;
-  gen: string;
-  reserves: string;
-  outages: string;
-}
+import { ScenarioResult } from '../services/scenarioEngine';
+import { ScenarioState } from '../types';
 
 const INITIAL_STATE: ScenarioState = {
   temp: "75°F",
@@ -28,33 +18,6 @@ const INITIAL_STATE: ScenarioState = {
   outages: "None"
 };
 
-// --- Helper Hook for Streaming Text ---
-const useTypewriter = (text: string | null, speed: number = 5) => {
-  const [displayedText, setDisplayedText] = useState('');
-  
-  useEffect(() => {
-    if (!text) {
-      setDisplayedText('');
-      return;
-    }
-    
-    setDisplayedText('');
-    let i = 0;
-    const interval = setInterval(() => {
-      if (i < text.length) {
-        setDisplayedText((prev) => prev + text.charAt(i));
-        i++;
-      } else {
-        clearInterval(interval);
-      }
-    }, speed);
-    
-    return () => clearInterval(interval);
-  }, [text, speed]);
-  
-  return displayedText;
-};
-
 // --- Parser Component for Military Markdown ---
 const ReportRenderer: React.FC<{ text: string }> = ({ text }) => {
   const lines = text.split('\n');
@@ -123,6 +86,65 @@ const ReportRenderer: React.FC<{ text: string }> = ({ text }) => {
   );
 };
 
+const EEA_COLORS = [
+  'text-[var(--status-normal)]',
+  'text-[var(--status-warning)]',
+  'text-[var(--status-warning)]',
+  'text-[var(--status-critical)]'
+];
+
+const RISK_COLORS: Record<string, string> = {
+  LOW: 'text-[var(--status-normal)]',
+  MODERATE: 'text-[var(--text-primary)]',
+  HIGH: 'text-[var(--status-warning)]',
+  CRITICAL: 'text-[var(--status-critical)]'
+};
+
+// --- Deterministic engine output shown above the narrative ---
+const ScenarioMetrics: React.FC<{ result: ScenarioResult }> = ({ result }) => {
+  const mw = (value: number) => `${Math.round(value).toLocaleString('en-US')} MW`;
+  const tiles = [
+    { label: 'Reserve Margin', value: `${result.reserveMarginPercent.toFixed(1)}%`, color: EEA_COLORS[result.eeaLevel] },
+    { label: 'Operating Reserves', value: mw(result.operatingReserveMW), color: EEA_COLORS[result.eeaLevel] },
+    { label: 'EEA Level', value: result.eeaLevel === 0 ? 'NONE' : `EEA${result.eeaLevel}`, color: EEA_COLORS[result.eeaLevel] },
+    { label: 'Load Shed', value: mw(result.loadShedMW), color: result.loadShedMW > 0 ? 'text-[var(--status-critical)]' : 'text-[var(--text-primary)]' }
+  ];
+
+  return (
+    <div className="space-y-4 mb-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {tiles.map(tile => (
+          <div key={tile.label} className="p-3 border border-[var(--border-default)] rounded bg-[var(--bg-tertiary)]">
+            <div className="text-xs text-[var(--text-muted)] uppercase">{tile.label}</div>
+            <div className={`font-mono text-xl font-bold ${tile.color}`}>{tile.value}</div>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 font-mono text-xs">
+        <div className="p-3 border border-[var(--border-muted)] rounded space-y-1">
+          <div className="flex justify-between"><span className="text-[var(--text-muted)]">Demand</span><span>{mw(result.demandMW)}</span></div>
+          <div className="flex justify-between"><span className="text-[var(--text-muted)]">Thermal (derated)</span><span>{mw(result.supply.thermalMW)}</span></div>
+          <div className="flex justify-between"><span className="text-[var(--text-muted)]">Wind</span><span>{mw(result.supply.windMW)}</span></div>
+          <div className="flex justify-between"><span className="text-[var(--text-muted)]">Solar</span><span>{mw(result.supply.solarMW)}</span></div>
+          <div className="flex justify-between"><span className="text-[var(--text-muted)]">Committed reserves</span><span>{mw(result.supply.reservesMW)}</span></div>
+          <div className="flex justify-between"><span className="text-[var(--text-muted)]">Shortfall</span><span>{mw(result.shortfallMW)}</span></div>
+        </div>
+        <div className="p-3 border border-[var(--border-muted)] rounded space-y-1">
+          {result.corridorRisks.map(risk => (
+            <div key={risk.corridorName} className="flex justify-between">
+              <span className="text-[var(--text-muted)]">{risk.corridorName}</span>
+              <span className={RISK_COLORS[risk.riskLevel]}>{risk.riskLevel} ({risk.riskScore})</span>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="text-xs text-[var(--text-muted)]">
+        {result.eeaLabel} · Narrative: {result.narrativeSource === 'LLM' ? 'AI narration of the computed result' : 'template (no AI key)'}
+      </div>
+    </div>
+  );
+};
+
 const ComputingVisual: React.FC = () => {
     const [lines, setLines] = useState<string[]>([]);
     
@@ -169,10 +191,7 @@ const ComputingVisual: React.FC = () => {
 export const Scenarios: React.FC = () => {
   const [inputs, setInputs] = useState<ScenarioState>(INITIAL_STATE);
   const [isRunning, setIsRunning] = useState(false);
-  const [rawResult, setRawResult] = useState<string | null>(null);
-  
-  // Use the hook for the typewriter effect
-  const displayedResult = useTypewriter(rawResult, 5); 
+  const [result, setResult] = useState<ScenarioResult | null>(null);
 
   const cycleValue = (key: keyof ScenarioState, current: string) => {
     // Simple 3-state cycle for input selection
@@ -208,13 +227,16 @@ export const Scenarios: React.FC = () => {
 
   const handleRun = async () => {
     setIsRunning(true);
-    setRawResult(null);
+    setResult(null);
     
-    // Direct AI Call - No fake physics delays
-    const aiOutput = await genAiService.simulateScenario(inputs);
+    // Deterministic balance first; the AI only narrates it, streamed as it arrives
+    const scenario = await genAiService.simulateScenario(inputs, partial => {
+      setIsRunning(false);
+      setResult(partial);
+    });
     
     setIsRunning(false);
-    setRawResult(aiOutput);
+    setResult(scenario);
   };
 
   return (
@@ -289,16 +311,17 @@ export const Scenarios: React.FC = () => {
       <Card 
         title="Simulation Results" 
         className="min-h-[400px]" 
-        isEmpty={!rawResult && !isRunning} 
+        isEmpty={!result && !isRunning} 
         emptyMessage="Configure scenario parameters above and click Run to see AI prediction"
         isLoading={false} // Manually handling loading state via visual
       >
         <div className="h-full w-full">
           {isRunning ? (
              <ComputingVisual />
-          ) : rawResult ? (
+          ) : result ? (
             <div className="animate-in fade-in duration-500">
-               <ReportRenderer text={displayedResult} />
+               <ScenarioMetrics result={result} />
+               <ReportRenderer text={result.narrative} />
             </div>
           ) : null}
         </div>
@@ -0,0 +1,85 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const PASSWORD = 'correct horse battery';
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// Fresh account store and service per test (the module caches its connection)
+async function freshAccounts() {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    const { accountService } = await import('./accountService');
+    const created = await accountService.createAccount('admin', 'Grid Admin', 'ADMIN', PASSWORD);
+    expect(created).toEqual({ ok: true });
+    return accountService;
+}
+
+describe('accountService', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('stores a salted PBKDF2 hash and verifies the password', async () => {
+        const accounts = await freshAccounts();
+
+        const result = await accounts.verifyCredentials('Admin ', PASSWORD, 'TEST');
+        expect(result.ok).toBe(true);
+        expect(result.account).toMatchObject({ username: 'admin', operatorId: 'USR-ADMIN', role: 'ADMIN' });
+        expect(result.account).not.toHaveProperty('passwordHash');
+        expect(result.account).not.toHaveProperty('salt');
+    });
+
+    it('rejects a wrong password and an unknown user with the same error', async () => {
+        const accounts = await freshAccounts();
+
+        const wrong = await accounts.verifyCredentials('admin', 'not the password', 'TEST');
+        const unknown = await accounts.verifyCredentials('nobody', PASSWORD, 'TEST');
+        expect(wrong).toEqual({ ok: false, error: 'Invalid username or password' });
+        expect(unknown).toEqual(wrong);
+
+        const [summary] = await accounts.listAccounts();
+        expect(summary.failedAttempts).toBe(1);
+    });
+
+    it('locks the account after five failures and unlocks after the window', async () => {
+        const accounts = await freshAccounts();
+
+        for (let i = 0; i < 4; i++) {
+            expect((await accounts.verifyCredentials('admin', `wrong-${i}`, 'TEST')).ok).toBe(false);
+        }
+        const fifth = await accounts.verifyCredentials('admin', 'wrong-4', 'TEST');
+        expect(fifth.error).toMatch(/locked/i);
+
+        // Correct password is refused while locked
+        const locked = await accounts.verifyCredentials('admin', PASSWORD, 'TEST');
+        expect(locked.ok).toBe(false);
+        expect(locked.error).toMatch(/Account locked/);
+
+        vi.setSystemTime(Date.now() + LOCKOUT_MS - 1000);
+        expect((await accounts.verifyCredentials('admin', PASSWORD, 'TEST')).ok).toBe(false);
+
+        vi.setSystemTime(Date.now() + 2000);
+        expect((await accounts.verifyCredentials('admin', PASSWORD, 'TEST')).ok).toBe(true);
+
+        const [summary] = await accounts.listAccounts();
+        expect(summary.failedAttempts).toBe(0);
+        expect(summary.lockedUntil).toBeUndefined();
+    });
+
+    it('resets the failure count on a successful verification', async () => {
+        const accounts = await freshAccounts();
+
+        await accounts.verifyCredentials('admin', 'wrong', 'TEST');
+        await accounts.verifyCredentials('admin', 'wrong', 'TEST');
+        expect((await accounts.verifyCredentials('admin', PASSWORD, 'TEST')).ok).toBe(true);
+
+        const [summary] = await accounts.listAccounts();
+        expect(summary.failedAttempts).toBe(0);
+    });
+});
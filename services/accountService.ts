@@ -0,0 +1,325 @@
+/**
+ * accountService.ts
+ *
+ * Local Operator Accounts
+ *
+ * Operator accounts for the login screen, stored in IndexedDB. Passwords are
+ * never stored: each account keeps a random salt and a PBKDF2-SHA256 hash
+ * derived with WebCrypto. A successful login starts the console session
+ * (sessionService.ts), which then expires after a period of inactivity.
+ *
+ * Features:
+ * - PBKDF2-SHA256 (210k iterations, 16-byte salt), constant-time comparison
+ * - Lockout after repeated failed attempts
+ * - Re-authentication without a new session (supervisor second approval)
+ * - First-run bootstrap of an ADMIN account
+ * - USER_LOGIN / ACCESS_DENIED audit events
+ */
+
+import { auditService } from './auditService';
+import { sessionService, OperatorRole, Session } from './sessionService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OperatorAccount {
+    username: string;
+    operatorId: string;
+    displayName: string;
+    role: OperatorRole;
+    salt: string;           // base64
+    passwordHash: string;   // base64 PBKDF2-SHA256
+    iterations: number;
+    failedAttempts: number;
+    lockedUntil?: number;
+    createdAt: number;
+    createdBy: string;
+    lastLoginAt?: number;
+}
+
+export type AccountSummary = Omit<OperatorAccount, 'salt' | 'passwordHash' | 'iterations'>;
+
+export interface LoginResult {
+    ok: boolean;
+    session?: Session;
+    error?: string;
+}
+
+const POLICY = {
+    ITERATIONS: 210000,
+    SALT_BYTES: 16,
+    HASH_BITS: 256,
+    MIN_PASSWORD_LENGTH: 12,
+    MAX_FAILED_ATTEMPTS: 5,
+    LOCKOUT_MS: 15 * 60 * 1000
+};
+
+// ============================================================================
+// CRYPTO UTILITIES
+// ============================================================================
+
+function toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, POLICY.HASH_BITS);
+    return new Uint8Array(bits);
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+    return diff === 0;
+}
+
+// ============================================================================
+// INDEXEDDB PERSISTENCE
+// ============================================================================
+
+const DB_NAME = 'GridGuardAccounts';
+const DB_VERSION = 1;
+const STORE_NAME = 'accounts';
+
+// One connection for the lifetime of the page (logins and lockout checks reuse it)
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+        request.onsuccess = () => resolve(request.result);
+
+        request.onupgradeneeded = (event) => {
+            const db = (event.target as IDBOpenDBRequest).result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                const store = db.createObjectStore(STORE_NAME, { keyPath: 'username' });
+                store.createIndex('operatorId', 'operatorId', { unique: true });
+            }
+        };
+    });
+
+    return dbPromise;
+}
+
+function normalizeUsername(username: string): string {
+    return username.trim().toLowerCase();
+}
+
+// ============================================================================
+// ACCOUNT SERVICE
+// ============================================================================
+
+class AccountService {
+
+    public async hasAccounts(): Promise<boolean> {
+        return (await this.getAll()).length > 0;
+    }
+
+    public async listAccounts(): Promise<AccountSummary[]> {
+        return (await this.getAll()).map(({ salt, passwordHash, iterations, ...summary }) => summary);
+    }
+
+    /**
+     * Create an account. The first account can be created without a session
+     * and must be ADMIN; later accounts need an ADMIN session.
+     */
+    public async createAccount(username: string, displayName: string, role: OperatorRole, password: string): Promise<{ ok: boolean; error?: string }> {
+        const name = normalizeUsername(username);
+        const bootstrap = !(await this.hasAccounts());
+
+        if (bootstrap && role !== 'ADMIN') return { ok: false, error: 'The first account must be an ADMIN' };
+        if (!bootstrap && !sessionService.authorize('EDIT_SETTINGS', 'Create operator account')) return { ok: false, error: 'ADMIN role required' };
+        if (!/^[a-z0-9._-]{3,32}$/.test(name)) return { ok: false, error: 'Username must be 3-32 characters (a-z, 0-9, . _ -)' };
+        if (password.length < POLICY.MIN_PASSWORD_LENGTH) return { ok: false, error: `Password must be at least ${POLICY.MIN_PASSWORD_LENGTH} characters` };
+        if (await this.get(name)) return { ok: false, error: 'Username already exists' };
+
+        const salt = crypto.getRandomValues(new Uint8Array(POLICY.SALT_BYTES));
+        const hash = await pbkdf2(password, salt, POLICY.ITERATIONS);
+        const account: OperatorAccount = {
+            username: name,
+            operatorId: `USR-${name.toUpperCase()}`,
+            displayName: displayName.trim() || name,
+            role,
+            salt: toBase64(salt),
+            passwordHash: toBase64(hash),
+            iterations: POLICY.ITERATIONS,
+            failedAttempts: 0,
+            createdAt: Date.now(),
+            createdBy: bootstrap ? 'BOOTSTRAP' : sessionService.getOperatorId()
+        };
+        await this.put(account);
+
+        auditService.log({
+            operatorId: account.createdBy,
+            eventType: 'CONFIG_CHANGE',
+            resource: 'OPERATOR_ACCOUNTS',
+            details: `Created ${role} account ${account.operatorId} (${account.displayName})`,
+            metadata: { username: name, role }
+        });
+        return { ok: true };
+    }
+
+    /**
+     * Verify credentials and start the console session
+     */
+    public async login(username: string, password: string): Promise<LoginResult> {
+        const { account, error } = await this.verify(username, password, 'LOGIN');
+        if (!account) return { ok: false, error };
+
+        account.lastLoginAt = Date.now();
+        await this.put(account);
+
+        const session = sessionService.start(account.operatorId, account.displayName, account.role);
+        auditService.log({
+            operatorId: account.operatorId,
+            eventType: 'USER_LOGIN',
+            resource: 'LOGIN',
+            details: `${account.displayName} signed in as ${account.role}`,
+            metadata: { username: account.username, role: account.role }
+        });
+        return { ok: true, session };
+    }
+
+    /**
+     * Re-authenticate an operator at this console without changing the
+     * session (e.g. a supervisor giving a second approval). Failed attempts
+     * count towards the same lockout as logins.
+     */
+    public async verifyCredentials(username: string, password: string, resource: string): Promise<{ ok: boolean; account?: AccountSummary; error?: string }> {
+        const { account, error } = await this.verify(username, password, resource);
+        if (!account) return { ok: false, error };
+        const { salt, passwordHash, iterations, ...summary } = account;
+        return { ok: true, account: summary };
+    }
+
+    /**
+     * Demo/simulation session without an account (no API keys, synthetic data).
+     * SUPERVISOR only on a fresh install; once accounts exist (or the store
+     * cannot be read) the demo is read-only so it cannot bypass RBAC.
+     */
+    public async startDemoSession(): Promise<Session> {
+        const role: OperatorRole = await this.hasAccounts().catch(() => true) ? 'VIEWER' : 'SUPERVISOR';
+        const session = sessionService.start('USR-DEMO', 'Demo Operator', role);
+        auditService.log({
+            operatorId: session.operatorId,
+            eventType: 'USER_LOGIN',
+            resource: 'LOGIN',
+            details: 'Demo session started (simulation mode)',
+            metadata: { demo: true, role: session.role }
+        });
+        return session;
+    }
+
+    /**
+     * Clear a lockout (ADMIN)
+     */
+    public async unlock(username: string): Promise<boolean> {
+        if (!sessionService.authorize('EDIT_SETTINGS', 'Unlock operator account')) return false;
+        const account = await this.get(normalizeUsername(username));
+        if (!account) return false;
+
+        account.failedAttempts = 0;
+        account.lockedUntil = undefined;
+        await this.put(account);
+        auditService.log({
+            operatorId: sessionService.getOperatorId(),
+            eventType: 'CONFIG_CHANGE',
+            resource: 'OPERATOR_ACCOUNTS',
+            details: `Unlocked account ${account.operatorId}`
+        });
+        return true;
+    }
+
+    // --- INTERNALS ---
+
+    private async verify(username: string, password: string, resource: string): Promise<{ account?: OperatorAccount; error?: string }> {
+        const name = normalizeUsername(username);
+        const account = await this.get(name);
+        const denied = (details: string, error = 'Invalid username or password') => {
+            auditService.log({
+                operatorId: account?.operatorId ?? 'ANONYMOUS',
+                eventType: 'ACCESS_DENIED',
+                resource,
+                details,
+                metadata: { username: name, failedAttempts: account?.failedAttempts }
+            });
+            return { error };
+        };
+
+        if (!account) {
+            // Derive anyway so unknown usernames take as long as wrong passwords
+            await pbkdf2(password, new Uint8Array(POLICY.SALT_BYTES), POLICY.ITERATIONS);
+            return denied(`Login failed for unknown user ${name}`);
+        }
+
+        if (account.lockedUntil && account.lockedUntil > Date.now()) {
+            const minutes = Math.ceil((account.lockedUntil - Date.now()) / 60000);
+            return denied(`Login refused: ${account.operatorId} locked`, `Account locked. Try again in ${minutes} min.`);
+        }
+
+        const hash = await pbkdf2(password, fromBase64(account.salt), account.iterations);
+        if (!constantTimeEqual(hash, fromBase64(account.passwordHash))) {
+            account.failedAttempts += 1;
+            const locked = account.failedAttempts >= POLICY.MAX_FAILED_ATTEMPTS;
+            if (locked) {
+                account.lockedUntil = Date.now() + POLICY.LOCKOUT_MS;
+                account.failedAttempts = 0;
+            }
+            await this.put(account);
+            return locked
+                ? denied(`Account ${account.operatorId} locked after ${POLICY.MAX_FAILED_ATTEMPTS} failed attempts`, 'Too many failed attempts. Account locked for 15 min.')
+                : denied(`Login failed for ${account.operatorId} (attempt ${account.failedAttempts}/${POLICY.MAX_FAILED_ATTEMPTS})`);
+        }
+
+        if (account.failedAttempts || account.lockedUntil) {
+            account.failedAttempts = 0;
+            account.lockedUntil = undefined;
+            await this.put(account);
+        }
+        return { account };
+    }
+
+    private async getAll(): Promise<OperatorAccount[]> {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+            request.onsuccess = () => resolve(request.result || []);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private async get(username: string): Promise<OperatorAccount | undefined> {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(username);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private async put(account: OperatorAccount): Promise<void> {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            tx.objectStore(STORE_NAME).put(account);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,227 @@
+/**
+ * actuationGuard.ts
+ *
+ * Shared Actuation Validation Path
+ *
+ * Every actuation — chat tool call, SCED dispatch, agent orchestrator or
+ * auto-dispatch — goes through `authorize` before it reaches the plant, so all
+ * sources pass the same SafetyGuard rule pack and risk-tier policy.
+ *
+ * Features:
+ * - Risk tier per action (types.ts): GREEN auto-approve, YELLOW HITL, RED manual
+ *   (operator plus supervisor)
+ * - Tier from grid state, action size (share of load / MW) and rule escalations
+ * - `assess` for side-effect-free tagging of proposals
+ * - `authorize` records the SafetyGuard decision with source and tier attached
+ * - Two-person rule: RED-tier and above-threshold actions need a supervisor's
+ *   second approval (dualAuthorization.ts), consumed once on execution
+ */
+
+import { RiskTier } from '../types';
+import { auditService } from './auditService';
+import { safetyGuard, SafetyCheckResult } from './safetyGuard';
+import { gridTelemetry } from './gridTelemetry';
+import { RuleEvaluation, TelemetrySnapshot } from './safetyRules';
+import { dualAuthorization, AuthIdentity, DualAuthRequest } from './dualAuthorization';
+import { sessionService } from './sessionService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ActuationSource = 'CHAT_TOOL' | 'SCED' | 'AGENT_ORCHESTRATOR' | 'AUTO_DISPATCH';
+
+export type ActuationDisposition = 'AUTO_APPROVE' | 'HITL_REQUIRED' | 'MANUAL_ONLY' | 'BLOCKED';
+
+export interface ActuationRequest {
+    source: ActuationSource;
+    toolName: string;           // Rule-pack tool name, e.g. 'dispatch_load_shed', 'sced_dispatch'
+    args: Record<string, any>;
+    resource: string;
+    magnitudeMW?: number;
+    approvedBy?: string;        // Operator who reviewed the action (HITL)
+    dualAuthorizationId?: string; // Supervisor second approval (two-person rule)
+}
+
+export interface ActuationAssessment {
+    riskTier: RiskTier;
+    disposition: ActuationDisposition;
+    requiresSecondApprover: boolean;
+    reasons: string[];
+    evaluation: RuleEvaluation;
+}
+
+export interface ActuationVerdict extends ActuationAssessment {
+    authorized: boolean;
+    reason?: string;
+    safety: SafetyCheckResult;
+}
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+const POLICY = {
+    KINETIC_TOOLS: ['dispatch_load_shed', 'sced_dispatch'],
+    SHED_GREEN_MAX_PCT: 2,      // <2% of load shed: GREEN
+    SHED_YELLOW_MAX_PCT: 10,    // 2-10%: YELLOW, >10%: RED
+    DISPATCH_GREEN_MAX_MW: 100, // AI autonomy for dispatch below 100MW
+    DUAL_AUTH_MIN_MW: 500       // Two-person rule at or above 500MW regardless of tier
+};
+
+const TIER_RANK: Record<RiskTier, number> = {
+    [RiskTier.GREEN]: 0,
+    [RiskTier.YELLOW]: 1,
+    [RiskTier.RED]: 2
+};
+
+const DISPOSITION: Record<RiskTier, ActuationDisposition> = {
+    [RiskTier.GREEN]: 'AUTO_APPROVE',
+    [RiskTier.YELLOW]: 'HITL_REQUIRED',
+    [RiskTier.RED]: 'MANUAL_ONLY'
+};
+
+// ============================================================================
+// ACTUATION GUARD
+// ============================================================================
+
+class ActuationGuard {
+
+    /**
+     * Risk tier and disposition of a proposed action (no side effects)
+     */
+    public assess(request: ActuationRequest, telemetry: TelemetrySnapshot = gridTelemetry.getSnapshot()): ActuationAssessment {
+        const evaluation = safetyGuard.previewToolCall(request.toolName, request.args, telemetry);
+        return this.classify(request, evaluation, telemetry);
+    }
+
+    /**
+     * Validate an actuation against SafetyGuard and the tier policy.
+     *
+     * GREEN actions run from any source; YELLOW actions need an operator
+     * approval (`approvedBy`); RED and above-threshold actions additionally
+     * need an approved, unused supervisor second approval (`dualAuthorizationId`).
+     * Operator-approved actions also need a session role with ACTUATE.
+     */
+    public authorize(request: ActuationRequest): ActuationVerdict {
+        const telemetry = gridTelemetry.getSnapshot();
+        const assessment = this.assess(request, telemetry);
+        const dual = request.dualAuthorizationId ? dualAuthorization.getRequest(request.dualAuthorizationId) : undefined;
+        const safety = safetyGuard.validateToolCall(request.toolName, request.args, telemetry, {
+            source: request.source,
+            riskTier: assessment.riskTier,
+            disposition: assessment.disposition,
+            approvedBy: request.approvedBy,
+            dualAuthorizationId: dual?.id,
+            secondApprover: dual?.approvedBy
+        });
+
+        let authorized = safety.allowed;
+        let reason = safety.reason;
+        if (authorized && request.approvedBy && !sessionService.can('ACTUATE')) {
+            authorized = false;
+            reason = `Role ${sessionService.getSession()?.role ?? 'NONE'} may not approve actuation`;
+        } else if (authorized && assessment.requiresSecondApprover) {
+            const approval = request.approvedBy && request.dualAuthorizationId
+                ? dualAuthorization.consume(request.dualAuthorizationId, {
+                    toolName: request.toolName,
+                    resource: request.resource,
+                    args: request.args,
+                    targetMW: request.magnitudeMW
+                })
+                : null;
+            if (!approval) {
+                authorized = false;
+                reason = `${assessment.riskTier} tier: two-person rule, supervisor second approval required. ${assessment.reasons.join('; ')}`;
+            }
+        } else if (authorized && assessment.riskTier === RiskTier.YELLOW && !request.approvedBy) {
+            authorized = false;
+            reason = `YELLOW tier: operator approval required. ${assessment.reasons.join('; ')}`;
+        }
+
+        // Rule blocks are already recorded by SafetyGuard; record tier refusals here
+        if (safety.allowed && !authorized) {
+            auditService.log({
+                operatorId: request.approvedBy || 'SYS-GUARDRAIL',
+                eventType: 'SAFETY_SWITCH',
+                resource: request.resource,
+                details: `${request.source} ${request.toolName} refused: ${reason}`,
+                metadata: {
+                    source: request.source,
+                    riskTier: assessment.riskTier,
+                    disposition: assessment.disposition,
+                    dualAuthorizationId: request.dualAuthorizationId,
+                    safetyDecisionId: safety.decisionId,
+                    telemetry
+                }
+            });
+        }
+
+        return { ...assessment, disposition: safety.allowed ? assessment.disposition : 'BLOCKED', authorized, reason, safety };
+    }
+
+    /**
+     * Open a supervisor second-approval request for an action that needs one.
+     * `requestedBy` is the operator giving the first approval.
+     */
+    public requestSecondApproval(request: ActuationRequest, requestedBy: AuthIdentity, summary: string): DualAuthRequest {
+        const assessment = this.assess(request);
+        return dualAuthorization.request({
+            source: request.source,
+            toolName: request.toolName,
+            resource: request.resource,
+            summary,
+            args: request.args,
+            targetMW: request.magnitudeMW,
+            riskTier: assessment.riskTier,
+            riskReasons: assessment.reasons,
+            requestedBy
+        });
+    }
+
+    // --- INTERNALS ---
+
+    private classify(request: ActuationRequest, evaluation: RuleEvaluation, telemetry: TelemetrySnapshot): ActuationAssessment {
+        let tier = RiskTier.GREEN;
+        const reasons: string[] = [];
+        const raise = (to: RiskTier, why: string) => {
+            if (TIER_RANK[to] > TIER_RANK[tier]) tier = to;
+            reasons.push(why);
+        };
+
+        if (!POLICY.KINETIC_TOOLS.includes(request.toolName)) {
+            reasons.push('Non-kinetic action');
+        } else {
+            // Grid state
+            if (!telemetry.riskTier) raise(RiskTier.YELLOW, 'Grid risk tier unknown (no telemetry)');
+            else if (telemetry.riskTier !== RiskTier.GREEN) raise(telemetry.riskTier, `Grid risk tier ${telemetry.riskTier}`);
+
+            // Action size
+            const mw = Math.abs(request.magnitudeMW ?? 0);
+            if (request.toolName === 'dispatch_load_shed') {
+                if (!telemetry.loadMW) {
+                    raise(RiskTier.YELLOW, `Shed ${mw}MW with system load unknown`);
+                } else {
+                    const pct = (mw / telemetry.loadMW) * 100;
+                    if (pct > POLICY.SHED_YELLOW_MAX_PCT) raise(RiskTier.RED, `Shedding ${pct.toFixed(1)}% of load (>${POLICY.SHED_YELLOW_MAX_PCT}%)`);
+                    else if (pct >= POLICY.SHED_GREEN_MAX_PCT) raise(RiskTier.YELLOW, `Shedding ${pct.toFixed(1)}% of load (${POLICY.SHED_GREEN_MAX_PCT}-${POLICY.SHED_YELLOW_MAX_PCT}%)`);
+                    else reasons.push(`Shedding ${pct.toFixed(1)}% of load`);
+                }
+            } else if (mw >= POLICY.DISPATCH_GREEN_MAX_MW) {
+                raise(RiskTier.YELLOW, `${mw}MW move exceeds ${POLICY.DISPATCH_GREEN_MAX_MW}MW autonomy limit`);
+            }
+
+            // Rule escalations need supervisor sign-off
+            evaluation.escalations.forEach(e => raise(RiskTier.RED, `Escalation ${e.ruleId}@v${e.ruleVersion}`));
+
+            if (mw >= POLICY.DUAL_AUTH_MIN_MW) reasons.push(`${mw}MW at or above ${POLICY.DUAL_AUTH_MIN_MW}MW two-person threshold`);
+        }
+
+        const requiresSecondApprover = POLICY.KINETIC_TOOLS.includes(request.toolName)
+            && (TIER_RANK[tier] >= TIER_RANK[RiskTier.RED] || Math.abs(request.magnitudeMW ?? 0) >= POLICY.DUAL_AUTH_MIN_MW);
+
+        return { riskTier: tier, disposition: DISPOSITION[tier], requiresSecondApprover, reasons, evaluation };
+    }
+}
+
+export const actuationGuard = new ActuationGuard();
@@ -1,22 +1,88 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { Type } from "@google/genai";
 import { dataService } from "./dataServiceFactory";
-import { notificationService } from "./notificationService";
-import { getActiveKey } from "./apiConfig";
+import { createLlmProvider, LlmProvider } from "./llmProvider";
+import { BudgetExceededError, llmScheduler, rateLimitInfo } from "./llmScheduler";
 import { knowledgeService } from "./knowledgeService";
+import { runWorkflow, WorkflowDefinition, WorkflowNode, WorkflowRun } from "./agentWorkflow";
+import { generateStructured, parseStructured } from "./structuredOutput";
 
 export interface AgentLog {
   source: string;
   target: string;
   message: string; // Short code for the terminal
   analysis?: string; // Deep strategic insight
+  bluf?: string; // One-sentence bottom line
   recommendation?: string; // Actionable advice
-  financial_impact?: string; // Estimated ROI
+  financial_impact?: number; // Net USD: + savings/profit, - cost/loss
+  impact_mw?: number; // MW at stake
+  probability?: number; // 0-1 likelihood of the impact
+  confidence?: number; // 0-100 agent confidence
+  repairs?: number; // Schema repair rounds before the output validated
   timestamp: string;
   type: 'INFO' | 'WARNING' | 'CRITICAL' | 'SUCCESS' | 'SYSTEM';
 }
 
-export type OrchestratorStatus = 'IDLE' | 'RUNNING' | 'BACKOFF_429' | 'ERROR';
+export type OrchestratorStatus = 'IDLE' | 'RUNNING' | 'BACKOFF_429' | 'BUDGET_EXHAUSTED' | 'ERROR';
+
+/** What every persona returns for its workflow node; validated against its schema */
+export interface AgentOutput {
+  log_code: string;
+  bluf: string;
+  analysis: string;
+  impact_mw: number;
+  exposure_usd: number;
+  probability: number;
+  recommendation: string;
+  confidence: number;
+  /** Set locally, not by the model: repair rounds needed to pass the schema */
+  repairs?: number;
+}
+
+/**
+ * Output schema shared by all personas; each declares what its MW figure
+ * measures so the numbers are comparable across cycles
+ */
+const agentOutputSchema = (impactMw: string) => ({
+  type: Type.OBJECT,
+  properties: {
+    log_code: { type: Type.STRING, description: "Military-style short code, uppercase with underscores, < 10 words" },
+    bluf: { type: Type.STRING, description: "Bottom line up front: one sentence" },
+    analysis: { type: Type.STRING, description: "2-3 sentences: Situation -> Complication -> Resolution" },
+    impact_mw: { type: Type.NUMBER, minimum: 0, description: impactMw },
+    exposure_usd: { type: Type.NUMBER, description: "Net financial impact in USD: positive = savings or profit, negative = cost or loss" },
+    probability: { type: Type.NUMBER, minimum: 0, maximum: 1, description: "Likelihood the impact materialises, 0-1" },
+    recommendation: { type: Type.STRING, description: "One specific strategic move, e.g. \"Dispatch 50MW RegUp\"" },
+    confidence: { type: Type.NUMBER, minimum: 0, maximum: 100, description: "Confidence in this assessment, 0-100" }
+  },
+  required: ["log_code", "bluf", "analysis", "impact_mw", "exposure_usd", "probability", "recommendation", "confidence"]
+});
+
+const agentNode = (node: Omit<WorkflowNode, 'outputSchema' | 'persona'>, impactMw: string): WorkflowNode => ({
+  ...node,
+  persona: node.id,
+  outputSchema: agentOutputSchema(impactMw)
+});
+
+// --- GRID CYCLE WORKFLOW ---
+// Weather feeds the load forecast; stability and market analysis both build
+// on it and run side by side; the Comms Manager synthesizes everything.
+export const GRID_CYCLE_WORKFLOW: WorkflowDefinition = {
+  id: "GRID_CYCLE",
+  name: "Grid Operations Cycle",
+  nodes: [
+    agentNode({ id: "WA", label: "Weather Analyst", inputs: ["weather"], dependsOn: [] },
+      "MW of generation or transfer capability at risk from the weather"),
+    agentNode({ id: "LF", label: "Load Forecaster", inputs: ["load"], dependsOn: ["WA"] },
+      "MW deviation of expected peak load from the day-ahead forecast"),
+    agentNode({ id: "GS", label: "Grid Stabilizer", inputs: ["grid"], dependsOn: ["LF"] },
+      "MW at risk under the worst single contingency"),
+    agentNode({ id: "OP", label: "Market Optimizer", inputs: ["market"], dependsOn: ["WA", "LF"] },
+      "MW of dispatch the recommended trade moves"),
+    agentNode({ id: "CM", label: "Comms Manager", inputs: [], dependsOn: ["WA", "LF", "GS"], optionalInputs: ["OP"] },
+      "Largest MW at stake across the cycle")
+  ]
+};
 
 // --- McKINSEY-LEVEL STRATEGIC PERSONAS ---
 // Each agent uses the Pyramid Principle: BLUF → Supporting Data → Recommendation → ROI
@@ -103,15 +169,17 @@ const AGENT_PERSONAS: Record<string, string> = {
 };
 
 class AgentOrchestrator {
-  private ai: GoogleGenAI | null = null;
-  private modelId = "gemini-3-pro-preview";
-  private isBackingOff = false;
+  private ai: LlmProvider | null = null;
+  private isBackingOff = false; // Mirrors the shared scheduler's backoff
 
   // State Broadcasting
   private status: OrchestratorStatus = 'IDLE';
   private logs: AgentLog[] = [];
   private statusListeners: ((status: OrchestratorStatus) => void)[] = [];
   private logListeners: ((logs: AgentLog[]) => void)[] = [];
+  private lastRun: WorkflowRun<AgentOutput> | null = null;
+  private runListeners: ((run: WorkflowRun<AgentOutput> | null) => void)[] = [];
+  private workflow = GRID_CYCLE_WORKFLOW;
 
   // Lifecycle Management
   private intervalId: number | null = null;
@@ -122,25 +190,28 @@ class AgentOrchestrator {
 
   constructor() {
     this.initialize();
+    llmScheduler.subscribe(({ backoffUntil }) => {
+      const backingOff = backoffUntil !== null;
+      if (backingOff === this.isBackingOff) return;
+      this.isBackingOff = backingOff;
+      if (!this.ai) return;
+      if (backingOff) this.setStatus('BACKOFF_429');
+      else if (this.status === 'BACKOFF_429') this.setStatus(this.intervalId ? 'RUNNING' : 'IDLE');
+    });
   }
 
   public initialize() {
     try {
-      const apiKey = getActiveKey('GOOGLE_API_KEY');
-      if (apiKey) {
-        this.ai = new GoogleGenAI({ apiKey });
-      } else {
-        this.ai = null;
-      }
+      // Background priority: yields to operator chat and safety checks
+      this.ai = createLlmProvider(undefined, "AGENTS");
     } catch (e) {
-      console.warn("Agent Orchestrator: No API Key");
+      console.warn("Agent Orchestrator: No LLM provider");
       this.ai = null;
     }
   }
 
   public updateKey() {
     this.initialize();
-    this.isBackingOff = false;
     this.setStatus('IDLE');
   }
 
@@ -194,6 +265,24 @@ class AgentOrchestrator {
     };
   }
 
+  public getWorkflow(): WorkflowDefinition {
+    return this.workflow;
+  }
+
+  /** Latest workflow run, updated as each node starts and finishes */
+  public subscribeRun(listener: (run: WorkflowRun<AgentOutput> | null) => void): () => void {
+    this.runListeners.push(listener);
+    listener(this.lastRun);
+    return () => {
+      this.runListeners = this.runListeners.filter(l => l !== listener);
+    };
+  }
+
+  private setRun(run: WorkflowRun<AgentOutput>) {
+    this.lastRun = run;
+    this.runListeners.forEach(l => l(run));
+  }
+
   private setStatus(newStatus: OrchestratorStatus) {
     if (this.status !== newStatus) {
       this.status = newStatus;
@@ -208,49 +297,52 @@ class AgentOrchestrator {
   }
 
   // --- DEMO NARRATIVE ENGINE ---
-  private getDemoResponse(agentId: string): any {
+  private getDemoResponse(agentId: string): AgentOutput {
     const step = this.demoStep % 5; // 5-step loop
 
-    const narratives: Record<number, Record<string, any>> = {
+    // [log_code, analysis, recommendation, exposure_usd, impact_mw, probability, confidence]
+    type DemoPacket = [string, string, string, number, number, number, number];
+    const narratives: Record<number, Record<string, DemoPacket>> = {
       0: { // Normal Operations
-        "WA": { log_code: "WX_NOMINAL", analysis: "High pressure system stabilizing North Zone. Wind forecast aligned with actuals.", recommendation: "Monitor only.", financial_impact: "$0" },
-        "LF": { log_code: "LOAD_FLAT", analysis: "Demand tracking perfectly with Day-Ahead Forecast. Variance < 0.5%.", recommendation: "Release 50MW RegUp reserves.", financial_impact: "+$12k Savings" },
-        "GS": { log_code: "FREQ_STABLE", analysis: "Interconnection frequency at 60.001 Hz. Inertia sufficient.", recommendation: "Maintain current topology.", financial_impact: "N/A" },
-        "OP": { log_code: "ARB_OPP", analysis: "Price spread West->North detected due to congestion relief.", recommendation: "Dispatch Battery Storage West.", financial_impact: "+$45k Profit" },
-        "CM": { log_code: "ALL_CLEAR", analysis: "Grid is Green. Optimal economic dispatch active.", recommendation: "Continue standard ops.", financial_impact: "N/A" }
+        "WA": ["WX_NOMINAL", "High pressure system stabilizing North Zone. Wind forecast aligned with actuals.", "Monitor only.", 0, 0, 0.05, 92],
+        "LF": ["LOAD_FLAT", "Demand tracking perfectly with Day-Ahead Forecast. Variance < 0.5%.", "Release 50MW RegUp reserves.", 12000, 50, 0.9, 88],
+        "GS": ["FREQ_STABLE", "Interconnection frequency at 60.001 Hz. Inertia sufficient.", "Maintain current topology.", 0, 0, 0.02, 95],
+        "OP": ["ARB_OPP", "Price spread West->North detected due to congestion relief.", "Dispatch Battery Storage West.", 45000, 100, 0.7, 80],
+        "CM": ["ALL_CLEAR", "Grid is Green. Optimal economic dispatch active.", "Continue standard ops.", 57000, 100, 0.9, 90]
       },
       1: { // Weather Event Starts
-        "WA": { log_code: "WIND_RAMP_DOWN", analysis: "Sudden cessation of wind in Panhandle. Gradient steeper than forecast.", recommendation: "Derate Wind Assets by 40%.", financial_impact: "-$150k Lost Gen" },
-        "LF": { log_code: "NET_LOAD_SPIKE", analysis: "Wind drop creates immediate Net Load ramp. Duck Curve steepening.", recommendation: "Prepare Peaker Plants.", financial_impact: "High Cost" },
-        "GS": { log_code: "INERTIA_RISK", analysis: "Loss of wind correlates with frequency dip to 59.96Hz.", recommendation: "Trigger Fast Frequency Response.", financial_impact: "Reliability Risk" },
-        "OP": { log_code: "SCARCITY_PRICING", analysis: "RTM Prices spiking to $800/MWh due to scarcity.", recommendation: "Hedge remaining exposure.", financial_impact: "-$200k Cost" },
-        "CM": { log_code: "WARNING_ISSUED", analysis: "Weather event causing rapid supply drop. Reserves deploying.", recommendation: "Alert Control Room.", financial_impact: "N/A" }
+        "WA": ["WIND_RAMP_DOWN", "Sudden cessation of wind in Panhandle. Gradient steeper than forecast.", "Derate Wind Assets by 40%.", -150000, 2400, 0.8, 78],
+        "LF": ["NET_LOAD_SPIKE", "Wind drop creates immediate Net Load ramp. Duck Curve steepening.", "Prepare Peaker Plants.", -90000, 1800, 0.75, 74],
+        "GS": ["INERTIA_RISK", "Loss of wind correlates with frequency dip to 59.96Hz.", "Trigger Fast Frequency Response.", -60000, 1100, 0.4, 70],
+        "OP": ["SCARCITY_PRICING", "RTM Prices spiking to $800/MWh due to scarcity.", "Hedge remaining exposure.", -200000, 600, 0.65, 72],
+        "CM": ["WARNING_ISSUED", "Weather event causing rapid supply drop. Reserves deploying.", "Alert Control Room.", -350000, 2400, 0.7, 75]
       },
       2: { // Crisis Deepens
-        "WA": { log_code: "THERMAL_STRESS", analysis: "Ambient temp rising. Line ratings degrading in South Zone.", recommendation: "Limit flow on Path 15.", financial_impact: "Congestion Cost" },
-        "LF": { log_code: "DEMAND_SURGE", analysis: "AC load higher than predicted due to heat.", recommendation: "Request Demand Response.", financial_impact: "DR Payments" },
-        "GS": { log_code: "N-1_VIOLATION", analysis: "Contingency analysis shows overload if Line A fails.", recommendation: "Re-dispatch to relieve constraint.", financial_impact: "High" },
-        "OP": { log_code: "LMP_SPLIT", analysis: "Severe congestion pricing. Houston Zone isolated.", recommendation: "No economic options available.", financial_impact: "Critical" },
-        "CM": { log_code: "DEFCON_3", analysis: "System stressed. Multiple constraints active.", recommendation: "Prepare for potential shed.", financial_impact: "N/A" }
+        "WA": ["THERMAL_STRESS", "Ambient temp rising. Line ratings degrading in South Zone.", "Limit flow on Path 15.", -120000, 900, 0.7, 76],
+        "LF": ["DEMAND_SURGE", "AC load higher than predicted due to heat.", "Request Demand Response.", -250000, 3200, 0.8, 73],
+        "GS": ["N-1_VIOLATION", "Contingency analysis shows overload if Line A fails.", "Re-dispatch to relieve constraint.", -1200000, 1500, 0.3, 68],
+        "OP": ["LMP_SPLIT", "Severe congestion pricing. Houston Zone isolated.", "No economic options available.", -800000, 1200, 0.6, 64],
+        "CM": ["DEFCON_3", "System stressed. Multiple constraints active.", "Prepare for potential shed.", -2000000, 3200, 0.55, 66]
       },
       3: { // Stabilization
-        "WA": { log_code: "FRONT_PASSING", analysis: "Wind picking back up in West. Temp stabilizing.", recommendation: "Restore line ratings.", financial_impact: "Positive" },
-        "LF": { log_code: "PEAK_PASSED", analysis: "Daily peak load passed. Demand curve softening.", recommendation: "Release DR assets.", financial_impact: "Savings" },
-        "GS": { log_code: "RECOVERY", analysis: "Frequency restoring to 60.00Hz. ACE crossing zero.", recommendation: "Stand down emergency reserves.", financial_impact: "N/A" },
-        "OP": { log_code: "PRICE_NORM", analysis: "Prices returning to double digits.", recommendation: "Resume arbitrage.", financial_impact: "+$10k" },
-        "CM": { log_code: "STAND_DOWN", analysis: "Crisis averted. Grid returning to normal state.", recommendation: "Log incident report.", financial_impact: "N/A" }
+        "WA": ["FRONT_PASSING", "Wind picking back up in West. Temp stabilizing.", "Restore line ratings.", 80000, 1500, 0.8, 82],
+        "LF": ["PEAK_PASSED", "Daily peak load passed. Demand curve softening.", "Release DR assets.", 60000, 1200, 0.9, 86],
+        "GS": ["RECOVERY", "Frequency restoring to 60.00Hz. ACE crossing zero.", "Stand down emergency reserves.", 0, 0, 0.1, 90],
+        "OP": ["PRICE_NORM", "Prices returning to double digits.", "Resume arbitrage.", 10000, 150, 0.85, 84],
+        "CM": ["STAND_DOWN", "Crisis averted. Grid returning to normal state.", "Log incident report.", 150000, 1500, 0.85, 88]
       },
       4: { // Optimization
-        "WA": { log_code: "SOLAR_PEAK", analysis: "Clear skies. Solar output maxing out.", recommendation: "None.", financial_impact: "N/A" },
-        "LF": { log_code: "NEG_PRICE_RISK", analysis: "Oversupply imminent.", recommendation: "Charge all batteries.", financial_impact: "Free Energy" },
-        "GS": { log_code: "VOLTAGE_HIGH", analysis: "Low load + High Gen = High Voltage.", recommendation: "Switch Reactance.", financial_impact: "N/A" },
-        "OP": { log_code: "NEG_ARBITRAGE", analysis: "Negative prices detected.", recommendation: "Paid to consume power.", financial_impact: "+$5k" },
-        "CM": { log_code: "OPPORTUNISTIC", analysis: "Grid is flush with power.", recommendation: "Max storage intake.", financial_impact: "N/A" }
+        "WA": ["SOLAR_PEAK", "Clear skies. Solar output maxing out.", "None.", 0, 0, 0.1, 90],
+        "LF": ["NEG_PRICE_RISK", "Oversupply imminent.", "Charge all batteries.", 20000, 800, 0.6, 77],
+        "GS": ["VOLTAGE_HIGH", "Low load + High Gen = High Voltage.", "Switch Reactance.", 0, 300, 0.35, 79],
+        "OP": ["NEG_ARBITRAGE", "Negative prices detected.", "Paid to consume power.", 5000, 400, 0.8, 83],
+        "CM": ["OPPORTUNISTIC", "Grid is flush with power.", "Max storage intake.", 25000, 800, 0.7, 81]
       }
     };
 
-    const result = narratives[step][agentId] || { log_code: "SIM_DATA", analysis: "Simulation running.", recommendation: "Wait.", financial_impact: "N/A" };
-    return result;
+    const [log_code, analysis, recommendation, exposure_usd, impact_mw, probability, confidence] =
+      narratives[step][agentId] || ["SIM_DATA", "Simulation running.", "Wait.", 0, 0, 0, 50];
+    return { log_code, bluf: analysis.split(". ")[0].replace(/\.?$/, "."), analysis, impact_mw, exposure_usd, probability, recommendation, confidence };
   }
 
   // Generate 'Noise' logs to make the terminal look alive
@@ -271,18 +363,17 @@ class AgentOrchestrator {
   }
 
   /**
-   * Helper to generate a specific agent's reaction with Retry Logic
-   * Returns Structured JSON for high-fidelity insights
+   * One agent's reaction as schema-validated JSON for high-fidelity insights.
+   * Invalid output is repaired by re-prompting; retries and timeouts are
+   * handled per node by the workflow engine.
    */
-  private async promptAgent(agentId: string, inputData: string, priorContext: string = "", retries = 2): Promise<any | null> {
+  private async promptAgent(agentId: string, inputData: string, priorContext: string, schema: any, signal: AbortSignal): Promise<AgentOutput> {
     // FALLBACK IF OFFLINE: Return a simulated packet so the demo keeps running
     if (!this.ai) {
       await new Promise(r => setTimeout(r, 200)); // Simulate thinking time (Fast for demo)
-      return this.getDemoResponse(agentId);
+      return parseStructured<AgentOutput>(JSON.stringify(this.getDemoResponse(agentId)), schema);
     }
 
-    if (this.isBackingOff) return null;
-
     const persona = AGENT_PERSONAS[agentId] || "ROLE: Grid Analyst.";
 
     // RAG: Inject relevant knowledge based on the Agent's role
@@ -298,52 +389,32 @@ class AgentOrchestrator {
       
       TASK: Perform a deep strategic analysis based on your DOMAIN.
       1. LOG_CODE: A military-style short code (< 10 words, underscores, uppercase).
-      2. ANALYSIS: A "McKinsey-style" executive summary (Situation -> Complication -> Resolution). 2-3 sentences. High-level vocabulary.
-      3. RECOMMENDATION: A specific strategic move (e.g., "Dispatch 50MW RegUp", "Derate West Line 5%").
-      4. FINANCIAL: Estimated financial impact (e.g. "$15k Arb Opportunity" or "$2M Outage Risk").
-
-      OUTPUT JSON FORMAT (Strict JSON only):
-      {
-        "log_code": "STRING",
-        "analysis": "STRING",
-        "recommendation": "STRING",
-        "financial_impact": "STRING"
-      }
-    `;
+      2. BLUF: The bottom line in one sentence.
+      3. ANALYSIS: A "McKinsey-style" executive summary (Situation -> Complication -> Resolution). 2-3 sentences. High-level vocabulary.
+      4. IMPACT_MW, EXPOSURE_USD, PROBABILITY: Your quantified estimate as plain numbers (no units or text).
+      5. RECOMMENDATION: A specific strategic move (e.g., "Dispatch 50MW RegUp", "Derate West Line 5%").
+      6. CONFIDENCE: 0-100.
 
-    try {
-      const response = await this.ai.models.generateContent({
-        model: this.modelId,
-        contents: prompt,
-        config: { responseMimeType: "application/json" }
-      });
+      OUTPUT: A single JSON object following the response schema.
+    `;
 
-      const rawText = response.text?.trim() || "{}";
-      return JSON.parse(rawText);
-
-    } catch (e: any) {
-      // Rate Limit Handling (429)
-      if (e.message?.includes('429') || e.status === 429) {
-        console.warn(`Agent ${agentId} hit Rate Limit. Backing off.`);
-        this.isBackingOff = true;
-        this.setStatus('BACKOFF_429');
-        notificationService.warning("Orchestrator Rate Limit", "Gemini API limit reached. Pausing swarm for 30s.");
-
-        // Reset backoff after 30 seconds
-        setTimeout(() => {
-          this.isBackingOff = false;
-          this.setStatus('IDLE');
-          notificationService.info("Orchestrator Resumed", "Swarm active.");
-        }, 30000);
-        return null;
-      }
+    // Rate limits and backoff are handled by the shared LLM scheduler
+    const { value, repairs } = await generateStructured<AgentOutput>(this.ai, {
+      contents: prompt,
+      responseSchema: schema,
+      signal,
+      replayLane: true
+    });
+    return { ...value, repairs };
+  }
 
-      // Standard Retry
-      if (retries > 0) {
-        await new Promise(r => setTimeout(r, 1000)); // Wait 1s
-        return this.promptAgent(agentId, inputData, priorContext, retries - 1);
-      }
-      return null;
+  private logTypeFor(agentId: string, output: AgentOutput): AgentLog['type'] {
+    const code = output.log_code || "";
+    switch (agentId) {
+      case "LF": return (code.includes("INCREASE") || code.includes("SPIKE")) ? 'WARNING' : 'INFO';
+      case "GS": return (code.includes("CRITICAL") || code.includes("SHED")) ? 'CRITICAL' : 'SUCCESS';
+      case "OP": return 'SUCCESS';
+      default: return 'INFO';
     }
   }
 
@@ -370,71 +441,55 @@ class AgentOrchestrator {
       const load = await dataService.getCurrentLoad();
 
       // Fallback data for prompts if API is offline
-      const weatherStr = weather ? JSON.stringify(weather) : "SENSOR_DATA_NULL (Assume Nominal)";
-      const loadStr = load ? `${load.value}MW` : "TELEMETRY_OFFLINE (Assume Forecast)";
-
-      // --- NODE 1: WEATHER ANALYST (WA) ---
-      const waData = await this.promptAgent("WA", weatherStr);
-      if (!waData) throw new Error("Agent Cycle Break");
-
-      this.addLog({
-        source: "WA", target: "LF",
-        message: waData.log_code || "WA_DATA_PROCESSED",
-        analysis: waData.analysis, recommendation: waData.recommendation, financial_impact: waData.financial_impact,
-        timestamp: time(), type: 'INFO'
-      });
-
-      // --- NODE 2: LOAD FORECASTER (LF) ---
-      // Reads Weather Analyst output to refine demand curve
-      const lfData = await this.promptAgent("LF", `CurrentLoad:${loadStr}`, `Weather Impact: ${waData.analysis}`);
-      if (!lfData) throw new Error("Agent Cycle Break");
-
-      this.addLog({
-        source: "LF", target: "GS",
-        message: lfData.log_code || "FORECAST_UPDATED",
-        analysis: lfData.analysis, recommendation: lfData.recommendation, financial_impact: lfData.financial_impact,
-        timestamp: time(), type: (lfData.log_code.includes("INCREASE") || lfData.log_code.includes("SPIKE")) ? 'WARNING' : 'INFO'
-      });
-
-      // --- NODE 3: GRID STABILIZER (GS) ---
-      // Balances the new Load Forecast against Physical Constraints
-      const gsData = await this.promptAgent("GS", `GridStatus:${grid || 'NORMAL'}`, `Load Prediction: ${lfData.analysis}`);
-      if (!gsData) throw new Error("Agent Cycle Break");
-
-      this.addLog({
-        source: "GS", target: "OP",
-        message: gsData.log_code || "STABILITY_CHECK_COMPLETE",
-        analysis: gsData.analysis, recommendation: gsData.recommendation, financial_impact: gsData.financial_impact,
-        timestamp: time(), type: (gsData.log_code.includes("CRITICAL") || gsData.log_code.includes("SHED")) ? 'CRITICAL' : 'SUCCESS'
+      const sensors: Record<string, string> = {
+        weather: weather ? JSON.stringify(weather) : "SENSOR_DATA_NULL (Assume Nominal)",
+        load: `CurrentLoad:${load ? `${load.value}MW` : "TELEMETRY_OFFLINE (Assume Forecast)"}`,
+        grid: `GridStatus:${grid || 'NORMAL'}`,
+        market: "Market Conditions: Normal"
+      };
+
+      // STEP 2: RUN THE WORKFLOW DAG
+      // Each node sees its own sensor readings plus its upstream agents' output
+      const workflow = this.workflow;
+      const execute = (node: WorkflowNode, upstream: Record<string, AgentOutput>, signal: AbortSignal) => {
+        const inputData = node.inputs.map(name => sensors[name]).join(" | ") || "Synthesis Phase";
+        const priorContext = Object.entries(upstream)
+          .map(([id, out]) => `${id}: ${out.log_code} - ${out.bluf} [${out.impact_mw} MW, $${out.exposure_usd}, p=${out.probability}] (Recommends: ${out.recommendation})`)
+          .join("\n");
+        return this.promptAgent(node.persona, inputData, priorContext, node.outputSchema, signal);
+      };
+
+      // Terminal feed: one log per node as it succeeds, addressed to its first consumer
+      const logged = new Set<string>();
+      const onUpdate = (run: WorkflowRun<AgentOutput>) => {
+        this.setRun(run);
+        for (const node of workflow.nodes) {
+          const state = run.nodes[node.id];
+          if (state.status !== 'SUCCEEDED' || !state.output || logged.has(node.id)) continue;
+          logged.add(node.id);
+          const consumer = workflow.nodes.find(n => n.dependsOn.includes(node.id) || n.optionalInputs?.includes(node.id));
+          this.addLog({
+            source: node.id, target: consumer?.id ?? "DASHBOARD",
+            message: state.output.log_code || `${node.id}_COMPLETE`,
+            bluf: state.output.bluf, analysis: state.output.analysis, recommendation: state.output.recommendation,
+            financial_impact: state.output.exposure_usd, impact_mw: state.output.impact_mw,
+            probability: state.output.probability, confidence: state.output.confidence, repairs: state.output.repairs,
+            timestamp: time(), type: this.logTypeFor(node.persona, state.output)
+          });
+        }
+      };
+
+      const run = await runWorkflow(workflow, execute, {
+        onUpdate,
+        // No point retrying nodes the scheduler already retried or refused
+        isFatal: e => e instanceof BudgetExceededError || rateLimitInfo(e).limited
       });
-
-      // --- NODE 4: MARKET OPTIMIZER (OP) ---
-      // Calculates financial moves based on Grid Stability requirements
-      const opData = await this.promptAgent("OP", "Market Conditions: Normal", `Dispatch Order: ${gsData.recommendation}`);
-      if (opData) {
-        this.addLog({
-          source: "OP", target: "CM",
-          message: opData.log_code || "OPTIMIZATION_COMPLETE",
-          analysis: opData.analysis, recommendation: opData.recommendation, financial_impact: opData.financial_impact,
-          timestamp: time(), type: 'SUCCESS'
-        });
-      }
-
-      // --- NODE 5: COMMUNICATIONS MANAGER (CM) - FINAL SYNTHESIS ---
-      // Summarizes the entire chain for the Human Operator
-      const cmData = await this.promptAgent("CM", "Synthesis Phase", `WA: ${waData.log_code}, LF: ${lfData.log_code}, GS: ${gsData.log_code}, OP: ${opData?.log_code}`);
-      if (cmData) {
-        this.addLog({
-          source: "CM", target: "DASHBOARD",
-          message: cmData.log_code || "CYCLE_COMPLETE",
-          analysis: cmData.analysis, recommendation: cmData.recommendation, financial_impact: "N/A",
-          timestamp: time(), type: 'INFO'
-        });
-      }
+      if (run.status === 'FAILED') throw new Error("Agent Cycle Break");
 
     } catch (e) {
       // Silently fail in loop to prevent log spam, but set status
-      if (!this.isBackingOff) this.setStatus('ERROR');
+      if (llmScheduler.isBudgetExhausted()) this.setStatus('BUDGET_EXHAUSTED');
+      else if (!this.isBackingOff) this.setStatus('ERROR');
     } finally {
       this.isProcessing = false;
       // Visual cool down
@@ -0,0 +1,277 @@
+/**
+ * agentWorkflow.ts
+ *
+ * DAG Workflow Engine for the Agent Swarm
+ *
+ * A workflow is a set of nodes (persona + named inputs + output schema) with
+ * dependencies between them. The engine starts every node whose upstream
+ * nodes have finished, so independent branches run in parallel, and keeps
+ * each node's typed output and timing on the run record the Agents page
+ * renders.
+ *
+ * Features:
+ * - Validation: unknown dependencies and cycles are rejected before running
+ * - Parallel execution as soon as a node's dependencies settle
+ * - Per-node timeout (aborts the attempt's signal) and retry count
+ * - Optional inputs: a node still runs when an optional upstream node failed
+ * - Fatal errors (e.g. rate limits) halt the run and skip pending nodes
+ * - Run snapshots streamed to a listener after every state change
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WorkflowNode {
+  id: string;
+  /** Persona the executor prompts for this node */
+  persona: string;
+  label: string;
+  /** Named cycle inputs (sensor readings) passed to the node */
+  inputs: string[];
+  /** Nodes that must succeed before this one runs */
+  dependsOn: string[];
+  /** Nodes whose output is used if available; their failure is tolerated */
+  optionalInputs?: string[];
+  /** Response schema (Gemini schema form) the node's output must follow */
+  outputSchema: any;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  nodes: WorkflowNode[];
+}
+
+export type NodeStatus = 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+
+export interface NodeRun<T> {
+  nodeId: string;
+  status: NodeStatus;
+  attempts: number;
+  startedAt?: number;
+  finishedAt?: number;
+  durationMs?: number;
+  output?: T;
+  error?: string;
+}
+
+/** COMPLETED: every node succeeded. PARTIAL: a node failed but every terminal node succeeded */
+export type WorkflowRunStatus = 'RUNNING' | 'COMPLETED' | 'PARTIAL' | 'FAILED';
+
+export interface WorkflowRun<T> {
+  runId: string;
+  workflowId: string;
+  status: WorkflowRunStatus;
+  startedAt: number;
+  finishedAt?: number;
+  nodes: Record<string, NodeRun<T>>;
+}
+
+/**
+ * Runs one node attempt. `upstream` holds the outputs of the node's
+ * dependencies (and of optional inputs that succeeded).
+ */
+export type NodeExecutor<T> = (node: WorkflowNode, upstream: Record<string, T>, signal: AbortSignal) => Promise<T>;
+
+export interface WorkflowRunOptions<T> {
+  onUpdate?: (run: WorkflowRun<T>) => void;
+  /** Errors that should stop the whole run instead of being retried */
+  isFatal?: (error: unknown) => boolean;
+  defaultTimeoutMs?: number;
+  defaultRetries?: number;
+  retryDelayMs?: number;
+}
+
+export class WorkflowValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+export class NodeTimeoutError extends Error {
+  constructor(public readonly nodeId: string, public readonly timeoutMs: number) {
+    super(`${nodeId} timed out after ${timeoutMs}ms`);
+    this.name = 'NodeTimeoutError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+// ============================================================================
+// GRAPH HELPERS
+// ============================================================================
+
+const upstreamOf = (node: WorkflowNode): string[] => [...node.dependsOn, ...(node.optionalInputs ?? [])];
+
+/**
+ * Rejects duplicate ids, unknown dependencies and cycles
+ */
+export function validateWorkflow(workflow: WorkflowDefinition): void {
+  const ids = new Set<string>();
+  for (const node of workflow.nodes) {
+    if (ids.has(node.id)) throw new WorkflowValidationError(`Duplicate node ${node.id}`);
+    ids.add(node.id);
+  }
+  for (const node of workflow.nodes) {
+    const unknown = upstreamOf(node).find(dep => !ids.has(dep));
+    if (unknown) throw new WorkflowValidationError(`${node.id} depends on unknown node ${unknown}`);
+  }
+  const placed = workflowLayers(workflow).flat().length;
+  if (placed < workflow.nodes.length) {
+    throw new WorkflowValidationError(`Workflow ${workflow.id} contains a dependency cycle`);
+  }
+}
+
+/**
+ * Nodes grouped by depth: each layer depends only on earlier layers, so the
+ * nodes within a layer can run side by side. Nodes on a cycle are left out.
+ */
+export function workflowLayers(workflow: WorkflowDefinition): string[][] {
+  const layers: string[][] = [];
+  const placed = new Set<string>();
+  let remaining = workflow.nodes;
+  while (remaining.length > 0) {
+    const layer = remaining.filter(node => upstreamOf(node).every(dep => placed.has(dep)));
+    if (layer.length === 0) break;
+    layer.forEach(node => placed.add(node.id));
+    layers.push(layer.map(node => node.id));
+    remaining = remaining.filter(node => !placed.has(node.id));
+  }
+  return layers;
+}
+
+/** e.g. "WA → LF → GS ∥ OP → CM" */
+export const describeWorkflow = (workflow: WorkflowDefinition): string =>
+  workflowLayers(workflow).map(layer => layer.join(' ∥ ')).join(' → ');
+
+/** Nodes nothing else depends on: the workflow's results */
+export const terminalNodes = (workflow: WorkflowDefinition): WorkflowNode[] =>
+  workflow.nodes.filter(node => !workflow.nodes.some(other => upstreamOf(other).includes(node.id)));
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+function withTimeout<T>(task: (signal: AbortSignal) => Promise<T>, nodeId: string, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new NodeTimeoutError(nodeId, timeoutMs));
+    }, timeoutMs);
+    task(controller.signal).then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+const snapshot = <T>(run: WorkflowRun<T>): WorkflowRun<T> => ({
+  ...run,
+  nodes: Object.fromEntries(Object.entries(run.nodes).map(([id, node]) => [id, { ...node }]))
+});
+
+export async function runWorkflow<T>(
+  workflow: WorkflowDefinition,
+  execute: NodeExecutor<T>,
+  options: WorkflowRunOptions<T> = {}
+): Promise<WorkflowRun<T>> {
+  validateWorkflow(workflow);
+
+  const run: WorkflowRun<T> = {
+    runId: `RUN-${Date.now().toString(36).toUpperCase()}`,
+    workflowId: workflow.id,
+    status: 'RUNNING',
+    startedAt: Date.now(),
+    nodes: Object.fromEntries(workflow.nodes.map(node => [node.id, { nodeId: node.id, status: 'PENDING' as NodeStatus, attempts: 0 }]))
+  };
+  const emit = () => options.onUpdate?.(snapshot(run));
+  const inFlight = new Map<string, Promise<void>>();
+  let halted = false;
+
+  const isSettled = (id: string) => !['PENDING', 'RUNNING'].includes(run.nodes[id].status);
+  const didNotSucceed = (id: string) => run.nodes[id].status === 'FAILED' || run.nodes[id].status === 'SKIPPED';
+
+  const runNode = async (node: WorkflowNode) => {
+    const state = run.nodes[node.id];
+    state.status = 'RUNNING';
+    state.startedAt = Date.now();
+    emit();
+
+    const upstream: Record<string, T> = {};
+    for (const dep of upstreamOf(node)) {
+      const output = run.nodes[dep].output;
+      if (run.nodes[dep].status === 'SUCCEEDED' && output !== undefined) upstream[dep] = output;
+    }
+
+    const retries = node.retries ?? options.defaultRetries ?? DEFAULT_RETRIES;
+    for (let attempt = 0; ; attempt++) {
+      state.attempts = attempt + 1;
+      try {
+        state.output = await withTimeout(signal => execute(node, upstream, signal), node.id, node.timeoutMs ?? options.defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS);
+        state.status = 'SUCCEEDED';
+        state.error = undefined;
+        break;
+      } catch (e) {
+        state.error = e instanceof Error ? e.message : String(e);
+        if (options.isFatal?.(e)) halted = true;
+        if (halted || attempt >= retries) {
+          state.status = 'FAILED';
+          break;
+        }
+        await new Promise(r => setTimeout(r, options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS));
+      }
+    }
+
+    state.finishedAt = Date.now();
+    state.durationMs = state.finishedAt - state.startedAt;
+    inFlight.delete(node.id);
+    emit();
+  };
+
+  // Start every ready node; skipping one can make its dependents skippable,
+  // so sweep until nothing changes
+  const schedule = () => {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const node of workflow.nodes) {
+        const state = run.nodes[node.id];
+        if (state.status !== 'PENDING') continue;
+
+        const failedDep = node.dependsOn.find(didNotSucceed);
+        if (halted || failedDep) {
+          state.status = 'SKIPPED';
+          state.error = halted ? 'Run halted' : `Upstream ${failedDep} did not complete`;
+          changed = true;
+          continue;
+        }
+        if (upstreamOf(node).every(isSettled)) {
+          inFlight.set(node.id, runNode(node));
+          changed = true;
+        }
+      }
+    }
+  };
+
+  schedule();
+  emit();
+  while (inFlight.size > 0) {
+    await Promise.race(inFlight.values());
+    schedule();
+  }
+
+  const states = Object.values(run.nodes);
+  run.status = states.every(s => s.status === 'SUCCEEDED') ? 'COMPLETED'
+    : terminalNodes(workflow).every(node => run.nodes[node.id].status === 'SUCCEEDED') ? 'PARTIAL'
+      : 'FAILED';
+  run.finishedAt = Date.now();
+  emit();
+  return snapshot(run);
+}
@@ -10,6 +10,17 @@ export const API_CONFIG = {
   // GOOGLE GEMINI (Required for Intelligence, Chat, Vision, Live)
   GOOGLE_API_KEY: "",
 
+  // LLM PROVIDER: "GEMINI" (default) or "OPENAI_COMPATIBLE" for a local
+  // llama.cpp / Ollama / vLLM server (air-gapped control rooms)
+  LLM_PROVIDER: "",
+  LOCAL_LLM_BASE_URL: "",
+  LOCAL_LLM_MODEL: "",
+  LOCAL_LLM_EMBEDDING_MODEL: "",
+  LOCAL_LLM_API_KEY: "",
+  // "REPLAY" provider: "RECORD" from LLM_REPLAY_SOURCE, or "REPLAY" the fixture
+  LLM_REPLAY_MODE: "",
+  LLM_REPLAY_SOURCE: "",
+
   // EIA (Required for Historical Data)
   EIA_KEY: "",
 
@@ -0,0 +1,299 @@
+
+/**
+ * auditArchive.ts
+ *
+ * Audit Retention & Archive Bundles
+ *
+ * Entries older than the hot-retention window are moved out of the live store
+ * into gzip-compressed archive bundles. A bundle is always a prefix of the
+ * chain ending on a checkpoint boundary, so the signed checkpoints covering it
+ * travel with it, and the first live entry's previousHash equals the bundle's
+ * finalHash. Bundles are kept here for download and can be re-imported to be
+ * verified on their own.
+ *
+ * Features:
+ * - Configurable hot retention (days) with optional automatic archival
+ * - Hash-sealed manifest (entries hash + seal over all manifest fields)
+ * - Chain anchoring between consecutive archives and the live chain
+ * - Offline bundle verification (seal, links, signed checkpoints)
+ */
+
+import type { AuditEntry } from './auditService';
+import {
+  AuditCheckpoint, CheckpointVerification, canonicalJson, sha256Hex, verifyCheckpoints
+} from './auditCheckpoints';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RetentionPolicy {
+  hotDays: number;
+  autoArchive: boolean;
+}
+
+export interface AuditArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  archiveId: string;
+  systemId: string;
+  createdAt: string;
+  createdBy: string;
+  fromTimestampMs: number;
+  toTimestampMs: number;
+  entryCount: number;
+  /** Sequence of the last archived entry (a checkpoint boundary) */
+  toSequence: number;
+  /** previousHash of the first archived entry (prior archive's finalHash or genesis) */
+  anchorHash: string;
+  /** Hash of the last archived entry; the next archive or live chain links to it */
+  finalHash: string;
+  entriesHash: string;
+  checkpointIds: string[];
+  /** SHA-256 over every other manifest field */
+  sealHash: string;
+}
+
+export interface AuditArchiveBundle {
+  manifest: AuditArchiveManifest;
+  entries: AuditEntry[];
+  checkpoints: AuditCheckpoint[];
+  publicKeys: Record<string, JsonWebKey>;
+}
+
+export interface ArchiveVerification {
+  valid: boolean;
+  manifest?: AuditArchiveManifest;
+  errors: string[];
+  checkpoints: CheckpointVerification[];
+}
+
+interface StoredArchive {
+  archiveId: string;
+  manifest: AuditArchiveManifest;
+  bundle: Blob;
+}
+
+export const ARCHIVE_FORMAT = 'gridguard-audit-archive/1';
+export const GENESIS_ANCHOR = 'GENESIS_BLOCK_0000000000000000'.substring(0, 16).toUpperCase();
+
+const POLICY_STORAGE_KEY = 'AUDIT_RETENTION_POLICY';
+const DEFAULT_POLICY: RetentionPolicy = { hotDays: 90, autoArchive: true };
+
+// ============================================================================
+// BUNDLE ENCODING
+// ============================================================================
+
+async function gzip(text: string): Promise<Blob> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+}
+
+async function gunzip(blob: Blob): Promise<string> {
+  const stream = blob.stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+function sealFields(manifest: AuditArchiveManifest): string {
+  const { sealHash, ...fields } = manifest;
+  return canonicalJson(fields);
+}
+
+// ============================================================================
+// INDEXEDDB PERSISTENCE
+// ============================================================================
+
+const DB_NAME = 'GridGuardAuditArchive';
+const DB_VERSION = 1;
+const STORE_NAME = 'bundles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'archiveId' });
+      }
+    };
+  });
+
+  return dbPromise;
+}
+
+// ============================================================================
+// ARCHIVE SERVICE
+// ============================================================================
+
+class AuditArchiveService {
+  private manifests: AuditArchiveManifest[] = [];
+  private loaded: Promise<void> | null = null;
+
+  public load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const db = await openDB();
+        const stored = await new Promise<StoredArchive[]>((resolve, reject) => {
+          const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+          request.onsuccess = () => resolve(request.result || []);
+          request.onerror = () => reject(request.error);
+        });
+        this.manifests = stored.map(s => s.manifest).sort((a, b) => a.toSequence - b.toSequence);
+      })();
+    }
+    return this.loaded;
+  }
+
+  public getPolicy(): RetentionPolicy {
+    try {
+      return { ...DEFAULT_POLICY, ...JSON.parse(localStorage.getItem(POLICY_STORAGE_KEY) || '{}') };
+    } catch (e) {
+      return DEFAULT_POLICY;
+    }
+  }
+
+  public setPolicy(policy: RetentionPolicy): void {
+    localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+  }
+
+  public getManifests(): AuditArchiveManifest[] {
+    return this.manifests;
+  }
+
+  public getLatest(): AuditArchiveManifest | undefined {
+    return this.manifests[this.manifests.length - 1];
+  }
+
+  /**
+   * previousHash the oldest live entry must carry
+   */
+  public getLiveAnchor(): string {
+    return this.getLatest()?.finalHash ?? GENESIS_ANCHOR;
+  }
+
+  /**
+   * Seal and store a bundle for a chain prefix (ascending chain order)
+   */
+  public async createBundle(
+    entries: AuditEntry[],
+    checkpoints: AuditCheckpoint[],
+    publicKeys: Record<string, JsonWebKey>,
+    createdBy: string
+  ): Promise<AuditArchiveManifest> {
+    await this.load();
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    const manifest: AuditArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      archiveId: `ARCH-${last.sequence}`,
+      systemId: 'GRIDGUARD-AI-V2',
+      createdAt: new Date().toISOString(),
+      createdBy,
+      fromTimestampMs: first.timestampMs,
+      toTimestampMs: last.timestampMs,
+      entryCount: entries.length,
+      toSequence: last.sequence!,
+      anchorHash: first.previousHash,
+      finalHash: last.hash,
+      entriesHash: await sha256Hex(canonicalJson(entries)),
+      checkpointIds: checkpoints.map(c => c.id),
+      sealHash: ''
+    };
+    manifest.sealHash = await sha256Hex(sealFields(manifest));
+
+    const bundle: AuditArchiveBundle = { manifest, entries, checkpoints, publicKeys };
+    const stored: StoredArchive = { archiveId: manifest.archiveId, manifest, bundle: await gzip(JSON.stringify(bundle)) };
+
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put(stored);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    this.manifests.push(manifest);
+    return manifest;
+  }
+
+  /**
+   * Compressed bundle file for download
+   */
+  public async getBundle(archiveId: string): Promise<Blob | undefined> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(archiveId);
+      request.onsuccess = () => resolve((request.result as StoredArchive | undefined)?.bundle);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Verify a downloaded bundle: seal, entries hash, hash links from the
+   * anchor to the final hash, and the signed checkpoints it carries. Bundles
+   * this console produced must also match the recorded manifest.
+   */
+  public async verifyBundle(file: Blob): Promise<ArchiveVerification> {
+    let bundle: AuditArchiveBundle;
+    try {
+      bundle = JSON.parse(await gunzip(file));
+    } catch (e) {
+      return { valid: false, errors: ['Not a gzip-compressed archive bundle'], checkpoints: [] };
+    }
+    const { manifest, entries = [], checkpoints = [], publicKeys = {} } = bundle;
+    if (manifest?.format !== ARCHIVE_FORMAT) {
+      return { valid: false, errors: [`Not a ${ARCHIVE_FORMAT} bundle`], checkpoints: [] };
+    }
+
+    const errors: string[] = [];
+    if (await sha256Hex(sealFields(manifest)) !== manifest.sealHash) errors.push('Manifest seal does not match');
+    if (await sha256Hex(canonicalJson(entries)) !== manifest.entriesHash) errors.push('Entries hash does not match manifest');
+    if (entries.length !== manifest.entryCount) errors.push(`Expected ${manifest.entryCount} entries, found ${entries.length}`);
+
+    let expected = manifest.anchorHash;
+    for (const entry of entries) {
+      if (entry.previousHash !== expected) {
+        errors.push(`Hash link broken at entry ${entry.id}`);
+        break;
+      }
+      expected = entry.hash;
+    }
+    if (entries.length > 0 && entries[entries.length - 1].hash !== manifest.finalHash) {
+      errors.push('Final hash does not match the last entry');
+    }
+
+    const results = checkpoints.length > 0
+      ? await verifyCheckpoints(checkpoints, entries, publicKeys, checkpoints[0].previousRoot)
+      : [];
+    results.filter(c => c.status !== 'VALID').forEach(c => errors.push(`${c.checkpointId}: ${c.status}${c.reason ? ` (${c.reason})` : ''}`));
+
+    await this.load().catch(() => undefined);
+    const known = this.manifests.find(m => m.archiveId === manifest.archiveId);
+    if (known && known.sealHash !== manifest.sealHash) {
+      errors.push('Bundle differs from the archive recorded by this console');
+    }
+
+    return { valid: errors.length === 0, manifest, errors, checkpoints: results };
+  }
+
+  /**
+   * Remove all bundles (with auditService.clearLogs)
+   */
+  public async clear(): Promise<void> {
+    await this.load();
+    this.manifests = [];
+    const db = await openDB();
+    db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear();
+  }
+}
+
+export const auditArchive = new AuditArchiveService();
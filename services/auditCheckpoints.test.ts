@@ -0,0 +1,135 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuditEntry } from './auditService';
+import { hashEntry, merkleRoot, sha256Hex, verifyCheckpoints, verifyReceipt } from './auditCheckpoints';
+
+function makeEntries(count: number, fromSequence = 0): AuditEntry[] {
+    return Array.from({ length: count }, (_, i) => {
+        const sequence = fromSequence + i;
+        const timestampMs = Date.UTC(2026, 0, 1, 0, 0, sequence);
+        return {
+            id: `LOG-${sequence}`,
+            timestamp: new Date(timestampMs).toISOString().replace('T', ' ').substring(0, 19),
+            timestampMs,
+            operatorId: 'USR-TEST',
+            eventType: 'SYSTEM_BOOT',
+            resource: 'TEST',
+            details: `Entry ${sequence}`,
+            metadata: { n: sequence },
+            hash: `hash-${sequence}`,
+            previousHash: sequence === 0 ? 'GENESIS' : `hash-${sequence - 1}`,
+            sequence
+        };
+    });
+}
+
+// Fresh checkpoint store and signing key per test
+async function freshCheckpoints() {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    return (await import('./auditCheckpoints')).auditCheckpoints;
+}
+
+describe('merkleRoot', () => {
+    it('returns the leaf for a single entry and carries an odd node up', async () => {
+        const [a, b, c] = await Promise.all(['a', 'b', 'c'].map(sha256Hex));
+        expect(await merkleRoot([a])).toBe(a);
+
+        const ab = await sha256Hex('01' + a + b);
+        expect(await merkleRoot([a, b])).toBe(ab);
+        expect(await merkleRoot([a, b, c])).toBe(await sha256Hex('01' + ab + c));
+    });
+
+    it('depends on leaf order', async () => {
+        const [a, b] = await Promise.all(['a', 'b'].map(sha256Hex));
+        expect(await merkleRoot([a, b])).not.toBe(await merkleRoot([b, a]));
+    });
+
+    it('hashes entries independently of key order', async () => {
+        const [entry] = makeEntries(1);
+        const reordered = Object.fromEntries(Object.entries(entry).reverse()) as AuditEntry;
+        expect(await hashEntry(reordered)).toBe(await hashEntry(entry));
+    });
+});
+
+describe('audit checkpoints', () => {
+    let service: Awaited<ReturnType<typeof freshCheckpoints>>;
+    let entries: AuditEntry[];
+
+    beforeEach(async () => {
+        service = await freshCheckpoints();
+        entries = makeEntries(7);
+        await service.seal(entries.slice(0, 4));
+        await service.seal(entries.slice(4));
+    });
+
+    it('chains signed checkpoints and verifies the sealed ranges', async () => {
+        const [first, second] = service.getCheckpoints();
+        expect(first).toMatchObject({ fromSequence: 0, toSequence: 3, entryCount: 4, chainHead: 'hash-3', previousRoot: 'GENESIS' });
+        expect(second).toMatchObject({ fromSequence: 4, toSequence: 6, previousRoot: first.merkleRoot });
+
+        const results = await service.verify(entries);
+        expect(results.map(r => r.status)).toEqual(['VALID', 'VALID']);
+    });
+
+    it('detects a modified, missing or absent range', async () => {
+        const modified = entries.map(e => e.sequence === 2 ? { ...e, details: 'rewritten' } : e);
+        expect((await service.verify(modified)).map(r => r.status)).toEqual(['TAMPERED', 'VALID']);
+
+        const missing = entries.filter(e => e.sequence !== 5);
+        const [, partial] = await service.verify(missing);
+        expect(partial).toMatchObject({ status: 'TAMPERED', reason: '1 of 3 sealed entries missing' });
+
+        expect((await service.verify(entries.slice(4))).map(r => r.status)).toEqual(['INCOMPLETE', 'VALID']);
+    });
+
+    it('rejects checkpoints with altered fields, unknown keys or broken links', async () => {
+        const keys = service.getPublicKeys();
+        const [first, second] = service.getCheckpoints();
+
+        const altered = await verifyCheckpoints([{ ...first, entryCount: 3 }, second], entries, keys);
+        expect(altered[0].status).toBe('BAD_SIGNATURE');
+
+        const unknownKey = await verifyCheckpoints([first, second], entries, {});
+        expect(unknownKey[0]).toMatchObject({ status: 'BAD_SIGNATURE', reason: `Unknown signing key ${first.keyId}` });
+
+        const dropped = await verifyCheckpoints([second], entries, keys);
+        expect(dropped[0].status).toBe('TAMPERED');
+        expect(await verifyCheckpoints([second], entries, keys, first.merkleRoot)).toMatchObject([{ status: 'VALID' }]);
+    });
+
+    it('verifies an exported receipt against an exported log', async () => {
+        const receipt = await service.exportReceipt();
+        const log = JSON.stringify({ entries });
+
+        expect(await verifyReceipt(receipt, log)).toMatchObject({ valid: true });
+
+        const rewritten = JSON.stringify({ entries: entries.map(e => e.sequence === 6 ? { ...e, operatorId: 'USR-OTHER' } : e) });
+        const result = await verifyReceipt(receipt, rewritten);
+        expect(result.valid).toBe(false);
+        expect(result.checkpoints.map(c => c.status)).toEqual(['VALID', 'TAMPERED']);
+    });
+
+    it('does not accept a log re-sealed with a fresh key against an earlier receipt', async () => {
+        const receipt = await service.exportReceipt();
+        const rewritten = entries.map(e => e.sequence === 1 ? { ...e, details: 'rewritten' } : e);
+
+        // Attacker seals the rewritten log on a fresh console (new signing key)
+        const forger = await freshCheckpoints();
+        await forger.seal(rewritten.slice(0, 4));
+        await forger.seal(rewritten.slice(4));
+        const forged = JSON.parse(await forger.exportReceipt());
+
+        const original = JSON.parse(receipt);
+        const mixed = JSON.stringify({ ...original, checkpoints: forged.checkpoints });
+        const result = await verifyReceipt(mixed, JSON.stringify({ entries: rewritten }));
+        expect(result.valid).toBe(false);
+        expect(result.checkpoints.every(c => c.status === 'BAD_SIGNATURE')).toBe(true);
+    });
+
+    it('rejects malformed receipts', async () => {
+        expect(await verifyReceipt('not json', '{}')).toMatchObject({ valid: false, error: 'Receipt or log file is not valid JSON' });
+        expect(await verifyReceipt('{"format":"other"}', '{"entries":[]}')).toMatchObject({ valid: false });
+    });
+});
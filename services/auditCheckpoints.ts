@@ -0,0 +1,443 @@
+
+/**
+ * auditCheckpoints.ts
+ *
+ * Signed Merkle Checkpoints for the Audit Chain
+ *
+ * The SHA-256 chain in auditService.ts only proves that entries link up; anyone
+ * who can edit IndexedDB can rewrite an entry and recompute every hash after it.
+ * Checkpoints seal consecutive ranges of entries under a Merkle root that is
+ * signed with an ECDSA P-256 key generated as non-extractable, so the private
+ * key never leaves WebCrypto. Receipts carry the signed checkpoints and the
+ * public key; once a receipt has been handed to an auditor (or anchored
+ * elsewhere), a rewritten log no longer verifies against it, even if the
+ * attacker re-signs with a fresh key.
+ *
+ * Features:
+ * - Merkle root over canonical entry hashes (leaf/node domain separation)
+ * - Checkpoints chained by previous root, persisted in IndexedDB
+ * - Non-exportable ECDSA P-256 signing key, public key published as JWK
+ * - Per-range verification (signature, entry count, Merkle root, chain head)
+ * - Receipt export and offline verification against an exported log
+ */
+
+import type { AuditEntry } from './auditService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AuditCheckpoint {
+  id: string;
+  /** Sequence numbers of the first and last entry sealed (inclusive) */
+  fromSequence: number;
+  toSequence: number;
+  fromTimestampMs: number;
+  toTimestampMs: number;
+  entryCount: number;
+  merkleRoot: string;
+  /** Chain hash of the last sealed entry */
+  chainHead: string;
+  /** Merkle root of the preceding checkpoint ('GENESIS' for the first) */
+  previousRoot: string;
+  createdAt: string;
+  keyId: string;
+  /** base64 ECDSA P-256 / SHA-256 signature over the fields above */
+  signature: string;
+}
+
+export type CheckpointStatus = 'VALID' | 'TAMPERED' | 'BAD_SIGNATURE' | 'INCOMPLETE';
+
+export interface CheckpointVerification {
+  checkpointId: string;
+  fromSequence: number;
+  toSequence: number;
+  fromTimestampMs: number;
+  toTimestampMs: number;
+  status: CheckpointStatus;
+  reason?: string;
+}
+
+export interface CheckpointReceipt {
+  format: typeof RECEIPT_FORMAT;
+  systemId: string;
+  exportedAt: string;
+  algorithm: typeof SIGNING_ALGORITHM;
+  publicKeys: Record<string, JsonWebKey>;
+  checkpoints: AuditCheckpoint[];
+}
+
+export interface ReceiptVerification {
+  valid: boolean;
+  checkpoints: CheckpointVerification[];
+  error?: string;
+}
+
+interface SigningKeyRecord {
+  keyId: string;
+  privateKey: CryptoKey;
+  publicJwk: JsonWebKey;
+  createdAt: string;
+}
+
+export const RECEIPT_FORMAT = 'gridguard-audit-receipt/1';
+const SIGNING_ALGORITHM = 'ECDSA-P256-SHA256';
+const ECDSA_PARAMS = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' };
+
+// ============================================================================
+// CRYPTO UTILITIES
+// ============================================================================
+
+export async function sha256Hex(message: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+/**
+ * JSON with sorted object keys, so hashes survive IndexedDB and file round trips
+ */
+export function canonicalJson(value: any): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (typeof value.toJSON === 'function') return canonicalJson(value.toJSON());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+  return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(',')}}`;
+}
+
+/**
+ * Leaf hash of a stored audit entry (every persisted field)
+ */
+export function hashEntry(entry: AuditEntry): Promise<string> {
+  return sha256Hex('00' + canonicalJson(entry));
+}
+
+/**
+ * Merkle root over leaf hashes; an odd node is carried up unchanged
+ */
+export async function merkleRoot(leaves: string[]): Promise<string> {
+  if (leaves.length === 0) return sha256Hex('');
+  let level = leaves;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await sha256Hex('01' + level[i] + level[i + 1]) : level[i]);
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+function signedPayload(checkpoint: AuditCheckpoint): Uint8Array {
+  const { signature, ...fields } = checkpoint;
+  return new TextEncoder().encode(canonicalJson(fields));
+}
+
+async function keyIdFor(jwk: JsonWebKey): Promise<string> {
+  return (await sha256Hex(`${jwk.crv}:${jwk.x}:${jwk.y}`)).substring(0, 16).toUpperCase();
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Verify checkpoints against a set of entries. Entries may come from IndexedDB
+ * or an exported log file; ranges with no entries present are INCOMPLETE.
+ * `startRoot` is the root preceding the first checkpoint (archive bundles
+ * start mid-chain).
+ */
+export async function verifyCheckpoints(
+  checkpoints: AuditCheckpoint[],
+  entries: AuditEntry[],
+  publicKeys: Record<string, JsonWebKey>,
+  startRoot = 'GENESIS'
+): Promise<CheckpointVerification[]> {
+  const bySequence = new Map<number, AuditEntry>();
+  entries.forEach(e => { if (typeof e.sequence === 'number') bySequence.set(e.sequence, e); });
+
+  const verifyKeys = new Map<string, CryptoKey>();
+  const results: CheckpointVerification[] = [];
+  let previousRoot = startRoot;
+
+  for (const checkpoint of [...checkpoints].sort((a, b) => a.fromSequence - b.fromSequence)) {
+    const result = (status: CheckpointStatus, reason?: string): CheckpointVerification => ({
+      checkpointId: checkpoint.id,
+      fromSequence: checkpoint.fromSequence,
+      toSequence: checkpoint.toSequence,
+      fromTimestampMs: checkpoint.fromTimestampMs,
+      toTimestampMs: checkpoint.toTimestampMs,
+      status,
+      reason
+    });
+
+    // 1. Signature
+    const jwk = publicKeys[checkpoint.keyId];
+    let signatureValid = false;
+    if (jwk) {
+      try {
+        if (!verifyKeys.has(checkpoint.keyId)) {
+          verifyKeys.set(checkpoint.keyId, await crypto.subtle.importKey('jwk', jwk, ECDSA_PARAMS, true, ['verify']));
+        }
+        signatureValid = await crypto.subtle.verify(SIGN_PARAMS, verifyKeys.get(checkpoint.keyId)!, fromBase64(checkpoint.signature), signedPayload(checkpoint));
+      } catch {
+        signatureValid = false;
+      }
+    }
+    const expectedPrevious = previousRoot;
+    previousRoot = checkpoint.merkleRoot;
+
+    if (!signatureValid) {
+      results.push(result('BAD_SIGNATURE', jwk ? 'Signature does not match checkpoint contents' : `Unknown signing key ${checkpoint.keyId}`));
+      continue;
+    }
+    if (checkpoint.previousRoot !== expectedPrevious) {
+      results.push(result('TAMPERED', 'Checkpoint does not follow the previous checkpoint (missing or reordered checkpoint)'));
+      continue;
+    }
+
+    // 2. Entries in range
+    const range: AuditEntry[] = [];
+    for (let seq = checkpoint.fromSequence; seq <= checkpoint.toSequence; seq++) {
+      const entry = bySequence.get(seq);
+      if (entry) range.push(entry);
+    }
+    if (range.length === 0) {
+      results.push(result('INCOMPLETE', 'No entries from this range are available'));
+      continue;
+    }
+    if (range.length !== checkpoint.entryCount) {
+      results.push(result('TAMPERED', `${checkpoint.entryCount - range.length} of ${checkpoint.entryCount} sealed entries missing`));
+      continue;
+    }
+
+    // 3. Merkle root and chain head
+    const root = await merkleRoot(await Promise.all(range.map(hashEntry)));
+    if (root !== checkpoint.merkleRoot) {
+      results.push(result('TAMPERED', 'Merkle root mismatch: sealed entries were modified'));
+      continue;
+    }
+    if (range[range.length - 1].hash !== checkpoint.chainHead) {
+      results.push(result('TAMPERED', 'Chain head does not match the last sealed entry'));
+      continue;
+    }
+
+    results.push(result('VALID'));
+  }
+
+  return results;
+}
+
+/**
+ * Auditor-side check: verify a receipt file against an exported JSON log
+ * (auditService.exportToJSON). Needs nothing from this console's storage.
+ */
+export async function verifyReceipt(receiptJson: string, logJson: string): Promise<ReceiptVerification> {
+  let receipt: CheckpointReceipt;
+  let entries: AuditEntry[];
+  try {
+    receipt = JSON.parse(receiptJson);
+    entries = JSON.parse(logJson).entries;
+  } catch {
+    return { valid: false, checkpoints: [], error: 'Receipt or log file is not valid JSON' };
+  }
+  if (receipt.format !== RECEIPT_FORMAT || !Array.isArray(receipt.checkpoints)) {
+    return { valid: false, checkpoints: [], error: `Not a ${RECEIPT_FORMAT} receipt` };
+  }
+  if (!Array.isArray(entries)) {
+    return { valid: false, checkpoints: [], error: 'Log export has no entries' };
+  }
+
+  const checkpoints = await verifyCheckpoints(receipt.checkpoints, entries, receipt.publicKeys || {});
+  return { valid: checkpoints.every(c => c.status === 'VALID'), checkpoints };
+}
+
+// ============================================================================
+// INDEXEDDB PERSISTENCE
+// ============================================================================
+
+const DB_NAME = 'GridGuardAuditCheckpoints';
+const DB_VERSION = 1;
+const CHECKPOINT_STORE = 'checkpoints';
+const KEY_STORE = 'signingKeys';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(CHECKPOINT_STORE)) {
+        db.createObjectStore(CHECKPOINT_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(KEY_STORE)) {
+        db.createObjectStore(KEY_STORE, { keyPath: 'keyId' });
+      }
+    };
+  });
+
+  return dbPromise;
+}
+
+async function getAll<T>(storeName: string): Promise<T[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function put(storeName: string, value: unknown): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(value);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// ============================================================================
+// CHECKPOINT SERVICE
+// ============================================================================
+
+class AuditCheckpointService {
+  private checkpoints: AuditCheckpoint[] = [];
+  private publicKeys: Record<string, JsonWebKey> = {};
+  private signingKey: SigningKeyRecord | null = null;
+  private loaded: Promise<void> | null = null;
+
+  /**
+   * Load persisted checkpoints and signing keys (idempotent)
+   */
+  public load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const [checkpoints, keys] = await Promise.all([
+          getAll<AuditCheckpoint>(CHECKPOINT_STORE),
+          getAll<SigningKeyRecord>(KEY_STORE)
+        ]);
+        this.checkpoints = checkpoints.sort((a, b) => a.fromSequence - b.fromSequence);
+        keys.forEach(k => { this.publicKeys[k.keyId] = k.publicJwk; });
+        // Newest key signs; older keys remain for verifying earlier checkpoints
+        this.signingKey = keys.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] ?? null;
+      })();
+    }
+    return this.loaded;
+  }
+
+  public getCheckpoints(): AuditCheckpoint[] {
+    return this.checkpoints;
+  }
+
+  public getPublicKeys(): Record<string, JsonWebKey> {
+    return this.publicKeys;
+  }
+
+  public getLatest(): AuditCheckpoint | undefined {
+    return this.checkpoints[this.checkpoints.length - 1];
+  }
+
+  /**
+   * Seal consecutive entries (ascending sequence) under a signed checkpoint
+   */
+  public async seal(entries: AuditEntry[]): Promise<AuditCheckpoint | null> {
+    await this.load();
+    if (entries.length === 0) return null;
+
+    const key = await this.getSigningKey();
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    const unsigned: AuditCheckpoint = {
+      id: `CKPT-${first.sequence}-${last.sequence}`,
+      fromSequence: first.sequence!,
+      toSequence: last.sequence!,
+      fromTimestampMs: first.timestampMs,
+      toTimestampMs: last.timestampMs,
+      entryCount: entries.length,
+      merkleRoot: await merkleRoot(await Promise.all(entries.map(hashEntry))),
+      chainHead: last.hash,
+      previousRoot: this.getLatest()?.merkleRoot ?? 'GENESIS',
+      createdAt: new Date().toISOString(),
+      keyId: key.keyId,
+      signature: ''
+    };
+    const signature = await crypto.subtle.sign(SIGN_PARAMS, key.privateKey, signedPayload(unsigned));
+    const checkpoint = { ...unsigned, signature: toBase64(new Uint8Array(signature)) };
+
+    await put(CHECKPOINT_STORE, checkpoint);
+    this.checkpoints.push(checkpoint);
+    return checkpoint;
+  }
+
+  public async verify(entries: AuditEntry[]): Promise<CheckpointVerification[]> {
+    await this.load();
+    return verifyCheckpoints(this.checkpoints, entries, this.publicKeys);
+  }
+
+  /**
+   * Receipt for auditors: signed checkpoints and public keys, no log content
+   */
+  public async exportReceipt(): Promise<string> {
+    await this.load();
+    const receipt: CheckpointReceipt = {
+      format: RECEIPT_FORMAT,
+      systemId: 'GRIDGUARD-AI-V2',
+      exportedAt: new Date().toISOString(),
+      algorithm: SIGNING_ALGORITHM,
+      publicKeys: this.publicKeys,
+      checkpoints: this.checkpoints
+    };
+    return JSON.stringify(receipt, null, 2);
+  }
+
+  /**
+   * Remove all checkpoints (with auditService.clearLogs); keys are kept
+   */
+  public async clear(): Promise<void> {
+    await this.load();
+    this.checkpoints = [];
+    const db = await openDB();
+    db.transaction(CHECKPOINT_STORE, 'readwrite').objectStore(CHECKPOINT_STORE).clear();
+  }
+
+  private async getSigningKey(): Promise<SigningKeyRecord> {
+    if (this.signingKey) return this.signingKey;
+
+    // extractable=false applies to the private key; the public key stays exportable
+    const pair = await crypto.subtle.generateKey(ECDSA_PARAMS, false, ['sign', 'verify']);
+    const publicJwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+    const record: SigningKeyRecord = {
+      keyId: await keyIdFor(publicJwk),
+      privateKey: pair.privateKey,
+      publicJwk: { kty: publicJwk.kty, crv: publicJwk.crv, x: publicJwk.x, y: publicJwk.y },
+      createdAt: new Date().toISOString()
+    };
+    await put(KEY_STORE, record);
+    this.publicKeys[record.keyId] = record.publicJwk;
+    this.signingKey = record;
+    return record;
+  }
+}
+
+export const auditCheckpoints = new AuditCheckpointService();
@@ -7,11 +7,19 @@
  * Features:
  * - Cryptographic SHA-256 hashing for tamper-evidence
  * - Chain of custody (each entry links to previous hash)
+ * - Signed Merkle checkpoints and auditor receipts (see auditCheckpoints.ts)
+ * - Hot retention with sealed archive bundles anchoring the live chain
+ *   (see auditArchive.ts)
  * - IndexedDB persistence for durability
+ * - Indexed query engine (time ranges, multi-value filters, text search,
+ *   cursor pagination, per-type counts) and saved filters
  * - Export to CSV/JSON for compliance
  * - NIST AI RMF 1.0 artifact generation
  */
 
+import { auditCheckpoints, CheckpointVerification } from './auditCheckpoints';
+import { auditArchive, AuditArchiveManifest, RetentionPolicy } from './auditArchive';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -20,11 +28,13 @@ export type AuditEventType =
   | 'SYSTEM_BOOT'
   | 'USER_LOGIN'
   | 'USER_LOGOUT'
+  | 'ACCESS_DENIED'
   | 'AI_RECOMMENDATION'
   | 'AI_ACTUATION'
   | 'OPERATOR_OVERRIDE'
   | 'OPERATOR_APPROVAL'
   | 'SAFETY_SWITCH'
+  | 'SAFETY_CHECK'
   | 'DATA_FETCH'
   | 'NAVIGATION'
   | 'ALERT_TRIGGERED'
@@ -32,6 +42,12 @@ export type AuditEventType =
   | 'EXPORT_GENERATED'
   | 'ERROR';
 
+export const AUDIT_EVENT_TYPES: AuditEventType[] = [
+  'SYSTEM_BOOT', 'USER_LOGIN', 'USER_LOGOUT', 'ACCESS_DENIED', 'AI_RECOMMENDATION', 'AI_ACTUATION',
+  'OPERATOR_OVERRIDE', 'OPERATOR_APPROVAL', 'SAFETY_SWITCH', 'SAFETY_CHECK', 'DATA_FETCH',
+  'NAVIGATION', 'ALERT_TRIGGERED', 'CONFIG_CHANGE', 'EXPORT_GENERATED', 'ERROR'
+];
+
 export interface AuditEntry {
   id: string;
   timestamp: string;
@@ -43,8 +59,59 @@ export interface AuditEntry {
   metadata?: Record<string, any>;
   hash: string;
   previousHash: string;
+  /** Monotonic position in the chain (absent on entries written before checkpoints) */
+  sequence?: number;
+}
+
+export interface ChainIntegrityReport {
+  valid: boolean;
+  /** First entry whose previousHash does not link to its predecessor */
+  brokenAt?: string;
+  entriesChecked: number;
+  /** Entries newer than the latest checkpoint (hash chain only) */
+  unsealedEntries: number;
+  /** Entries moved to archive bundles (last archived sequence) */
+  archivedThroughSequence?: number;
+  checkpoints: CheckpointVerification[];
+  failedRanges: CheckpointVerification[];
+}
+
+export interface AuditQuery {
+  startTime?: number;
+  endTime?: number;
+  eventTypes?: AuditEventType[];
+  operatorIds?: string[];
+  resources?: string[];
+  /** Case-insensitive match against details, resource, operator and metadata */
+  text?: string;
+  limit?: number;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
 }
 
+export interface AuditQueryPage {
+  entries: AuditEntry[];
+  nextCursor?: string;
+}
+
+export interface SavedAuditFilter {
+  name: string;
+  query: Omit<AuditQuery, 'cursor' | 'limit'>;
+  savedAt: number;
+}
+
+const MAX_IN_MEMORY = 1000;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+const SAVED_FILTERS_KEY = 'AUDIT_SAVED_FILTERS';
+const CHECKPOINT_EVERY_ENTRIES = 50;
+const CHECKPOINT_MAX_AGE_MS = 5 * 60 * 1000;
+const RETENTION_CHECK_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const byChainOrder = (a: AuditEntry, b: AuditEntry) =>
+  a.timestampMs - b.timestampMs || (a.sequence ?? -1) - (b.sequence ?? -1);
+
 // ============================================================================
 // CRYPTO UTILITIES
 // ============================================================================
@@ -61,26 +128,150 @@ async function sha256(message: string): Promise<string> {
 // ============================================================================
 
 const DB_NAME = 'GridGuardAudit';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const STORE_NAME = 'auditLogs';
 
+let dbPromise: Promise<IDBDatabase> | null = null;
+
 function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
-    request.onerror = () => reject(request.error);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
     request.onsuccess = () => resolve(request.result);
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      const store = db.objectStoreNames.contains(STORE_NAME)
+        ? request.transaction!.objectStore(STORE_NAME)
+        : db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      if (!store.indexNames.contains('timestamp')) {
         store.createIndex('timestamp', 'timestampMs', { unique: false });
         store.createIndex('eventType', 'eventType', { unique: false });
         store.createIndex('operatorId', 'operatorId', { unique: false });
       }
+      // v2: compound indexes for time-ordered queries per event type / operator
+      if (!store.indexNames.contains('eventType_timestamp')) {
+        store.createIndex('eventType_timestamp', ['eventType', 'timestampMs'], { unique: false });
+        store.createIndex('operatorId_timestamp', ['operatorId', 'timestampMs'], { unique: false });
+      }
+      // v3: chain position, to load unsealed entries without a full scan
+      if (!store.indexNames.contains('sequence')) {
+        store.createIndex('sequence', 'sequence', { unique: false });
+      }
     };
   });
+
+  return dbPromise;
+}
+
+/**
+ * Walk an index newest-first; `visit` returns false to stop
+ */
+async function scanIndex(indexName: string, range: IDBKeyRange, visit: (entry: AuditEntry) => boolean): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(indexName).openCursor(range, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      if (visit(cursor.value)) cursor.continue();
+      else resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function countIndex(indexName: string, range: IDBKeyRange): Promise<number> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(indexName).count(range);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function deleteEntries(ids: string[]): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    ids.forEach(id => store.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function loadIndexRange(indexName: string, range: IDBKeyRange): Promise<AuditEntry[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(indexName).getAll(range);
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function loadAllEntries(): Promise<AuditEntry[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ============================================================================
+// QUERY HELPERS
+// ============================================================================
+
+interface QueryCursor {
+  t: number;
+  ids: string[];
+}
+
+function encodeCursor(cursor: QueryCursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+function decodeCursor(value?: string): QueryCursor | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(atob(value));
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Index ranges to scan: one per event type (or operator) when that filter is
+ * set, otherwise the timestamp index
+ */
+function queryRanges(query: AuditQuery, lower: number, upper: number): [string, IDBKeyRange][] {
+  if (query.eventTypes?.length) {
+    return query.eventTypes.map(type => ['eventType_timestamp', IDBKeyRange.bound([type, lower], [type, upper])]);
+  }
+  if (query.operatorIds?.length) {
+    return query.operatorIds.map(op => ['operatorId_timestamp', IDBKeyRange.bound([op, lower], [op, upper])]);
+  }
+  return [['timestamp', IDBKeyRange.bound(lower, upper)]];
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.eventTypes?.length && !query.eventTypes.includes(entry.eventType)) return false;
+  if (query.operatorIds?.length && !query.operatorIds.includes(entry.operatorId)) return false;
+  if (query.resources?.length && !query.resources.includes(entry.resource)) return false;
+
+  const text = query.text?.trim().toLowerCase();
+  if (text) {
+    const haystack = `${entry.details} ${entry.resource} ${entry.operatorId} ${entry.metadata ? JSON.stringify(entry.metadata) : ''}`;
+    if (!haystack.toLowerCase().includes(text)) return false;
+  }
+  return true;
 }
 
 // ============================================================================
@@ -90,60 +281,100 @@ function openDB(): Promise<IDBDatabase> {
 class AuditService {
   private logs: AuditEntry[] = [];
   private lastHash: string = 'GENESIS_BLOCK_0000000000000000';
+  private nextSequence = 0;
+  private unsealed: AuditEntry[] = [];
+  private sealing: Promise<void> | null = null;
   private listeners: ((logs: AuditEntry[]) => void)[] = [];
   private initialized = false;
+  // Entries are appended one at a time so concurrent log() calls cannot fork the chain
+  private queue: Promise<void>;
 
   constructor() {
-    this.initialize();
+    this.queue = this.initialize();
+
+    // Log system boot
+    this.log({
+      operatorId: 'SYSTEM',
+      eventType: 'SYSTEM_BOOT',
+      resource: 'CORE_KERNEL',
+      details: 'GridGuard AI Audit System Initialized'
+    });
+
+    setInterval(() => {
+      if (this.unsealed.length > 0 && Date.now() - this.unsealed[0].timestampMs >= CHECKPOINT_MAX_AGE_MS) {
+        this.createCheckpoint();
+      }
+    }, 60 * 1000);
+
+    const retain = () => {
+      if (auditArchive.getPolicy().autoArchive) this.applyRetention();
+    };
+    this.queue.then(retain);
+    setInterval(retain, RETENTION_CHECK_MS);
   }
 
   private async initialize() {
     try {
-      // Load existing logs from IndexedDB
-      const db = await openDB();
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const store = tx.objectStore(STORE_NAME);
-      const request = store.index('timestamp').getAll();
-
-      request.onsuccess = () => {
-        const stored = request.result || [];
-        // Sort by timestamp descending
-        this.logs = stored.sort((a, b) => b.timestampMs - a.timestampMs);
-
-        // Set last hash from most recent entry
-        if (this.logs.length > 0) {
-          this.lastHash = this.logs[0].hash;
+      // Load only the newest entries; older ones are paged from IndexedDB by query()
+      const recent: AuditEntry[] = [];
+      await scanIndex('timestamp', IDBKeyRange.lowerBound(0), entry => recent.push(entry) < MAX_IN_MEMORY);
+      this.logs = recent.sort((a, b) => byChainOrder(b, a));
+
+      // Resume the chain from the most recent entry
+      if (this.logs.length > 0) {
+        this.lastHash = this.logs[0].hash;
+      }
+      this.nextSequence = recent.reduce((max, e) => Math.max(max, (e.sequence ?? -1) + 1), 0);
+
+      try {
+        await auditArchive.load();
+        const archived = auditArchive.getLatest();
+        if (archived) {
+          this.nextSequence = Math.max(this.nextSequence, archived.toSequence + 1);
+          if (this.logs.length === 0) this.lastHash = archived.finalHash;
         }
+      } catch (e) {
+        console.warn('Audit archive unavailable', e);
+      }
 
-        this.initialized = true;
-        this.notifyListeners();
-      };
-
-      // Log system boot
-      await this.log({
-        operatorId: 'SYSTEM',
-        eventType: 'SYSTEM_BOOT',
-        resource: 'CORE_KERNEL',
-        details: 'GridGuard AI Audit System Initialized'
-      });
-
+      try {
+        await auditCheckpoints.load();
+        const sealedThrough = auditCheckpoints.getLatest()?.toSequence ?? -1;
+        this.unsealed = await loadIndexRange('sequence', IDBKeyRange.lowerBound(sealedThrough, true));
+      } catch (e) {
+        console.warn('Audit checkpoints unavailable', e);
+      }
     } catch (e) {
       console.warn('Audit IndexedDB not available, using memory only');
-      this.initialized = true;
     }
+
+    this.initialized = true;
+    this.notifyListeners();
   }
 
   /**
    * Record a new immutable audit entry
    */
-  public async log(entry: Omit<AuditEntry, 'id' | 'timestamp' | 'timestampMs' | 'hash' | 'previousHash'>): Promise<void> {
+  public log(entry: Omit<AuditEntry, 'id' | 'timestamp' | 'timestampMs' | 'hash' | 'previousHash' | 'sequence'>): Promise<void> {
+    return this.enqueue(() => this.append(entry));
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async append(entry: Omit<AuditEntry, 'id' | 'timestamp' | 'timestampMs' | 'hash' | 'previousHash' | 'sequence'>): Promise<void> {
     const now = new Date();
     const id = `${now.getTime()}-${Math.random().toString(36).substr(2, 9)}`;
+    const sequence = this.nextSequence++;
 
     // Create hash payload
     const hashPayload = JSON.stringify({
       id,
       timestamp: now.toISOString(),
+      sequence,
       ...entry,
       previousHash: this.lastHash
     });
@@ -160,16 +391,18 @@ class AuditService {
       details: entry.details,
       metadata: entry.metadata,
       hash: hash.substring(0, 16).toUpperCase(),
-      previousHash: this.lastHash.substring(0, 16).toUpperCase()
+      previousHash: this.lastHash.substring(0, 16).toUpperCase(),
+      sequence
     };
 
     // Update chain
     this.lastHash = hash;
     this.logs.unshift(newEntry);
+    this.unsealed.push(newEntry);
 
     // Keep max 1000 in memory
-    if (this.logs.length > 1000) {
-      this.logs = this.logs.slice(0, 1000);
+    if (this.logs.length > MAX_IN_MEMORY) {
+      this.logs = this.logs.slice(0, MAX_IN_MEMORY);
     }
 
     // Persist to IndexedDB
@@ -181,9 +414,148 @@ class AuditService {
       // Silent fail for IndexedDB
     }
 
+    if (this.unsealed.length >= CHECKPOINT_EVERY_ENTRIES) {
+      this.createCheckpoint();
+    }
+
     this.notifyListeners();
   }
 
+  /**
+   * Seal all entries since the last checkpoint under a signed Merkle root
+   */
+  public createCheckpoint(): Promise<void> {
+    if (this.sealing) return this.sealing;
+
+    const batch = this.unsealed.slice();
+    this.sealing = auditCheckpoints.seal(batch)
+      .then(() => {
+        this.unsealed = this.unsealed.slice(batch.length);
+      })
+      .catch(e => console.warn('Audit checkpoint failed', e))
+      .finally(() => {
+        this.sealing = null;
+      });
+    return this.sealing;
+  }
+
+  /**
+   * Receipt file (signed checkpoints + public key) for external anchoring
+   */
+  public async exportCheckpointReceipt(): Promise<string> {
+    await this.createCheckpoint();
+    return auditCheckpoints.exportReceipt();
+  }
+
+  // ==========================================================================
+  // QUERY ENGINE
+  // ==========================================================================
+
+  /**
+   * One page of stored entries, newest first. Uses the (eventType|operatorId,
+   * timestamp) indexes when those filters are set, so only matching entries
+   * are read; pass `nextCursor` back as `cursor` for the next page.
+   */
+  public async queryLogs(query: AuditQuery = {}): Promise<AuditQueryPage> {
+    await this.queue;
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const cursor = decodeCursor(query.cursor);
+    const seen = new Set(cursor?.ids ?? []);
+    const upper = Math.min(query.endTime ?? Infinity, cursor?.t ?? Infinity);
+    const lower = query.startTime ?? -Infinity;
+
+    let candidates: AuditEntry[] = [];
+    try {
+      // Each index stream is already newest-first, so the top `limit` of the
+      // merged result is within the first `limit + 1` matches of every stream
+      for (const [indexName, range] of queryRanges(query, lower, upper)) {
+        let taken = 0;
+        await scanIndex(indexName, range, entry => {
+          if (!seen.has(entry.id) && matchesQuery(entry, query)) {
+            candidates.push(entry);
+            taken++;
+          }
+          return taken <= limit;
+        });
+      }
+    } catch (e) {
+      candidates = this.logs.filter(entry =>
+        entry.timestampMs >= lower && entry.timestampMs <= upper && !seen.has(entry.id) && matchesQuery(entry, query));
+    }
+
+    candidates.sort((a, b) => byChainOrder(b, a) || b.id.localeCompare(a.id));
+    const entries = candidates.slice(0, limit);
+    const last = entries[entries.length - 1];
+    let nextCursor: string | undefined;
+    if (candidates.length > limit && last) {
+      // Entries sharing the boundary millisecond are skipped on the next page
+      const boundaryIds = entries.filter(e => e.timestampMs === last.timestampMs).map(e => e.id);
+      nextCursor = encodeCursor({
+        t: last.timestampMs,
+        ids: cursor?.t === last.timestampMs ? [...cursor.ids, ...boundaryIds] : boundaryIds
+      });
+    }
+
+    return { entries, nextCursor };
+  }
+
+  /**
+   * Entry counts per event type for a query (cursor and limit ignored).
+   * Index counts only when the query is limited to time range / event type.
+   */
+  public async countByEventType(query: AuditQuery = {}): Promise<Record<AuditEventType, number>> {
+    await this.queue;
+    const counts = Object.fromEntries(AUDIT_EVENT_TYPES.map(t => [t, 0])) as Record<AuditEventType, number>;
+    const lower = query.startTime ?? -Infinity;
+    const upper = query.endTime ?? Infinity;
+    const types = query.eventTypes?.length ? query.eventTypes : AUDIT_EVENT_TYPES;
+    const indexOnly = !query.operatorIds?.length && !query.resources?.length && !query.text?.trim();
+
+    try {
+      if (indexOnly) {
+        for (const type of types) {
+          counts[type] = await countIndex('eventType_timestamp', IDBKeyRange.bound([type, lower], [type, upper]));
+        }
+      } else {
+        for (const [indexName, range] of queryRanges(query, lower, upper)) {
+          await scanIndex(indexName, range, entry => {
+            if (matchesQuery(entry, query)) counts[entry.eventType]++;
+            return true;
+          });
+        }
+      }
+    } catch (e) {
+      this.logs
+        .filter(entry => entry.timestampMs >= lower && entry.timestampMs <= upper && matchesQuery(entry, query))
+        .forEach(entry => { counts[entry.eventType]++; });
+    }
+    return counts;
+  }
+
+  public getSavedFilters(): SavedAuditFilter[] {
+    try {
+      return JSON.parse(localStorage.getItem(SAVED_FILTERS_KEY) || '[]');
+    } catch (e) {
+      return [];
+    }
+  }
+
+  public saveFilter(name: string, query: AuditQuery): SavedAuditFilter[] {
+    const { cursor, limit, ...filter } = query;
+    const filters = [
+      ...this.getSavedFilters().filter(f => f.name !== name),
+      { name, query: filter, savedAt: Date.now() }
+    ];
+    localStorage.setItem(SAVED_FILTERS_KEY, JSON.stringify(filters));
+    return filters;
+  }
+
+  public deleteSavedFilter(name: string): SavedAuditFilter[] {
+    const filters = this.getSavedFilters().filter(f => f.name !== name);
+    localStorage.setItem(SAVED_FILTERS_KEY, JSON.stringify(filters));
+    return filters;
+  }
+
   /**
    * Get all audit logs
    */
@@ -192,7 +564,8 @@ class AuditService {
   }
 
   /**
-   * Get logs filtered by criteria
+   * Get in-memory logs filtered by criteria (recent window; see queryLogs
+   * for the full stored history)
    */
   public getFilteredLogs(filter: {
     eventType?: AuditEventType;
@@ -225,18 +598,50 @@ class AuditService {
   }
 
   /**
-   * Verify chain integrity
+   * Verify chain integrity: hash links across every stored entry, plus each
+   * signed checkpoint range (signature, entry count, Merkle root)
    */
-  public async verifyChainIntegrity(): Promise<{ valid: boolean; brokenAt?: string }> {
-    for (let i = 0; i < this.logs.length - 1; i++) {
-      const current = this.logs[i];
-      const previous = this.logs[i + 1];
+  public async verifyChainIntegrity(): Promise<ChainIntegrityReport> {
+    await this.queue;
+    let entries: AuditEntry[];
+    try {
+      entries = await loadAllEntries();
+    } catch (e) {
+      entries = this.logs.slice();
+    }
+    entries.sort(byChainOrder);
 
-      if (current.previousHash !== previous.hash) {
-        return { valid: false, brokenAt: current.id };
+    // The oldest live entry links to the latest archive bundle (or genesis)
+    let brokenAt: string | undefined;
+    if (entries.length > 0 && entries[0].previousHash !== auditArchive.getLiveAnchor()) {
+      brokenAt = entries[0].id;
+    }
+    for (let i = 1; i < entries.length && !brokenAt; i++) {
+      if (entries[i].previousHash !== entries[i - 1].hash) {
+        brokenAt = entries[i].id;
       }
     }
-    return { valid: true };
+
+    let checkpoints: CheckpointVerification[] = [];
+    try {
+      checkpoints = await auditCheckpoints.verify(entries);
+    } catch (e) {
+      console.warn('Audit checkpoint verification unavailable', e);
+    }
+    // Ranges moved to archive bundles are verified from the bundle instead
+    const archivedThroughSequence = auditArchive.getLatest()?.toSequence;
+    const failedRanges = checkpoints.filter(c => c.status !== 'VALID' &&
+      !(c.status === 'INCOMPLETE' && archivedThroughSequence !== undefined && c.toSequence <= archivedThroughSequence));
+
+    return {
+      valid: !brokenAt && failedRanges.length === 0,
+      brokenAt,
+      entriesChecked: entries.length,
+      unsealedEntries: this.unsealed.length,
+      archivedThroughSequence,
+      checkpoints,
+      failedRanges
+    };
   }
 
   /**
@@ -258,14 +663,21 @@ class AuditService {
   }
 
   /**
-   * Export logs to JSON
+   * Export the full stored log to JSON (verifiable against a checkpoint receipt)
    */
-  public exportToJSON(): string {
+  public async exportToJSON(): Promise<string> {
+    await this.queue;
+    let entries: AuditEntry[];
+    try {
+      entries = (await loadAllEntries()).sort((a, b) => byChainOrder(b, a));
+    } catch (e) {
+      entries = this.logs;
+    }
     return JSON.stringify({
       exportedAt: new Date().toISOString(),
       systemId: 'GRIDGUARD-AI-V2',
-      totalEntries: this.logs.length,
-      entries: this.logs
+      totalEntries: entries.length,
+      entries
     }, null, 2);
   }
 
@@ -312,17 +724,93 @@ class AuditService {
     return JSON.stringify(report, null, 2);
   }
 
+  // ==========================================================================
+  // RETENTION
+  // ==========================================================================
+
+  public getRetentionPolicy(): RetentionPolicy {
+    return auditArchive.getPolicy();
+  }
+
+  public async setRetentionPolicy(policy: RetentionPolicy, operatorId: string): Promise<void> {
+    const previous = auditArchive.getPolicy();
+    auditArchive.setPolicy(policy);
+    await this.log({
+      operatorId,
+      eventType: 'CONFIG_CHANGE',
+      resource: 'AUDIT_RETENTION',
+      details: `Audit retention set to ${policy.hotDays} days hot (auto-archive ${policy.autoArchive ? 'on' : 'off'})`,
+      metadata: { previous, policy }
+    });
+  }
+
+  /**
+   * Move entries older than the hot window into an archive bundle. Only whole
+   * checkpoint ranges are archived, so the bundle is a sealed chain prefix and
+   * the live chain starts on the bundle's final hash.
+   */
+  public async applyRetention(operatorId = 'SYSTEM', now = Date.now()): Promise<AuditArchiveManifest | null> {
+    let manifest: AuditArchiveManifest | null = null;
+    try {
+      manifest = await this.enqueue(async () => {
+        await auditArchive.load();
+        const cutoff = now - auditArchive.getPolicy().hotDays * DAY_MS;
+        const archivedThrough = auditArchive.getLatest()?.toSequence ?? -1;
+        const expired = auditCheckpoints.getCheckpoints()
+          .filter(c => c.toSequence > archivedThrough && c.toTimestampMs < cutoff);
+        if (expired.length === 0) return null;
+
+        const boundary = expired[expired.length - 1].toSequence;
+        const entries = (await loadAllEntries()).sort(byChainOrder);
+        const end = entries.findIndex(e => e.sequence === boundary);
+        if (end < 0) return null;
+
+        const archived = entries.slice(0, end + 1);
+        const created = await auditArchive.createBundle(archived, expired, auditCheckpoints.getPublicKeys(), operatorId);
+        const ids = new Set(archived.map(e => e.id));
+        await deleteEntries([...ids]);
+        this.logs = this.logs.filter(e => !ids.has(e.id));
+        return created;
+      });
+    } catch (e) {
+      console.warn('Audit retention failed', e);
+    }
+
+    if (manifest) {
+      this.notifyListeners();
+      await this.log({
+        operatorId,
+        eventType: 'EXPORT_GENERATED',
+        resource: 'AUDIT_ARCHIVE',
+        details: `Archived ${manifest.entryCount} audit entries to ${manifest.archiveId}`,
+        metadata: {
+          archiveId: manifest.archiveId,
+          fromTimestampMs: manifest.fromTimestampMs,
+          toTimestampMs: manifest.toTimestampMs,
+          finalHash: manifest.finalHash,
+          sealHash: manifest.sealHash
+        }
+      });
+    }
+    return manifest;
+  }
+
   /**
-   * Clear all logs (for testing only)
+   * Clear all logs and archives (for testing only)
    */
   public async clearLogs(): Promise<void> {
+    await this.queue;
     this.logs = [];
     this.lastHash = 'GENESIS_BLOCK_0000000000000000';
+    this.nextSequence = 0;
+    this.unsealed = [];
 
     try {
       const db = await openDB();
       const tx = db.transaction(STORE_NAME, 'readwrite');
       tx.objectStore(STORE_NAME).clear();
+      await auditCheckpoints.clear();
+      await auditArchive.clear();
     } catch (e) { }
 
     this.notifyListeners();
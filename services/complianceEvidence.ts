@@ -0,0 +1,314 @@
+
+/**
+ * complianceEvidence.ts
+ *
+ * NERC Reliability Standard Evidence Packages
+ *
+ * Builds audit evidence keyed to individual standards instead of the single
+ * NIST artifact: each standard selects its AuditEventTypes from the indexed
+ * audit store, summarizes them per day / week / month, and the package
+ * carries the chain verification result and checkpoint receipt so the
+ * evidence can be tied back to the signed audit chain.
+ *
+ * Features:
+ * - CIP-004 (access), CIP-007 (security events), CIP-010 (config changes),
+ *   BAL-001 (balancing actions)
+ * - Per-period summaries (counts per event type, operators involved)
+ * - ZIP export: summary text, JSON, per-standard CSV, receipt, file hashes
+ */
+
+import { auditService, AuditEntry, AuditEventType, ChainIntegrityReport } from './auditService';
+import { sha256Hex } from './auditCheckpoints';
+import { createZip, ZipFile } from './zipWriter';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EvidenceStandard = 'CIP-004' | 'CIP-007' | 'CIP-010' | 'BAL-001';
+export type EvidencePeriod = 'DAY' | 'WEEK' | 'MONTH';
+
+export interface StandardDefinition {
+  id: EvidenceStandard;
+  title: string;
+  scope: string;
+  eventTypes: AuditEventType[];
+  /** Narrows shared event types (e.g. CONFIG_CHANGE) to this standard */
+  include?: (entry: AuditEntry) => boolean;
+}
+
+export interface EvidenceRequest {
+  standards: EvidenceStandard[];
+  startTime: number;
+  endTime: number;
+  period: EvidencePeriod;
+}
+
+export interface PeriodSummary {
+  periodStart: string;
+  total: number;
+  byEventType: Partial<Record<AuditEventType, number>>;
+  operators: string[];
+}
+
+export interface StandardEvidence {
+  standard: EvidenceStandard;
+  title: string;
+  scope: string;
+  eventTypes: AuditEventType[];
+  totalEntries: number;
+  truncated: boolean;
+  periods: PeriodSummary[];
+  entries: AuditEntry[];
+}
+
+export interface EvidencePackage {
+  systemId: string;
+  generatedAt: string;
+  generatedBy: string;
+  window: { start: string; end: string };
+  period: EvidencePeriod;
+  chainVerification: ChainIntegrityReport;
+  standards: StandardEvidence[];
+}
+
+export const EVIDENCE_STANDARDS: Record<EvidenceStandard, StandardDefinition> = {
+  'CIP-004': {
+    id: 'CIP-004',
+    title: 'Personnel & Training: Access Management',
+    scope: 'Console sign-ins and sign-outs, denied access, and operator account provisioning',
+    eventTypes: ['USER_LOGIN', 'USER_LOGOUT', 'ACCESS_DENIED', 'CONFIG_CHANGE'],
+    include: entry => entry.eventType !== 'CONFIG_CHANGE' || entry.resource === 'OPERATOR_ACCOUNTS'
+  },
+  'CIP-007': {
+    id: 'CIP-007',
+    title: 'Systems Security Management: Security Event Monitoring',
+    scope: 'Denied access attempts, triggered alerts, safety interlock changes and system errors',
+    eventTypes: ['ACCESS_DENIED', 'ALERT_TRIGGERED', 'SAFETY_SWITCH', 'ERROR']
+  },
+  'CIP-010': {
+    id: 'CIP-010',
+    title: 'Configuration Change Management',
+    scope: 'Changes to settings, safety rule packs, operator accounts, audit retention and safety switches',
+    eventTypes: ['CONFIG_CHANGE', 'SAFETY_SWITCH']
+  },
+  'BAL-001': {
+    id: 'BAL-001',
+    title: 'Real Power Balancing Control Performance',
+    scope: 'Dispatch and actuation decisions: AI actuations, operator approvals and overrides',
+    eventTypes: ['AI_ACTUATION', 'OPERATOR_APPROVAL', 'OPERATOR_OVERRIDE']
+  }
+};
+
+const SYSTEM_ID = 'GRIDGUARD-AI-V2';
+const PAGE_SIZE = 500;
+const MAX_ENTRIES_PER_STANDARD = 50000;
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function periodStart(timestampMs: number, period: EvidencePeriod): string {
+  const d = new Date(timestampMs);
+  if (period === 'MONTH') return `${d.toISOString().substring(0, 7)}-01`;
+  if (period === 'WEEK') {
+    // ISO weeks start on Monday (UTC)
+    const monday = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - ((d.getUTCDay() + 6) % 7)));
+    return monday.toISOString().substring(0, 10);
+  }
+  return d.toISOString().substring(0, 10);
+}
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(entries: AuditEntry[]): string {
+  const headers = ['Timestamp (UTC)', 'Sequence', 'Operator', 'Event Type', 'Resource', 'Details', 'Metadata', 'Hash', 'Previous Hash'];
+  const rows = entries.map(e => [
+    new Date(e.timestampMs).toISOString(),
+    e.sequence,
+    e.operatorId,
+    e.eventType,
+    e.resource,
+    e.details,
+    e.metadata,
+    e.hash,
+    e.previousHash
+  ].map(csvCell).join(','));
+  return [headers.join(','), ...rows].join('\r\n');
+}
+
+function describeChain(report: ChainIntegrityReport): string {
+  if (report.valid) {
+    return `VERIFIED (${report.entriesChecked} live entries, ${report.checkpoints.length} signed checkpoints, ${report.unsealedEntries} not yet sealed)`;
+  }
+  const problems = [
+    report.brokenAt ? `hash link broken at entry ${report.brokenAt}` : '',
+    ...report.failedRanges.map(r => `${r.checkpointId} ${r.status}${r.reason ? ` (${r.reason})` : ''}`)
+  ].filter(Boolean);
+  return `FAILED: ${problems.join('; ')}`;
+}
+
+function summaryText(pkg: EvidencePackage): string {
+  const lines = [
+    'GRIDGUARD AI: NERC RELIABILITY STANDARD EVIDENCE PACKAGE',
+    '',
+    `System:        ${pkg.systemId}`,
+    `Generated:     ${pkg.generatedAt} by ${pkg.generatedBy}`,
+    `Window (UTC):  ${pkg.window.start} to ${pkg.window.end}`,
+    `Summarized by: ${pkg.period}`,
+    `Audit chain:   ${describeChain(pkg.chainVerification)}`,
+    ''
+  ];
+
+  for (const std of pkg.standards) {
+    lines.push(`${std.standard}  ${std.title}`);
+    lines.push(`  Scope:       ${std.scope}`);
+    lines.push(`  Event types: ${std.eventTypes.join(', ')}`);
+    lines.push(`  Entries:     ${std.totalEntries}${std.truncated ? ` (truncated at ${MAX_ENTRIES_PER_STANDARD})` : ''}`);
+    lines.push(`  Evidence:    ${std.standard}_events.csv`);
+    if (std.periods.length === 0) {
+      lines.push('  No recorded events in this window.');
+    }
+    for (const p of std.periods) {
+      const breakdown = Object.entries(p.byEventType).map(([type, count]) => `${type} ${count}`).join(', ');
+      lines.push(`  ${p.periodStart}  ${String(p.total).padStart(6)}  ${breakdown}  [operators: ${p.operators.join(', ')}]`);
+    }
+    lines.push('');
+  }
+
+  lines.push('Files are listed with SHA-256 digests in manifest.json. checkpoint_receipt.json can be');
+  lines.push('verified against a full JSON audit export from the Audit Trail page.');
+  return lines.join('\n');
+}
+
+// ============================================================================
+// EVIDENCE SERVICE
+// ============================================================================
+
+class ComplianceEvidenceService {
+
+  /**
+   * Select and summarize the audit entries for each requested standard
+   */
+  public async buildPackage(request: EvidenceRequest, generatedBy: string): Promise<EvidencePackage> {
+    const standards: StandardEvidence[] = [];
+    for (const id of request.standards) {
+      standards.push(await this.collect(EVIDENCE_STANDARDS[id], request));
+    }
+
+    return {
+      systemId: SYSTEM_ID,
+      generatedAt: new Date().toISOString(),
+      generatedBy,
+      window: { start: new Date(request.startTime).toISOString(), end: new Date(request.endTime).toISOString() },
+      period: request.period,
+      chainVerification: await auditService.verifyChainIntegrity(),
+      standards
+    };
+  }
+
+  /**
+   * Build the package and bundle it as a ZIP for download
+   */
+  public async exportPackage(request: EvidenceRequest, generatedBy: string): Promise<{ blob: Blob; filename: string; evidence: EvidencePackage }> {
+    const evidence = await this.buildPackage(request, generatedBy);
+    const { chainVerification, ...rest } = evidence;
+
+    const files: ZipFile[] = [
+      { name: 'SUMMARY.txt', content: summaryText(evidence) },
+      { name: 'evidence.json', content: JSON.stringify(rest, null, 2) },
+      { name: 'chain_verification.json', content: JSON.stringify(chainVerification, null, 2) },
+      { name: 'checkpoint_receipt.json', content: await auditService.exportCheckpointReceipt() },
+      ...evidence.standards.map(std => ({ name: `${std.standard}_events.csv`, content: toCsv(std.entries) }))
+    ];
+
+    const digests: Record<string, string> = {};
+    for (const file of files) {
+      digests[file.name] = await sha256Hex(file.content as string);
+    }
+    files.push({
+      name: 'manifest.json',
+      content: JSON.stringify({
+        systemId: SYSTEM_ID,
+        generatedAt: evidence.generatedAt,
+        generatedBy,
+        standards: request.standards,
+        window: evidence.window,
+        chainValid: chainVerification.valid,
+        sha256: digests
+      }, null, 2)
+    });
+
+    const filename = `gridguard_nerc_evidence_${evidence.window.start.substring(0, 10)}_${evidence.window.end.substring(0, 10)}.zip`;
+    const blob = await createZip(files);
+
+    await auditService.log({
+      operatorId: generatedBy,
+      eventType: 'EXPORT_GENERATED',
+      resource: 'NERC_EVIDENCE',
+      details: `Evidence package ${request.standards.join(', ')} for ${evidence.window.start.substring(0, 10)} to ${evidence.window.end.substring(0, 10)}`,
+      metadata: {
+        standards: request.standards,
+        period: request.period,
+        entries: Object.fromEntries(evidence.standards.map(s => [s.standard, s.totalEntries])),
+        chainValid: chainVerification.valid,
+        manifestSha256: await sha256Hex(files[files.length - 1].content as string)
+      }
+    });
+
+    return { blob, filename, evidence };
+  }
+
+  private async collect(definition: StandardDefinition, request: EvidenceRequest): Promise<StandardEvidence> {
+    const entries: AuditEntry[] = [];
+    let cursor: string | undefined;
+    let truncated = false;
+
+    do {
+      const page = await auditService.queryLogs({
+        eventTypes: definition.eventTypes,
+        startTime: request.startTime,
+        endTime: request.endTime,
+        limit: PAGE_SIZE,
+        cursor
+      });
+      entries.push(...page.entries.filter(e => !definition.include || definition.include(e)));
+      cursor = page.nextCursor;
+      if (entries.length >= MAX_ENTRIES_PER_STANDARD) {
+        truncated = !!cursor;
+        break;
+      }
+    } while (cursor);
+
+    // Chronological for evidence review
+    entries.reverse();
+
+    const periods = new Map<string, PeriodSummary>();
+    const operators = new Map<string, Set<string>>();
+    for (const entry of entries) {
+      const key = periodStart(entry.timestampMs, request.period);
+      const summary = periods.get(key) ?? { periodStart: key, total: 0, byEventType: {}, operators: [] };
+      summary.total++;
+      summary.byEventType[entry.eventType] = (summary.byEventType[entry.eventType] ?? 0) + 1;
+      periods.set(key, summary);
+      operators.set(key, (operators.get(key) ?? new Set<string>()).add(entry.operatorId));
+    }
+    periods.forEach((summary, key) => { summary.operators = [...operators.get(key)!].sort(); });
+
+    return {
+      standard: definition.id,
+      title: definition.title,
+      scope: definition.scope,
+      eventTypes: definition.eventTypes,
+      totalEntries: entries.length,
+      truncated,
+      periods: [...periods.values()],
+      entries
+    };
+  }
+}
+
+export const complianceEvidence = new ComplianceEvidenceService();
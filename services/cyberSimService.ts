@@ -14,6 +14,7 @@
 
 import { notificationService } from './notificationService';
 import { auditService } from './auditService';
+import { sessionService } from './sessionService';
 import { agentOrchestrator, AgentLog } from './agentOrchestrator';
 
 // ============================================================================
@@ -304,7 +305,7 @@ class CyberSimService {
 
         // Log to audit
         auditService.log({
-            operatorId: 'OPERATOR',
+            operatorId: sessionService.getOperatorId(),
             eventType: 'NAVIGATION',
             resource: 'CYBER_SIMULATION',
             details: `Started simulation: ${scenario.name}`
@@ -396,7 +397,7 @@ class CyberSimService {
 
         // Log to audit
         auditService.log({
-            operatorId: 'OPERATOR',
+            operatorId: sessionService.getOperatorId(),
             eventType: option.isCorrect ? 'OPERATOR_APPROVAL' : 'OPERATOR_OVERRIDE',
             resource: 'CYBER_SIMULATION',
             details: `Decision: ${option.label} - ${option.isCorrect ? 'CORRECT' : 'INCORRECT'}`
@@ -431,7 +432,7 @@ class CyberSimService {
 
         // Log completion
         auditService.log({
-            operatorId: 'OPERATOR',
+            operatorId: sessionService.getOperatorId(),
             eventType: 'NAVIGATION',
             resource: 'CYBER_SIMULATION',
             details: `Completed: ${this.state.scenario?.name}. Score: ${finalScore}/100, Decisions: ${correctDecisions}/${totalDecisions}`
@@ -14,6 +14,7 @@
 
 import { notificationService } from './notificationService';
 import { auditService } from './auditService';
+import { sessionService } from './sessionService';
 
 // ============================================================================
 // TYPES
@@ -296,7 +297,7 @@ class DataImportService {
 
             // Audit log
             auditService.log({
-                operatorId: 'OPERATOR',
+                operatorId: sessionService.getOperatorId(),
                 eventType: 'CONFIG_CHANGE',
                 resource: 'HISTORICAL_DATA',
                 details: `Imported ${data.length} rows from ${file.name}`
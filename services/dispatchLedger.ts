@@ -0,0 +1,483 @@
+/**
+ * dispatchLedger.ts
+ *
+ * Closed-Loop Dispatch Execution Ledger
+ *
+ * Features:
+ * - Command lifecycle: PENDING → SENT → ACKNOWLEDGED → RAMPING → COMPLETE,
+ *   with FAILED / CANCELLED / ROLLED_BACK terminal states
+ * - Pluggable control-system adapter (local simulator by default)
+ * - Operator cancel (before acknowledgement) and rollback (after) of commands;
+ *   only the latest command on a resource can be rolled back, once, and the
+ *   reversing setpoint passes the shared actuation guard like any dispatch
+ * - IndexedDB persistence of every command and its transition history
+ * - Every state transition recorded in auditService
+ */
+
+import { auditService, AuditEventType } from './auditService';
+import { sessionService } from './sessionService';
+import { actuationGuard } from './actuationGuard';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DispatchCommandStatus =
+    | 'PENDING'
+    | 'SENT'
+    | 'ACKNOWLEDGED'
+    | 'RAMPING'
+    | 'COMPLETE'
+    | 'FAILED'
+    | 'CANCELLED'
+    | 'ROLLING_BACK'
+    | 'ROLLED_BACK';
+
+export interface DispatchTransition {
+    status: DispatchCommandStatus;
+    at: string;
+    note?: string;
+}
+
+export interface DispatchCommand {
+    id: string;
+    decisionId: string;
+    resourceId: string;
+    resource: string;
+    action: string;
+    targetMW: number;
+    setpointMW: number;
+    previousSetpointMW: number;
+    currentMW: number;
+    rampRateMWPerMin: number;
+    operatorId: string;
+    adapterId: string;
+    status: DispatchCommandStatus;
+    history: DispatchTransition[];
+    createdAt: number;
+    updatedAt: number;
+    error?: string;
+}
+
+export interface DispatchSubmission {
+    decisionId: string;
+    resourceId: string;
+    resource: string;
+    action: string;
+    targetMW: number;
+    setpointMW: number;
+    previousSetpointMW: number;
+    rampRateMWPerMin: number;
+    operatorId: string;
+}
+
+/**
+ * ControlSystemAdapter - Transport to the plant control system (EMS/DNP3 gateway).
+ * Implementations must reject with an AbortError when `signal` is aborted.
+ */
+export interface ControlSystemAdapter {
+    readonly id: string;
+    readonly name: string;
+    send(command: DispatchCommand, targetMW: number, signal: AbortSignal): Promise<void>;
+    awaitAcknowledgement(command: DispatchCommand, signal: AbortSignal): Promise<{ acknowledged: boolean; message?: string }>;
+    rampTo(command: DispatchCommand, targetMW: number, onProgress: (mw: number) => void, signal: AbortSignal): Promise<void>;
+}
+
+const TERMINAL: DispatchCommandStatus[] = ['COMPLETE', 'FAILED', 'CANCELLED', 'ROLLED_BACK'];
+const IN_FLIGHT: DispatchCommandStatus[] = ['PENDING', 'SENT', 'ACKNOWLEDGED', 'RAMPING', 'ROLLING_BACK'];
+const ROLLBACK_FROM: DispatchCommandStatus[] = ['ACKNOWLEDGED', 'RAMPING', 'COMPLETE'];
+
+// ============================================================================
+// CONTROL SYSTEM ADAPTERS
+// ============================================================================
+
+function abortableDelay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        }, { once: true });
+    });
+}
+
+/**
+ * Local simulator: fixed link latency, occasional NACK, and ramping at the
+ * resource's ramp rate with time compressed to one simulated minute per second.
+ */
+export class SimulatorControlAdapter implements ControlSystemAdapter {
+    public readonly id = 'LOCAL_SIM';
+    public readonly name = 'Local Control Simulator';
+
+    constructor(
+        private nackRate = 0.02,
+        private msPerSimMinute = 1000
+    ) { }
+
+    public async send(_command: DispatchCommand, _targetMW: number, signal: AbortSignal): Promise<void> {
+        await abortableDelay(150, signal);
+    }
+
+    public async awaitAcknowledgement(_command: DispatchCommand, signal: AbortSignal): Promise<{ acknowledged: boolean; message?: string }> {
+        await abortableDelay(300, signal);
+        return Math.random() < this.nackRate
+            ? { acknowledged: false, message: 'NACK: plant controller rejected setpoint' }
+            : { acknowledged: true };
+    }
+
+    public async rampTo(command: DispatchCommand, targetMW: number, onProgress: (mw: number) => void, signal: AbortSignal): Promise<void> {
+        const tickMs = 250;
+        const stepMW = Math.max(1, command.rampRateMWPerMin * (tickMs / this.msPerSimMinute));
+        let mw = command.currentMW;
+        while (Math.abs(targetMW - mw) > 0.5) {
+            await abortableDelay(tickMs, signal);
+            mw = targetMW > mw ? Math.min(targetMW, mw + stepMW) : Math.max(targetMW, mw - stepMW);
+            onProgress(Math.round(mw));
+        }
+    }
+}
+
+// ============================================================================
+// INDEXEDDB PERSISTENCE
+// ============================================================================
+
+const DB_NAME = 'GridGuardDispatch';
+const DB_VERSION = 1;
+const STORE_NAME = 'dispatchCommands';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+        request.onsuccess = () => resolve(request.result);
+
+        request.onupgradeneeded = (event) => {
+            const db = (event.target as IDBOpenDBRequest).result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('status', 'status', { unique: false });
+                store.createIndex('createdAt', 'createdAt', { unique: false });
+                store.createIndex('resourceId', 'resourceId', { unique: false });
+            }
+        };
+    });
+
+    return dbPromise;
+}
+
+// ============================================================================
+// DISPATCH LEDGER
+// ============================================================================
+
+class DispatchLedger {
+    private commands: DispatchCommand[] = [];
+    private adapter: ControlSystemAdapter = new SimulatorControlAdapter();
+    private inflight = new Map<string, AbortController>();
+    private listeners: ((commands: DispatchCommand[]) => void)[] = [];
+    private transitionListeners: ((command: DispatchCommand) => void)[] = [];
+
+    constructor() {
+        this.initialize();
+    }
+
+    private async initialize() {
+        try {
+            const db = await openDB();
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('createdAt').getAll();
+
+            request.onsuccess = () => {
+                const stored: DispatchCommand[] = request.result || [];
+                const known = new Set(this.commands.map(c => c.id));
+                const previous = stored.filter(c => !known.has(c.id));
+                this.commands = [...this.commands, ...previous]
+                    .sort((a, b) => b.createdAt - a.createdAt);
+
+                // Commands left in flight by a previous session have unknown plant state;
+                // ones submitted since this session started are still running
+                previous.filter(c => IN_FLIGHT.includes(c.status)).forEach(c => {
+                    this.transition(c, 'FAILED', 'Session ended before completion; plant state unverified');
+                });
+                this.notifyListeners();
+            };
+        } catch (e) {
+            console.warn('Dispatch ledger IndexedDB not available, using memory only');
+        }
+    }
+
+    // --- PUBLIC API ---
+
+    /**
+     * Replace the control-system adapter (e.g. a DNP3/ICCP gateway client)
+     */
+    public setAdapter(adapter: ControlSystemAdapter) {
+        this.adapter = adapter;
+        auditService.log({
+            operatorId: 'SYSTEM',
+            eventType: 'CONFIG_CHANGE',
+            resource: 'DISPATCH_ADAPTER',
+            details: `Control system adapter set to ${adapter.name} (${adapter.id})`
+        });
+    }
+
+    public getAdapter(): ControlSystemAdapter {
+        return this.adapter;
+    }
+
+    /**
+     * Record a new command and start its lifecycle in the background
+     */
+    public submit(submission: DispatchSubmission): DispatchCommand {
+        const now = Date.now();
+        const command: DispatchCommand = {
+            ...submission,
+            id: `CMD-${now.toString(36).toUpperCase()}-${Math.random().toString(36).substr(2, 4).toUpperCase()}`,
+            currentMW: submission.previousSetpointMW,
+            adapterId: this.adapter.id,
+            status: 'PENDING',
+            history: [],
+            createdAt: now,
+            updatedAt: now
+        };
+
+        this.commands.unshift(command);
+        this.transition(command, 'PENDING', `${submission.action} ${submission.targetMW}MW queued by ${submission.operatorId}`);
+        this.run(command);
+        return command;
+    }
+
+    /**
+     * Resolve with a snapshot once the command reaches one of `statuses` (or any terminal state).
+     * Rejects for an unknown command.
+     */
+    public waitFor(id: string, statuses: DispatchCommandStatus[]): Promise<DispatchCommand> {
+        if (!this.getCommand(id)) return Promise.reject(new Error(`Unknown dispatch command ${id}`));
+        return new Promise(resolve => {
+            const check = (command: DispatchCommand) => {
+                if (command.id !== id) return false;
+                if (statuses.includes(command.status) || TERMINAL.includes(command.status)) {
+                    resolve({ ...command, history: [...command.history] });
+                    return true;
+                }
+                return false;
+            };
+            const existing = this.getCommand(id);
+            if (existing && check(existing)) return;
+            const unsubscribe = this.onTransition(command => { if (check(command)) unsubscribe(); });
+        });
+    }
+
+    /**
+     * Cancel a command that has not yet been acknowledged by the plant.
+     * Acknowledged commands must be rolled back instead. Attributed to the
+     * session operator.
+     */
+    public cancel(id: string): boolean {
+        if (!sessionService.authorize('ACTUATE', 'Cancel dispatch command')) return false;
+        const command = this.getCommand(id);
+        if (!command || !['PENDING', 'SENT'].includes(command.status)) return false;
+
+        const operatorId = sessionService.getOperatorId();
+        this.inflight.get(id)?.abort();
+        this.transition(command, 'CANCELLED', `Cancelled by ${operatorId} before acknowledgement`, undefined, operatorId);
+        return true;
+    }
+
+    /**
+     * Whether a command can be rolled back: acknowledged, ramping or complete,
+     * not already rolling back, and not superseded by a later command on the
+     * same resource (its previous setpoint would overwrite the newer one)
+     */
+    public canRollback(id: string): boolean {
+        const command = this.getCommand(id);
+        if (!command || !ROLLBACK_FROM.includes(command.status)) return false;
+        return !this.commands.some(c =>
+            c.resourceId === command.resourceId &&
+            c.createdAt > command.createdAt &&
+            c.status !== 'CANCELLED' &&
+            // A NACKed command never changed the plant
+            !(c.status === 'FAILED' && !c.history.some(h => h.status === 'ACKNOWLEDGED'))
+        );
+    }
+
+    /**
+     * Roll back an acknowledged, ramping or completed command by driving the
+     * resource back to its previous setpoint. The session operator approves the
+     * reversing move, which must pass the actuation guard; a rollback large or
+     * risky enough to need a supervisor second approval is refused.
+     */
+    public async rollback(id: string): Promise<boolean> {
+        if (!sessionService.authorize('ACTUATE', 'Roll back dispatch command')) return false;
+        const command = this.getCommand(id);
+        if (!command || !this.canRollback(id)) return false;
+
+        const operatorId = sessionService.getOperatorId();
+        const verdict = actuationGuard.authorize({
+            source: 'SCED',
+            toolName: 'sced_dispatch',
+            args: {
+                resourceId: command.resourceId,
+                action: 'ROLLBACK',
+                targetMW: Math.abs(command.currentMW - command.previousSetpointMW),
+                setpointMW: command.previousSetpointMW,
+                commandId: command.id
+            },
+            resource: command.resource,
+            magnitudeMW: Math.abs(command.currentMW - command.previousSetpointMW),
+            approvedBy: operatorId
+        });
+        if (!verdict.authorized) {
+            console.warn(`[DispatchLedger] Rollback of ${command.id} refused by guard: ${verdict.reason}`);
+            return false;
+        }
+
+        this.inflight.get(id)?.abort();
+        const controller = new AbortController();
+        this.inflight.set(id, controller);
+        this.transition(command, 'ROLLING_BACK', `Rollback to ${command.previousSetpointMW}MW requested by ${operatorId} (${verdict.riskTier})`, undefined, operatorId);
+
+        try {
+            await this.adapter.send(command, command.previousSetpointMW, controller.signal);
+            const ack = await this.adapter.awaitAcknowledgement(command, controller.signal);
+            if (!ack.acknowledged) throw new Error(ack.message || 'Rollback not acknowledged');
+
+            await this.adapter.rampTo(command, command.previousSetpointMW, mw => this.progress(command, mw), controller.signal);
+            this.transition(command, 'ROLLED_BACK', `Rolled back to ${command.previousSetpointMW}MW by ${operatorId}`, undefined, operatorId);
+            return true;
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            this.transition(command, 'FAILED', `Rollback failed: ${message}`, message, operatorId);
+            return false;
+        } finally {
+            this.inflight.delete(id);
+        }
+    }
+
+    public getCommand(id: string): DispatchCommand | undefined {
+        return this.commands.find(c => c.id === id);
+    }
+
+    public getCommands(): DispatchCommand[] {
+        return this.commands;
+    }
+
+    public getInFlight(): DispatchCommand[] {
+        return this.commands.filter(c => IN_FLIGHT.includes(c.status));
+    }
+
+    /**
+     * Subscribe to ledger updates (UI)
+     */
+    public subscribe(listener: (commands: DispatchCommand[]) => void): () => void {
+        this.listeners.push(listener);
+        listener(this.commands);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Subscribe to individual state transitions (services)
+     */
+    public onTransition(listener: (command: DispatchCommand) => void): () => void {
+        this.transitionListeners.push(listener);
+        return () => {
+            this.transitionListeners = this.transitionListeners.filter(l => l !== listener);
+        };
+    }
+
+    // --- LIFECYCLE ---
+
+    private async run(command: DispatchCommand) {
+        const controller = new AbortController();
+        this.inflight.set(command.id, controller);
+        const adapter = this.adapter;
+
+        try {
+            await adapter.send(command, command.setpointMW, controller.signal);
+            this.transition(command, 'SENT', `Routed via ${adapter.name}`);
+
+            const ack = await adapter.awaitAcknowledgement(command, controller.signal);
+            if (!ack.acknowledged) {
+                this.transition(command, 'FAILED', ack.message || 'Not acknowledged', ack.message);
+                return;
+            }
+            this.transition(command, 'ACKNOWLEDGED', ack.message);
+
+            this.transition(command, 'RAMPING', `${command.currentMW}MW → ${command.setpointMW}MW at ${command.rampRateMWPerMin}MW/min`);
+            await adapter.rampTo(command, command.setpointMW, mw => this.progress(command, mw), controller.signal);
+            this.transition(command, 'COMPLETE', `Setpoint ${command.setpointMW}MW reached`);
+        } catch (e) {
+            // Cancel/rollback abort the run and record their own transition
+            if (e instanceof Error && e.name === 'AbortError') return;
+            const message = e instanceof Error ? e.message : String(e);
+            this.transition(command, 'FAILED', message || 'Control system error', message);
+        } finally {
+            if (this.inflight.get(command.id) === controller) this.inflight.delete(command.id);
+        }
+    }
+
+    private progress(command: DispatchCommand, mw: number) {
+        command.currentMW = mw;
+        command.updatedAt = Date.now();
+        this.notifyListeners();
+    }
+
+    /**
+     * `actorId` is the operator acting now (cancel/rollback); defaults to the submitter
+     */
+    private transition(command: DispatchCommand, status: DispatchCommandStatus, note?: string, error?: string, actorId = command.operatorId) {
+        const now = Date.now();
+        command.status = status;
+        command.updatedAt = now;
+        command.history.push({ status, at: new Date(now).toISOString(), note });
+        if (error) command.error = error;
+
+        const eventType: AuditEventType =
+            status === 'FAILED' ? 'ERROR' :
+                status === 'CANCELLED' || status === 'ROLLING_BACK' || status === 'ROLLED_BACK' ? 'OPERATOR_OVERRIDE' :
+                    'AI_ACTUATION';
+
+        auditService.log({
+            operatorId: actorId,
+            eventType,
+            resource: command.resource,
+            details: `Dispatch ${command.id} ${status}: ${command.action} ${command.targetMW}MW${note ? `. ${note}` : ''}`,
+            metadata: {
+                commandId: command.id,
+                decisionId: command.decisionId,
+                submittedBy: command.operatorId,
+                status,
+                adapterId: command.adapterId,
+                currentMW: command.currentMW
+            }
+        });
+
+        this.persist(command);
+        this.transitionListeners.forEach(l => l(command));
+        this.notifyListeners();
+    }
+
+    private async persist(command: DispatchCommand) {
+        try {
+            const db = await openDB();
+            db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(command);
+        } catch (e) {
+            // Silent fail for IndexedDB
+        }
+    }
+
+    private notifyListeners() {
+        this.listeners.forEach(l => l([...this.commands]));
+    }
+}
+
+export const dispatchLedger = new DispatchLedger();
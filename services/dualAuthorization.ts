@@ -0,0 +1,280 @@
+/**
+ * dualAuthorization.ts
+ *
+ * Two-Person Rule for High-Risk Actuation
+ *
+ * RED-tier and above-threshold actions need a second approver with SUPERVISOR
+ * (or ADMIN) role before they reach the plant. The requesting operator's
+ * approval opens a request; a different supervisor must approve it with a
+ * reason before it times out. An approval authorizes exactly one execution.
+ *
+ * The supervisor re-authenticates at this console with their own account;
+ * the approver identity comes from the verified account, never from the
+ * presence roster.
+ *
+ * Features:
+ * - Approver password check and role check via accountService, no self-approval
+ * - Request timeout (default 2 minutes)
+ * - Mandatory reason on approve/reject
+ * - Both identities recorded in the audit chain
+ */
+
+import { auditService } from './auditService';
+import { canonicalJson } from './auditCheckpoints';
+import { notificationService } from './notificationService';
+import { Operator } from './syncService';
+import { accountService } from './accountService';
+import { sessionService } from './sessionService';
+import { RiskTier } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DualAuthStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'EXPIRED' | 'EXECUTED';
+
+export interface AuthIdentity {
+    id: string;
+    name: string;
+    role: Operator['role'];
+}
+
+export interface DualAuthRequest {
+    id: string;
+    status: DualAuthStatus;
+    source: string;
+    toolName: string;
+    resource: string;
+    summary: string;
+    /** Arguments and size approved; execution must match them exactly */
+    args: Record<string, any>;
+    targetMW?: number;
+    riskTier: RiskTier;
+    riskReasons: string[];
+    requestedBy: AuthIdentity;
+    approvedBy?: AuthIdentity;
+    reason?: string;
+    createdAt: number;
+    expiresAt: number;
+    decidedAt?: number;
+}
+
+export interface DualAuthSubmission {
+    source: string;
+    toolName: string;
+    resource: string;
+    summary: string;
+    args: Record<string, any>;
+    targetMW?: number;
+    riskTier: RiskTier;
+    riskReasons: string[];
+    requestedBy: AuthIdentity;
+    timeoutMs?: number;
+}
+
+/**
+ * The action an approval is consumed for
+ */
+export type DualAuthAction = Pick<DualAuthRequest, 'toolName' | 'resource' | 'args' | 'targetMW'>;
+
+export interface ApproverCredentials {
+    username: string;
+    password: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 120000;
+
+// ============================================================================
+// DUAL AUTHORIZATION SERVICE
+// ============================================================================
+
+class DualAuthorizationService {
+    private requests: DualAuthRequest[] = [];
+    private timers = new Map<string, ReturnType<typeof setTimeout>>();
+    private listeners: ((requests: DualAuthRequest[]) => void)[] = [];
+    private waiters = new Map<string, ((request: DualAuthRequest) => void)[]>();
+
+    /**
+     * Open a request for a second (supervisor) approval
+     */
+    public request(submission: DualAuthSubmission): DualAuthRequest {
+        const now = Date.now();
+        const timeoutMs = submission.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const request: DualAuthRequest = {
+            ...submission,
+            // Snapshot: later changes to the caller's object must not alter what was approved
+            args: JSON.parse(canonicalJson(submission.args)),
+            id: `DUAL-${now}-${Math.random().toString(36).substr(2, 5)}`,
+            status: 'PENDING',
+            createdAt: now,
+            expiresAt: now + timeoutMs
+        };
+
+        this.requests = [request, ...this.requests].slice(0, 50);
+        this.timers.set(request.id, setTimeout(() => this.expire(request.id), timeoutMs));
+
+        auditService.log({
+            operatorId: request.requestedBy.id,
+            eventType: 'OPERATOR_APPROVAL',
+            resource: request.resource,
+            details: `First approval for ${request.riskTier} action ${request.summary} by ${request.requestedBy.name}; awaiting supervisor second approval`,
+            metadata: this.metadata(request)
+        });
+        notificationService.warning('Supervisor Approval Required', `${request.summary} (${request.riskTier}) needs a second approver.`);
+
+        this.notify();
+        return request;
+    }
+
+    /**
+     * Second approval. Fails for wrong credentials, non-supervisors,
+     * self-approval, missing reason or a request that is no longer pending.
+     */
+    public approve(id: string, credentials: ApproverCredentials, reason: string): Promise<{ ok: boolean; error?: string }> {
+        return this.decide(id, credentials, reason, 'APPROVED');
+    }
+
+    public reject(id: string, credentials: ApproverCredentials, reason: string): Promise<{ ok: boolean; error?: string }> {
+        return this.decide(id, credentials, reason, 'REJECTED');
+    }
+
+    /**
+     * Resolve once the request leaves PENDING
+     */
+    public waitForDecision(id: string): Promise<DualAuthRequest> {
+        const request = this.getRequest(id);
+        if (!request) return Promise.reject(new Error(`Unknown authorization request ${id}`));
+        if (request.status !== 'PENDING') return Promise.resolve({ ...request });
+
+        return new Promise(resolve => {
+            this.waiters.set(id, [...(this.waiters.get(id) || []), resolve]);
+        });
+    }
+
+    /**
+     * Consume an approval for execution. Returns the request when it is
+     * APPROVED and matches the action exactly (tool, resource, arguments and
+     * size); an approval can be used once.
+     */
+    public consume(id: string, action: DualAuthAction): DualAuthRequest | null {
+        const request = this.getRequest(id);
+        if (!request || request.status !== 'APPROVED') return null;
+        if (request.toolName !== action.toolName || request.resource !== action.resource) return null;
+        if (request.targetMW !== action.targetMW || canonicalJson(request.args) !== canonicalJson(action.args)) return null;
+
+        request.status = 'EXECUTED';
+        this.notify();
+        return { ...request };
+    }
+
+    public getRequest(id: string): DualAuthRequest | undefined {
+        return this.requests.find(r => r.id === id);
+    }
+
+    public getPending(): DualAuthRequest[] {
+        return this.requests.filter(r => r.status === 'PENDING');
+    }
+
+    public canApprove(identity: AuthIdentity): boolean {
+        return sessionService.can('SECOND_APPROVAL', identity.role);
+    }
+
+    /**
+     * Identity of the operator signed in at this console (first approver)
+     */
+    public localOperator(): AuthIdentity {
+        const session = sessionService.getSession();
+        return session
+            ? { id: session.operatorId, name: session.name, role: session.role }
+            : { id: sessionService.getOperatorId(), name: 'Anonymous', role: 'VIEWER' };
+    }
+
+    public subscribe(listener: (requests: DualAuthRequest[]) => void): () => void {
+        this.listeners.push(listener);
+        listener(this.requests);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    // --- INTERNALS ---
+
+    private async decide(id: string, credentials: ApproverCredentials, reason: string, status: 'APPROVED' | 'REJECTED'): Promise<{ ok: boolean; error?: string }> {
+        const pending = this.getRequest(id);
+        if (!pending) return { ok: false, error: 'Unknown authorization request' };
+        if (pending.status !== 'PENDING') return { ok: false, error: `Request is ${pending.status}` };
+        if (!reason.trim()) return { ok: false, error: 'A reason is required' };
+
+        const verified = await accountService.verifyCredentials(credentials.username, credentials.password, 'SECOND_APPROVAL');
+        if (!verified.account) return { ok: false, error: verified.error ?? 'Invalid username or password' };
+        const approver: AuthIdentity = { id: verified.account.operatorId, name: verified.account.displayName, role: verified.account.role };
+
+        // Re-read: the request may have expired while the password was checked
+        const request = this.getRequest(id);
+        if (!request || request.status !== 'PENDING') return { ok: false, error: `Request is ${request?.status ?? 'gone'}` };
+        if (!this.canApprove(approver)) return { ok: false, error: `${approver.role} role cannot authorize; SUPERVISOR required` };
+        if (approver.id === request.requestedBy.id) return { ok: false, error: 'Second approver must be a different person' };
+
+        request.status = status;
+        request.approvedBy = approver;
+        request.reason = reason.trim();
+        request.decidedAt = Date.now();
+
+        auditService.log({
+            operatorId: approver.id,
+            eventType: status === 'APPROVED' ? 'OPERATOR_APPROVAL' : 'OPERATOR_OVERRIDE',
+            resource: request.resource,
+            details: `Second approval ${status} for ${request.summary} by ${approver.name} (${approver.role}), requested by ${request.requestedBy.name}: ${request.reason}`,
+            metadata: this.metadata(request)
+        });
+
+        this.settle(request);
+        return { ok: true };
+    }
+
+    private expire(id: string) {
+        const request = this.getRequest(id);
+        if (!request || request.status !== 'PENDING') return;
+
+        request.status = 'EXPIRED';
+        request.decidedAt = Date.now();
+        auditService.log({
+            operatorId: request.requestedBy.id,
+            eventType: 'OPERATOR_OVERRIDE',
+            resource: request.resource,
+            details: `Second approval for ${request.summary} expired without a supervisor decision`,
+            metadata: this.metadata(request)
+        });
+        notificationService.error('Authorization Expired', `${request.summary} was not approved in time.`);
+        this.settle(request);
+    }
+
+    private settle(request: DualAuthRequest) {
+        const timer = this.timers.get(request.id);
+        if (timer) clearTimeout(timer);
+        this.timers.delete(request.id);
+
+        (this.waiters.get(request.id) || []).forEach(resolve => resolve({ ...request }));
+        this.waiters.delete(request.id);
+        this.notify();
+    }
+
+    private metadata(request: DualAuthRequest) {
+        return {
+            dualAuthorizationId: request.id,
+            source: request.source,
+            toolName: request.toolName,
+            riskTier: request.riskTier,
+            requestedBy: request.requestedBy,
+            approvedBy: request.approvedBy,
+            reason: request.reason,
+            status: request.status
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l([...this.requests]));
+    }
+}
+
+export const dualAuthorization = new DualAuthorizationService();
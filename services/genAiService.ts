@@ -1,14 +1,25 @@
 
-import { GoogleGenAI, Type, FunctionDeclaration } from "@google/genai";
-import { ConsensusResult, RiskTier } from "../types";
-import { safetyGuard } from "./safetyGuard";
+import { Type, FunctionDeclaration } from "@google/genai";
+import { ConsensusResult, RiskTier, ScenarioState } from "../types";
+import { actuationGuard, ActuationAssessment, ActuationRequest } from "./actuationGuard";
+import { sessionService } from "./sessionService";
+import { AuthIdentity, DualAuthRequest } from "./dualAuthorization";
 import { privacyGuard } from "./privacyGuard";
 import { apiService } from "./apiService";
-import { getActiveKey } from "./apiConfig";
 import { knowledgeService } from "./knowledgeService";
+import { vectorStore } from "./vectorStore";
+import { auditService } from "./auditService";
+import { createLlmProvider, LlmChatSession, LlmFunctionCall, LlmModelRole, LlmPart, LlmProvider } from "./llmProvider";
+import { ReplayMissError } from "./replayProvider";
+import { modelMonitorService, HallucinationCheck } from "./modelMonitorService";
+import { runScenario, ScenarioResult } from "./scenarioEngine";
+import { reportBuilder, OperationsReport, ReportConfig } from "./reportBuilder";
+import { analyzeSeries, templateNarrative, SeriesPoint, TimeSeriesReport } from "./timeSeriesAnalysis";
+import { geoRetrieval, GeoChunk } from "./geoRetrieval";
 
 /**
- * Service to handle Google GenAI interactions.
+ * Service to handle LLM interactions through the configured provider
+ * (Gemini or a local OpenAI-compatible server, see llmProvider.ts).
  * Implements Function Calling to bridge Natural Language with GridGuard System Data.
  */
 
@@ -61,10 +72,98 @@ const navigateMapTool: FunctionDeclaration = {
   }
 };
 
+// --- CONSENSUS ENGINE ---
+// Three independently configured analysts; getConsensusAnalysis compares
+// their structured answers and escalates the RiskTier when they diverge.
+
+type ConsensusAction = "NO_ACTION" | "MONITOR" | "DISPATCH_RESERVES" | "LOAD_SHED" | "EMERGENCY";
+
+// Ordered by severity
+const CONSENSUS_ACTIONS: ConsensusAction[] = ["NO_ACTION", "MONITOR", "DISPATCH_RESERVES", "LOAD_SHED", "EMERGENCY"];
+
+interface ConsensusAnalyst {
+  role: "primary" | "secondary" | "tertiary";
+  label: string;
+  model: LlmModelRole;
+  temperature: number;
+  persona: string;
+}
+
+interface AnalystOpinion {
+  analyst: ConsensusAnalyst;
+  /** Model ID that answered */
+  model: string;
+  action: ConsensusAction;
+  loadShedPercent: number;
+  confidence: number;
+  recommendation: string;
+  rationale: string;
+}
+
+const CONSENSUS_ANALYSTS: ConsensusAnalyst[] = [
+  {
+    role: "primary",
+    label: "Reliability Engineer",
+    model: "chat",
+    temperature: 0.2,
+    persona: "You are a NERC-certified ERCOT reliability engineer. Prioritize frequency, reserves and N-1 security over cost."
+  },
+  {
+    role: "secondary",
+    label: "Market Analyst",
+    model: "fast",
+    temperature: 0.7,
+    persona: "You are an ERCOT market and dispatch economist. Weigh VOLL ($15,000/MWh), LMP spreads and reserve pricing."
+  },
+  {
+    role: "tertiary",
+    label: "Red-Team Skeptic",
+    model: "reasoning",
+    temperature: 0.5,
+    persona: "You are a red-team reviewer. Assume the obvious answer is wrong; look for failure modes, bad telemetry and escalation risk."
+  }
+];
+
+const CONSENSUS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    action: { type: Type.STRING, enum: CONSENSUS_ACTIONS },
+    loadShedPercent: { type: Type.NUMBER, description: "Share of system load to shed, 0-100" },
+    confidence: { type: Type.NUMBER, description: "0-100" },
+    recommendation: { type: Type.STRING, description: "One-sentence operator recommendation" },
+    rationale: { type: Type.STRING, description: "2-4 sentence reasoning" }
+  },
+  required: ["action", "loadShedPercent", "confidence", "recommendation", "rationale"]
+};
+
+// Agreement score weights and thresholds
+const CONSENSUS_POLICY = {
+  SEMANTIC_WEIGHT: 0.5,
+  ACTION_WEIGHT: 0.3,
+  SHED_WEIGHT: 0.2,
+  SHED_SPREAD_SCALE: 10,   // % spread at which shedding agreement reaches 0
+  AGREEMENT_THRESHOLD: 0.75,
+  RED_BELOW: 0.5,
+  YELLOW_SHED_PERCENT: 2,
+  RED_SHED_PERCENT: 10
+};
+
+export interface ChatStreamOptions {
+  /** Called with the accumulated reply text as chunks arrive */
+  onChunk?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ChatStreamResult {
+  text: string;
+  /** True when the operator aborted; `text` holds the partial reply */
+  cancelled: boolean;
+  hallucination?: HallucinationCheck;
+}
+
 export class GenAiService {
-  private ai: GoogleGenAI | null = null;
-  private modelId = "gemini-3-pro-preview";
-  private chatSession: any = null;
+  private ai: LlmProvider | null = null;
+  private chatSession: LlmChatSession | null = null;
 
   public safetyState = {
     aiActuationEnabled: true,
@@ -120,20 +219,16 @@ OUTPUT FORMAT:
 
   public initialize() {
     try {
-      const apiKey = getActiveKey('GOOGLE_API_KEY');
-      if (apiKey) {
-        this.ai = new GoogleGenAI({ apiKey });
-      } else {
-        this.ai = null;
-      }
+      this.ai = createLlmProvider();
     } catch (e) {
-      console.warn("GenAI SDK initialization failed.");
+      console.warn("LLM provider initialization failed.");
       this.ai = null;
     }
   }
 
   public updateKey() {
     this.initialize();
+    this.chatSession = null;
     this.initSession();
   }
 
@@ -144,6 +239,7 @@ OUTPUT FORMAT:
   }
 
   public toggleKillSwitch(switchName: keyof typeof this.safetyState) {
+    if (!sessionService.authorize('TOGGLE_SAFETY', `Toggle ${switchName}`)) return this.safetyState[switchName];
     this.safetyState[switchName] = !this.safetyState[switchName];
     return this.safetyState[switchName];
   }
@@ -151,15 +247,10 @@ OUTPUT FORMAT:
   public async initSession() {
     if (!this.ai) return;
 
-    this.chatSession = this.ai.chats.create({
-      model: this.modelId,
-      config: {
-        systemInstruction: this.SYSTEM_INSTRUCTION,
-        tools: [
-          { functionDeclarations: [getSystemMetricsTool, dispatchLoadShedTool, navigateMapTool] }, // Added navigateMapTool
-          { googleSearch: {} }
-        ]
-      }
+    this.chatSession = this.ai.createChat({
+      systemInstruction: this.SYSTEM_INSTRUCTION,
+      tools: [getSystemMetricsTool, dispatchLoadShedTool, navigateMapTool], // Added navigateMapTool
+      webSearch: true
     });
   }
 
@@ -204,8 +295,20 @@ CONFIDENCE_SCORE: 98%`;
   // --- PUBLIC METHODS ---
 
   public async sendMessage(message: string): Promise<string> {
+    return (await this.sendMessageStream(message)).text;
+  }
+
+  /**
+   * Stream a chat reply. `onChunk` receives the accumulated text as tokens
+   * arrive; aborting `signal` stops the stream and keeps what was received.
+   * Completed and cancelled replies alike go through the hallucination check
+   * and the audit log.
+   */
+  public async sendMessageStream(message: string, options: ChatStreamOptions = {}): Promise<ChatStreamResult> {
+    const { onChunk, signal } = options;
+
     // 1. Check Safety Switches
-    if (!this.safetyState.aiActuationEnabled) return "[WARNING] AI ACTUATION DISABLED via Kill Switch.";
+    if (!this.safetyState.aiActuationEnabled) return { text: "[WARNING] AI ACTUATION DISABLED via Kill Switch.", cancelled: false };
 
     // 2. Privacy & Sanitization
     const { safeText, wasSanitized } = privacyGuard.sanitize(message);
@@ -214,56 +317,104 @@ CONFIDENCE_SCORE: 98%`;
     // 3. Handle Demo Mode (Simulation)
     if (this.isDemoMode()) {
       await new Promise(r => setTimeout(r, 1500)); // Fake latency
-      return this.getSimulatedResponse(safeText);
+      const simulated = this.getSimulatedResponse(safeText);
+      let text = "";
+      for (const word of simulated.split(/(?<=\s)/)) {
+        if (signal?.aborted) break;
+        text += word;
+        onChunk?.(text);
+        await new Promise(r => setTimeout(r, 15));
+      }
+      return this.finalizeChatResponse(safeText, text, !!signal?.aborted);
     }
 
     if (!this.chatSession) await this.initSession();
     if (!this.ai) {
-      return "ERROR: AI System Offline. Please configure Google Gemini API Key in Settings to interact.";
+      return { text: "ERROR: AI System Offline. Please configure an AI provider (Gemini API Key or local model) in Settings to interact.", cancelled: false };
     }
 
     // SAFETY
     if (lower.includes('disable') && (lower.includes('safety') || lower.includes('lock'))) {
-      return "GUARDRAIL_INTERVENTION: Action blocked by NERC CIP-005.";
+      return { text: "GUARDRAIL_INTERVENTION: Action blocked by NERC CIP-005.", cancelled: false };
     }
 
     // RAG INJECTION
     const ragContext = knowledgeService.getContext(safeText);
     const augmentedMessage = ragContext ? `${ragContext}\n\nUSER QUERY: ${safeText}` : safeText;
 
+    let responseText = "";
     try {
-      const result = await this.chatSession.sendMessage({ message: augmentedMessage });
-
-      // Handle Function Calls automatically
-      let responseText = result.text || "";
-
-      // Check for function calls in the response object (v2 SDK structure)
-      const calls = result.functionCalls;
-      if (calls && calls.length > 0) {
-        for (const call of calls) {
-          const executionResult = await this.executeTool(call.name, call.args);
-          // Send the tool result back to the model to get a final text response
-          const nextResp = await this.chatSession.sendMessage({
-            message: [{
-              functionResponse: {
-                name: call.name,
-                response: { result: executionResult }
-              }
-            }]
-          });
-          responseText = nextResp.text;
+      let turn = await this.streamTurn(augmentedMessage, onChunk, signal);
+      let cancelled = turn.cancelled;
+      responseText = turn.text;
+
+      // Handle Function Calls automatically; the tool result's follow-up
+      // replaces the interim text unless it was cancelled before any output
+      for (const call of turn.calls) {
+        if (cancelled) break;
+        const executionResult = await this.executeTool(call.name, call.args);
+        if (signal?.aborted) {
+          cancelled = true;
+          break;
         }
+        turn = await this.streamTurn([{
+          functionResponse: {
+            name: call.name,
+            response: { result: executionResult }
+          }
+        }], onChunk, signal);
+        cancelled = turn.cancelled;
+        if (turn.text || !cancelled) responseText = turn.text;
       }
 
       if (wasSanitized) {
         responseText += "\n\n*[PRIVACY_NOTICE: Input was sanitized.]*";
       }
 
-      return responseText;
+      return this.finalizeChatResponse(safeText, responseText, cancelled);
     } catch (e) {
       console.error(e);
-      return "Error: Uplink unstable. Connection reset.";
+      if (responseText) return this.finalizeChatResponse(safeText, `${responseText}\n\n*[Stream interrupted]*`, false);
+      if (e instanceof ReplayMissError) return { text: `REPLAY MISS: ${e.message}. Record this conversation first.`, cancelled: false };
+      return { text: "Error: Uplink unstable. Connection reset.", cancelled: false };
+    }
+  }
+
+  /**
+   * One streamed chat turn; an abort ends it quietly with the text so far
+   */
+  private async streamTurn(message: string | LlmPart[], onChunk?: (text: string) => void, signal?: AbortSignal): Promise<{ text: string, calls: LlmFunctionCall[], cancelled: boolean }> {
+    let text = "";
+    const calls: LlmFunctionCall[] = [];
+    try {
+      for await (const chunk of this.chatSession!.sendMessageStream(message, signal)) {
+        if (signal?.aborted) break;
+        if (chunk.text) {
+          text += chunk.text;
+          onChunk?.(text);
+        }
+        calls.push(...chunk.functionCalls);
+      }
+    } catch (e) {
+      if (!signal?.aborted) throw e;
     }
+    return { text, calls, cancelled: !!signal?.aborted };
+  }
+
+  private finalizeChatResponse(input: string, text: string, cancelled: boolean): ChatStreamResult {
+    const hallucination = text ? modelMonitorService.checkForHallucinations(input, text) : undefined;
+    auditService.log({
+      operatorId: sessionService.getOperatorId(),
+      eventType: "AI_RECOMMENDATION",
+      resource: "LLM_RESPONSE",
+      details: `Chat response ${cancelled ? "cancelled by operator" : "completed"} (${text.length} chars, ${hallucination?.verdict ?? "NO_OUTPUT"})`,
+      metadata: {
+        cancelled,
+        verdict: hallucination?.verdict,
+        flaggedPhrases: hallucination?.flaggedPhrases
+      }
+    });
+    return { text, cancelled, hallucination };
   }
 
   public async sendMultimodalMessage(prompt: string, base64Image: string, mimeType: string): Promise<string> {
@@ -296,9 +447,7 @@ CONFIDENCE_SCORE: 95%`;
       };
       const textPart = { text: safeText };
 
-      const result = await this.chatSession.sendMessage({
-        message: [textPart, imagePart] // Send as array of parts
-      });
+      const result = await this.chatSession.sendMessage([textPart, imagePart]); // Send as array of parts
 
       return result.text || "";
     } catch (e) {
@@ -307,9 +456,23 @@ CONFIDENCE_SCORE: 95%`;
     }
   }
 
-  public async executeTool(name: string, args: any): Promise<string> {
+  /**
+   * Execute a tool call. Every call passes the shared actuation guard;
+   * `approvedBy` is the operator who approved it in the HITL prompt and
+   * `dualAuthorizationId` the supervisor second approval for RED-tier calls.
+   */
+  public async executeTool(name: string, args: any, approvedBy?: string, dualAuthorizationId?: string): Promise<string> {
     if (!this.safetyState.externalToolsEnabled) return "🚫 BLOCKED.";
 
+    const verdict = actuationGuard.authorize(this.toActuationRequest(name, args, approvedBy, dualAuthorizationId));
+    if (!verdict.authorized) {
+      const check = verdict.safety;
+      if (!check.allowed) {
+        return `🚫 BLOCKED: ${check.reason} [${check.violationCode}, rule ${check.ruleId}@v${check.ruleVersion}, pack ${check.rulePackId}@${check.rulePackVersion}]`;
+      }
+      return `⚠️ ${verdict.riskTier} TIER (${verdict.disposition}): ${verdict.reason}`;
+    }
+
     if (name === "get_system_metrics") {
       return JSON.stringify({
         status: "Use Dashboard for Real-Time Metrics",
@@ -340,13 +503,414 @@ CONFIDENCE_SCORE: 95%`;
     return "Unknown Tool.";
   }
 
-  // ... (Remaining methods) ...
-  public async getConsensusAnalysis(prompt: string): Promise<ConsensusResult> { return { agreed: true, score: 0.9, primaryAnalysis: "N/A", secondaryAnalysis: "N/A", tertiaryAnalysis: "N/A", finalOutput: "N/A", riskTier: RiskTier.GREEN }; }
-  public async askSpatialQuestion(query: string): Promise<{ text: string, chunks: any[] }> { return { text: "", chunks: [] }; }
-  public async askWithSearch(query: string) { return { text: "", chunks: [] }; }
-  public async simulateScenario(inputs: any): Promise<string> { return ""; }
-  public async generateReport(config: any): Promise<string> { return ""; }
-  public async analyzeTimeSeries(data: any[]): Promise<string> { return ""; }
+  /**
+   * Risk tier of a proposed tool call, shown in the HITL prompt before approval
+   */
+  public assessTool(name: string, args: any): ActuationAssessment {
+    return actuationGuard.assess(this.toActuationRequest(name, args));
+  }
+
+  /**
+   * Open a supervisor second approval for a tool call under the two-person rule
+   */
+  public requestToolApproval(name: string, args: any, requestedBy: AuthIdentity): DualAuthRequest {
+    const summary = args?.amountMW ? `${name} ${args.amountMW}MW` : name;
+    return actuationGuard.requestSecondApproval(this.toActuationRequest(name, args, requestedBy.id), requestedBy, summary);
+  }
+
+  private toActuationRequest(name: string, args: any, approvedBy?: string, dualAuthorizationId?: string): ActuationRequest {
+    return {
+      source: "CHAT_TOOL",
+      toolName: name,
+      args: args || {},
+      resource: name,
+      magnitudeMW: Number(args?.amountMW) || undefined,
+      approvedBy,
+      dualAuthorizationId
+    };
+  }
+
+  /**
+   * Multi-model consensus: the prompt goes to three independently configured
+   * analysts, their answers are compared (semantic similarity of the
+   * recommendations, action category, shedding estimate) and the RiskTier is
+   * escalated when they diverge. RED whenever the analysts cannot be compared.
+   */
+  public async getConsensusAnalysis(prompt: string): Promise<ConsensusResult> {
+    const unavailable = (reason: string): ConsensusResult => ({
+      agreed: false,
+      score: 0,
+      primaryAnalysis: "N/A",
+      secondaryAnalysis: "N/A",
+      tertiaryAnalysis: "N/A",
+      finalOutput: `⚠️ WARNING: Consensus unavailable (${reason}). Manual assessment required.`,
+      riskTier: RiskTier.RED,
+      divergenceReason: reason
+    });
+
+    if (!this.safetyState.aiActuationEnabled) return unavailable("AI disabled via kill switch");
+
+    const { safeText } = privacyGuard.sanitize(prompt);
+    let opinions: (AnalystOpinion | null)[];
+    if (this.isDemoMode()) {
+      opinions = CONSENSUS_ANALYSTS.map(analyst => this.getSimulatedOpinion(analyst, safeText));
+    } else if (this.ai) {
+      opinions = await Promise.all(CONSENSUS_ANALYSTS.map(analyst => this.askAnalyst(analyst, safeText)));
+    } else {
+      return unavailable("AI system offline");
+    }
+
+    const answered = opinions.filter((o): o is AnalystOpinion => o !== null);
+    if (answered.length < 2) return unavailable(`${answered.length} of ${CONSENSUS_ANALYSTS.length} analysts responded`);
+
+    // Pairwise agreement
+    const pairs: [AnalystOpinion, AnalystOpinion][] = [];
+    answered.forEach((a, i) => answered.slice(i + 1).forEach(b => pairs.push([a, b])));
+    const similarities = await Promise.all(pairs.map(([a, b]) =>
+      vectorStore.similarity(`${a.recommendation} ${a.rationale}`, `${b.recommendation} ${b.rationale}`)
+    ));
+    const semantic = similarities.reduce((sum, v) => sum + v, 0) / similarities.length;
+    const actionAgreement = pairs.filter(([a, b]) => a.action === b.action).length / pairs.length;
+    const sheds = answered.map(o => o.loadShedPercent);
+    const shedSpread = Math.max(...sheds) - Math.min(...sheds);
+    const shedAgreement = Math.max(0, 1 - shedSpread / CONSENSUS_POLICY.SHED_SPREAD_SCALE);
+
+    const score = Number((
+      CONSENSUS_POLICY.SEMANTIC_WEIGHT * semantic +
+      CONSENSUS_POLICY.ACTION_WEIGHT * actionAgreement +
+      CONSENSUS_POLICY.SHED_WEIGHT * shedAgreement
+    ).toFixed(3));
+    const missing = answered.length < CONSENSUS_ANALYSTS.length;
+    const agreed = !missing && score >= CONSENSUS_POLICY.AGREEMENT_THRESHOLD && actionAgreement === 1;
+
+    // Tier from the most severe shedding estimate, escalated on divergence
+    const maxShed = Math.max(...sheds);
+    let riskTier = maxShed > CONSENSUS_POLICY.RED_SHED_PERCENT ? RiskTier.RED
+      : maxShed >= CONSENSUS_POLICY.YELLOW_SHED_PERCENT ? RiskTier.YELLOW
+        : RiskTier.GREEN;
+    if (!agreed) {
+      riskTier = score < CONSENSUS_POLICY.RED_BELOW ? RiskTier.RED
+        : riskTier === RiskTier.GREEN ? RiskTier.YELLOW : riskTier;
+    }
+
+    let divergenceReason: string | undefined;
+    if (!agreed) {
+      const reasons: string[] = [];
+      if (missing) {
+        const silent = CONSENSUS_ANALYSTS.filter(a => !answered.some(o => o.analyst === a)).map(a => a.label);
+        reasons.push(`no response from ${silent.join(", ")}`);
+      }
+      if (actionAgreement < 1) reasons.push(`actions differ (${answered.map(o => `${o.analyst.label}: ${o.action}`).join(", ")})`);
+      if (shedAgreement < 1) reasons.push(`load-shed estimates range ${Math.min(...sheds)}-${maxShed}%`);
+      if (semantic < CONSENSUS_POLICY.AGREEMENT_THRESHOLD) reasons.push(`low semantic similarity (${semantic.toFixed(2)})`);
+      divergenceReason = reasons.join("; ") || `agreement score ${score} below ${CONSENSUS_POLICY.AGREEMENT_THRESHOLD}`;
+    }
+
+    // Diverged: lead with the most conservative (most severe) recommendation
+    const lead = agreed
+      ? answered[0]
+      : [...answered].sort((a, b) => CONSENSUS_ACTIONS.indexOf(b.action) - CONSENSUS_ACTIONS.indexOf(a.action))[0];
+    const format = (role: ConsensusAnalyst["role"]) => {
+      const o = answered.find(op => op.analyst.role === role);
+      return o
+        ? `**${o.analyst.label}** (${o.model}): ${o.action} · shed ${o.loadShedPercent}% · confidence ${o.confidence}%\n${o.recommendation}\n${o.rationale}`
+        : "No response";
+    };
+
+    const finalOutput = agreed
+      ? `BLUF: ${lead.recommendation}\n\nConsensus ${Math.round(score * 100)}% across ${answered.length} analysts · Tier ${riskTier}.\n\nCONFIDENCE_SCORE: ${Math.round(answered.reduce((sum, o) => sum + o.confidence, 0) / answered.length)}%`
+      : `⚠️ WARNING: Analysts diverge (${divergenceReason}). Human review required before action.\n\nMost conservative recommendation (${lead.analyst.label}): ${lead.recommendation}\n\nTier ${riskTier}.`;
+
+    auditService.log({
+      operatorId: "SYS-CONSENSUS",
+      eventType: "AI_RECOMMENDATION",
+      resource: "CONSENSUS_ENGINE",
+      details: agreed ? `Consensus ${lead.action} (score ${score}, ${riskTier})` : `Divergence (score ${score}, ${riskTier}): ${divergenceReason}`,
+      metadata: {
+        score,
+        agreed,
+        riskTier,
+        semantic: Number(semantic.toFixed(3)),
+        actionAgreement,
+        shedSpread,
+        opinions: answered.map(o => ({ analyst: o.analyst.role, model: o.model, action: o.action, loadShedPercent: o.loadShedPercent, confidence: o.confidence }))
+      }
+    });
+
+    return {
+      agreed,
+      score,
+      primaryAnalysis: format("primary"),
+      secondaryAnalysis: format("secondary"),
+      tertiaryAnalysis: format("tertiary"),
+      finalOutput,
+      riskTier,
+      divergenceReason
+    };
+  }
+
+  private async askAnalyst(analyst: ConsensusAnalyst, prompt: string): Promise<AnalystOpinion | null> {
+    try {
+      const response = await this.ai!.generate({
+        feature: "CONSENSUS",
+        model: analyst.model,
+        contents: `${knowledgeService.getContext(prompt)}\n\nSITUATION / QUESTION: ${prompt}\n\nAssess the situation and recommend one action category.`,
+        systemInstruction: `${analyst.persona} You are one of three independent analysts; do not hedge toward a consensus.`,
+        temperature: analyst.temperature,
+        json: true,
+        responseSchema: CONSENSUS_SCHEMA
+      });
+      const parsed = JSON.parse(response.text?.trim() || "{}");
+      if (!CONSENSUS_ACTIONS.includes(parsed.action)) return null;
+      return {
+        analyst,
+        model: response.model,
+        action: parsed.action,
+        loadShedPercent: Math.max(0, Math.min(100, Number(parsed.loadShedPercent) || 0)),
+        confidence: Math.max(0, Math.min(100, Math.round(Number(parsed.confidence) || 0))),
+        recommendation: String(parsed.recommendation || ""),
+        rationale: String(parsed.rationale || "")
+      };
+    } catch (e) {
+      console.warn(`Consensus analyst ${analyst.label} failed`, e);
+      return null;
+    }
+  }
+
+  // Demo mode: deterministic opinions keyed on the prompt; the skeptic
+  // disagrees on emergency prompts so divergence handling is exercised
+  private getSimulatedOpinion(analyst: ConsensusAnalyst, prompt: string): AnalystOpinion {
+    const p = prompt.toLowerCase();
+    const severe = /emergency|blackout|eea|shed/.test(p);
+    const stressed = severe || /heat|storm|freeze|reserve|frequency/.test(p);
+    const skeptic = analyst.role === "tertiary";
+
+    const action: ConsensusAction = severe ? (skeptic ? "DISPATCH_RESERVES" : "LOAD_SHED") : stressed ? "DISPATCH_RESERVES" : "MONITOR";
+    const loadShedPercent = action === "LOAD_SHED" ? (analyst.role === "primary" ? 4 : 5) : 0;
+    return {
+      analyst,
+      model: "simulation",
+      action,
+      loadShedPercent,
+      confidence: skeptic ? 70 : 88,
+      recommendation: action === "LOAD_SHED"
+        ? `Shed ${loadShedPercent}% of load in rotating blocks and deploy all available reserves.`
+        : action === "DISPATCH_RESERVES"
+          ? "Deploy responsive reserves and recall demand response before considering load shed."
+          : "Continue monitoring; system margins are adequate.",
+      rationale: skeptic && severe
+        ? "Telemetry may overstate the deficit; exhaust reserves and imports before shedding firm load."
+        : `${analyst.label} assessment of current grid conditions based on the reported situation.`
+    };
+  }
+
+  /**
+   * What-if scenario: the deterministic engine computes the balance, the LLM
+   * (when available) only narrates it. Without a key or in demo mode the
+   * template narrative is returned.
+   */
+  public async simulateScenario(inputs: ScenarioState, onProgress?: (partial: ScenarioResult) => void): Promise<ScenarioResult> {
+    const result = runScenario(inputs);
+
+    if (this.ai && !this.isDemoMode()) {
+      const { narrative, narrativeSource, ...numbers } = result;
+      // Figures are final before narration starts
+      onProgress?.({ ...result, narrative: "", narrativeSource: "LLM" });
+      try {
+        const stream = await this.ai.generateStream({
+          feature: "ANALYSIS",
+          contents: `SCENARIO RESULT (computed by the deterministic grid model):\n${JSON.stringify(numbers, null, 2)}\n\nNarrate this result for a control-room operator. Use every figure exactly as given; do not recompute, round differently or introduce new numbers. Keep the EEA level as stated.`,
+          systemInstruction: this.SYSTEM_INSTRUCTION,
+          temperature: 0.3
+        });
+        let text = "";
+        for await (const chunk of stream) {
+          text += chunk.text;
+          onProgress?.({ ...result, narrative: text, narrativeSource: "LLM" });
+        }
+        if (text.trim()) {
+          result.narrative = text.trim();
+          result.narrativeSource = "LLM";
+        }
+      } catch (e) {
+        console.warn("Scenario narration failed; using template", e);
+      }
+    }
+
+    auditService.log({
+      operatorId: sessionService.getOperatorId(),
+      eventType: "AI_RECOMMENDATION",
+      resource: "SCENARIO_ENGINE",
+      details: `Scenario ${result.eeaLabel}: reserves ${result.operatingReserveMW} MW (${result.reserveMarginPercent}%), shed ${result.loadShedMW} MW`,
+      metadata: {
+        inputs,
+        demandMW: result.demandMW,
+        supplyMW: result.supply.totalMW,
+        eeaLevel: result.eeaLevel,
+        shortfallMW: result.shortfallMW,
+        narrativeSource: result.narrativeSource
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Operations report: every section is computed from recorded data by the
+   * report builder; the LLM (when available) only drafts the executive summary.
+   */
+  public async generateReport(config: ReportConfig): Promise<OperationsReport> {
+    const report = await reportBuilder.build(config, sessionService.getOperatorId());
+
+    if (this.ai && !this.isDemoMode()) {
+      const { executiveSummary, narrativeSource, events, actions, ...figures } = report;
+      try {
+        const response = await this.ai.generate({
+          feature: "ANALYSIS",
+          contents: `REPORT TYPE: ${report.type}\nREPORT DATA:\n${JSON.stringify({ ...figures, events: events.slice(-40), actions: actions.slice(-40) }, null, 2)}\n\nWrite a 2-3 paragraph executive summary of this period for utility leadership. Use only the figures given; do not invent numbers, events or incidents. Plain prose, no Markdown headings, no confidence score.`,
+          systemInstruction: this.SYSTEM_INSTRUCTION,
+          temperature: 0.3
+        });
+        const text = response.text?.trim();
+        if (text) {
+          report.executiveSummary = text;
+          report.narrativeSource = "LLM";
+          report.narratedBy = `${this.ai.label} · ${response.model || this.ai.modelFor("chat")}`;
+        }
+      } catch (e) {
+        console.warn("Report narrative failed; using template", e);
+      }
+    }
+
+    auditService.log({
+      operatorId: report.generatedBy,
+      eventType: "EXPORT_GENERATED",
+      resource: "OPS_REPORT",
+      details: `${report.type} ${report.id} for ${report.window.start} to ${report.window.end}`,
+      metadata: {
+        reportId: report.id,
+        events: report.events.length,
+        actions: report.actions.length,
+        incidents: report.incidents.length,
+        narrativeSource: report.narrativeSource,
+        narratedBy: report.narratedBy
+      }
+    });
+
+    return report;
+  }
+
+  /**
+   * Local statistical analysis of a loaded series; the LLM (when available)
+   * narrates the findings, which stay the source for chart highlights.
+   *
+   * @param context - Optional background for the narrator (e.g. which event the series covers)
+   */
+  public async analyzeTimeSeries(data: SeriesPoint[], context?: string): Promise<TimeSeriesReport> {
+    const analysis = analyzeSeries(data);
+    const report: TimeSeriesReport = { ...analysis, narrative: templateNarrative(analysis), narrativeSource: "TEMPLATE" };
+
+    if (this.ai && !this.isDemoMode()) {
+      try {
+        const response = await this.ai.generate({
+          feature: "ANALYSIS",
+          contents: `${context ? `${context}\n\n` : ""}TIME-SERIES FINDINGS (computed locally):\n${JSON.stringify(analysis, null, 2)}\n\nWrite a forensic post-mortem of this series for grid operators. Explain what the findings indicate; use only the values given and do not invent events or numbers. Start with "BLUF:" and use ## section headings.`,
+          systemInstruction: this.SYSTEM_INSTRUCTION,
+          temperature: 0.3
+        });
+        const text = response.text?.trim();
+        if (text) {
+          report.narrative = text;
+          report.narrativeSource = "LLM";
+          report.narratedBy = `${this.ai.label} · ${response.model || this.ai.modelFor("chat")}`;
+        }
+      } catch (e) {
+        console.warn("Time-series narration failed; using template", e);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Spatial questions answered by geometry over the map layers. The LLM (when
+   * available) may rephrase the answer but only sees names and distances,
+   * never coordinates; the chunks carry coordinates for the map.
+   */
+  public async askSpatialQuestion(query: string): Promise<{ text: string, chunks: GeoChunk[] }> {
+    const answer = await geoRetrieval.answer(query);
+    let text = answer.text;
+
+    if (this.ai && !this.isDemoMode() && answer.chunks.length > 1) {
+      const { safeText } = privacyGuard.sanitize(query);
+      const sources = answer.chunks
+        .map((c, i) => `[${i + 1}] ${c.geo.title} (${c.geo.kind}${c.geo.distanceMiles !== undefined ? `, ${c.geo.distanceMiles} mi` : ""}): ${c.geo.text}`)
+        .join("\n");
+      try {
+        const response = await this.ai.generate({
+          feature: "ANALYSIS",
+          contents: `QUESTION: ${safeText}\n\nGEOSPATIAL RESULT (computed locally):\n${answer.text}\n\nSOURCES:\n${sources}\n\nAnswer the question for a grid operator using only this result. Cite sources as [n]. Do not add features, distances or coordinates that are not listed.`,
+          systemInstruction: this.SYSTEM_INSTRUCTION,
+          temperature: 0.2
+        });
+        if (response.text?.trim()) text = response.text.trim();
+      } catch (e) {
+        console.warn("Spatial answer narration failed; using computed answer", e);
+      }
+    }
+
+    auditService.log({
+      operatorId: sessionService.getOperatorId(),
+      eventType: "DATA_FETCH",
+      resource: "GEO_RETRIEVAL",
+      details: `Spatial query: ${answer.matches.length} match(es) within ${Math.round(answer.radiusMiles)} mi${answer.anchor ? ` of ${answer.anchor.name}` : ""}`,
+      metadata: { anchorId: answer.anchor?.id, matchIds: answer.matches.map(m => m.feature.id) }
+    });
+
+    return { text, chunks: answer.chunks };
+  }
+
+  /**
+   * Keyword search over the local map layers, plus Google Search grounding
+   * when the model is available and external tools are enabled. Web results
+   * come back as `web` chunks, local ones as `geo` chunks.
+   */
+  public async askWithSearch(query: string): Promise<{ text: string, chunks: any[] }> {
+    const local = await geoRetrieval.search(query);
+    const localSummary = local.length > 0
+      ? `Matching grid features:\n${local.map((c, i) => `${i + 1}. ${c.geo.title} (${c.geo.kind}): ${c.geo.text}`).join("\n")}`
+      : "No matching grid features on the map.";
+
+    if (!this.ai?.capabilities.webSearch || this.isDemoMode() || !this.safetyState.externalToolsEnabled) {
+      const note = !this.safetyState.externalToolsEnabled ? "Web search is disabled via kill switch."
+        : this.isDemoMode() ? "Web search is unavailable in demo mode."
+          : !this.ai ? "Web search is unavailable: no AI provider is configured."
+            : `Web search is unavailable with the ${this.ai.label} provider.`;
+      return { text: `${localSummary}\n\n${note}`, chunks: local };
+    }
+
+    const { safeText } = privacyGuard.sanitize(query);
+    try {
+      const response = await this.ai.generate({
+        feature: "ANALYSIS",
+        contents: `${safeText}\n\nLOCAL GRID CONTEXT:\n${localSummary}`,
+        systemInstruction: this.SYSTEM_INSTRUCTION,
+        webSearch: true,
+        temperature: 0.3
+      });
+      const web = response.groundingChunks;
+      auditService.log({
+        operatorId: sessionService.getOperatorId(),
+        eventType: "DATA_FETCH",
+        resource: "WEB_SEARCH",
+        details: `Grounded search: ${web.length} web source(s), ${local.length} local feature(s)`
+      });
+      return { text: response.text?.trim() || localSummary, chunks: [...local, ...web] };
+    } catch (e) {
+      console.warn("Search grounding failed; returning local matches", e);
+      return { text: `${localSummary}\n\nWeb search failed.`, chunks: local };
+    }
+  }
 }
 
 export const genAiService = new GenAiService();
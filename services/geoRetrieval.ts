@@ -0,0 +1,467 @@
+/**
+ * geoRetrieval.ts
+ *
+ * Local Geospatial Retrieval
+ *
+ * Answers spatial chat questions ("which gas plants are within 50 miles of
+ * the Houston fire cluster?") with geometry over the same layers the Digital
+ * Twin draws: power assets (getGridNodes), NASA FIRMS hotspots
+ * (getActiveWildfires) and restricted zones. Every answer carries the
+ * features it used as cited chunks with coordinates, so the chat can list
+ * them and the Digital Twin can fly to them.
+ *
+ * Features:
+ * - Haversine distances; point-to-polygon distance for zones
+ * - Hotspots grouped into fire clusters, named after the nearest city
+ * - Query parsing: radius (mi/km), asset type and status, anchor feature,
+ *   "nearest" ranking and "where is" lookups
+ * - Keyword search over all layers for search-style questions
+ */
+
+import { dataService, PowerAsset } from './dataServiceFactory';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GeoFeatureKind = 'ASSET' | 'FIRE_CLUSTER' | 'RESTRICTED_ZONE' | 'PLACE';
+
+export interface GeoFeature {
+    id: string;
+    kind: GeoFeatureKind;
+    name: string;
+    lat: number;
+    lon: number;
+    description: string;
+    /** Zone outline as [lon, lat] pairs */
+    polygon?: number[][];
+    assetType?: PowerAsset['type'];
+    status?: PowerAsset['status'];
+    capacityMW?: number;
+    /** Fire clusters: number of hotspots */
+    hotspots?: number;
+}
+
+/**
+ * Citation rendered by the chat; `geo` sits alongside Gemini's `web` /
+ * `maps` grounding chunks
+ */
+export interface GeoChunk {
+    geo: {
+        id: string;
+        title: string;
+        kind: GeoFeatureKind;
+        lat: number;
+        lon: number;
+        text: string;
+        distanceMiles?: number;
+    };
+}
+
+export interface GeoMatch {
+    feature: GeoFeature;
+    distanceMiles: number;
+}
+
+export interface SpatialAnswer {
+    text: string;
+    chunks: GeoChunk[];
+    anchor?: GeoFeature;
+    matches: GeoMatch[];
+    radiusMiles: number;
+}
+
+const DEFAULT_RADIUS_MILES = 50;
+const FIRE_CLUSTER_MILES = 15;      // Hotspots closer than this form one cluster
+const NEAREST_LIMIT = 3;
+const KM_PER_MILE = 1.609344;
+const EARTH_RADIUS_MILES = 3958.8;
+
+// City anchors for "near Houston" and for naming fire clusters
+const PLACES: { name: string; lat: number; lon: number; aliases?: string[] }[] = [
+    { name: 'Houston', lat: 29.76, lon: -95.37 },
+    { name: 'Dallas', lat: 32.78, lon: -96.80, aliases: ['dfw'] },
+    { name: 'Fort Worth', lat: 32.75, lon: -97.33 },
+    { name: 'Austin', lat: 30.27, lon: -97.74 },
+    { name: 'San Antonio', lat: 29.42, lon: -98.49 },
+    { name: 'Corpus Christi', lat: 27.80, lon: -97.40 },
+    { name: 'Brownsville', lat: 25.90, lon: -97.50, aliases: ['rio grande valley'] },
+    { name: 'El Paso', lat: 31.76, lon: -106.49 },
+    { name: 'Midland', lat: 31.99, lon: -102.08, aliases: ['odessa', 'permian', 'west texas'] },
+    { name: 'Lubbock', lat: 33.58, lon: -101.85 },
+    { name: 'Amarillo', lat: 35.22, lon: -101.83, aliases: ['panhandle'] },
+    { name: 'Abilene', lat: 32.45, lon: -99.73 },
+    { name: 'Waco', lat: 31.55, lon: -97.15 },
+    { name: 'Tyler', lat: 32.35, lon: -95.30 },
+    { name: 'Del Rio', lat: 29.36, lon: -100.90 },
+];
+
+const ASSET_TYPES: PowerAsset['type'][] = ['wind', 'solar', 'gas', 'nuclear', 'hydro', 'coal', 'battery'];
+const FIRE_WORDS = /\b(fires?|wildfires?|hotspots?|burn(?:ing)?|blaze)\b/;
+const ZONE_WORDS = /\b(restricted|military|no-?go|zones?|bases?|installations?|airspace)\b/;
+// Tokens too generic to identify a feature by name
+const NAME_STOPWORDS = new Set([
+    'plant', 'wind', 'farm', 'solar', 'nuclear', 'project', 'energy', 'center', 'texas', 'south',
+    'north', 'west', 'east', 'great', 'national', 'park', 'fort', 'station', 'the'
+]);
+
+// ============================================================================
+// GEOMETRY
+// ============================================================================
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+export function haversineMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const dLat = toRad(lat2 - lat1);
+    const dLon = toRad(lon2 - lon1);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Ray casting; polygon as [lon, lat] pairs
+ */
+export function pointInPolygon(lat: number, lon: number, polygon: number[][]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+        if ((yi > lat) !== (yj > lat) && lon < (xj - xi) * (lat - yi) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+}
+
+/**
+ * Miles from a point to a feature: 0 inside a zone, otherwise to the nearest
+ * edge (local equirectangular projection, fine at zone scale)
+ */
+export function distanceToFeature(lat: number, lon: number, feature: GeoFeature): number {
+    if (!feature.polygon || feature.polygon.length < 3) {
+        return haversineMiles(lat, lon, feature.lat, feature.lon);
+    }
+    if (pointInPolygon(lat, lon, feature.polygon)) return 0;
+
+    const kx = Math.cos(toRad(lat)) * EARTH_RADIUS_MILES * Math.PI / 180;
+    const ky = EARTH_RADIUS_MILES * Math.PI / 180;
+    let best = Infinity;
+    for (let i = 0; i < feature.polygon.length; i++) {
+        const [ax, ay] = feature.polygon[i];
+        const [bx, by] = feature.polygon[(i + 1) % feature.polygon.length];
+        const x1 = (ax - lon) * kx, y1 = (ay - lat) * ky;
+        const x2 = (bx - lon) * kx, y2 = (by - lat) * ky;
+        const dx = x2 - x1, dy = y2 - y1;
+        const t = dx === 0 && dy === 0 ? 0 : Math.max(0, Math.min(1, -(x1 * dx + y1 * dy) / (dx * dx + dy * dy)));
+        best = Math.min(best, Math.hypot(x1 + t * dx, y1 + t * dy));
+    }
+    return best;
+}
+
+function distanceBetween(a: GeoFeature, b: GeoFeature): number {
+    if (b.polygon) return distanceToFeature(a.lat, a.lon, b);
+    return distanceToFeature(b.lat, b.lon, a);
+}
+
+function nearestPlace(lat: number, lon: number) {
+    return PLACES.reduce((best, p) =>
+        haversineMiles(lat, lon, p.lat, p.lon) < haversineMiles(lat, lon, best.lat, best.lon) ? p : best);
+}
+
+// ============================================================================
+// LAYERS
+// ============================================================================
+
+function clusterFires(fires: { lat: number; lon: number; confidence: string; brightness: number }[]): GeoFeature[] {
+    // Single-linkage grouping
+    const groups: number[][] = [];
+    const assigned = new Array(fires.length).fill(-1);
+    fires.forEach((fire, i) => {
+        const linked = new Set<number>();
+        fires.forEach((other, j) => {
+            if (j < i && haversineMiles(fire.lat, fire.lon, other.lat, other.lon) <= FIRE_CLUSTER_MILES) linked.add(assigned[j]);
+        });
+        const target = linked.size > 0 ? Math.min(...linked) : groups.push([]) - 1;
+        linked.forEach(g => {
+            if (g === target) return;
+            groups[g].forEach(k => { assigned[k] = target; groups[target].push(k); });
+            groups[g] = [];
+        });
+        groups[target].push(i);
+        assigned[i] = target;
+    });
+
+    const named = new Map<string, number>();
+    return groups.filter(g => g.length > 0).map((members, n) => {
+        const lat = members.reduce((sum, k) => sum + fires[k].lat, 0) / members.length;
+        const lon = members.reduce((sum, k) => sum + fires[k].lon, 0) / members.length;
+        const place = nearestPlace(lat, lon);
+        const high = members.filter(k => fires[k].confidence === 'high').length;
+        const peak = Math.max(...members.map(k => fires[k].brightness));
+        const seen = (named.get(place.name) ?? 0) + 1;
+        named.set(place.name, seen);
+        return {
+            id: `FIRE-${n + 1}`,
+            kind: 'FIRE_CLUSTER' as const,
+            name: `${place.name} fire cluster${seen > 1 ? ` #${seen}` : ''}`,
+            lat,
+            lon,
+            hotspots: members.length,
+            description: `${members.length} NASA FIRMS hotspot(s), ${high} high confidence, peak brightness ${peak}K, ${Math.round(haversineMiles(lat, lon, place.lat, place.lon))} mi from ${place.name}.`
+        };
+    });
+}
+
+async function loadLayers(): Promise<GeoFeature[]> {
+    const [assets, fires, zones] = await Promise.all([
+        dataService.getGridNodes().catch(() => [] as PowerAsset[]),
+        dataService.getActiveWildfires().catch(() => []),
+        dataService.getRestrictedZones().catch(() => [])
+    ]);
+
+    const assetFeatures: GeoFeature[] = assets.map((a, i) => ({
+        id: `ASSET-${i + 1}`,
+        kind: 'ASSET',
+        name: a.name,
+        lat: a.lat,
+        lon: a.lon,
+        description: `${a.type} · ${a.capacity} · ${a.status}. ${a.desc}`,
+        assetType: a.type,
+        status: a.status,
+        capacityMW: parseFloat(String(a.capacity).replace(/,/g, '')) || undefined
+    }));
+
+    const zoneFeatures: GeoFeature[] = zones
+        .filter((z: any) => Array.isArray(z.bounds) && z.bounds.length >= 3)
+        .map((z: any) => ({
+            id: String(z.id),
+            kind: 'RESTRICTED_ZONE',
+            name: String(z.name),
+            lat: z.bounds.reduce((sum: number, p: number[]) => sum + p[1], 0) / z.bounds.length,
+            lon: z.bounds.reduce((sum: number, p: number[]) => sum + p[0], 0) / z.bounds.length,
+            polygon: z.bounds,
+            description: `${z.type} zone (risk ${z.risk}). ${z.desc ?? ''}`.trim()
+        }));
+
+    return [...assetFeatures, ...clusterFires(fires), ...zoneFeatures];
+}
+
+// ============================================================================
+// QUERY PARSING
+// ============================================================================
+
+function nameTokens(name: string): string[] {
+    return name.toLowerCase().replace(/[().,]/g, ' ').split(/\s+/)
+        .filter(t => t.length >= 4 && !NAME_STOPWORDS.has(t));
+}
+
+function mentions(text: string, feature: GeoFeature): boolean {
+    const lower = text.toLowerCase();
+    if (lower.includes(feature.name.toLowerCase())) return true;
+    return nameTokens(feature.name).some(t => new RegExp(`\\b${t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lower));
+}
+
+function findPlace(text: string) {
+    const lower = text.toLowerCase();
+    return PLACES.find(p => lower.includes(p.name.toLowerCase()) || p.aliases?.some(a => lower.includes(a)));
+}
+
+function parseRadius(text: string): number | undefined {
+    const match = /(\d+(?:\.\d+)?)\s*(mi|miles?|km|kilomet(?:er|re)s?)\b/i.exec(text);
+    if (!match) return undefined;
+    const value = parseFloat(match[1]);
+    return /^k/i.test(match[2]) ? value / KM_PER_MILE : value;
+}
+
+function parseCoordinates(text: string): { lat: number; lon: number } | undefined {
+    const match = /(-?\d{1,2}\.\d+)\s*[,/ ]\s*(-?\d{2,3}\.\d+)/.exec(text);
+    if (!match) return undefined;
+    const lat = parseFloat(match[1]);
+    const lon = parseFloat(match[2]);
+    return Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { lat, lon } : undefined;
+}
+
+/**
+ * Resolve the reference feature in a phrase, most specific first: fire
+ * cluster, named zone, named asset, city, then raw coordinates
+ */
+function resolveAnchor(text: string, features: GeoFeature[]): GeoFeature | undefined {
+    const lower = text.toLowerCase();
+    const place = findPlace(lower);
+    const byKind = (kind: GeoFeatureKind) => features.filter(f => f.kind === kind);
+
+    if (FIRE_WORDS.test(lower)) {
+        const clusters = byKind('FIRE_CLUSTER');
+        if (clusters.length === 0) return undefined;
+        return place
+            ? clusters.reduce((a, b) => haversineMiles(b.lat, b.lon, place.lat, place.lon) < haversineMiles(a.lat, a.lon, place.lat, place.lon) ? b : a)
+            : clusters.reduce((a, b) => (b.hotspots ?? 0) > (a.hotspots ?? 0) ? b : a);
+    }
+
+    const named = features.find(f => f.kind !== 'FIRE_CLUSTER' && mentions(lower, f));
+    if (named) return named;
+
+    if (place) {
+        return { id: `PLACE-${place.name.toUpperCase().replace(/\s+/g, '_')}`, kind: 'PLACE', name: place.name, lat: place.lat, lon: place.lon, description: `City of ${place.name}` };
+    }
+
+    const coords = parseCoordinates(text);
+    if (coords) {
+        return { id: 'PLACE-COORDS', kind: 'PLACE', name: `${coords.lat.toFixed(3)}, ${coords.lon.toFixed(3)}`, ...coords, description: 'Coordinates from the question' };
+    }
+    return undefined;
+}
+
+// ============================================================================
+// ANSWERS
+// ============================================================================
+
+const label = (f: GeoFeature) => f.kind === 'ASSET'
+    ? `${f.name} (${f.assetType}, ${f.capacityMW ? `${f.capacityMW.toLocaleString('en-US')} MW` : 'capacity n/a'}, ${f.status})`
+    : f.kind === 'FIRE_CLUSTER' ? `${f.name} (${f.hotspots} hotspot${f.hotspots === 1 ? '' : 's'})` : f.name;
+
+export function toChunk(feature: GeoFeature, distanceMiles?: number): GeoChunk {
+    return {
+        geo: {
+            id: feature.id,
+            title: feature.name,
+            kind: feature.kind,
+            lat: feature.lat,
+            lon: feature.lon,
+            text: feature.description,
+            distanceMiles: distanceMiles !== undefined ? Number(distanceMiles.toFixed(1)) : undefined
+        }
+    };
+}
+
+class GeoRetrievalService {
+
+    /**
+     * Answer a spatial question from the map layers. Text cites chunks as [n].
+     */
+    public async answer(query: string): Promise<SpatialAnswer> {
+        const features = await loadLayers();
+        const lower = query.toLowerCase();
+
+        // Split "<subject> within 50 miles of / near <reference>"
+        const split = /\b(?:within\s+[\d.]+\s*(?:mi|miles?|km|kilomet(?:er|re)s?)\s+(?:of|from)|(?:nearest|closest)\s+to|close\s+to|near(?:by)?|around|from|of)\b/.exec(lower);
+        const subject = split ? lower.slice(0, split.index) : lower;
+        const reference = split ? lower.slice(split.index + split[0].length) : lower;
+        const nearest = /\b(nearest|closest)\b/.test(lower);
+        const explicitRadius = parseRadius(lower);
+        const radiusMiles = explicitRadius ?? DEFAULT_RADIUS_MILES;
+
+        const anchor = resolveAnchor(reference, features) ?? resolveAnchor(lower, features);
+        if (!anchor) {
+            const fireless = FIRE_WORDS.test(lower) && !features.some(f => f.kind === 'FIRE_CLUSTER');
+            return {
+                text: fireless
+                    ? 'No active wildfire hotspots are reported right now, so there is no fire cluster to measure from.'
+                    : `I could not place that on the map. Name a city (e.g. ${PLACES.slice(0, 3).map(p => p.name).join(', ')}), an asset, a restricted zone, a fire cluster, or give coordinates.`,
+                chunks: [],
+                matches: [],
+                radiusMiles
+            };
+        }
+
+        // "Where is X" without a distance question: locate and describe context
+        if (!split && !explicitRadius && !nearest) return this.locate(anchor, features, radiusMiles);
+
+        let candidates: GeoFeature[];
+        let noun: string;
+        if (FIRE_WORDS.test(subject)) {
+            candidates = features.filter(f => f.kind === 'FIRE_CLUSTER');
+            noun = 'fire cluster';
+        } else if (ZONE_WORDS.test(subject)) {
+            candidates = features.filter(f => f.kind === 'RESTRICTED_ZONE');
+            noun = 'restricted zone';
+        } else {
+            const types = ASSET_TYPES.filter(t => new RegExp(`\\b${t}`).test(subject));
+            const status = (['offline', 'maintenance', 'online'] as const).find(s => subject.includes(s));
+            candidates = features.filter(f => f.kind === 'ASSET'
+                && (types.length === 0 || types.includes(f.assetType!))
+                && (!status || f.status === status));
+            noun = `${status ? `${status} ` : ''}${types.length > 0 ? types.join('/') : 'power'} asset`;
+        }
+
+        const ranked = candidates
+            .filter(f => f.id !== anchor.id)
+            .map(f => ({ feature: f, distanceMiles: distanceBetween(anchor, f) }))
+            .sort((a, b) => a.distanceMiles - b.distanceMiles);
+        const matches = nearest && !explicitRadius
+            ? ranked.slice(0, NEAREST_LIMIT)
+            : ranked.filter(m => m.distanceMiles <= radiusMiles);
+
+        const chunks = [toChunk(anchor), ...matches.map(m => toChunk(m.feature, m.distanceMiles))];
+        const scope = nearest && !explicitRadius
+            ? `Nearest ${noun}s to`
+            : `${matches.length} ${noun}${matches.length === 1 ? '' : 's'} within ${Math.round(radiusMiles)} mi of`;
+        const lines: string[] = [];
+
+        // "The Houston fire cluster" when the closest fire is elsewhere: say so
+        const place = findPlace(reference);
+        if (anchor.kind === 'FIRE_CLUSTER' && place) {
+            const offset = haversineMiles(anchor.lat, anchor.lon, place.lat, place.lon);
+            if (offset > radiusMiles) {
+                lines.push(`No fire cluster near ${place.name}; the nearest active one is ${Math.round(offset)} mi away.`);
+            }
+        }
+        lines.push(`${scope} ${label(anchor)} [1]:`);
+        if (matches.length === 0) {
+            const closest = ranked[0];
+            lines.push(closest
+                ? `None. The closest is ${label(closest.feature)} at ${closest.distanceMiles.toFixed(1)} mi [2].`
+                : `None on the map.`);
+            if (closest) chunks.push(toChunk(closest.feature, closest.distanceMiles));
+        }
+        matches.forEach((m, i) => {
+            const inside = m.distanceMiles === 0 && (m.feature.polygon || anchor.polygon) ? ' (inside)' : '';
+            lines.push(`${i + 1}. ${label(m.feature)}: ${m.distanceMiles.toFixed(1)} mi${inside} [${i + 2}]`);
+        });
+        const mw = matches.reduce((sum, m) => sum + (m.feature.capacityMW ?? 0), 0);
+        if (mw > 0) lines.push(`Total capacity in range: ${mw.toLocaleString('en-US')} MW.`);
+
+        return { text: lines.join('\n'), chunks, anchor, matches, radiusMiles };
+    }
+
+    /**
+     * Keyword match over every layer (names and descriptions)
+     */
+    public async search(query: string, limit = 5): Promise<GeoChunk[]> {
+        const features = await loadLayers();
+        const terms = query.toLowerCase().split(/\W+/).filter(t => t.length >= 4 && !NAME_STOPWORDS.has(t));
+        if (terms.length === 0) return [];
+        return features
+            .map(f => {
+                const haystack = `${f.name} ${f.description}`.toLowerCase();
+                return { f, score: terms.filter(t => haystack.includes(t)).length + (mentions(query, f) ? 2 : 0) };
+            })
+            .filter(x => x.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit)
+            .map(x => toChunk(x.f));
+    }
+
+    private locate(anchor: GeoFeature, features: GeoFeature[], radiusMiles: number): SpatialAnswer {
+        const place = nearestPlace(anchor.lat, anchor.lon);
+        const zone = features.find(f => f.kind === 'RESTRICTED_ZONE' && f.id !== anchor.id && distanceToFeature(anchor.lat, anchor.lon, f) === 0);
+        const fires = features
+            .filter(f => f.kind === 'FIRE_CLUSTER' && f.id !== anchor.id)
+            .map(f => ({ feature: f, distanceMiles: distanceBetween(anchor, f) }))
+            .sort((a, b) => a.distanceMiles - b.distanceMiles);
+
+        const chunks = [toChunk(anchor)];
+        const lines = [
+            `${label(anchor)} [1] is at ${anchor.lat.toFixed(3)}°N, ${Math.abs(anchor.lon).toFixed(3)}°W, ${Math.round(haversineMiles(anchor.lat, anchor.lon, place.lat, place.lon))} mi from ${place.name}.`
+        ];
+        if (zone) {
+            chunks.push(toChunk(zone, 0));
+            lines.push(`It lies inside ${zone.name} [${chunks.length}].`);
+        }
+        if (fires[0]) {
+            chunks.push(toChunk(fires[0].feature, fires[0].distanceMiles));
+            lines.push(`Nearest fire activity: ${label(fires[0].feature)} at ${fires[0].distanceMiles.toFixed(1)} mi [${chunks.length}].`);
+        }
+        return { text: lines.join('\n'), chunks, anchor, matches: fires.slice(0, 1), radiusMiles };
+    }
+}
+
+export const geoRetrieval = new GeoRetrievalService();
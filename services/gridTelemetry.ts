@@ -0,0 +1,71 @@
+/**
+ * gridTelemetry.ts
+ *
+ * Shared Live Grid Telemetry Snapshot
+ *
+ * GridContext polls the data service and publishes what it computes here, so
+ * non-React services (SafetyGuard interlocks) evaluate against the same
+ * frequency, reserves and risk tier the operator sees.
+ *
+ * Features:
+ * - Risk tier classification from frequency deviation and grid status
+ * - Operating reserves derived as generation − load
+ * - Snapshot age so stale telemetry can be treated as unknown
+ */
+
+import { GridStatus, RiskTier } from '../types';
+import { TelemetrySnapshot } from './safetyRules';
+
+/**
+ * Risk tier from frequency deviation (±0.05Hz YELLOW, ±0.10Hz RED)
+ */
+export function classifyRiskTier(frequencyHz: number, status: GridStatus | null): RiskTier {
+    if (frequencyHz < 59.90 || frequencyHz > 60.10) return RiskTier.RED;
+    if (frequencyHz < 59.95 || frequencyHz > 60.05) return RiskTier.YELLOW;
+    if (status === GridStatus.CRITICAL) return RiskTier.RED;
+    return RiskTier.GREEN;
+}
+
+interface TelemetryState {
+    frequencyHz?: number;
+    loadMW?: number;
+    generationMW?: number;
+    riskTier?: RiskTier;
+    status?: GridStatus;
+    updatedAt?: number;
+}
+
+class GridTelemetryService {
+    private state: TelemetryState = {};
+
+    /**
+     * Publish new readings (partial updates from the fast and slow poll loops)
+     */
+    public update(readings: Omit<TelemetryState, 'updatedAt'>) {
+        Object.entries(readings).forEach(([key, value]) => {
+            if (value !== undefined && value !== null) (this.state as any)[key] = value;
+        });
+        this.state.updatedAt = Date.now();
+    }
+
+    /**
+     * Current snapshot; fields never published are left undefined
+     */
+    public getSnapshot(): TelemetrySnapshot {
+        const { frequencyHz, loadMW, generationMW, riskTier, updatedAt } = this.state;
+        const reservesMW = loadMW !== undefined && generationMW !== undefined
+            ? Math.max(0, Math.round(generationMW - loadMW))
+            : undefined;
+
+        return {
+            frequencyHz,
+            reservesMW,
+            loadMW,
+            riskTier,
+            capturedAt: new Date().toISOString(),
+            ageSeconds: updatedAt ? Math.round((Date.now() - updatedAt) / 1000) : undefined
+        };
+    }
+}
+
+export const gridTelemetry = new GridTelemetryService();
@@ -12,6 +12,7 @@
  */
 
 import { auditService } from './auditService';
+import { sessionService } from './sessionService';
 
 // ============================================================================
 // TYPES
@@ -132,7 +133,7 @@ class IncidentRecorder {
 
         // Log to audit
         auditService.log({
-            operatorId: 'OPERATOR',
+            operatorId: sessionService.getOperatorId(),
             eventType: 'NAVIGATION',
             resource: 'INCIDENT_RECORDER',
             details: `Started recording: ${this.currentRecording.name}`
@@ -177,7 +178,7 @@ class IncidentRecorder {
 
         // Log to audit
         auditService.log({
-            operatorId: 'OPERATOR',
+            operatorId: sessionService.getOperatorId(),
             eventType: 'NAVIGATION',
             resource: 'INCIDENT_RECORDER',
             details: `Stopped recording: ${this.currentRecording.name}, Duration: ${Math.round((this.currentRecording.duration || 0) / 1000)}s, Severity: ${this.currentRecording.metadata.severity}`
@@ -1,11 +1,5 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
-import { getActiveKey } from "./apiConfig";
-
-// Type definitions for Gemini Live API (inferred from SDK usage)
-interface LiveSession {
-  sendRealtimeInput(input: { media: { mimeType: string; data: string } }): void;
-}
+import { createLlmProvider, LiveSession, LlmProvider } from "./llmProvider";
 
 interface LiveServerMessage {
   serverContent?: {
@@ -23,9 +17,8 @@ interface LiveServerMessage {
  * Manages AudioContext, PCM encoding/decoding, and WebSocket streaming.
  */
 export class LiveService {
-  private ai: GoogleGenAI | null = null;
+  private ai: LlmProvider | null = null;
   private session: LiveSession | null = null;
-  private modelId = "gemini-2.5-flash-native-audio-preview-09-2025"; // Specific model for Live
 
   // Audio Contexts
   private inputAudioContext: AudioContext | null = null;
@@ -47,14 +40,9 @@ export class LiveService {
 
   public initialize() {
     try {
-      const apiKey = getActiveKey('GOOGLE_API_KEY');
-      if (apiKey) {
-        this.ai = new GoogleGenAI({ apiKey });
-      } else {
-        this.ai = null;
-      }
+      this.ai = createLlmProvider(undefined, "LIVE_VOICE");
     } catch (e) {
-      console.warn("GenAI SDK initialization failed for Live Service.");
+      console.warn("LLM provider initialization failed for Live Service.");
       this.ai = null;
     }
   }
@@ -73,6 +61,7 @@ export class LiveService {
 
   public async start() {
     if (!this.ai) throw new Error("API Key missing");
+    if (!this.ai.connectLive) throw new Error(`Voice mode is not available with the ${this.ai.label} provider`);
 
     // Initialize Audio Contexts
     this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
@@ -81,19 +70,10 @@ export class LiveService {
     // Request Mic Access
     this.mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
 
-    // Connect to Gemini Live
-    this.session = await this.ai.live.connect({
-      model: this.modelId,
-      config: {
-        responseModalities: [Modality.AUDIO],
-        systemInstruction: "You are the Voice Interface for the GridGuard AI control room. Your goals are Grid Reliability and Economic Efficiency. Keep responses brief, professional, and military-grade. You are speaking to a grid operator.",
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-        },
-        // Enable Transcription
-        inputAudioTranscription: {},
-        outputAudioTranscription: {}
-      },
+    // Connect to the provider's live audio session
+    this.session = await this.ai.connectLive({
+      systemInstruction: "You are the Voice Interface for the GridGuard AI control room. Your goals are Grid Reliability and Economic Efficiency. Keep responses brief, professional, and military-grade. You are speaking to a grid operator.",
+      voiceName: 'Kore',
       callbacks: {
         onopen: this.handleOpen.bind(this),
         onmessage: this.handleMessage.bind(this),
@@ -0,0 +1,532 @@
+/**
+ * llmProvider.ts
+ *
+ * LLM Provider Abstraction
+ *
+ * One interface for everything GridGuard asks of a language model: one-shot
+ * generation, streaming, chat sessions with function calling, and embeddings.
+ * Services obtain the configured provider from `createLlmProvider()` instead
+ * of constructing an SDK client, so an air-gapped control room can run the
+ * full assistant against a local model server.
+ *
+ * Features:
+ * - GEMINI: Google GenAI SDK (web search grounding, Live audio)
+ * - OPENAI_COMPATIBLE: any /v1/chat/completions + /v1/embeddings server
+ *   (llama.cpp server, Ollama, vLLM) on the local network
+ * - REPLAY: records either backend to a fixture and serves it back offline
+ *   (see replayProvider.ts)
+ * - Model roles (chat / fast / reasoning / embedding) instead of hard-coded IDs
+ * - Gemini-style function declarations and response schemas on both backends
+ * - Token usage on every response; real backends are wrapped by the shared
+ *   request scheduler (see llmScheduler.ts)
+ */
+
+import { GoogleGenAI, Modality } from "@google/genai";
+import { getActiveKey } from "./apiConfig";
+import { ReplayMode, ReplayProvider, replayFixtures } from "./replayProvider";
+import { ScheduledProvider } from "./llmScheduler";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LlmProviderId = "GEMINI" | "OPENAI_COMPATIBLE" | "REPLAY";
+
+/** What a call needs from the model; each provider maps roles to model IDs */
+export type LlmModelRole = "chat" | "fast" | "reasoning" | "embedding";
+
+/** Which part of GridGuard made a call; sets its scheduling priority and usage bucket */
+export type LlmFeature = "CHAT" | "LIVE_VOICE" | "ANALYSIS" | "CONSENSUS" | "AGENTS" | "EMBEDDINGS";
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Function declaration in Gemini schema form (`type: "OBJECT"` etc.) */
+export interface LlmFunctionDeclaration {
+  name?: string;
+  description?: string;
+  parameters?: any;
+}
+
+export interface LlmFunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export type LlmPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } }
+  | { functionResponse: { name: string; response: Record<string, any> } };
+
+export interface LlmRequest {
+  contents: string | LlmPart[];
+  model?: LlmModelRole;
+  systemInstruction?: string;
+  temperature?: number;
+  /** Ask for a JSON object; `responseSchema` (Gemini schema form) constrains it */
+  json?: boolean;
+  responseSchema?: any;
+  tools?: LlmFunctionDeclaration[];
+  /** Ground on web search; ignored by providers without the capability */
+  webSearch?: boolean;
+  signal?: AbortSignal;
+  /** Defaults to the feature the provider was created for */
+  feature?: LlmFeature;
+  /**
+   * Prompt embeds live telemetry, so it never repeats exactly: the replay
+   * backend may serve the next text response recorded with the same shape
+   */
+  replayLane?: boolean;
+}
+
+export interface LlmResponse {
+  /** Full text for generate(); the new delta for stream chunks */
+  text: string;
+  functionCalls: LlmFunctionCall[];
+  /** Web grounding citations (`{ web: { uri, title } }`) when available */
+  groundingChunks: any[];
+  model: string;
+  /** Reported by the backend; on streams, the chunk carrying it holds the totals */
+  usage?: LlmUsage;
+}
+
+export interface LlmChatConfig {
+  model?: LlmModelRole;
+  systemInstruction?: string;
+  tools?: LlmFunctionDeclaration[];
+  webSearch?: boolean;
+  feature?: LlmFeature;
+}
+
+export interface LlmChatSession {
+  sendMessage(message: string | LlmPart[], signal?: AbortSignal): Promise<LlmResponse>;
+  sendMessageStream(message: string | LlmPart[], signal?: AbortSignal): AsyncGenerator<LlmResponse>;
+}
+
+export interface LiveSession {
+  sendRealtimeInput(input: { media: { mimeType: string; data: string } }): void;
+  close?(): void;
+}
+
+export interface LiveConnectOptions {
+  systemInstruction: string;
+  voiceName?: string;
+  callbacks: {
+    onopen?: () => void;
+    onmessage: (message: any) => void;
+    onclose?: () => void;
+    onerror?: (error: any) => void;
+  };
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly label: string;
+  readonly capabilities: { webSearch: boolean; vision: boolean; live: boolean };
+  modelFor(role: LlmModelRole): string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  generateStream(request: LlmRequest): AsyncGenerator<LlmResponse>;
+  createChat(config: LlmChatConfig): LlmChatSession;
+  embed(text: string): Promise<number[]>;
+  /** Real-time voice; only providers with `capabilities.live` */
+  connectLive?(options: LiveConnectOptions): Promise<LiveSession>;
+}
+
+/** HTTP failure from a backend; `retryAfterMs` from a Retry-After header */
+export class LlmHttpError extends Error {
+  constructor(message: string, public readonly status: number, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "LlmHttpError";
+  }
+}
+
+export const LLM_PROVIDERS: Record<LlmProviderId, string> = {
+  GEMINI: "Google Gemini (cloud)",
+  OPENAI_COMPATIBLE: "Local OpenAI-compatible server",
+  REPLAY: "Record / replay fixture"
+};
+
+const GEMINI_MODELS: Record<LlmModelRole, string> = {
+  chat: "gemini-3-pro-preview",
+  fast: "gemini-2.5-flash",
+  reasoning: "gemini-2.5-pro",
+  embedding: "text-embedding-004"
+};
+const GEMINI_LIVE_MODEL = "gemini-2.5-flash-native-audio-preview-09-2025";
+
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+// ============================================================================
+// GEMINI
+// ============================================================================
+
+class GeminiProvider implements LlmProvider {
+  public readonly id = "GEMINI" as const;
+  public readonly label = LLM_PROVIDERS.GEMINI;
+  public readonly capabilities = { webSearch: true, vision: true, live: true };
+  private client: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  public modelFor(role: LlmModelRole): string {
+    return GEMINI_MODELS[role];
+  }
+
+  private config(request: Omit<LlmRequest, "contents" | "model">) {
+    const tools: any[] = [];
+    if (request.tools?.length) tools.push({ functionDeclarations: request.tools });
+    if (request.webSearch) tools.push({ googleSearch: {} });
+    return {
+      systemInstruction: request.systemInstruction,
+      temperature: request.temperature,
+      responseMimeType: request.json ? "application/json" : undefined,
+      responseSchema: request.responseSchema,
+      tools: tools.length ? tools : undefined,
+      abortSignal: request.signal
+    };
+  }
+
+  private toResponse(response: any, model: string): LlmResponse {
+    return {
+      text: response.text ?? "",
+      functionCalls: (response.functionCalls ?? []).map((c: any) => ({ id: c.id, name: c.name, args: c.args ?? {} })),
+      groundingChunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [],
+      model,
+      usage: response.usageMetadata
+        ? { inputTokens: response.usageMetadata.promptTokenCount ?? 0, outputTokens: response.usageMetadata.candidatesTokenCount ?? 0 }
+        : undefined
+    };
+  }
+
+  public async generate(request: LlmRequest): Promise<LlmResponse> {
+    const model = this.modelFor(request.model ?? "chat");
+    const response = await this.client.models.generateContent({ model, contents: request.contents as any, config: this.config(request) });
+    return this.toResponse(response, model);
+  }
+
+  public async *generateStream(request: LlmRequest): AsyncGenerator<LlmResponse> {
+    const model = this.modelFor(request.model ?? "chat");
+    const stream = await this.client.models.generateContentStream({ model, contents: request.contents as any, config: this.config(request) });
+    for await (const chunk of stream) yield this.toResponse(chunk, model);
+  }
+
+  public createChat(chatConfig: LlmChatConfig): LlmChatSession {
+    const model = this.modelFor(chatConfig.model ?? "chat");
+    const session = this.client.chats.create({ model, config: this.config(chatConfig) });
+    // Per-request config replaces (does not inherit) the session config
+    const requestConfig = (signal?: AbortSignal) => this.config({ ...chatConfig, signal });
+    const provider = this;
+    return {
+      async sendMessage(message, signal) {
+        return provider.toResponse(await session.sendMessage({ message: message as any, config: requestConfig(signal) }), model);
+      },
+      async *sendMessageStream(message, signal) {
+        const stream = await session.sendMessageStream({ message: message as any, config: requestConfig(signal) });
+        for await (const chunk of stream) yield provider.toResponse(chunk, model);
+      }
+    };
+  }
+
+  public async embed(text: string): Promise<number[]> {
+    const response = await this.client.models.embedContent({ model: this.modelFor("embedding"), contents: text });
+    return response.embeddings?.[0]?.values ?? [];
+  }
+
+  public async connectLive(options: LiveConnectOptions): Promise<LiveSession> {
+    return this.client.live.connect({
+      model: GEMINI_LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: options.systemInstruction,
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName ?? "Kore" } },
+        },
+        // Enable Transcription
+        inputAudioTranscription: {},
+        outputAudioTranscription: {}
+      },
+      callbacks: {
+        onopen: options.callbacks.onopen,
+        onmessage: options.callbacks.onmessage,
+        onclose: options.callbacks.onclose,
+        onerror: options.callbacks.onerror
+      }
+    }) as unknown as LiveSession;
+  }
+}
+
+// ============================================================================
+// OPENAI-COMPATIBLE (LOCAL)
+// ============================================================================
+
+/**
+ * Gemini schema (`type: "OBJECT"`) to JSON Schema (`type: "object"`)
+ */
+export function toJsonSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== "object") return schema;
+  const out: any = {};
+  for (const [key, value] of Object.entries(schema)) {
+    out[key] = key === "type" && typeof value === "string" ? value.toLowerCase() : toJsonSchema(value);
+  }
+  return out;
+}
+
+interface OpenAiMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: any;
+  tool_calls?: { id: string; type: "function"; function: { name: string; arguments: string } }[];
+  tool_call_id?: string;
+}
+
+class OpenAiCompatibleProvider implements LlmProvider {
+  public readonly id = "OPENAI_COMPATIBLE" as const;
+  public readonly label = LLM_PROVIDERS.OPENAI_COMPATIBLE;
+  public readonly capabilities = { webSearch: false, vision: true, live: false };
+
+  constructor(
+    private baseUrl: string,
+    private chatModel: string,
+    private embeddingModel: string,
+    private apiKey: string
+  ) { }
+
+  public modelFor(role: LlmModelRole): string {
+    return role === "embedding" ? this.embeddingModel : this.chatModel;
+  }
+
+  private async post(path: string, body: any, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get("Retry-After"));
+      throw new LlmHttpError(
+        `Local LLM ${path} failed: HTTP ${response.status} ${await response.text().catch(() => "")}`.trim(),
+        response.status,
+        Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+    return response;
+  }
+
+  /**
+   * Parts to OpenAI messages; function responses become `tool` messages
+   * answering the matching pending tool call
+   */
+  private toMessages(contents: string | LlmPart[], pendingCalls: LlmFunctionCall[] = []): OpenAiMessage[] {
+    if (typeof contents === "string") return [{ role: "user", content: contents }];
+
+    const messages: OpenAiMessage[] = [];
+    const userContent: any[] = [];
+    for (const part of contents) {
+      if ("functionResponse" in part) {
+        const call = pendingCalls.find(c => c.name === part.functionResponse.name);
+        messages.push({ role: "tool", tool_call_id: call?.id ?? part.functionResponse.name, content: JSON.stringify(part.functionResponse.response) });
+      } else if ("inlineData" in part) {
+        userContent.push({ type: "image_url", image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } });
+      } else {
+        userContent.push({ type: "text", text: part.text });
+      }
+    }
+    if (userContent.length > 0) {
+      const textOnly = userContent.every(c => c.type === "text");
+      messages.push({ role: "user", content: textOnly ? userContent.map(c => c.text).join("\n") : userContent });
+    }
+    return messages;
+  }
+
+  private body(request: Omit<LlmRequest, "contents">, messages: OpenAiMessage[], stream: boolean) {
+    return {
+      model: this.modelFor(request.model ?? "chat"),
+      messages: request.systemInstruction ? [{ role: "system", content: request.systemInstruction }, ...messages] : messages,
+      temperature: request.temperature,
+      stream,
+      stream_options: stream ? { include_usage: true } : undefined,
+      tools: request.tools?.length
+        ? request.tools.map(t => ({ type: "function", function: { name: t.name, description: t.description, parameters: toJsonSchema(t.parameters ?? { type: "OBJECT", properties: {} }) } }))
+        : undefined,
+      response_format: request.responseSchema
+        ? { type: "json_schema", json_schema: { name: "response", schema: toJsonSchema(request.responseSchema) } }
+        : request.json ? { type: "json_object" } : undefined
+    };
+  }
+
+  private parseCalls(toolCalls: any[] | undefined): LlmFunctionCall[] {
+    return (toolCalls ?? []).map((c: any, i: number) => {
+      let args: Record<string, any> = {};
+      try { args = c.function?.arguments ? JSON.parse(c.function.arguments) : {}; } catch { /* malformed arguments: call with none */ }
+      return { id: c.id ?? `call_${i}`, name: c.function?.name ?? "", args };
+    });
+  }
+
+  private toUsage(usage: any): LlmUsage | undefined {
+    return usage ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 } : undefined;
+  }
+
+  private async complete(request: Omit<LlmRequest, "contents">, messages: OpenAiMessage[]): Promise<{ response: LlmResponse; message: OpenAiMessage }> {
+    const res = await this.post("/chat/completions", this.body(request, messages, false), request.signal);
+    const data = await res.json();
+    const message = data.choices?.[0]?.message ?? { role: "assistant", content: "" };
+    return {
+      response: { text: message.content ?? "", functionCalls: this.parseCalls(message.tool_calls), groundingChunks: [], model: data.model ?? this.chatModel, usage: this.toUsage(data.usage) },
+      message: { role: "assistant", content: message.content ?? "", tool_calls: message.tool_calls }
+    };
+  }
+
+  /**
+   * Server-sent events; yields text deltas, then accumulated tool calls
+   */
+  private async *completeStream(request: Omit<LlmRequest, "contents">, messages: OpenAiMessage[], done?: (message: OpenAiMessage) => void): AsyncGenerator<LlmResponse> {
+    const res = await this.post("/chat/completions", this.body(request, messages, true), request.signal);
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    const model = this.modelFor(request.model ?? "chat");
+    const toolCalls: any[] = [];
+    let buffer = "";
+    let text = "";
+    let usage: LlmUsage | undefined;
+
+    while (true) {
+      const { value, done: finished } = await reader.read();
+      if (finished) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, "").trim();
+        if (!payload || payload === "[DONE]" || !line.startsWith("data:")) continue;
+        let event: any;
+        try { event = JSON.parse(payload); } catch { continue; }
+        // With include_usage the totals arrive on a final chunk without choices
+        usage = this.toUsage(event.usage) ?? usage;
+        const delta = event.choices?.[0]?.delta;
+        if (!delta) continue;
+        for (const call of delta.tool_calls ?? []) {
+          const slot = toolCalls[call.index ?? 0] ??= { id: call.id, type: "function", function: { name: "", arguments: "" } };
+          if (call.id) slot.id = call.id;
+          if (call.function?.name) slot.function.name += call.function.name;
+          if (call.function?.arguments) slot.function.arguments += call.function.arguments;
+        }
+        if (delta.content) {
+          text += delta.content;
+          yield { text: delta.content, functionCalls: [], groundingChunks: [], model };
+        }
+      }
+    }
+
+    const calls = toolCalls.filter(Boolean);
+    done?.({ role: "assistant", content: text, tool_calls: calls.length ? calls : undefined });
+    if (calls.length || usage) yield { text: "", functionCalls: this.parseCalls(calls), groundingChunks: [], model, usage };
+  }
+
+  public async generate(request: LlmRequest): Promise<LlmResponse> {
+    return (await this.complete(request, this.toMessages(request.contents))).response;
+  }
+
+  public generateStream(request: LlmRequest): AsyncGenerator<LlmResponse> {
+    return this.completeStream(request, this.toMessages(request.contents));
+  }
+
+  public createChat(config: LlmChatConfig): LlmChatSession {
+    const history: OpenAiMessage[] = [];
+    let pendingCalls: LlmFunctionCall[] = [];
+    const provider = this;
+
+    return {
+      async sendMessage(message, signal) {
+        const turn = provider.toMessages(message, pendingCalls);
+        const { response, message: reply } = await provider.complete({ ...config, signal }, [...history, ...turn]);
+        history.push(...turn, reply);
+        pendingCalls = response.functionCalls;
+        return response;
+      },
+      async *sendMessageStream(message, signal) {
+        const turn = provider.toMessages(message, pendingCalls);
+        let reply: OpenAiMessage | null = null;
+        for await (const chunk of provider.completeStream({ ...config, signal }, [...history, ...turn], m => { reply = m; })) {
+          if (chunk.functionCalls.length) pendingCalls = chunk.functionCalls;
+          yield chunk;
+        }
+        // History only records completed turns; an aborted stream never gets here
+        history.push(...turn, reply!);
+      }
+    };
+  }
+
+  public async embed(text: string): Promise<number[]> {
+    const res = await this.post("/embeddings", { model: this.embeddingModel, input: text });
+    const data = await res.json();
+    return data.data?.[0]?.embedding ?? [];
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  /** REPLAY only: serve the fixture, or record from `replaySource` into it */
+  replayMode: ReplayMode;
+  replaySource: Exclude<LlmProviderId, "REPLAY">;
+  googleApiKey: string;
+  localBaseUrl: string;
+  localModel: string;
+  localEmbeddingModel: string;
+  localApiKey: string;
+}
+
+const asProviderId = (value: string): LlmProviderId =>
+  value === "OPENAI_COMPATIBLE" || value === "REPLAY" ? value : "GEMINI";
+
+export function getLlmSettings(): LlmSettings {
+  return {
+    provider: asProviderId(getActiveKey("LLM_PROVIDER")),
+    replayMode: getActiveKey("LLM_REPLAY_MODE") === "RECORD" ? "RECORD" : "REPLAY",
+    replaySource: getActiveKey("LLM_REPLAY_SOURCE") === "OPENAI_COMPATIBLE" ? "OPENAI_COMPATIBLE" : "GEMINI",
+    googleApiKey: getActiveKey("GOOGLE_API_KEY"),
+    localBaseUrl: getActiveKey("LOCAL_LLM_BASE_URL"),
+    localModel: getActiveKey("LOCAL_LLM_MODEL"),
+    localEmbeddingModel: getActiveKey("LOCAL_LLM_EMBEDDING_MODEL"),
+    localApiKey: getActiveKey("LOCAL_LLM_API_KEY")
+  };
+}
+
+/**
+ * The configured provider, or null when it is not usable (no Gemini key, no
+ * local model name). Services call this on init and on config change with
+ * the feature they serve; Settings passes unsaved values to test a
+ * connection. Real backends go through the shared scheduler; replaying a
+ * fixture does not.
+ */
+export function createLlmProvider(settings: LlmSettings = getLlmSettings(), feature: LlmFeature = "CHAT"): LlmProvider | null {
+  if (settings.provider === "REPLAY") {
+    if (settings.replayMode === "REPLAY") return new ReplayProvider(replayFixtures.load());
+    const source = createLlmProvider({ ...settings, provider: settings.replaySource }, feature);
+    return source ? new ReplayProvider(replayFixtures.load(), source) : null;
+  }
+
+  if (settings.provider === "OPENAI_COMPATIBLE") {
+    if (!settings.localModel) return null;
+    return new ScheduledProvider(new OpenAiCompatibleProvider(
+      settings.localBaseUrl || DEFAULT_LOCAL_BASE_URL,
+      settings.localModel,
+      settings.localEmbeddingModel || settings.localModel,
+      settings.localApiKey
+    ), feature);
+  }
+
+  return settings.googleApiKey ? new ScheduledProvider(new GeminiProvider(settings.googleApiKey), feature) : null;
+}
@@ -0,0 +1,651 @@
+/**
+ * llmScheduler.ts
+ *
+ * Shared LLM Request Scheduler & Token Budget
+ *
+ * Chat, consensus, agents, embeddings and voice all call the same model
+ * account. Every request from a real backend queues here, so one rate limit
+ * and one daily budget cover all of them, and an operator's question is
+ * never stuck behind a batch of background embeddings.
+ *
+ * Features:
+ * - Priority classes: operator (chat, voice, analyses) > safety (consensus)
+ *   > background agents > embeddings; part of the request bucket is kept
+ *   free for the first two
+ * - Token buckets for requests/minute and tokens/minute
+ * - Exponential backoff on 429/503, honouring Retry-After / retryDelay, with
+ *   automatic retry of the failed request
+ * - Daily token and cost budgets; once spent, background agents and
+ *   embeddings are refused while operator and safety traffic continues
+ * - Usage ledger per day and feature (requests, tokens, cost, errors,
+ *   throttling) for the Governance usage dashboard
+ */
+
+import type {
+  LiveConnectOptions, LiveSession, LlmChatConfig, LlmChatSession, LlmFeature, LlmModelRole,
+  LlmPart, LlmProvider, LlmProviderId, LlmRequest, LlmResponse, LlmUsage
+} from './llmProvider';
+import { notificationService } from './notificationService';
+import { auditService } from './auditService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LlmPriority = 'OPERATOR' | 'SAFETY' | 'BACKGROUND' | 'EMBEDDING';
+
+export const LLM_PRIORITIES: LlmPriority[] = ['OPERATOR', 'SAFETY', 'BACKGROUND', 'EMBEDDING'];
+
+export const FEATURE_PRIORITY: Record<LlmFeature, LlmPriority> = {
+  CHAT: 'OPERATOR',
+  LIVE_VOICE: 'OPERATOR',
+  ANALYSIS: 'OPERATOR',
+  CONSENSUS: 'SAFETY',
+  AGENTS: 'BACKGROUND',
+  EMBEDDINGS: 'EMBEDDING'
+};
+
+export const LLM_FEATURE_LABELS: Record<LlmFeature, string> = {
+  CHAT: 'Operator chat',
+  LIVE_VOICE: 'Voice mode',
+  ANALYSIS: 'Reports & analyses',
+  CONSENSUS: 'Consensus safety check',
+  AGENTS: 'Agent swarm',
+  EMBEDDINGS: 'Embeddings'
+};
+
+export interface SchedulerPolicy {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  maxConcurrent: number;
+  /** Share of the request bucket only operator and safety traffic may use, 0-1 */
+  operatorReserve: number;
+  /** 0 = unlimited */
+  dailyTokenBudget: number;
+  /** 0 = unlimited */
+  dailyCostBudgetUsd: number;
+  /** Retries of a rate-limited request before giving up */
+  maxRetries: number;
+}
+
+export interface FeatureUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  errors: number;
+  /** Requests that waited for the rate limit or a backoff */
+  throttled: number;
+  /** Requests refused because the daily budget was spent */
+  rejected: number;
+}
+
+export interface DailyUsage {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+  features: Partial<Record<LlmFeature, FeatureUsage>>;
+}
+
+export interface SchedulerSnapshot {
+  queued: Record<LlmPriority, number>;
+  inFlight: number;
+  /** Epoch ms until which nothing is dispatched; null when not backing off */
+  backoffUntil: number | null;
+  budgetExhausted: boolean;
+  today: DailyUsage;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public readonly feature: LlmFeature) {
+    super(`Daily LLM budget spent; ${LLM_FEATURE_LABELS[feature]} paused until midnight`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+interface Job {
+  seq: number;
+  feature: LlmFeature;
+  priority: LlmPriority;
+  estimate: number;
+  throttled: boolean;
+  signal?: AbortSignal;
+  grant: () => void;
+  deny: (error: unknown) => void;
+}
+
+interface Outcome {
+  provider?: LlmProviderId;
+  model?: string;
+  usage?: LlmUsage;
+  /** Output size when the backend reports no usage */
+  outputChars?: number;
+  estimate: number;
+  error?: unknown;
+  aborted?: boolean;
+}
+
+const POLICY_STORAGE_KEY = 'LLM_SCHEDULER_POLICY';
+const LEDGER_STORAGE_KEY = 'LLM_USAGE_LEDGER';
+const LEDGER_DAYS = 30;
+const DEFAULT_POLICY: SchedulerPolicy = {
+  requestsPerMinute: 60,
+  tokensPerMinute: 1000000,
+  maxConcurrent: 4,
+  operatorReserve: 0.25,
+  dailyTokenBudget: 5000000,
+  dailyCostBudgetUsd: 25,
+  maxRetries: 3
+};
+
+// Rates and concurrency below 1 would stall the queue: pump() never releases a request
+const POLICY_MIN: Record<keyof SchedulerPolicy, number> = {
+  requestsPerMinute: 1,
+  tokensPerMinute: 1,
+  maxConcurrent: 1,
+  operatorReserve: 0,
+  dailyTokenBudget: 0,
+  dailyCostBudgetUsd: 0,
+  maxRetries: 0
+};
+
+/**
+ * Clamp a policy into its working range; missing or non-numeric fields take the default
+ */
+function normalizePolicy(policy: Partial<SchedulerPolicy>): SchedulerPolicy {
+  const normalized = { ...DEFAULT_POLICY };
+  (Object.keys(POLICY_MIN) as (keyof SchedulerPolicy)[]).forEach(key => {
+    const value = Number(policy[key]);
+    if (Number.isFinite(value)) normalized[key] = Math.max(POLICY_MIN[key], value);
+  });
+  normalized.operatorReserve = Math.min(1, normalized.operatorReserve);
+  return normalized;
+}
+
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 60000;
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+
+// List prices, USD per 1M tokens (input / output). Local and replayed models
+// cost nothing; Gemini models not listed are counted at zero.
+const GEMINI_PRICING: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gemini-3-pro', input: 2.0, output: 12.0 },
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10.0 },
+  { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5 }
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const emptyUsage = (): FeatureUsage => ({ requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, errors: 0, throttled: 0, rejected: 0 });
+
+const localDate = (time = Date.now()) => new Date(time).toLocaleDateString('en-CA');
+
+export function costUsd(provider: LlmProviderId | undefined, model: string | undefined, usage: LlmUsage): number {
+  if (provider !== 'GEMINI' || !model) return 0;
+  const price = GEMINI_PRICING.find(p => model.startsWith(p.prefix));
+  return price ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1e6 : 0;
+}
+
+/** Rough prompt size before the backend reports real usage */
+export function estimateTokens(contents: string | LlmPart[], systemInstruction = ''): number {
+  const parts = typeof contents === 'string' ? [{ text: contents }] : contents;
+  let chars = systemInstruction.length;
+  let images = 0;
+  for (const part of parts) {
+    if ('text' in part) chars += part.text.length;
+    else if ('inlineData' in part) images++;
+    else chars += JSON.stringify(part.functionResponse.response ?? {}).length;
+  }
+  return Math.ceil(chars / CHARS_PER_TOKEN) + images * IMAGE_TOKENS;
+}
+
+/**
+ * Whether an error is the backend shedding load, and how long it asked us
+ * to wait (Retry-After header, or Gemini's "retryDelay": "31s")
+ */
+export function rateLimitInfo(error: unknown): { limited: boolean; retryAfterMs?: number } {
+  const e = error as any;
+  const message = String(e?.message ?? '');
+  const status = typeof e?.status === 'number' ? e.status : Number(message.match(/\b(429|503)\b/)?.[1] ?? 0);
+  const limited = status === 429 || status === 503 || /RESOURCE_EXHAUSTED/.test(message);
+  if (!limited) return { limited };
+  const delay = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/) ?? message.match(/retry in (\d+(?:\.\d+)?)s/i);
+  return { limited, retryAfterMs: e?.retryAfterMs ?? (delay ? Number(delay[1]) * 1000 : undefined) };
+}
+
+class TokenBucket {
+  private tokens: number;
+  private last = Date.now();
+
+  constructor(private capacity: number, private perMinute: number) {
+    this.tokens = capacity;
+  }
+
+  public available(): number {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.last) * this.perMinute) / 60000);
+    this.last = now;
+    return this.tokens;
+  }
+
+  /** May go negative: actual usage above the estimate is paid back over time */
+  public take(amount: number): void {
+    this.available();
+    this.tokens -= amount;
+  }
+
+  public msUntil(amount: number): number {
+    const missing = Math.min(amount, this.capacity) - this.available();
+    return missing <= 0 ? 0 : Math.ceil((missing * 60000) / this.perMinute);
+  }
+
+  public get size(): number {
+    return this.capacity;
+  }
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+class LlmScheduler {
+  private policy: SchedulerPolicy = this.getPolicy();
+  private requestBucket = new TokenBucket(this.policy.requestsPerMinute, this.policy.requestsPerMinute);
+  private tokenBucket = new TokenBucket(this.policy.tokensPerMinute, this.policy.tokensPerMinute);
+  private queue: Job[] = [];
+  private inFlight = 0;
+  private nextSeq = 0;
+  private backoffUntil = 0;
+  private consecutiveLimits = 0;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private ledger: DailyUsage[] = this.loadLedger();
+  private budgetNoticeDate: string | null = null;
+  private listeners: ((snapshot: SchedulerSnapshot) => void)[] = [];
+
+  // --- POLICY ---
+
+  public getPolicy(): SchedulerPolicy {
+    try {
+      return normalizePolicy(JSON.parse(localStorage.getItem(POLICY_STORAGE_KEY) || '{}'));
+    } catch (e) {
+      return DEFAULT_POLICY;
+    }
+  }
+
+  /**
+   * Apply new limits. Throws for a non-numeric field; out-of-range values are
+   * clamped (rates and concurrency at least 1, operator reserve 0-1).
+   * Returns the policy as applied.
+   */
+  public setPolicy(requested: SchedulerPolicy, operatorId: string): SchedulerPolicy {
+    const invalid = (Object.keys(POLICY_MIN) as (keyof SchedulerPolicy)[]).filter(key => !Number.isFinite(Number(requested[key])));
+    if (invalid.length > 0) throw new Error(`Invalid LLM limit: ${invalid.join(', ')}`);
+
+    const policy = normalizePolicy(requested);
+    localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+    this.policy = policy;
+    this.requestBucket = new TokenBucket(policy.requestsPerMinute, policy.requestsPerMinute);
+    this.tokenBucket = new TokenBucket(policy.tokensPerMinute, policy.tokensPerMinute);
+    auditService.log({
+      operatorId,
+      eventType: 'CONFIG_CHANGE',
+      resource: 'LLM_SCHEDULER',
+      details: `LLM limits set to ${policy.requestsPerMinute} req/min, ${policy.tokensPerMinute} tokens/min; daily budget ${policy.dailyTokenBudget || 'unlimited'} tokens / $${policy.dailyCostBudgetUsd || 'unlimited'}`,
+      metadata: { ...policy }
+    });
+    this.pump();
+    return policy;
+  }
+
+  // --- USAGE ---
+
+  private loadLedger(): DailyUsage[] {
+    try {
+      return JSON.parse(localStorage.getItem(LEDGER_STORAGE_KEY) || '[]');
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private usageFor(feature: LlmFeature): FeatureUsage {
+    const date = localDate();
+    let day = this.ledger.find(d => d.date === date);
+    if (!day) {
+      day = { date, features: {} };
+      this.ledger = [...this.ledger, day].slice(-LEDGER_DAYS);
+    }
+    return day.features[feature] ??= emptyUsage();
+  }
+
+  private saveLedger(): void {
+    localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(this.ledger));
+  }
+
+  /** Most recent `days` days, oldest first; days without traffic are included empty */
+  public getUsage(days = 7): DailyUsage[] {
+    const result: DailyUsage[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      const date = localDate(Date.now() - i * 86400000);
+      result.push(this.ledger.find(d => d.date === date) ?? { date, features: {} });
+    }
+    return result;
+  }
+
+  private todayTotals(): { tokens: number; costUsd: number } {
+    const today = this.ledger.find(d => d.date === localDate());
+    return Object.values(today?.features ?? {}).reduce(
+      (sum, u) => ({ tokens: sum.tokens + u.inputTokens + u.outputTokens, costUsd: sum.costUsd + u.costUsd }),
+      { tokens: 0, costUsd: 0 }
+    );
+  }
+
+  public isBudgetExhausted(): boolean {
+    const { tokens, costUsd: spent } = this.todayTotals();
+    return (this.policy.dailyTokenBudget > 0 && tokens >= this.policy.dailyTokenBudget)
+      || (this.policy.dailyCostBudgetUsd > 0 && spent >= this.policy.dailyCostBudgetUsd);
+  }
+
+  // --- STATE BROADCASTING ---
+
+  public getSnapshot(): SchedulerSnapshot {
+    const queued = Object.fromEntries(LLM_PRIORITIES.map(p => [p, 0])) as Record<LlmPriority, number>;
+    this.queue.forEach(job => queued[job.priority]++);
+    return {
+      queued,
+      inFlight: this.inFlight,
+      backoffUntil: this.backoffUntil > Date.now() ? this.backoffUntil : null,
+      budgetExhausted: this.isBudgetExhausted(),
+      today: this.getUsage(1)[0]
+    };
+  }
+
+  public subscribe(listener: (snapshot: SchedulerSnapshot) => void): () => void {
+    this.listeners.push(listener);
+    listener(this.getSnapshot());
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private emit(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(l => l(snapshot));
+  }
+
+  // --- DISPATCH ---
+
+  private wake(at: number): void {
+    if (this.wakeTimer) clearTimeout(this.wakeTimer);
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.pump();
+    }, Math.max(0, at - Date.now()));
+  }
+
+  private pump(): void {
+    const rank = (p: LlmPriority) => LLM_PRIORITIES.indexOf(p);
+    this.queue.sort((a, b) => rank(a.priority) - rank(b.priority) || a.seq - b.seq);
+
+    while (this.queue.length > 0 && this.inFlight < this.policy.maxConcurrent) {
+      const now = Date.now();
+      if (this.backoffUntil > now) {
+        this.queue.forEach(job => { job.throttled = true; });
+        this.wake(this.backoffUntil);
+        break;
+      }
+
+      const job = this.queue[0];
+      const lowPriority = job.priority === 'BACKGROUND' || job.priority === 'EMBEDDING';
+      if (lowPriority && this.isBudgetExhausted()) {
+        this.queue.shift();
+        this.usageFor(job.feature).rejected++;
+        this.saveLedger();
+        this.noticeBudget();
+        job.deny(new BudgetExceededError(job.feature));
+        continue;
+      }
+
+      // Low-priority work leaves the reserved share of the request bucket alone
+      const requestsNeeded = 1 + (lowPriority ? this.policy.operatorReserve * this.requestBucket.size : 0);
+      const wait = Math.max(this.requestBucket.msUntil(requestsNeeded), this.tokenBucket.msUntil(job.estimate));
+      if (wait > 0) {
+        job.throttled = true;
+        this.wake(now + wait);
+        break;
+      }
+
+      this.queue.shift();
+      this.requestBucket.take(1);
+      this.tokenBucket.take(job.estimate);
+      this.inFlight++;
+      job.grant();
+    }
+    this.emit();
+  }
+
+  private noticeBudget(): void {
+    const today = localDate();
+    if (this.budgetNoticeDate === today) return;
+    this.budgetNoticeDate = today;
+    const { tokens, costUsd: spent } = this.todayTotals();
+    notificationService.warning('LLM Budget Reached', 'Background agents and embeddings are paused until midnight. Operator chat and safety checks continue.');
+    auditService.log({
+      operatorId: 'SYSTEM',
+      eventType: 'ALERT_TRIGGERED',
+      resource: 'LLM_SCHEDULER',
+      details: `Daily LLM budget reached (${tokens} tokens, $${spent.toFixed(2)}); background traffic paused`,
+      metadata: { tokens, costUsd: spent, policy: { ...this.policy } }
+    });
+  }
+
+  private acquire(feature: LlmFeature, estimate: number, seq: number, signal?: AbortSignal): Promise<Job> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      const job: Job = {
+        seq, feature, estimate, signal,
+        priority: FEATURE_PRIORITY[feature],
+        throttled: false,
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(job);
+        },
+        deny: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      const onAbort = () => {
+        this.queue = this.queue.filter(j => j !== job);
+        job.deny(signal!.reason);
+        this.emit();
+      };
+      signal?.addEventListener('abort', onAbort);
+      this.queue.push(job);
+      this.pump();
+    });
+  }
+
+  /**
+   * Account for a finished request. Returns true when it was rate-limited and
+   * should be retried (after the backoff this sets).
+   */
+  private release(job: Job, outcome: Outcome): boolean {
+    this.inFlight--;
+    const usage = this.usageFor(job.feature);
+    if (job.throttled) usage.throttled++;
+    job.throttled = false;
+
+    const limit = outcome.error && !outcome.aborted ? rateLimitInfo(outcome.error) : { limited: false };
+    if (limit.limited) {
+      this.consecutiveLimits++;
+      const backoff = limit.retryAfterMs
+        ?? Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (this.consecutiveLimits - 1)) * (1 + Math.random() * 0.2);
+      if (this.backoffUntil <= Date.now()) {
+        notificationService.warning('LLM Rate Limit', `Provider asked us to slow down. Pausing model traffic for ${Math.ceil(backoff / 1000)}s.`);
+      }
+      this.backoffUntil = Math.max(this.backoffUntil, Date.now() + backoff);
+      this.wake(this.backoffUntil); // Broadcast the end of the backoff even if nothing is queued
+    } else if (outcome.error && !outcome.aborted) {
+      usage.errors++;
+    } else {
+      this.consecutiveLimits = 0;
+      const actual: LlmUsage = outcome.usage ?? {
+        inputTokens: outcome.estimate,
+        outputTokens: Math.ceil((outcome.outputChars ?? 0) / CHARS_PER_TOKEN)
+      };
+      usage.requests++;
+      usage.inputTokens += actual.inputTokens;
+      usage.outputTokens += actual.outputTokens;
+      usage.costUsd += costUsd(outcome.provider, outcome.model, actual);
+      this.tokenBucket.take(actual.inputTokens + actual.outputTokens - outcome.estimate);
+    }
+
+    this.saveLedger();
+    this.pump();
+    return limit.limited;
+  }
+
+  /**
+   * Run one request in its priority class, retrying after rate-limit backoff
+   */
+  public async run<T>(
+    feature: LlmFeature,
+    estimate: number,
+    task: () => Promise<T>,
+    describe: (result: T) => Omit<Outcome, 'estimate'>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const seq = this.nextSeq++;
+    for (let attempt = 0; ; attempt++) {
+      const job = await this.acquire(feature, estimate, seq, signal);
+      let result: T;
+      try {
+        result = await task();
+      } catch (e) {
+        const retry = this.release(job, { estimate, error: e, aborted: signal?.aborted });
+        if (!retry || attempt >= this.policy.maxRetries || signal?.aborted) throw e;
+        continue;
+      }
+      this.release(job, { ...describe(result), estimate });
+      return result;
+    }
+  }
+
+  /**
+   * Streamed variant: holds its slot until the stream ends. Only a failure
+   * before the first chunk is retried.
+   */
+  public async *runStream(
+    feature: LlmFeature,
+    estimate: number,
+    open: () => AsyncGenerator<LlmResponse>,
+    provider: LlmProviderId,
+    signal?: AbortSignal
+  ): AsyncGenerator<LlmResponse> {
+    const seq = this.nextSeq++;
+    for (let attempt = 0; ; attempt++) {
+      const job = await this.acquire(feature, estimate, seq, signal);
+      let released = false;
+      let started = false;
+      let outputChars = 0;
+      let usage: LlmUsage | undefined;
+      let model: string | undefined;
+      const finish = (outcome: Omit<Outcome, 'estimate'>) => {
+        released = true;
+        return this.release(job, { ...outcome, estimate });
+      };
+
+      try {
+        for await (const chunk of open()) {
+          started = true;
+          outputChars += chunk.text.length;
+          usage = chunk.usage ?? usage;
+          model = chunk.model;
+          yield chunk;
+        }
+        finish({ provider, model, usage, outputChars });
+        return;
+      } catch (e) {
+        const retry = finish({ provider, model, usage, outputChars, error: e, aborted: signal?.aborted });
+        if (started || !retry || attempt >= this.policy.maxRetries || signal?.aborted) throw e;
+      } finally {
+        // Consumer stopped reading early: count what was streamed
+        if (!released) finish({ provider, model, usage, outputChars });
+      }
+    }
+  }
+}
+
+export const llmScheduler = new LlmScheduler();
+
+// ============================================================================
+// PROVIDER WRAPPER
+// ============================================================================
+
+/**
+ * Routes a backend's calls through the scheduler; requests without a
+ * `feature` are billed to the one the provider was created for
+ */
+export class ScheduledProvider implements LlmProvider {
+  public readonly connectLive?: (options: LiveConnectOptions) => Promise<LiveSession>;
+
+  constructor(private inner: LlmProvider, private feature: LlmFeature) {
+    if (inner.connectLive) {
+      this.connectLive = (options) => llmScheduler.run('LIVE_VOICE', 0, () => inner.connectLive!(options), () => ({ provider: inner.id }));
+    }
+  }
+
+  public get id(): LlmProviderId { return this.inner.id; }
+  public get label(): string { return this.inner.label; }
+  public get capabilities() { return this.inner.capabilities; }
+
+  public modelFor(role: LlmModelRole): string {
+    return this.inner.modelFor(role);
+  }
+
+  private describe = (response: LlmResponse) => ({
+    provider: this.inner.id,
+    model: response.model,
+    usage: response.usage,
+    outputChars: response.text.length
+  });
+
+  public generate(request: LlmRequest): Promise<LlmResponse> {
+    return llmScheduler.run(request.feature ?? this.feature, estimateTokens(request.contents, request.systemInstruction),
+      () => this.inner.generate(request), this.describe, request.signal);
+  }
+
+  public generateStream(request: LlmRequest): AsyncGenerator<LlmResponse> {
+    return llmScheduler.runStream(request.feature ?? this.feature, estimateTokens(request.contents, request.systemInstruction),
+      () => this.inner.generateStream(request), this.inner.id, request.signal);
+  }
+
+  public createChat(config: LlmChatConfig): LlmChatSession {
+    const session = this.inner.createChat(config);
+    const feature = config.feature ?? this.feature;
+    // The backend resends the whole history each turn; estimate grows with it
+    let historyTokens = estimateTokens('', config.systemInstruction);
+    const provider = this;
+    return {
+      async sendMessage(message, signal) {
+        historyTokens += estimateTokens(message);
+        const response = await llmScheduler.run(feature, historyTokens, () => session.sendMessage(message, signal), provider.describe, signal);
+        historyTokens += Math.ceil(response.text.length / CHARS_PER_TOKEN);
+        return response;
+      },
+      async *sendMessageStream(message, signal) {
+        historyTokens += estimateTokens(message);
+        for await (const chunk of llmScheduler.runStream(feature, historyTokens, () => session.sendMessageStream(message, signal), provider.inner.id, signal)) {
+          historyTokens += Math.ceil(chunk.text.length / CHARS_PER_TOKEN);
+          yield chunk;
+        }
+      }
+    };
+  }
+
+  public embed(text: string): Promise<number[]> {
+    return llmScheduler.run('EMBEDDINGS', estimateTokens(text), () => this.inner.embed(text), () => ({ provider: this.inner.id, model: this.inner.modelFor('embedding') }));
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { solveLP } from './lpSolver';
+
+describe('solveLP', () => {
+    it('dispatches the merit order to meet load and prices the balance constraint', () => {
+        const solution = solveLP({
+            variables: [
+                { id: 'GAS_CC', cost: 10, upper: 100 },
+                { id: 'GAS_CT', cost: 20, upper: 100 },
+                { id: 'PEAKER', cost: 30, upper: 100 }
+            ],
+            constraints: [
+                { id: 'BALANCE', coeffs: { GAS_CC: 1, GAS_CT: 1, PEAKER: 1 }, sense: '=', rhs: 250 }
+            ]
+        });
+
+        expect(solution.status).toBe('OPTIMAL');
+        expect(solution.values.GAS_CC).toBeCloseTo(100);
+        expect(solution.values.GAS_CT).toBeCloseTo(100);
+        expect(solution.values.PEAKER).toBeCloseTo(50);
+        expect(solution.objective).toBeCloseTo(4500);
+        // Marginal unit sets the price of one more MW of load
+        expect(solution.duals.BALANCE).toBeCloseTo(30);
+    });
+
+    it('honours lower bounds and >= rows', () => {
+        const solution = solveLP({
+            variables: [
+                { id: 'NUKE', cost: 5, lower: 80, upper: 100 },
+                { id: 'WIND', cost: 0, upper: 30 },
+                { id: 'GAS', cost: 25, upper: 200 }
+            ],
+            constraints: [
+                { id: 'BALANCE', coeffs: { NUKE: 1, WIND: 1, GAS: 1 }, sense: '=', rhs: 150 },
+                { id: 'MIN_GAS', coeffs: { GAS: 1 }, sense: '>=', rhs: 40 }
+            ]
+        });
+
+        expect(solution.status).toBe('OPTIMAL');
+        expect(solution.values.NUKE).toBeCloseTo(80);
+        expect(solution.values.WIND).toBeCloseTo(30);
+        expect(solution.values.GAS).toBeCloseTo(40);
+        expect(solution.objective).toBeCloseTo(80 * 5 + 40 * 25);
+    });
+
+    it('reports an infeasible problem when capacity cannot meet load', () => {
+        const solution = solveLP({
+            variables: [
+                { id: 'A', cost: 10, upper: 50 },
+                { id: 'B', cost: 20, upper: 50 }
+            ],
+            constraints: [
+                { id: 'BALANCE', coeffs: { A: 1, B: 1 }, sense: '=', rhs: 150 }
+            ]
+        });
+
+        expect(solution.status).toBe('INFEASIBLE');
+    });
+
+    it('reports an unbounded problem when the objective can fall without limit', () => {
+        const solution = solveLP({
+            variables: [
+                { id: 'EXPORT', cost: -5 },
+                { id: 'GEN', cost: 1 }
+            ],
+            constraints: [
+                { id: 'NET', coeffs: { GEN: 1, EXPORT: -1 }, sense: '<=', rhs: 10 }
+            ]
+        });
+
+        expect(solution.status).toBe('UNBOUNDED');
+    });
+});
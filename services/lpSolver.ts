@@ -0,0 +1,273 @@
+/**
+ * lpSolver.ts
+ *
+ * Dense Linear Programming Solver (Two-Phase Primal Simplex)
+ *
+ * Small, dependency-free LP engine behind the SCED dispatch optimizer.
+ *
+ * Features:
+ * - Minimizes c·x subject to <=, >= and = rows plus per-variable bounds
+ * - Two-phase simplex (artificial variables are driven out before phase 2)
+ * - Returns primal values, constraint duals (shadow prices) and reduced costs
+ * - Dantzig pricing with Bland's rule after degenerate pivots (anti-cycling)
+ *
+ * Sized for dispatch problems (tens to a few hundred variables), not general use.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ConstraintSense = '<=' | '>=' | '=';
+
+export interface LPVariable {
+    id: string;
+    cost: number;
+    lower?: number; // Default 0
+    upper?: number; // Default +Infinity
+}
+
+export interface LPConstraint {
+    id: string;
+    coeffs: Record<string, number>;
+    sense: ConstraintSense;
+    rhs: number;
+}
+
+export interface LPProblem {
+    variables: LPVariable[];
+    constraints: LPConstraint[];
+}
+
+export interface LPSolution {
+    status: 'OPTIMAL' | 'INFEASIBLE' | 'UNBOUNDED' | 'ITERATION_LIMIT';
+    objective: number;
+    values: Record<string, number>;
+    duals: Record<string, number>;        // ∂objective/∂rhs for each constraint id
+    boundDuals: Record<string, number>;   // ∂objective/∂upper for each bounded variable id
+    reducedCosts: Record<string, number>;
+    iterations: number;
+}
+
+// ============================================================================
+// TABLEAU HELPERS
+// ============================================================================
+
+const EPS = 1e-9;
+
+interface Row {
+    id: string;
+    coeffs: Float64Array;
+    sense: ConstraintSense;
+    rhs: number;
+    sign: 1 | -1; // -1 when the row was negated to make rhs >= 0
+    isBound: boolean;
+}
+
+function pivot(tableau: Float64Array[], pivotRow: number, pivotCol: number) {
+    const prow = tableau[pivotRow];
+    const pv = prow[pivotCol];
+    for (let j = 0; j < prow.length; j++) prow[j] /= pv;
+
+    for (let i = 0; i < tableau.length; i++) {
+        if (i === pivotRow) continue;
+        const row = tableau[i];
+        const factor = row[pivotCol];
+        if (factor === 0) continue;
+        for (let j = 0; j < row.length; j++) row[j] -= factor * prow[j];
+    }
+}
+
+/**
+ * Run simplex iterations on a tableau whose last row holds reduced costs
+ * and whose last column holds the basic solution values.
+ */
+function runSimplex(
+    tableau: Float64Array[],
+    basis: number[],
+    canEnter: (col: number) => boolean,
+    maxIterations: number
+): { status: 'OPTIMAL' | 'UNBOUNDED' | 'ITERATION_LIMIT'; iterations: number } {
+    const m = basis.length;
+    const obj = tableau[m];
+    const rhsCol = obj.length - 1;
+    let useBland = false;
+
+    for (let iter = 0; iter < maxIterations; iter++) {
+        // Pricing: most negative reduced cost, or first negative under Bland's rule
+        let enter = -1;
+        let best = -EPS;
+        for (let j = 0; j < rhsCol; j++) {
+            if (!canEnter(j) || obj[j] >= -EPS) continue;
+            if (useBland) { enter = j; break; }
+            if (obj[j] < best) { best = obj[j]; enter = j; }
+        }
+        if (enter === -1) return { status: 'OPTIMAL', iterations: iter };
+
+        // Ratio test (ties broken by lowest basic column index)
+        let leave = -1;
+        let minRatio = Infinity;
+        for (let i = 0; i < m; i++) {
+            const a = tableau[i][enter];
+            if (a <= EPS) continue;
+            const ratio = tableau[i][rhsCol] / a;
+            if (ratio < minRatio - EPS || (Math.abs(ratio - minRatio) <= EPS && basis[i] < basis[leave])) {
+                minRatio = ratio;
+                leave = i;
+            }
+        }
+        if (leave === -1) return { status: 'UNBOUNDED', iterations: iter };
+
+        useBland = minRatio <= EPS;
+        pivot(tableau, leave, enter);
+        basis[leave] = enter;
+    }
+
+    return { status: 'ITERATION_LIMIT', iterations: maxIterations };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Solve a minimization LP.
+ *
+ * Variables with a finite `upper` get an internal bound row so their shadow
+ * price is reported in `boundDuals`. Lower bounds are handled by shifting.
+ */
+export function solveLP(problem: LPProblem, maxIterations = 10000): LPSolution {
+    const { variables, constraints } = problem;
+    const n = variables.length;
+    const index = new Map(variables.map((v, i) => [v.id, i]));
+    const lower = variables.map(v => v.lower ?? 0);
+
+    const empty = (status: LPSolution['status']): LPSolution => ({
+        status, objective: NaN, values: {}, duals: {}, boundDuals: {}, reducedCosts: {}, iterations: 0
+    });
+
+    // --- Build rows (shifted so that every structural variable starts at 0) ---
+    const rows: Row[] = [];
+    for (const c of constraints) {
+        const coeffs = new Float64Array(n);
+        let rhs = c.rhs;
+        for (const [id, a] of Object.entries(c.coeffs)) {
+            const j = index.get(id);
+            if (j === undefined) throw new Error(`LP constraint ${c.id} references unknown variable ${id}`);
+            coeffs[j] += a;
+            rhs -= a * lower[j];
+        }
+        rows.push({ id: c.id, coeffs, sense: c.sense, rhs, sign: 1, isBound: false });
+    }
+    variables.forEach((v, j) => {
+        if (v.upper === undefined || !isFinite(v.upper)) return;
+        if (v.upper < lower[j] - EPS) return;
+        const coeffs = new Float64Array(n);
+        coeffs[j] = 1;
+        rows.push({ id: v.id, coeffs, sense: '<=', rhs: v.upper - lower[j], sign: 1, isBound: true });
+    });
+    if (variables.some((v, j) => v.upper !== undefined && v.upper < lower[j] - EPS)) {
+        return empty('INFEASIBLE');
+    }
+
+    // Normalize to rhs >= 0
+    for (const row of rows) {
+        if (row.rhs < 0) {
+            row.coeffs = row.coeffs.map(a => -a);
+            row.rhs = -row.rhs;
+            row.sign = -1;
+            row.sense = row.sense === '<=' ? '>=' : row.sense === '>=' ? '<=' : '=';
+        }
+    }
+
+    // --- Column layout: structural | slack/surplus | artificial | rhs ---
+    const m = rows.length;
+    const slackCol: number[] = [];
+    const artCol: number[] = [];
+    let col = n;
+    for (const row of rows) { slackCol.push(row.sense === '=' ? -1 : col++); }
+    const firstArtificial = col;
+    for (const row of rows) { artCol.push(row.sense === '<=' ? -1 : col++); }
+    const totalCols = col;
+
+    const tableau: Float64Array[] = [];
+    const basis: number[] = [];
+    rows.forEach((row, i) => {
+        const t = new Float64Array(totalCols + 1);
+        t.set(row.coeffs, 0);
+        if (slackCol[i] >= 0) t[slackCol[i]] = row.sense === '<=' ? 1 : -1;
+        if (artCol[i] >= 0) t[artCol[i]] = 1;
+        t[totalCols] = row.rhs;
+        tableau.push(t);
+        basis.push(row.sense === '<=' ? slackCol[i] : artCol[i]);
+    });
+
+    // --- Phase 1: minimize the sum of artificials ---
+    const phase1 = new Float64Array(totalCols + 1);
+    rows.forEach((_, i) => {
+        if (artCol[i] < 0) return;
+        for (let j = 0; j <= totalCols; j++) {
+            if (j >= firstArtificial && j < totalCols) continue;
+            phase1[j] -= tableau[i][j];
+        }
+    });
+    tableau.push(phase1);
+
+    const p1 = runSimplex(tableau, basis, () => true, maxIterations);
+    let iterations = p1.iterations;
+    if (p1.status === 'ITERATION_LIMIT') return { ...empty('ITERATION_LIMIT'), iterations };
+    if (-phase1[totalCols] > 1e-6) return { ...empty('INFEASIBLE'), iterations };
+
+    // Drive zero-valued artificials out of the basis where possible
+    for (let i = 0; i < m; i++) {
+        if (basis[i] < firstArtificial) continue;
+        for (let j = 0; j < firstArtificial; j++) {
+            if (Math.abs(tableau[i][j]) > EPS) {
+                pivot(tableau, i, j);
+                basis[i] = j;
+                break;
+            }
+        }
+    }
+
+    // --- Phase 2: original costs ---
+    const costs = new Float64Array(totalCols);
+    variables.forEach((v, j) => { costs[j] = v.cost; });
+    const phase2 = new Float64Array(totalCols + 1);
+    phase2.set(costs, 0);
+    basis.forEach((b, i) => {
+        const cb = costs[b];
+        if (cb === 0) return;
+        for (let j = 0; j <= totalCols; j++) phase2[j] -= cb * tableau[i][j];
+    });
+    tableau[m] = phase2;
+
+    const p2 = runSimplex(tableau, basis, j => j < firstArtificial, maxIterations - iterations);
+    iterations += p2.iterations;
+    if (p2.status !== 'OPTIMAL') return { ...empty(p2.status), iterations };
+
+    // --- Extract solution ---
+    const shifted = new Float64Array(totalCols);
+    basis.forEach((b, i) => { shifted[b] = tableau[i][totalCols]; });
+
+    const values: Record<string, number> = {};
+    const reducedCosts: Record<string, number> = {};
+    let objective = 0;
+    variables.forEach((v, j) => {
+        values[v.id] = lower[j] + shifted[j];
+        reducedCosts[v.id] = phase2[j];
+        objective += v.cost * values[v.id];
+    });
+
+    // Row dual y_i = c_u - r_u where u is the row's unit column (slack or artificial)
+    const duals: Record<string, number> = {};
+    const boundDuals: Record<string, number> = {};
+    rows.forEach((row, i) => {
+        const y = row.sense === '<=' ? -phase2[slackCol[i]] : -phase2[artCol[i]];
+        const dual = row.sign * y;
+        if (row.isBound) boundDuals[row.id] = dual;
+        else duals[row.id] = dual;
+    });
+
+    return { status: 'OPTIMAL', objective, values, duals, boundDuals, reducedCosts, iterations };
+}
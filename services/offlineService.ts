@@ -14,6 +14,7 @@
 
 import { notificationService } from './notificationService';
 import { auditService } from './auditService';
+import { sessionService } from './sessionService';
 
 // ============================================================================
 // TYPES
@@ -189,7 +190,7 @@ class OfflineService {
         notificationService.info('Air-Gapped Mode', 'System now operating in isolated mode');
 
         auditService.log({
-            operatorId: 'OPERATOR',
+            operatorId: sessionService.getOperatorId(),
             eventType: 'CONFIG_CHANGE',
             resource: 'SECURITY',
             details: 'Air-gapped mode enabled'
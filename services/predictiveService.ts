@@ -287,12 +287,7 @@ class PredictiveService {
             const currentHour = new Date().getHours();
 
             // Calculate risk for each corridor using DYNAMIC parameters
-            const risks: CorridorRisk[] = CORRIDORS.map(corridor => {
-                return this.computeCorridorRisk(corridor, systemLoadMW, maxTemp, currentHour);
-            });
-
-            // Sort by risk score descending
-            risks.sort((a, b) => b.riskScore - a.riskScore);
+            const risks = this.assessCorridors(systemLoadMW, maxTemp, currentHour);
 
             // Generate alerts for high-risk corridors
             this.generateAlerts(risks, systemLoadMW, maxTemp);
@@ -308,6 +303,16 @@ class PredictiveService {
         }
     }
 
+    /**
+     * Corridor risks for given conditions, highest risk first. Pure: used by
+     * the live analysis and by what-if scenarios (see scenarioEngine.ts).
+     */
+    public assessCorridors(systemLoadMW: number, ambientTempF: number, hour: number): CorridorRisk[] {
+        return CORRIDORS
+            .map(corridor => this.computeCorridorRisk(corridor, systemLoadMW, ambientTempF, hour))
+            .sort((a, b) => b.riskScore - a.riskScore);
+    }
+
     /**
      * Compute risk for a single corridor using dynamic parameters
      */
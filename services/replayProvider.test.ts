@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayFixture, ReplayMissError, ReplayProvider, emptyFixture } from './replayProvider';
+import type { LlmChatConfig, LlmChatSession, LlmProvider, LlmRequest, LlmResponse } from './llmProvider';
+
+const SYSTEM = 'You are the grid operations assistant.';
+const TOOLS = [{ name: 'getSystemMetrics' }, { name: 'dispatchLoadShed' }, { name: 'navigateMap' }];
+
+const reply = (text: string, calls: LlmResponse['functionCalls'] = []): LlmResponse =>
+    ({ text, functionCalls: calls, groundingChunks: [], model: 'fake-model' });
+
+/**
+ * Scripted backend: answers by prompt text, tool call for load-shed prompts
+ */
+class FakeProvider implements LlmProvider {
+    public readonly id = 'GEMINI' as const;
+    public readonly label = 'Fake backend';
+    public readonly capabilities = { webSearch: false, vision: false, live: false };
+    public calls = 0;
+
+    public modelFor(): string {
+        return 'fake-model';
+    }
+
+    private answer(prompt: string): LlmResponse {
+        this.calls++;
+        return prompt.includes('shed')
+            ? reply('Proposing a load shed.', [{ name: 'dispatchLoadShed', args: { percentage: 5 } }])
+            : reply(`Answer to: ${prompt}`);
+    }
+
+    public async generate(request: LlmRequest): Promise<LlmResponse> {
+        return this.answer(String(request.contents));
+    }
+
+    public async *generateStream(request: LlmRequest): AsyncGenerator<LlmResponse> {
+        const response = this.answer(String(request.contents));
+        yield { ...response, functionCalls: [] };
+        if (response.functionCalls.length) yield { ...response, text: '' };
+    }
+
+    public createChat(_config: LlmChatConfig): LlmChatSession {
+        const provider = this;
+        return {
+            async sendMessage(message) {
+                return provider.answer(String(message));
+            },
+            async *sendMessageStream(message) {
+                yield* provider.generateStream({ contents: message });
+            }
+        };
+    }
+
+    public async embed(text: string): Promise<number[]> {
+        return [text.length, 1];
+    }
+}
+
+async function collect(stream: AsyncGenerator<LlmResponse>): Promise<LlmResponse> {
+    const out = reply('');
+    for await (const chunk of stream) {
+        out.text += chunk.text;
+        out.functionCalls.push(...chunk.functionCalls);
+    }
+    return out;
+}
+
+async function record(): Promise<{ fixture: ReplayFixture; backend: FakeProvider }> {
+    const fixture = emptyFixture();
+    const backend = new FakeProvider();
+    const recorder = new ReplayProvider(fixture, backend, () => true);
+
+    const chat = recorder.createChat({ systemInstruction: SYSTEM, tools: TOOLS });
+    await collect(chat.sendMessageStream('shed load in houston'));
+    await collect(chat.sendMessageStream('status report'));
+
+    await recorder.generate({ contents: 'LOAD 61000MW: assess', systemInstruction: SYSTEM, replayLane: true });
+    await recorder.generate({ contents: 'shed or hold?', systemInstruction: SYSTEM, replayLane: true });
+    await recorder.embed('substation');
+    return { fixture, backend };
+}
+
+describe('ReplayProvider', () => {
+    it('records every call and replays the exact conversation without the backend', async () => {
+        const { fixture, backend } = await record();
+        expect(fixture.entries).toHaveLength(5);
+        expect(fixture.source).toBe('Fake backend');
+        const recordedCalls = backend.calls;
+
+        const replay = new ReplayProvider(fixture);
+        const chat = replay.createChat({ systemInstruction: SYSTEM, tools: TOOLS });
+        const first = await collect(chat.sendMessageStream('shed load in houston'));
+        expect(first.text).toBe('Proposing a load shed.');
+        expect(first.functionCalls).toEqual([{ name: 'dispatchLoadShed', args: { percentage: 5 } }]);
+        expect((await collect(chat.sendMessageStream('status report'))).text).toBe('Answer to: status report');
+
+        expect((await replay.generate({ contents: 'LOAD 61000MW: assess', systemInstruction: SYSTEM })).text).toBe('Answer to: LOAD 61000MW: assess');
+        expect(await replay.embed('substation')).toEqual([10, 1]);
+        expect(backend.calls).toBe(recordedCalls);
+    });
+
+    it('raises ReplayMissError for an unrecorded chat turn of the same shape', async () => {
+        const { fixture } = await record();
+        const replay = new ReplayProvider(fixture);
+
+        const chat = replay.createChat({ systemInstruction: SYSTEM, tools: TOOLS });
+        await expect(collect(chat.sendMessageStream('what is the weather?'))).rejects.toBeInstanceOf(ReplayMissError);
+        await expect(replay.createChat({ systemInstruction: SYSTEM, tools: TOOLS }).sendMessage('what is the weather?'))
+            .rejects.toBeInstanceOf(ReplayMissError);
+    });
+
+    it('raises ReplayMissError for an unrecorded generate call or embedding without the lane', async () => {
+        const { fixture } = await record();
+        const replay = new ReplayProvider(fixture);
+
+        await expect(replay.generate({ contents: 'LOAD 59000MW: assess', systemInstruction: SYSTEM })).rejects.toBeInstanceOf(ReplayMissError);
+        await expect(replay.embed('feeder')).rejects.toBeInstanceOf(ReplayMissError);
+    });
+
+    it('serves lane matches in recorded order as text only', async () => {
+        const { fixture } = await record();
+        const replay = new ReplayProvider(fixture);
+        const live = (load: number) => replay.generate({ contents: `LOAD ${load}MW: assess`, systemInstruction: SYSTEM, replayLane: true });
+
+        const first = await live(59000);
+        const second = await live(59500);
+        expect(first.text).toBe('Answer to: LOAD 61000MW: assess');
+        expect(second.text).toBe('Proposing a load shed.');
+        expect(second.functionCalls).toEqual([]);
+        expect((await live(60000)).text).toBe(first.text);
+    });
+});
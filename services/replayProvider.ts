@@ -0,0 +1,358 @@
+/**
+ * replayProvider.ts
+ *
+ * Deterministic Record / Replay LLM Backend
+ *
+ * RECORD wraps a real provider and stores every request→response pair in a
+ * fixture; REPLAY serves the fixture back without a key or network, so chat,
+ * agent cycles and tool-approval flows run offline and in automated tests
+ * with the same answers every time.
+ *
+ * Features:
+ * - Requests keyed by SHA-256 of the canonical request (kind, model role,
+ *   system prompt, tool names, prompt / chat history)
+ * - Tool results are keyed by function name only, so IDs and timestamps in
+ *   tool output do not break replay of the follow-up turn
+ * - Opt-in fallback lane per request shape (`replayLane`): generate calls
+ *   whose prompts carry live telemetry replay in recorded order, text only.
+ *   Chat turns and everything else match exactly or raise ReplayMissError
+ * - Streams replay chunk by chunk, including function calls and grounding
+ * - Fixture persisted in localStorage; exported / imported as a JSON file.
+ *   When storage is full, recording continues in memory with a notice
+ */
+
+import { canonicalJson, sha256Hex } from './auditCheckpoints';
+import { notificationService } from './notificationService';
+import type {
+  LlmChatConfig, LlmChatSession, LlmModelRole, LlmPart, LlmProvider, LlmRequest, LlmResponse
+} from './llmProvider';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReplayMode = 'RECORD' | 'REPLAY';
+
+export interface ReplayEntry {
+  /** Hash of the full canonical request */
+  key: string;
+  /** Hash of kind + model + system prompt + tools: the fallback lane */
+  shape: string;
+  kind: 'generate' | 'chat' | 'embed';
+  model: LlmModelRole;
+  tools: string[];
+  /** Start of the prompt, for people reading the fixture */
+  promptPreview: string;
+  response?: LlmResponse;
+  /** Streamed text deltas as received; absent for non-streamed calls */
+  chunks?: string[];
+  embedding?: number[];
+  recordedAt: string;
+}
+
+export interface ReplayFixture {
+  version: 1;
+  /** Provider label the entries were recorded from */
+  source: string;
+  createdAt: string;
+  entries: ReplayEntry[];
+}
+
+export class ReplayMissError extends Error {
+  constructor(public readonly kind: ReplayEntry['kind'], public readonly promptPreview: string) {
+    super(`No recorded ${kind} response for "${promptPreview.slice(0, 80)}"`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+const STORAGE_KEY = 'LLM_REPLAY_FIXTURE';
+const PREVIEW_CHARS = 200;
+
+// ============================================================================
+// FIXTURE STORAGE
+// ============================================================================
+
+export const emptyFixture = (source = 'none'): ReplayFixture => ({
+  version: 1,
+  source,
+  createdAt: new Date().toISOString(),
+  entries: []
+});
+
+export function parseFixture(json: string): ReplayFixture {
+  const data = JSON.parse(json);
+  if (data?.version !== 1 || !Array.isArray(data.entries)) {
+    throw new Error('Not a GridGuard LLM fixture (expected version 1 with entries)');
+  }
+  return data as ReplayFixture;
+}
+
+// Every provider instance (chat, agents, vector store) shares one fixture
+let current: ReplayFixture | null = null;
+let storageFullNotified = false;
+
+export const replayFixtures = {
+  load(): ReplayFixture {
+    if (current) return current;
+    const raw = localStorage.getItem(STORAGE_KEY);
+    try {
+      current = raw ? parseFixture(raw) : emptyFixture();
+    } catch (e) {
+      console.warn('[REPLAY] Stored fixture unreadable; starting empty', e);
+      current = emptyFixture();
+    }
+    return current;
+  },
+
+  /**
+   * Persist the fixture. Never throws: a full localStorage (embedding vectors
+   * add up) must not turn a successful model call into a failure. Returns
+   * false when the fixture is only held in memory.
+   */
+  save(fixture: ReplayFixture): boolean {
+    current = fixture;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(fixture));
+      storageFullNotified = false;
+      return true;
+    } catch (e) {
+      console.warn('[REPLAY] Fixture not persisted', e);
+      if (!storageFullNotified) {
+        storageFullNotified = true;
+        notificationService.warning('Fixture Not Saved', `Browser storage is full (${fixture.entries.length} entries). Recording continues in memory; export the fixture before reloading.`);
+      }
+      return false;
+    }
+  },
+
+  clear(): void {
+    current = null;
+    storageFullNotified = false;
+    localStorage.removeItem(STORAGE_KEY);
+  },
+
+  /** Fixture as a downloadable JSON file */
+  toFile(fixture: ReplayFixture): { blob: Blob; filename: string } {
+    return {
+      blob: new Blob([JSON.stringify(fixture, null, 2)], { type: 'application/json' }),
+      filename: `gridguard-llm-fixture-${fixture.createdAt.substring(0, 10)}.json`
+    };
+  }
+};
+
+// ============================================================================
+// REQUEST KEYS
+// ============================================================================
+
+// Tool output carries IDs and timestamps; only the function name is keyed
+function normalizeContents(contents: string | LlmPart[]): any {
+  if (typeof contents === 'string') return contents;
+  return contents.map(part => 'functionResponse' in part
+    ? { functionResponse: part.functionResponse.name }
+    : part);
+}
+
+function preview(contents: string | LlmPart[]): string {
+  if (typeof contents === 'string') return contents.trim().slice(0, PREVIEW_CHARS);
+  return contents.map(part => 'text' in part ? part.text
+    : 'functionResponse' in part ? `[tool result: ${part.functionResponse.name}]`
+      : `[${part.inlineData.mimeType}]`).join(' ').slice(0, PREVIEW_CHARS);
+}
+
+interface RequestShape {
+  kind: ReplayEntry['kind'];
+  model: LlmModelRole;
+  systemInstruction?: string;
+  tools: string[];
+  json?: boolean;
+  webSearch?: boolean;
+}
+
+async function keysFor(shape: RequestShape, prompt: any): Promise<{ key: string; shape: string }> {
+  return {
+    key: await sha256Hex(canonicalJson({ ...shape, prompt })),
+    shape: await sha256Hex(canonicalJson(shape))
+  };
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export class ReplayProvider implements LlmProvider {
+  public readonly id = 'REPLAY' as const;
+  public readonly label: string;
+  public readonly capabilities: LlmProvider['capabilities'];
+  private laneCursor = new Map<string, number>();
+
+  /**
+   * @param fixture - Entries to serve; RECORD mode appends to it
+   * @param recordFrom - Real provider to record from; omit to replay
+   * @param persist - Save the fixture after each recorded entry
+   */
+  constructor(
+    private fixture: ReplayFixture,
+    private recordFrom: LlmProvider | null = null,
+    private persist: (fixture: ReplayFixture) => unknown = replayFixtures.save
+  ) {
+    this.label = recordFrom ? `Recording ${recordFrom.label}` : `Replay (${fixture.entries.length} recorded)`;
+    this.capabilities = recordFrom
+      ? { ...recordFrom.capabilities, live: false }
+      : { webSearch: true, vision: true, live: false };
+  }
+
+  public get mode(): ReplayMode {
+    return this.recordFrom ? 'RECORD' : 'REPLAY';
+  }
+
+  public modelFor(role: LlmModelRole): string {
+    return this.recordFrom ? this.recordFrom.modelFor(role) : `replay:${role}`;
+  }
+
+  /**
+   * Exact key first; with `allowLane`, the next entry recorded with the same
+   * shape. Lane matches never carry function calls: a tool call recorded for
+   * another prompt must not be proposed for this one.
+   */
+  private find(key: string, shape: string, kind: ReplayEntry['kind'], promptPreview: string, allowLane = false): ReplayEntry {
+    const exact = this.fixture.entries.find(e => e.key === key);
+    if (exact) return exact;
+
+    const lane = allowLane ? this.fixture.entries.filter(e => e.shape === shape && e.response) : [];
+    if (lane.length === 0) throw new ReplayMissError(kind, promptPreview);
+    const cursor = this.laneCursor.get(shape) ?? 0;
+    this.laneCursor.set(shape, cursor + 1);
+    const entry = lane[cursor % lane.length];
+    return { ...entry, response: { ...entry.response!, functionCalls: [] } };
+  }
+
+  private record(entry: Omit<ReplayEntry, 'recordedAt'>): void {
+    const stored: ReplayEntry = { ...entry, recordedAt: new Date().toISOString() };
+    const index = this.fixture.entries.findIndex(e => e.key === entry.key);
+    if (index >= 0) this.fixture.entries[index] = stored;
+    else this.fixture.entries.push(stored);
+    if (this.fixture.source === 'none' && this.recordFrom) this.fixture.source = this.recordFrom.label;
+    this.persist(this.fixture);
+  }
+
+  private shapeOf(kind: ReplayEntry['kind'], request: Omit<LlmRequest, 'contents'> | LlmChatConfig & { json?: boolean }): RequestShape {
+    return {
+      kind,
+      model: request.model ?? 'chat',
+      systemInstruction: request.systemInstruction,
+      tools: (request.tools ?? []).map(t => t.name ?? '').sort(),
+      json: request.json,
+      webSearch: request.webSearch
+    };
+  }
+
+  public async generate(request: LlmRequest): Promise<LlmResponse> {
+    const shape = this.shapeOf('generate', request);
+    const keys = await keysFor(shape, { contents: normalizeContents(request.contents), responseSchema: request.responseSchema });
+    const promptPreview = preview(request.contents);
+
+    if (this.recordFrom) {
+      const response = await this.recordFrom.generate(request);
+      this.record({ ...keys, kind: 'generate', model: shape.model, tools: shape.tools, promptPreview, response });
+      return response;
+    }
+    return { ...this.find(keys.key, keys.shape, 'generate', promptPreview, request.replayLane).response! };
+  }
+
+  public async *generateStream(request: LlmRequest): AsyncGenerator<LlmResponse> {
+    const shape = this.shapeOf('generate', request);
+    const keys = await keysFor(shape, { contents: normalizeContents(request.contents), responseSchema: request.responseSchema });
+    yield* this.streamThrough(keys, shape, preview(request.contents), () => this.recordFrom!.generateStream(request), undefined, request.replayLane);
+  }
+
+  /**
+   * Record a stream as it passes through, or replay a recorded one. Aborted
+   * recordings are not stored. `allowLane` as in find.
+   */
+  private async *streamThrough(
+    keys: { key: string; shape: string },
+    shape: RequestShape,
+    promptPreview: string,
+    open: () => AsyncGenerator<LlmResponse>,
+    onComplete?: (response: LlmResponse) => void,
+    allowLane = false
+  ): AsyncGenerator<LlmResponse> {
+    if (this.recordFrom) {
+      const chunks: string[] = [];
+      const response: LlmResponse = { text: '', functionCalls: [], groundingChunks: [], model: this.recordFrom.modelFor(shape.model) };
+      for await (const chunk of open()) {
+        if (chunk.text) chunks.push(chunk.text);
+        response.text += chunk.text;
+        response.functionCalls.push(...chunk.functionCalls);
+        response.groundingChunks.push(...chunk.groundingChunks);
+        response.model = chunk.model;
+        yield chunk;
+      }
+      this.record({ ...keys, kind: shape.kind, model: shape.model, tools: shape.tools, promptPreview, response, chunks });
+      onComplete?.(response);
+      return;
+    }
+
+    const entry = this.find(keys.key, keys.shape, shape.kind, promptPreview, allowLane);
+    const response = entry.response!;
+    for (const text of entry.chunks ?? [response.text]) {
+      yield { text, functionCalls: [], groundingChunks: [], model: response.model };
+    }
+    if (response.functionCalls.length || response.groundingChunks.length) {
+      yield { text: '', functionCalls: response.functionCalls, groundingChunks: response.groundingChunks, model: response.model };
+    }
+    onComplete?.(response);
+  }
+
+  /**
+   * Chat turns are keyed on the whole conversation so far, which the replay
+   * reproduces turn by turn. Every turn has the same shape, so there is no
+   * lane fallback: an unrecorded turn raises ReplayMissError.
+   */
+  public createChat(config: LlmChatConfig): LlmChatSession {
+    const shape = this.shapeOf('chat', config);
+    const history: any[] = [];
+    const inner = this.recordFrom?.createChat(config);
+    const provider = this;
+
+    const turnKeys = (message: string | LlmPart[]) =>
+      keysFor(shape, [...history, { user: normalizeContents(message) }]);
+    const remember = (message: string | LlmPart[], response: LlmResponse) => {
+      history.push({ user: normalizeContents(message) }, { model: response.text, calls: response.functionCalls.map(c => c.name) });
+    };
+
+    return {
+      async sendMessage(message, signal) {
+        const keys = await turnKeys(message);
+        let response: LlmResponse;
+        if (inner) {
+          response = await inner.sendMessage(message, signal);
+          provider.record({ ...keys, kind: 'chat', model: shape.model, tools: shape.tools, promptPreview: preview(message), response });
+        } else {
+          response = { ...provider.find(keys.key, keys.shape, 'chat', preview(message)).response! };
+        }
+        remember(message, response);
+        return response;
+      },
+      async *sendMessageStream(message, signal) {
+        const keys = await turnKeys(message);
+        yield* provider.streamThrough(keys, shape, preview(message), () => inner!.sendMessageStream(message, signal),
+          response => remember(message, response));
+      }
+    };
+  }
+
+  public async embed(text: string): Promise<number[]> {
+    const shape: RequestShape = { kind: 'embed', model: 'embedding', tools: [] };
+    const keys = await keysFor(shape, text);
+    if (this.recordFrom) {
+      const embedding = await this.recordFrom.embed(text);
+      this.record({ ...keys, kind: 'embed', model: 'embedding', tools: [], promptPreview: text.slice(0, PREVIEW_CHARS), embedding });
+      return embedding;
+    }
+    // Embeddings have no meaningful lane order: exact matches only
+    const entry = this.fixture.entries.find(e => e.key === keys.key);
+    if (!entry?.embedding) throw new ReplayMissError('embed', text);
+    return entry.embedding;
+  }
+}
@@ -0,0 +1,330 @@
+
+/**
+ * reportBuilder.ts
+ *
+ * Operations Report Builder
+ *
+ * Compiles the Reports page documents from recorded data for the chosen
+ * window: stored telemetry, the audit trail, incident recordings and SCED
+ * dispatch commands. Every figure is computed here; an LLM may only add the
+ * executive narrative on top (see genAiService.generateReport).
+ *
+ * Features:
+ * - KPIs from telemetry (load, frequency, price) and audit counts
+ * - Notable events (alerts, safety interlocks, errors, denied access)
+ * - Actions taken (actuations, approvals, overrides, dispatch commands)
+ * - Incident recordings overlapping the window
+ * - Markdown and standalone HTML export (print / save as PDF)
+ */
+
+import { auditService, AuditEntry, AuditEventType } from './auditService';
+import { dataStorageService, DataPoint } from './dataStorageService';
+import { incidentRecorder } from './incidentRecorder';
+import { dispatchLedger } from './dispatchLedger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReportConfig {
+  type: string;
+  /** 'Last 24 Hours' | 'Last 7 Days' | 'Last 30 Days' | 'Custom Range...' */
+  range: string;
+  /** Required for a custom range */
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface ReportKpi {
+  label: string;
+  value: string;
+}
+
+export interface ReportRow {
+  time: string;
+  label: string;
+  actor: string;
+  detail: string;
+}
+
+export interface ReportIncident {
+  name: string;
+  start: string;
+  durationMin: number;
+  severity: string;
+  peakLoadMW: number;
+  minFrequencyHz: number;
+  alertCount: number;
+}
+
+export interface OperationsReport {
+  id: string;
+  type: string;
+  generatedAt: string;
+  generatedBy: string;
+  window: { start: string; end: string };
+  kpis: ReportKpi[];
+  events: ReportRow[];
+  actions: ReportRow[];
+  incidents: ReportIncident[];
+  /** Entries beyond MAX_ROWS were omitted from events / actions */
+  truncated: boolean;
+  executiveSummary: string;
+  narrativeSource: 'LLM' | 'TEMPLATE';
+  /** Provider and model that drafted an LLM summary */
+  narratedBy?: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const RANGE_MS: Record<string, number> = {
+  'Last 24 Hours': 24 * HOUR_MS,
+  'Last 7 Days': 7 * 24 * HOUR_MS,
+  'Last 30 Days': 30 * 24 * HOUR_MS
+};
+
+const EVENT_TYPES: AuditEventType[] = ['ALERT_TRIGGERED', 'SAFETY_SWITCH', 'ERROR', 'ACCESS_DENIED'];
+const ACTION_TYPES: AuditEventType[] = ['AI_ACTUATION', 'OPERATOR_APPROVAL', 'OPERATOR_OVERRIDE'];
+const MAX_ROWS = 200;
+const PAGE_SIZE = 500;
+
+// ============================================================================
+// DATA COLLECTION
+// ============================================================================
+
+export function resolveWindow(config: ReportConfig, now = Date.now()): { startTime: number; endTime: number } {
+  if (config.startTime !== undefined && config.endTime !== undefined) {
+    return { startTime: config.startTime, endTime: config.endTime };
+  }
+  const span = RANGE_MS[config.range];
+  if (!span) throw new Error(`Unknown report range "${config.range}"`);
+  return { startTime: now - span, endTime: now };
+}
+
+async function collectAudit(eventTypes: AuditEventType[], startTime: number, endTime: number): Promise<{ entries: AuditEntry[]; truncated: boolean }> {
+  const entries: AuditEntry[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await auditService.queryLogs({ eventTypes, startTime, endTime, limit: PAGE_SIZE, cursor });
+    entries.push(...page.entries);
+    cursor = page.nextCursor;
+  } while (cursor && entries.length < MAX_ROWS);
+  return { entries: entries.slice(0, MAX_ROWS).reverse(), truncated: !!cursor || entries.length > MAX_ROWS };
+}
+
+function numericValues(points: DataPoint[]): number[] {
+  return points.map(p => p.value).filter((v): v is number => typeof v === 'number' && isFinite(v));
+}
+
+const mw = (value: number) => `${Math.round(value).toLocaleString('en-US')} MW`;
+const iso = (ms: number) => new Date(ms).toISOString();
+const auditRow = (e: AuditEntry): ReportRow => ({ time: iso(e.timestampMs), label: e.eventType, actor: e.operatorId, detail: `${e.resource}: ${e.details}` });
+
+// ============================================================================
+// NARRATIVE & EXPORT
+// ============================================================================
+
+/**
+ * Deterministic executive summary used without an LLM
+ */
+export function templateSummary(report: OperationsReport): string {
+  const kpi = (label: string) => report.kpis.find(k => k.label === label)?.value ?? 'n/a';
+  const severe = report.incidents.filter(i => i.severity === 'MAJOR' || i.severity === 'CRITICAL');
+  return [
+    `Between ${report.window.start} and ${report.window.end} the system peaked at ${kpi('Peak load')} with minimum frequency ${kpi('Min frequency')}.`,
+    `${report.events.length} notable events and ${report.actions.length} control actions were recorded; ${kpi('Dispatch commands')} dispatch commands were issued.`,
+    report.incidents.length > 0
+      ? `${report.incidents.length} incident recording(s) overlap the window${severe.length > 0 ? `, ${severe.length} rated MAJOR or CRITICAL` : ''}.`
+      : 'No incidents were recorded.'
+  ].join(' ');
+}
+
+const table = (headers: string[], rows: string[][]) => [
+  `| ${headers.join(' | ')} |`,
+  `| ${headers.map(() => '---').join(' | ')} |`,
+  ...rows.map(r => `| ${r.map(c => c.replace(/\|/g, '\\|').replace(/\n/g, ' ')).join(' | ')} |`)
+].join('\n');
+
+export function toMarkdown(report: OperationsReport): string {
+  const rows = (items: ReportRow[]) => items.length > 0
+    ? table(['Time (UTC)', 'Type', 'By', 'Detail'], items.map(r => [r.time, r.label, r.actor, r.detail]))
+    : '_None recorded._';
+  return [
+    `# ${report.type}`,
+    '',
+    `Report ${report.id} · generated ${report.generatedAt} by ${report.generatedBy}`,
+    `Window (UTC): ${report.window.start} to ${report.window.end}`,
+    '',
+    '## Executive Summary',
+    '',
+    report.executiveSummary,
+    '',
+    '## Key Performance Indicators',
+    '',
+    table(['Indicator', 'Value'], report.kpis.map(k => [k.label, k.value])),
+    '',
+    '## Incidents',
+    '',
+    report.incidents.length > 0
+      ? table(['Name', 'Start (UTC)', 'Duration', 'Severity', 'Peak load', 'Min frequency', 'Alerts'],
+        report.incidents.map(i => [i.name, i.start, `${i.durationMin} min`, i.severity, mw(i.peakLoadMW), `${i.minFrequencyHz.toFixed(3)} Hz`, String(i.alertCount)]))
+      : '_None recorded._',
+    '',
+    '## Events',
+    '',
+    rows(report.events),
+    '',
+    '## Actions Taken',
+    '',
+    rows(report.actions),
+    ...(report.truncated ? ['', `_Events and actions are limited to the most recent ${MAX_ROWS} of each._`] : [])
+  ].join('\n');
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Standalone HTML with print styles; opened in a window and printed for PDF
+ */
+export function toHtml(report: OperationsReport): string {
+  const htmlTable = (headers: string[], rows: string[][]) => rows.length > 0
+    ? `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>${rows.map(r => `<tr>${r.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`
+    : '<p><em>None recorded.</em></p>';
+  const rows = (items: ReportRow[]) => htmlTable(['Time (UTC)', 'Type', 'By', 'Detail'], items.map(r => [r.time, r.label, r.actor, r.detail]));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.type)} ${report.id}</title>
+<style>
+  @page { size: letter; margin: 18mm 15mm; }
+  body { font-family: Georgia, serif; color: #000; max-width: 60rem; margin: 2rem auto; line-height: 1.45; }
+  header { border-bottom: 2px solid #000; margin-bottom: 1.5rem; display: flex; justify-content: space-between; align-items: flex-end; }
+  h1 { font-size: 1.5rem; text-transform: uppercase; margin: 0; }
+  h2 { font-size: 1.1rem; border-bottom: 1px solid #999; margin-top: 1.75rem; break-after: avoid; }
+  .meta { font-family: monospace; font-size: 0.75rem; text-align: right; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.8rem; }
+  th, td { border: 1px solid #ccc; padding: 3px 6px; text-align: left; vertical-align: top; }
+  th { background: #eee; }
+  tr { break-inside: avoid; }
+  footer { margin-top: 3rem; border-top: 1px solid #999; font-family: monospace; font-size: 0.7rem; color: #555; }
+  @media print { body { margin: 0; max-width: none; } }
+</style>
+</head>
+<body>
+<header>
+  <div><h1>${escapeHtml(report.type)}</h1><div class="meta" style="text-align:left">GridGuard AI</div></div>
+  <div class="meta">ID: ${report.id}<br>Generated: ${report.generatedAt}<br>By: ${escapeHtml(report.generatedBy)}<br>Window: ${report.window.start} to ${report.window.end}</div>
+</header>
+<h2>Executive Summary</h2>
+${report.executiveSummary.split(/\n{2,}/).map(p => `<p>${escapeHtml(p)}</p>`).join('\n')}
+<h2>Key Performance Indicators</h2>
+${htmlTable(['Indicator', 'Value'], report.kpis.map(k => [k.label, k.value]))}
+<h2>Incidents</h2>
+${htmlTable(['Name', 'Start (UTC)', 'Duration', 'Severity', 'Peak load', 'Min frequency', 'Alerts'],
+    report.incidents.map(i => [i.name, i.start, `${i.durationMin} min`, i.severity, mw(i.peakLoadMW), `${i.minFrequencyHz.toFixed(3)} Hz`, String(i.alertCount)]))}
+<h2>Events</h2>
+${rows(report.events)}
+<h2>Actions Taken</h2>
+${rows(report.actions)}
+${report.truncated ? `<p><em>Events and actions are limited to the most recent ${MAX_ROWS} of each.</em></p>` : ''}
+<footer>CONFIDENTIAL // ERCOT INTERNAL USE ONLY · Executive summary: ${report.narrativeSource === 'LLM' ? 'AI-drafted from the figures above' : 'generated from the figures above'}</footer>
+</body>
+</html>`;
+}
+
+// ============================================================================
+// REPORT BUILDER
+// ============================================================================
+
+class ReportBuilder {
+
+  /**
+   * Compute every report section for the window (template executive summary)
+   */
+  public async build(config: ReportConfig, generatedBy: string, now = Date.now()): Promise<OperationsReport> {
+    const { startTime, endTime } = resolveWindow(config, now);
+    const startIso = iso(startTime);
+    const endIso = iso(endTime);
+
+    const [load, frequency, price, counts, events, actions, recordings] = await Promise.all([
+      dataStorageService.getHistoricalRange('load', startIso, endIso).catch(() => []),
+      dataStorageService.getHistoricalRange('frequency', startIso, endIso).catch(() => []),
+      dataStorageService.getHistoricalRange('price', startIso, endIso).catch(() => []),
+      auditService.countByEventType({ startTime, endTime }),
+      collectAudit(EVENT_TYPES, startTime, endTime),
+      collectAudit(ACTION_TYPES, startTime, endTime),
+      incidentRecorder.listRecordings()
+    ]);
+
+    const commands = dispatchLedger.getCommands().filter(c => c.createdAt >= startTime && c.createdAt <= endTime);
+    const loads = numericValues(load);
+    const freqs = numericValues(frequency);
+    const prices = numericValues(price);
+    const avg = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+    const kpis: ReportKpi[] = [
+      { label: 'Peak load', value: loads.length ? mw(Math.max(...loads)) : 'n/a' },
+      { label: 'Average load', value: loads.length ? mw(avg(loads)) : 'n/a' },
+      { label: 'Min frequency', value: freqs.length ? `${Math.min(...freqs).toFixed(3)} Hz` : 'n/a' },
+      { label: 'Max frequency deviation', value: freqs.length ? `${(Math.max(...freqs.map(f => Math.abs(f - 60))) * 1000).toFixed(0)} mHz` : 'n/a' },
+      { label: 'Average price', value: prices.length ? `$${avg(prices).toFixed(2)}/MWh` : 'n/a' },
+      { label: 'Peak price', value: prices.length ? `$${Math.max(...prices).toFixed(2)}/MWh` : 'n/a' },
+      { label: 'Telemetry samples', value: String(loads.length + freqs.length + prices.length) },
+      { label: 'Alerts triggered', value: String(counts.ALERT_TRIGGERED) },
+      { label: 'Safety interlocks', value: String(counts.SAFETY_SWITCH) },
+      { label: 'AI recommendations', value: String(counts.AI_RECOMMENDATION) },
+      { label: 'AI actuations', value: String(counts.AI_ACTUATION) },
+      { label: 'Operator approvals / overrides', value: `${counts.OPERATOR_APPROVAL} / ${counts.OPERATOR_OVERRIDE}` },
+      { label: 'Access denied', value: String(counts.ACCESS_DENIED) },
+      { label: 'Dispatch commands', value: String(commands.length) },
+      { label: 'Dispatch completed / failed', value: `${commands.filter(c => c.status === 'COMPLETE').length} / ${commands.filter(c => c.status === 'FAILED').length}` },
+      { label: 'Dispatched MW (sum of targets)', value: mw(commands.reduce((sum, c) => sum + c.targetMW, 0)) }
+    ];
+
+    const incidents: ReportIncident[] = recordings
+      .filter(r => r.startTime <= endTime && (r.endTime ?? r.startTime) >= startTime)
+      .map(r => ({
+        name: r.name,
+        start: iso(r.startTime),
+        durationMin: Math.round((r.duration ?? 0) / 60000),
+        severity: r.metadata.severity,
+        peakLoadMW: r.metadata.peakLoad,
+        minFrequencyHz: r.metadata.minFrequency,
+        alertCount: r.metadata.alertCount
+      }));
+
+    const actionRows: ReportRow[] = [
+      ...actions.entries.map(e => ({ at: e.timestampMs, row: auditRow(e) })),
+      ...commands.map(c => ({
+        at: c.createdAt,
+        row: {
+          time: iso(c.createdAt),
+          label: `DISPATCH ${c.status}`,
+          actor: c.operatorId,
+          detail: `${c.action} ${c.targetMW}MW on ${c.resource}${c.error ? ` (${c.error})` : ''}`
+        }
+      }))
+    ].sort((a, b) => a.at - b.at).map(a => a.row);
+
+    const report: OperationsReport = {
+      id: `RPT-${now.toString(36).toUpperCase()}`,
+      type: config.type,
+      generatedAt: iso(now),
+      generatedBy,
+      window: { start: startIso, end: endIso },
+      kpis,
+      events: events.entries.map(auditRow),
+      actions: actionRows,
+      incidents,
+      truncated: events.truncated || actions.truncated,
+      executiveSummary: '',
+      narrativeSource: 'TEMPLATE'
+    };
+    report.executiveSummary = templateSummary(report);
+    return report;
+  }
+}
+
+export const reportBuilder = new ReportBuilder();
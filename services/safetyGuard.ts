@@ -1,83 +1,291 @@
-
 import { notificationService } from "./notificationService";
 import { auditService } from "./auditService";
+import {
+  RulePack,
+  RuleEvaluation,
+  TelemetrySnapshot,
+  DEFAULT_RULE_PACK,
+  evaluateRulePack,
+  validateRulePack
+} from "./safetyRules";
+import { gridTelemetry } from "./gridTelemetry";
 
 /**
  * GOVERNANCE PILLAR C: SAFETY (GUARDRAILS)
- * 
+ *
  * This service acts as a deterministic "Physics Firewall".
  * It intercepts AI tool calls BEFORE they are presented to the user.
- * 
- * COMPLIANCE RULES (NERC CIP / ERCOT):
+ *
+ * Rules are declarative and versioned (see safetyRules.ts). The active rule
+ * pack is evaluated for every call and each decision records the pack and
+ * rule version that allowed or blocked it.
+ *
+ * Telemetry-aware: each call is evaluated against the live frequency, reserves
+ * and risk tier published by GridContext (gridTelemetry), and that snapshot is
+ * attached to the decision's audit entry.
+ *
+ * COMPLIANCE RULES (NERC CIP / ERCOT), default pack GRIDGUARD-CORE:
  * 1. MAX_SHED_LIMIT: Cannot shed more than 2000MW in a single command.
  * 2. CRITICAL_ZONES: Cannot target 'Critical Infra' or 'Hospital' circuits.
- * 3. FREQUENCY_FLOOR: Cannot trigger actions if frequency is stable (>59.9Hz).
+ * 3. RESTRICTED_ZONE_ACCESS: Restricted zones require elevated clearance.
+ * 4. SHED_NOT_JUSTIFIED: Cannot shed while frequency, reserves and tier are normal.
+ * 5. FREQUENCY_FLOOR: Shedding above 59.90Hz outside emergency requires escalation.
+ * 6. TELEMETRY_UNAVAILABLE: Missing or stale telemetry requires escalation.
  */
 
-interface SafetyCheckResult {
+export interface SafetyCheckResult {
   allowed: boolean;
   reason?: string;
   violationCode?: string;
+  requiresEscalation: boolean;
+  escalations: string[];
+  telemetry: TelemetrySnapshot;
+  decisionId: string;
+  rulePackId: string;
+  rulePackVersion: string;
+  ruleId?: string;
+  ruleVersion?: number;
+  warnings: string[];
 }
 
-class SafetyGuard {
+export interface SafetyDecision {
+  id: string;
+  timestamp: string;
+  toolName: string;
+  args: Record<string, any>;
+  telemetry?: TelemetrySnapshot;
+  evaluation: RuleEvaluation;
+}
+
+export interface DryRunEntry {
+  decision: SafetyDecision;
+  candidate: RuleEvaluation;
+  change: 'NEWLY_BLOCKED' | 'NEWLY_ALLOWED' | 'UNCHANGED';
+}
 
-  // Rule 1: Hard limits on load shedding to prevent cascading failure
-  private MAX_LOAD_SHED_MW = 2000;
+export interface DryRunReport {
+  candidatePackId: string;
+  candidatePackVersion: string;
+  activePackVersion: string;
+  callsReplayed: number;
+  newlyBlocked: number;
+  newlyAllowed: number;
+  entries: DryRunEntry[];
+}
 
-  // Rule 2: Protected keywords in reasoning
-  private PROHIBITED_TARGETS = ['hospital', 'nuclear', 'military', 'emergency_comms'];
+const PACK_STORAGE_KEY = 'SAFETY_RULE_PACK';
+const DECISIONS_STORAGE_KEY = 'SAFETY_DECISIONS';
+const MAX_DECISIONS = 200;
 
-  public validateToolCall(toolName: string, args: any): SafetyCheckResult {
+class SafetyGuard {
 
-    // 1. Validate Load Shedding Logic
-    if (toolName === 'dispatch_load_shed') {
-      const amount = Number(args.amountMW);
-      const reason = (args.reason || '').toLowerCase();
+  private activePack: RulePack = DEFAULT_RULE_PACK;
+  private decisions: SafetyDecision[] = [];
+  private listeners: ((pack: RulePack) => void)[] = [];
 
-      // PHYSICS CHECK: Amount
-      if (amount > this.MAX_LOAD_SHED_MW) {
-        this.logViolation("PHYSICS_VIOLATION", `Attempted to shed ${amount}MW. Hard limit is ${this.MAX_LOAD_SHED_MW}MW.`);
-        return {
-          allowed: false,
-          violationCode: "NERC-BAL-003",
-          reason: `Safety Interlock Engaged: Load shed amount (${amount}MW) exceeds contingency reserve limits.`
-        };
+  constructor() {
+    try {
+      const savedPack = localStorage.getItem(PACK_STORAGE_KEY);
+      if (savedPack) {
+        const pack = JSON.parse(savedPack);
+        if (validateRulePack(pack).length === 0) this.activePack = pack;
       }
+      const savedDecisions = localStorage.getItem(DECISIONS_STORAGE_KEY);
+      if (savedDecisions) this.decisions = JSON.parse(savedDecisions);
+    } catch (e) {
+      console.warn('[SAFETY] Stored rule pack unreadable, using default pack');
+    }
+  }
 
-      // ETHICS/PRIORITY CHECK: Target
-      if (this.PROHIBITED_TARGETS.some(target => reason.includes(target))) {
-        this.logViolation("ETHICS_VIOLATION", `Protected infrastructure targeted: ${reason}`);
-        return {
-          allowed: false,
-          violationCode: "ETHICS-PRIORITY-01",
-          reason: `Safety Interlock Engaged: Target includes critical infrastructure protected by Tier 1 status.`
-        };
-      }
+  /**
+   * Evaluate a tool call against the active rule pack. Telemetry defaults to
+   * the live snapshot; pass one explicitly to evaluate a historical context.
+   * `context` (e.g. actuation source and risk tier) is added to the audit entry.
+   */
+  public validateToolCall(
+    toolName: string,
+    args: any,
+    telemetry: TelemetrySnapshot = gridTelemetry.getSnapshot(),
+    context?: Record<string, any>
+  ): SafetyCheckResult {
+    const callArgs = args || {};
+    const evaluation = evaluateRulePack(this.activePack, { toolName, args: callArgs, telemetry });
+
+    const decision: SafetyDecision = {
+      id: `SAFE-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      timestamp: new Date().toISOString(),
+      toolName,
+      args: callArgs,
+      telemetry,
+      evaluation
+    };
+    this.recordDecision(decision);
+
+    const blocked = evaluation.blockedBy;
+    if (blocked) {
+      this.logViolation(blocked.ruleId, `${toolName}: ${blocked.reason}`, decision, context);
+    } else if (evaluation.escalations.length > 0 || evaluation.warnings.length > 0) {
+      const flagged = [...evaluation.escalations, ...evaluation.warnings];
+      auditService.log({
+        operatorId: "SYS-GUARDRAIL",
+        eventType: "ALERT_TRIGGERED",
+        resource: flagged[0].ruleId,
+        details: `${toolName}: ${flagged.map(m => m.reason).join(' ')}`,
+        metadata: { ...this.decisionMetadata(decision, flagged[0].ruleId, flagged[0].ruleVersion), ...context }
+      });
+    } else if (evaluation.rulesEvaluated > 0 || context) {
+      auditService.log({
+        operatorId: "SYS-GUARDRAIL",
+        eventType: "SAFETY_CHECK",
+        resource: toolName,
+        details: `${toolName} passed ${evaluation.rulesEvaluated} rules (${evaluation.rulePackId}@${evaluation.rulePackVersion})`,
+        metadata: { ...this.decisionMetadata(decision), ...context }
+      });
     }
 
-    // 2. Validate Data Access (Privacy)
-    if (toolName === 'get_system_metrics') {
-      // Example: Prevent accessing PII or unauthorized zones
-      if (args.zone === 'RESTRICTED_MILITARY_SECTOR') {
-        return {
-          allowed: false,
-          violationCode: "SEC-AUTH-005",
-          reason: "Access Denied: Zone classification exceeds current security clearance."
-        };
+    return {
+      allowed: evaluation.allowed,
+      reason: blocked?.reason,
+      violationCode: blocked?.violationCode,
+      requiresEscalation: evaluation.requiresEscalation,
+      escalations: evaluation.escalations.map(e => e.reason),
+      telemetry,
+      decisionId: decision.id,
+      rulePackId: evaluation.rulePackId,
+      rulePackVersion: evaluation.rulePackVersion,
+      ruleId: blocked?.ruleId,
+      ruleVersion: blocked?.ruleVersion,
+      warnings: evaluation.warnings.map(w => w.reason)
+    };
+  }
+
+  /**
+   * Evaluate without recording or auditing (used to tag proposals before execution)
+   */
+  public previewToolCall(toolName: string, args: any, telemetry: TelemetrySnapshot = gridTelemetry.getSnapshot()): RuleEvaluation {
+    return evaluateRulePack(this.activePack, { toolName, args: args || {}, telemetry });
+  }
+
+  // --- RULE PACK MANAGEMENT ---
+
+  public getActiveRulePack(): RulePack {
+    return this.activePack;
+  }
+
+  public getDecisions(): SafetyDecision[] {
+    return [...this.decisions].reverse();
+  }
+
+  /**
+   * Replay recent tool calls against a candidate pack without activating it
+   */
+  public dryRun(candidate: RulePack, limit = 50): DryRunReport {
+    const errors = validateRulePack(candidate);
+    if (errors.length > 0) throw new Error(`Invalid rule pack: ${errors.join('; ')}`);
+
+    const entries: DryRunEntry[] = this.getDecisions().slice(0, limit).map(decision => {
+      const result = evaluateRulePack(candidate, {
+        toolName: decision.toolName,
+        args: decision.args,
+        telemetry: decision.telemetry
+      });
+      const change: DryRunEntry['change'] =
+        decision.evaluation.allowed && !result.allowed ? 'NEWLY_BLOCKED' :
+          !decision.evaluation.allowed && result.allowed ? 'NEWLY_ALLOWED' :
+            'UNCHANGED';
+      return { decision, candidate: result, change };
+    });
+
+    return {
+      candidatePackId: candidate.id,
+      candidatePackVersion: candidate.version,
+      activePackVersion: this.activePack.version,
+      callsReplayed: entries.length,
+      newlyBlocked: entries.filter(e => e.change === 'NEWLY_BLOCKED').length,
+      newlyAllowed: entries.filter(e => e.change === 'NEWLY_ALLOWED').length,
+      entries
+    };
+  }
+
+  /**
+   * Activate a rule pack (supervisor action)
+   */
+  public loadRulePack(pack: RulePack, operatorId: string): void {
+    this.activate(pack, operatorId, true);
+  }
+
+  /**
+   * Return to the built-in default pack. Nothing is stored, so a newer
+   * default shipped with a later release takes effect on its own.
+   */
+  public resetRulePack(operatorId: string): void {
+    localStorage.removeItem(PACK_STORAGE_KEY);
+    this.activate(DEFAULT_RULE_PACK, operatorId, false);
+  }
+
+  public subscribe(listener: (pack: RulePack) => void): () => void {
+    this.listeners.push(listener);
+    listener(this.activePack);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // --- INTERNALS ---
+
+  private activate(pack: RulePack, operatorId: string, persist: boolean): void {
+    const errors = validateRulePack(pack);
+    if (errors.length > 0) throw new Error(`Invalid rule pack: ${errors.join('; ')}`);
+
+    const previous = this.activePack;
+    this.activePack = pack;
+    if (persist) localStorage.setItem(PACK_STORAGE_KEY, JSON.stringify(pack));
+
+    auditService.log({
+      operatorId,
+      eventType: "CONFIG_CHANGE",
+      resource: "SAFETY_RULE_PACK",
+      details: `Safety rule pack ${previous.id}@${previous.version} replaced by ${pack.id}@${pack.version} (${pack.rules.length} rules)`,
+      metadata: {
+        previousPack: `${previous.id}@${previous.version}`,
+        activePack: `${pack.id}@${pack.version}`,
+        rules: pack.rules.map(r => `${r.id}@${r.version}`)
       }
+    });
+    notificationService.info("Safety Rules Updated", `${pack.name} v${pack.version} is now active.`);
+    this.listeners.forEach(l => l(pack));
+  }
+
+  private recordDecision(decision: SafetyDecision) {
+    this.decisions.push(decision);
+    if (this.decisions.length > MAX_DECISIONS) this.decisions = this.decisions.slice(-MAX_DECISIONS);
+    try {
+      localStorage.setItem(DECISIONS_STORAGE_KEY, JSON.stringify(this.decisions));
+    } catch (e) {
+      // Storage quota exceeded; keep in memory only
     }
+  }
 
-    return { allowed: true };
+  private decisionMetadata(decision: SafetyDecision, ruleId?: string, ruleVersion?: number) {
+    return {
+      decisionId: decision.id,
+      toolName: decision.toolName,
+      rulePack: `${decision.evaluation.rulePackId}@${decision.evaluation.rulePackVersion}`,
+      rule: ruleId ? `${ruleId}@${ruleVersion}` : undefined,
+      escalations: decision.evaluation.escalations.map(e => `${e.ruleId}@${e.ruleVersion}`),
+      telemetry: decision.telemetry
+    };
   }
 
   // Record safety incidents to the Immutable Ledger
-  private logViolation(type: string, details: string) {
+  private logViolation(type: string, details: string, decision: SafetyDecision, context?: Record<string, any>) {
+    const blocked = decision.evaluation.blockedBy;
     auditService.log({
       operatorId: "SYS-GUARDRAIL",
       eventType: "SAFETY_SWITCH",
       resource: type,
-      details: details
+      details: details,
+      metadata: { ...this.decisionMetadata(decision, blocked?.ruleId, blocked?.ruleVersion), ...context }
     });
 
     // Alert the UI immediately
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RULE_PACK, RulePack, evaluateCondition, evaluateRulePack, validateRulePack } from './safetyRules';
+import { RiskTier } from '../types';
+
+const EMERGENCY = { frequencyHz: 59.85, reservesMW: 1200, loadMW: 60000, riskTier: RiskTier.RED, ageSeconds: 2 };
+const NOMINAL = { frequencyHz: 60.0, reservesMW: 3500, loadMW: 45000, riskTier: RiskTier.GREEN, ageSeconds: 2 };
+
+describe('evaluateCondition', () => {
+    it('combines all / any / not trees over args and telemetry', () => {
+        const ctx = { toolName: 'dispatch_load_shed', args: { amountMW: 500 }, telemetry: NOMINAL };
+        expect(evaluateCondition({
+            all: [
+                { op: 'gt', left: { arg: 'amountMW' }, right: { value: 100 } },
+                { not: { op: 'eq', left: { telemetry: 'riskTier' }, right: { value: 'RED' } } },
+                { any: [{ op: 'lt', left: { telemetry: 'frequencyHz' }, right: { value: 59 } }, { op: 'in', left: { arg: 'amountMW' }, right: { value: [500] } }] }
+            ]
+        }, ctx)).toBe(true);
+    });
+
+    it('never satisfies a comparison on missing data', () => {
+        const ctx = { toolName: 'dispatch_load_shed', args: {} };
+        expect(evaluateCondition({ op: 'lt', left: { telemetry: 'frequencyHz' }, right: { value: 59.9 } }, ctx)).toBe(false);
+        expect(evaluateCondition({ op: 'neq', left: { arg: 'zone' }, right: { value: 'A' } }, ctx)).toBe(false);
+    });
+});
+
+describe('evaluateRulePack (default pack)', () => {
+    it('blocks a shed above the 2000MW limit', () => {
+        const result = evaluateRulePack(DEFAULT_RULE_PACK, { toolName: 'dispatch_load_shed', args: { amountMW: 2500 }, telemetry: EMERGENCY });
+        expect(result.allowed).toBe(false);
+        expect(result.blockedBy?.ruleId).toBe('MAX_SHED_LIMIT');
+        expect(result.blockedBy?.reason).toContain('2500MW');
+    });
+
+    it('blocks shedding protected critical circuits', () => {
+        const result = evaluateRulePack(DEFAULT_RULE_PACK, { toolName: 'dispatch_load_shed', args: { amountMW: 100, reason: 'Feeder serving Hospital district' }, telemetry: EMERGENCY });
+        expect(result.blockedBy?.ruleId).toBe('CRITICAL_ZONES');
+    });
+
+    it('blocks load shed on a nominal grid', () => {
+        const result = evaluateRulePack(DEFAULT_RULE_PACK, { toolName: 'dispatch_load_shed', args: { amountMW: 300 }, telemetry: NOMINAL });
+        expect(result.blockedBy?.ruleId).toBe('SHED_NOT_JUSTIFIED');
+        expect(result.blockedBy?.reason).toContain('60Hz');
+    });
+
+    it('allows an emergency shed without escalation', () => {
+        const result = evaluateRulePack(DEFAULT_RULE_PACK, { toolName: 'dispatch_load_shed', args: { amountMW: 300 }, telemetry: EMERGENCY });
+        expect(result).toMatchObject({ allowed: true, requiresEscalation: false, escalations: [] });
+    });
+
+    it('escalates when telemetry is stale or missing', () => {
+        const stale = evaluateRulePack(DEFAULT_RULE_PACK, { toolName: 'dispatch_load_shed', args: { amountMW: 300 }, telemetry: { ...EMERGENCY, ageSeconds: 90 } });
+        expect(stale.allowed).toBe(true);
+        expect(stale.escalations.map(e => e.ruleId)).toEqual(['TELEMETRY_UNAVAILABLE']);
+
+        const missing = evaluateRulePack(DEFAULT_RULE_PACK, { toolName: 'dispatch_load_shed', args: { amountMW: 300 } });
+        expect(missing.requiresEscalation).toBe(true);
+        expect(missing.escalations.map(e => e.ruleId)).toEqual(['FREQUENCY_FLOOR', 'TELEMETRY_UNAVAILABLE']);
+    });
+
+    it('only applies rules for the called tool', () => {
+        const result = evaluateRulePack(DEFAULT_RULE_PACK, { toolName: 'get_system_metrics', args: { zone: 'NORTH' } });
+        expect(result).toMatchObject({ allowed: true, rulesEvaluated: 1 });
+    });
+});
+
+describe('evaluateRulePack (custom pack)', () => {
+    const pack: RulePack = {
+        id: 'TEST', version: '1.0.0', name: 'Test', author: 'test', publishedAt: '2026-01-01T00:00:00.000Z',
+        rules: [
+            { id: 'WARN_ALL', version: 1, tool: '*', description: '', when: { op: 'gte', left: { arg: 'mw' }, right: { value: 10 } }, effect: 'WARN', violationCode: 'W', severity: 'LOW', reason: 'Large {args.mw}MW' },
+            { id: 'BLOCK_BIG', version: 2, tool: 'x', description: '', when: { op: 'gt', left: { arg: 'mw' }, right: { value: 100 } }, effect: 'BLOCK', violationCode: 'B', severity: 'HIGH', reason: 'Too big ({telemetry.loadMW})' }
+        ]
+    };
+
+    it('accumulates warnings from wildcard rules and stops at the first block', () => {
+        const warned = evaluateRulePack(pack, { toolName: 'x', args: { mw: 50 } });
+        expect(warned.allowed).toBe(true);
+        expect(warned.warnings.map(w => w.reason)).toEqual(['Large 50MW']);
+
+        const blocked = evaluateRulePack(pack, { toolName: 'x', args: { mw: 150 } });
+        expect(blocked.allowed).toBe(false);
+        expect(blocked.blockedBy).toMatchObject({ ruleId: 'BLOCK_BIG', ruleVersion: 2, reason: 'Too big (n/a)' });
+    });
+});
+
+describe('validateRulePack', () => {
+    it('accepts the default pack', () => {
+        expect(validateRulePack(DEFAULT_RULE_PACK)).toEqual([]);
+    });
+
+    it('reports structural problems', () => {
+        const errors = validateRulePack({
+            id: 'BAD',
+            version: '1.0',
+            rules: [
+                { id: 'A', version: 1, tool: 'x', effect: 'BLOCK', severity: 'HIGH', violationCode: 'V', reason: 'r', when: { op: 'gt', left: { arg: 'a' }, right: { value: 1 } } },
+                { id: 'A', version: 0, tool: 'x', effect: 'DENY', severity: 'HIGH', violationCode: 'V', reason: 'r', when: { op: 'between', left: { arg: 'a' }, right: {} } }
+            ]
+        });
+        expect(errors).toEqual(expect.arrayContaining([
+            "Pack version '1.0' is not semantic (x.y.z)",
+            'rules[1] (A): duplicate rule id',
+            'rules[1] (A): version must be a positive integer',
+            'rules[1] (A): effect must be BLOCK, ESCALATE or WARN',
+            "rules[1] (A).when: unknown operator 'between'",
+            'rules[1] (A).when.right: operand needs arg, telemetry or value'
+        ]));
+        expect(validateRulePack(null)).toEqual(['Rule pack must be an object']);
+    });
+});
@@ -0,0 +1,319 @@
+/**
+ * safetyRules.ts
+ *
+ * Declarative Safety Rule Engine
+ *
+ * Safety rules are versioned data, not code. SafetyGuard evaluates the active
+ * rule pack against every tool call; supervisors can swap packs at runtime.
+ *
+ * Features:
+ * - Rule = id + version + tool + condition + violation code + severity
+ * - Conditions over tool arguments and live grid telemetry (all/any/not trees)
+ * - BLOCK, ESCALATE (supervisor required) and WARN effects
+ * - Reason templates with {args.x} / {telemetry.x} placeholders
+ * - Structural validation of rule packs before activation
+ * - Default pack encoding the original hard-coded interlocks
+ */
+
+import { RiskTier } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TelemetrySnapshot {
+    frequencyHz?: number;
+    reservesMW?: number;
+    loadMW?: number;
+    riskTier?: RiskTier;
+    capturedAt?: string;
+    ageSeconds?: number;
+}
+
+export type RuleOperand =
+    | { arg: string }
+    | { telemetry: keyof TelemetrySnapshot }
+    | { value: number | string | boolean | (number | string)[] };
+
+export type ComparisonOp = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq' | 'in' | 'containsAny';
+
+export type RuleCondition =
+    | { all: RuleCondition[] }
+    | { any: RuleCondition[] }
+    | { not: RuleCondition }
+    | { op: ComparisonOp; left: RuleOperand; right: RuleOperand };
+
+export type RuleSeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+export interface SafetyRule {
+    id: string;
+    version: number;
+    tool: string;               // Tool name, or '*' for every tool
+    description: string;
+    when: RuleCondition;        // Rule fires when the condition holds
+    effect: 'BLOCK' | 'ESCALATE' | 'WARN';
+    violationCode: string;
+    severity: RuleSeverity;
+    reason: string;             // Template, e.g. "Shed {args.amountMW}MW exceeds limit"
+}
+
+export interface RulePack {
+    id: string;
+    version: string;            // Semantic version of the pack
+    name: string;
+    author: string;
+    publishedAt: string;
+    rules: SafetyRule[];
+}
+
+export interface ToolCallContext {
+    toolName: string;
+    args: Record<string, any>;
+    telemetry?: TelemetrySnapshot;
+}
+
+export interface RuleMatch {
+    ruleId: string;
+    ruleVersion: number;
+    effect: SafetyRule['effect'];
+    violationCode: string;
+    severity: RuleSeverity;
+    reason: string;
+}
+
+export interface RuleEvaluation {
+    allowed: boolean;
+    rulePackId: string;
+    rulePackVersion: string;
+    blockedBy?: RuleMatch;
+    requiresEscalation: boolean;
+    escalations: RuleMatch[];
+    warnings: RuleMatch[];
+    rulesEvaluated: number;
+}
+
+// ============================================================================
+// DEFAULT RULE PACK
+// ============================================================================
+
+export const DEFAULT_RULE_PACK: RulePack = {
+    id: 'GRIDGUARD-CORE',
+    version: '1.1.0',
+    name: 'GridGuard Core Interlocks',
+    author: 'SYS-GUARDRAIL',
+    publishedAt: '2025-01-01T00:00:00.000Z',
+    rules: [
+        {
+            id: 'MAX_SHED_LIMIT',
+            version: 1,
+            tool: 'dispatch_load_shed',
+            description: 'Cannot shed more than 2000MW in a single command',
+            when: { op: 'gt', left: { arg: 'amountMW' }, right: { value: 2000 } },
+            effect: 'BLOCK',
+            violationCode: 'NERC-BAL-003',
+            severity: 'CRITICAL',
+            reason: 'Safety Interlock Engaged: Load shed amount ({args.amountMW}MW) exceeds contingency reserve limits.'
+        },
+        {
+            id: 'CRITICAL_ZONES',
+            version: 1,
+            tool: 'dispatch_load_shed',
+            description: "Cannot target 'Critical Infra' or 'Hospital' circuits",
+            when: { op: 'containsAny', left: { arg: 'reason' }, right: { value: ['hospital', 'nuclear', 'military', 'emergency_comms'] } },
+            effect: 'BLOCK',
+            violationCode: 'ETHICS-PRIORITY-01',
+            severity: 'CRITICAL',
+            reason: 'Safety Interlock Engaged: Target includes critical infrastructure protected by Tier 1 status.'
+        },
+        {
+            id: 'RESTRICTED_ZONE_ACCESS',
+            version: 1,
+            tool: 'get_system_metrics',
+            description: 'Restricted zones require elevated clearance',
+            when: { op: 'eq', left: { arg: 'zone' }, right: { value: 'RESTRICTED_MILITARY_SECTOR' } },
+            effect: 'BLOCK',
+            violationCode: 'SEC-AUTH-005',
+            severity: 'HIGH',
+            reason: 'Access Denied: Zone classification exceeds current security clearance.'
+        },
+        {
+            id: 'SHED_NOT_JUSTIFIED',
+            version: 1,
+            tool: 'dispatch_load_shed',
+            description: 'Cannot shed load while frequency is nominal, reserves are adequate and risk tier is GREEN',
+            when: {
+                all: [
+                    { op: 'gte', left: { telemetry: 'frequencyHz' }, right: { value: 59.95 } },
+                    { op: 'gte', left: { telemetry: 'reservesMW' }, right: { value: 2500 } },
+                    { op: 'eq', left: { telemetry: 'riskTier' }, right: { value: 'GREEN' } }
+                ]
+            },
+            effect: 'BLOCK',
+            violationCode: 'NERC-BAL-001',
+            severity: 'CRITICAL',
+            reason: 'Safety Interlock Engaged: Frequency {telemetry.frequencyHz}Hz and reserves {telemetry.reservesMW}MW are within normal limits; load shed is not justified.'
+        },
+        {
+            id: 'FREQUENCY_FLOOR',
+            version: 1,
+            tool: 'dispatch_load_shed',
+            description: 'Load shed above 59.90Hz, with reserves above EEA3 (1500MW) and risk tier below RED, needs supervisor escalation',
+            when: {
+                not: {
+                    any: [
+                        { op: 'lt', left: { telemetry: 'frequencyHz' }, right: { value: 59.90 } },
+                        { op: 'lt', left: { telemetry: 'reservesMW' }, right: { value: 1500 } },
+                        { op: 'eq', left: { telemetry: 'riskTier' }, right: { value: 'RED' } }
+                    ]
+                }
+            },
+            effect: 'ESCALATE',
+            violationCode: 'NERC-EOP-011',
+            severity: 'HIGH',
+            reason: 'Escalation Required: Frequency {telemetry.frequencyHz}Hz, reserves {telemetry.reservesMW}MW and risk tier {telemetry.riskTier} do not meet emergency load shed criteria.'
+        },
+        {
+            id: 'TELEMETRY_UNAVAILABLE',
+            version: 1,
+            tool: 'dispatch_load_shed',
+            description: 'Missing or stale (>30s) telemetry requires supervisor escalation',
+            when: {
+                any: [
+                    { not: { op: 'gt', left: { telemetry: 'frequencyHz' }, right: { value: 0 } } },
+                    { op: 'gt', left: { telemetry: 'ageSeconds' }, right: { value: 30 } }
+                ]
+            },
+            effect: 'ESCALATE',
+            violationCode: 'SEC-TELEM-002',
+            severity: 'HIGH',
+            reason: 'Escalation Required: Live telemetry unavailable or stale (age {telemetry.ageSeconds}s).'
+        }
+    ]
+};
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+function resolve(operand: RuleOperand, ctx: ToolCallContext): any {
+    if ('arg' in operand) return operand.arg.split('.').reduce((v: any, k) => v?.[k], ctx.args);
+    if ('telemetry' in operand) return ctx.telemetry?.[operand.telemetry];
+    return operand.value;
+}
+
+function compare(op: ComparisonOp, left: any, right: any): boolean {
+    // Missing data never satisfies a comparison
+    if (left === undefined || left === null || left === '') return false;
+
+    switch (op) {
+        case 'gt': return Number(left) > Number(right);
+        case 'gte': return Number(left) >= Number(right);
+        case 'lt': return Number(left) < Number(right);
+        case 'lte': return Number(left) <= Number(right);
+        case 'eq': return left === right || (typeof right === 'number' && Number(left) === right);
+        case 'neq': return !(left === right || (typeof right === 'number' && Number(left) === right));
+        case 'in': return Array.isArray(right) && right.includes(left);
+        case 'containsAny': {
+            const text = String(left).toLowerCase();
+            const needles = Array.isArray(right) ? right : [right];
+            return needles.some(n => text.includes(String(n).toLowerCase()));
+        }
+    }
+}
+
+export function evaluateCondition(condition: RuleCondition, ctx: ToolCallContext): boolean {
+    if ('all' in condition) return condition.all.every(c => evaluateCondition(c, ctx));
+    if ('any' in condition) return condition.any.some(c => evaluateCondition(c, ctx));
+    if ('not' in condition) return !evaluateCondition(condition.not, ctx);
+    return compare(condition.op, resolve(condition.left, ctx), resolve(condition.right, ctx));
+}
+
+function renderReason(template: string, ctx: ToolCallContext): string {
+    return template.replace(/\{(args|telemetry)\.([\w.]+)\}/g, (_, scope: string, path: string) => {
+        const value = scope === 'args'
+            ? resolve({ arg: path }, ctx)
+            : resolve({ telemetry: path as keyof TelemetrySnapshot }, ctx);
+        return value === undefined ? 'n/a' : String(value);
+    });
+}
+
+/**
+ * Evaluate a tool call against a rule pack. Rules are applied in pack order;
+ * the first BLOCK rule that fires decides, ESCALATE and WARN rules accumulate.
+ * An allowed call with escalations still needs supervisor sign-off.
+ */
+export function evaluateRulePack(pack: RulePack, ctx: ToolCallContext): RuleEvaluation {
+    const applicable = pack.rules.filter(r => r.tool === '*' || r.tool === ctx.toolName);
+    const escalations: RuleMatch[] = [];
+    const warnings: RuleMatch[] = [];
+
+    for (const rule of applicable) {
+        if (!evaluateCondition(rule.when, ctx)) continue;
+
+        const match: RuleMatch = {
+            ruleId: rule.id,
+            ruleVersion: rule.version,
+            effect: rule.effect,
+            violationCode: rule.violationCode,
+            severity: rule.severity,
+            reason: renderReason(rule.reason, ctx)
+        };
+
+        if (rule.effect === 'BLOCK') {
+            return { allowed: false, rulePackId: pack.id, rulePackVersion: pack.version, blockedBy: match, requiresEscalation: false, escalations, warnings, rulesEvaluated: applicable.length };
+        }
+        (rule.effect === 'ESCALATE' ? escalations : warnings).push(match);
+    }
+
+    return { allowed: true, rulePackId: pack.id, rulePackVersion: pack.version, requiresEscalation: escalations.length > 0, escalations, warnings, rulesEvaluated: applicable.length };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const OPS: ComparisonOp[] = ['gt', 'gte', 'lt', 'lte', 'eq', 'neq', 'in', 'containsAny'];
+
+function validateCondition(condition: any, path: string, errors: string[]) {
+    if (!condition || typeof condition !== 'object') {
+        errors.push(`${path}: condition must be an object`);
+    } else if (Array.isArray(condition.all) || Array.isArray(condition.any)) {
+        (condition.all ?? condition.any).forEach((c: any, i: number) => validateCondition(c, `${path}.${condition.all ? 'all' : 'any'}[${i}]`, errors));
+    } else if (condition.not) {
+        validateCondition(condition.not, `${path}.not`, errors);
+    } else {
+        if (!OPS.includes(condition.op)) errors.push(`${path}: unknown operator '${condition.op}'`);
+        for (const side of ['left', 'right']) {
+            const o = condition[side];
+            if (!o || !('arg' in o || 'telemetry' in o || 'value' in o)) errors.push(`${path}.${side}: operand needs arg, telemetry or value`);
+        }
+    }
+}
+
+/**
+ * Structural check of an (untrusted) rule pack. Returns a list of problems;
+ * empty when the pack can be activated.
+ */
+export function validateRulePack(pack: any): string[] {
+    const errors: string[] = [];
+    if (!pack || typeof pack !== 'object') return ['Rule pack must be an object'];
+    if (!pack.id) errors.push('Missing pack id');
+    if (!/^\d+\.\d+\.\d+$/.test(pack.version || '')) errors.push(`Pack version '${pack.version}' is not semantic (x.y.z)`);
+    if (!Array.isArray(pack.rules)) return [...errors, 'Missing rules array'];
+
+    const seen = new Set<string>();
+    pack.rules.forEach((r: any, i: number) => {
+        const at = `rules[${i}]${r?.id ? ` (${r.id})` : ''}`;
+        if (!r?.id) errors.push(`${at}: missing id`);
+        else if (seen.has(r.id)) errors.push(`${at}: duplicate rule id`);
+        seen.add(r?.id);
+        if (!Number.isInteger(r?.version) || r.version < 1) errors.push(`${at}: version must be a positive integer`);
+        if (!r?.tool) errors.push(`${at}: missing tool`);
+        if (!['BLOCK', 'ESCALATE', 'WARN'].includes(r?.effect)) errors.push(`${at}: effect must be BLOCK, ESCALATE or WARN`);
+        if (!['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'].includes(r?.severity)) errors.push(`${at}: invalid severity`);
+        if (!r?.violationCode) errors.push(`${at}: missing violationCode`);
+        if (!r?.reason) errors.push(`${at}: missing reason`);
+        validateCondition(r?.when, `${at}.when`, errors);
+    });
+    return errors;
+}
@@ -1,17 +1,30 @@
-
 /**
  * scedService.ts
- * 
+ *
  * Security-Constrained Economic Dispatch (SCED) AI Service
- * 
+ *
  * COMMERCIAL ARCHITECTURE:
  * - Treats dispatch as "Model Inference" with confidence scores
- * - Provides reasoning chain for each decision
+ * - Least-cost dispatch solved as a linear program (see lpSolver.ts)
+ * - Respects capacity, ramp-rate, load-balance and reserve constraints
+ * - Look-ahead mode schedules 5-minute intervals with battery state of charge
+ *   carried across intervals (a CHARGE now is linked to a DEPLOY later)
+ * - Battery SoC window, efficiency and degradation from storageModel.ts;
+ *   infeasible battery dispatch is clipped or refused at execution
+ * - Reasoning chain cites binding constraints and their shadow prices
+ * - Each decision tagged with its RiskTier; execution passes the shared
+ *   actuation guard (actuationGuard.ts) like every other actuation source
  * - Simulates async computation for realistic UI feel
- * - Deterministic algorithm based on market + grid conditions
  */
 
 import { auditService } from './auditService';
+import { solveLP, LPVariable, LPConstraint, LPSolution } from './lpSolver';
+import { storageModel, SocTrajectoryPoint } from './storageModel';
+import { dispatchLedger, DispatchCommand } from './dispatchLedger';
+import { actuationGuard, ActuationRequest, ActuationSource, ActuationDisposition } from './actuationGuard';
+import { AuthIdentity, DualAuthRequest } from './dualAuthorization';
+import { sessionService } from './sessionService';
+import { RiskTier } from '../types';
 
 // ============================================================================
 // INFERENCE TYPES
@@ -22,14 +35,59 @@ import { auditService } from './auditService';
  */
 export interface DispatchDecision {
     id: string;
-    action: 'HOLD' | 'DEPLOY' | 'CHARGE' | 'CURTAIL' | 'RAMP_UP';
+    action: 'HOLD' | 'DEPLOY' | 'CHARGE' | 'CURTAIL' | 'RAMP_UP' | 'RAMP_DOWN';
     resource: string;
+    resourceId: string;
     targetMW: number;
+    setpointMW: number; // Net output after execution (negative = charging)
     confidence: number; // 0.0 to 1.0
     reasoning: string[]; // List of factors explaining the decision
     modelId: string;
-    expectedProfit: number; // $/MWh expected arbitrage
+    expectedProfit: number; // $/h value of the move versus holding current setpoints
     priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+    intervalStart?: string; // Look-ahead only: ISO start of the 5-minute interval
+    linkedDecisionId?: string; // Look-ahead only: CHARGE → later DEPLOY of the same battery
+    socTrajectory?: SocTrajectoryPoint[]; // Storage only: projected state of charge
+    riskTier?: RiskTier; // GREEN auto-approve / YELLOW HITL / RED manual
+    disposition?: ActuationDisposition;
+    requiresSecondApprover?: boolean; // Two-person rule: supervisor must co-approve
+    riskReasons?: string[];
+}
+
+/**
+ * DispatchExecutionResult - Outcome of executeDispatch
+ */
+export interface DispatchExecutionResult {
+    executed: boolean;
+    reason?: string;
+    riskTier?: RiskTier;
+    commandId?: string;
+}
+
+/**
+ * BindingConstraint - A constraint that limits the optimal dispatch
+ */
+export interface BindingConstraint {
+    id: string;
+    description: string;
+    shadowPrice: number; // $/MWh (absolute value of the LP dual)
+    intervalIndex: number;
+}
+
+/**
+ * SCEDSolverSummary - Economic outputs of the dispatch optimization
+ */
+export interface SCEDSolverSummary {
+    status: LPSolution['status'];
+    objective: number;          // $ net cost of the portfolio dispatch over the horizon
+    systemLambda: number;       // $/MWh marginal cost of serving the load target (first interval)
+    reservePrice: number;       // $/MWh marginal cost of the reserve requirement (first interval)
+    loadTargetMW: number;
+    reserveRequirementMW: number;
+    unservedMW: number;
+    reserveShortfallMW: number;
+    bindingConstraints: BindingConstraint[];
+    iterations: number;
 }
 
 /**
@@ -41,6 +99,7 @@ export interface SCEDAnalysisResult {
     marketCondition: 'NORMAL' | 'STRESSED' | 'VOLATILE' | 'EMERGENCY';
     systemHealth: number; // 0-100
     analysisTimeMs: number;
+    solver: SCEDSolverSummary;
 }
 
 /**
@@ -52,6 +111,57 @@ export interface SCEDInput {
     prevPricePerMWh?: number;
     reserveMarginMW?: number;
     renewablePenetration?: number; // 0-1
+    loadTargetMW?: number;          // MW the portfolio must inject (default derived from load)
+    reserveRequirementMW?: number;  // MW of 10-minute reserve the portfolio must hold
+    currentSetpointsMW?: Record<string, number>; // Override of current resource outputs
+}
+
+/**
+ * LookaheadInterval - Forecast conditions for one 5-minute interval
+ */
+export interface LookaheadInterval {
+    timestamp: string; // ISO start of the interval
+    loadMW: number;
+    pricePerMWh: number;
+    reserveMarginMW?: number;
+    loadTargetMW?: number;
+    reserveRequirementMW?: number;
+}
+
+/**
+ * SCEDLookaheadInput - Forecast series for multi-interval dispatch
+ */
+export interface SCEDLookaheadInput {
+    intervals: LookaheadInterval[];
+    currentSetpointsMW?: Record<string, number>;
+    initialStateOfChargeMWh?: Record<string, number>;
+}
+
+/**
+ * ScheduledInterval - Dispatch plan for one look-ahead interval
+ */
+export interface ScheduledInterval {
+    index: number;
+    timestamp: string;
+    pricePerMWh: number;
+    loadMW: number;
+    systemLambda: number;
+    reservePrice: number;
+    unservedMW: number;
+    setpointsMW: Record<string, number>;
+    stateOfChargeMWh: Record<string, number>; // End-of-interval battery energy
+    decisions: DispatchDecision[];
+}
+
+/**
+ * SCEDLookaheadResult - Complete look-ahead schedule
+ */
+export interface SCEDLookaheadResult {
+    timestamp: string;
+    horizonMinutes: number;
+    schedule: ScheduledInterval[];
+    solver: SCEDSolverSummary;
+    analysisTimeMs: number;
 }
 
 // ============================================================================
@@ -70,6 +180,17 @@ const THRESHOLDS = {
     RESERVE_LOW: 3000,       // MW - Low reserve margin
 };
 
+const OPTIMIZER = {
+    INTERVAL_MIN: 5,             // SCED interval length
+    MAX_LOOKAHEAD_INTERVALS: 24, // 2 hours of 5-minute intervals
+    RESERVE_DEPLOY_MIN: 10,      // Reserve must be deliverable within 10 minutes
+    LOAD_SHARE_ABOVE_HIGH: 0.05, // Portfolio share of load above LOAD_HIGH
+    BASE_RESERVE_MW: 100,        // Default portfolio reserve obligation
+    VOLL: 15000,                 // $/MWh - Value of Lost Load (ERCOT)
+    RESERVE_SHORTAGE_COST: 5000, // $/MWh - ORDC price cap for reserve shortfall
+    MIN_MOVE_MW: 1,              // Ignore setpoint changes below this
+};
+
 // ============================================================================
 // RESOURCE DEFINITIONS (Available dispatchable assets)
 // ============================================================================
@@ -81,21 +202,73 @@ interface DispatchableResource {
     capacityMW: number;
     marginalCost: number; // $/MWh
     rampRate: number; // MW/min
+    initialOutputMW: number; // Output before the first SCED run (negative = charging)
+    providesReserve: boolean;
 }
 
 const RESOURCES: DispatchableResource[] = [
-    { id: 'BAT_WEST', name: 'Battery Storage West', type: 'BATTERY', capacityMW: 200, marginalCost: 5, rampRate: 100 },
-    { id: 'BAT_COAST', name: 'Battery Storage Coast', type: 'BATTERY', capacityMW: 150, marginalCost: 5, rampRate: 75 },
-    { id: 'PEAK_4', name: 'Peaker Gas Unit 4', type: 'PEAKER', capacityMW: 300, marginalCost: 85, rampRate: 15 },
-    { id: 'PEAK_7', name: 'Peaker Gas Unit 7', type: 'PEAKER', capacityMW: 250, marginalCost: 90, rampRate: 12 },
-    { id: 'WIND_COAST', name: 'Wind Farm Coastal', type: 'WIND', capacityMW: 500, marginalCost: 0, rampRate: 50 },
-    { id: 'DR_COMM', name: 'Commercial DR Program', type: 'DEMAND_RESPONSE', capacityMW: 100, marginalCost: 45, rampRate: 50 },
+    // Battery marginal cost = cycle degradation per MWh discharged (see storageModel.ts)
+    { id: 'BAT_WEST', name: 'Battery Storage West', type: 'BATTERY', capacityMW: 200, marginalCost: storageModel.getDegradationCostPerMWh('BAT_WEST'), rampRate: 100, initialOutputMW: 0, providesReserve: true },
+    { id: 'BAT_COAST', name: 'Battery Storage Coast', type: 'BATTERY', capacityMW: 150, marginalCost: storageModel.getDegradationCostPerMWh('BAT_COAST'), rampRate: 75, initialOutputMW: 0, providesReserve: true },
+    { id: 'PEAK_4', name: 'Peaker Gas Unit 4', type: 'PEAKER', capacityMW: 300, marginalCost: 85, rampRate: 15, initialOutputMW: 0, providesReserve: true },
+    { id: 'PEAK_7', name: 'Peaker Gas Unit 7', type: 'PEAKER', capacityMW: 250, marginalCost: 90, rampRate: 12, initialOutputMW: 0, providesReserve: true },
+    { id: 'WIND_COAST', name: 'Wind Farm Coastal', type: 'WIND', capacityMW: 500, marginalCost: 0, rampRate: 50, initialOutputMW: 500, providesReserve: false },
+    { id: 'DR_COMM', name: 'Commercial DR Program', type: 'DEMAND_RESPONSE', capacityMW: 100, marginalCost: 45, rampRate: 50, initialOutputMW: 0, providesReserve: true },
 ];
 
+/**
+ * Current resource setpoints (MW). Updated when a dispatch is executed so
+ * ramp limits are enforced between consecutive SCED intervals.
+ */
+const setpoints = new Map<string, number>(RESOURCES.map(r => [r.id, r.initialOutputMW]));
+
+/**
+ * Current setpoints, with batteries taken from the storage model (its battery
+ * management logic stops a battery at the edge of its SoC window)
+ */
+function currentSetpoints(overrides?: Record<string, number>): Map<string, number> {
+    const current = new Map(setpoints);
+    storageModel.getStates().forEach(s => current.set(s.id, s.setpointMW));
+    Object.entries(overrides ?? {}).forEach(([id, mw]) => current.set(id, mw));
+    return current;
+}
+
+/**
+ * Current battery energy (MWh)
+ */
+function currentStateOfCharge(overrides?: Record<string, number>): Map<string, number> {
+    const soc = new Map(storageModel.getStates().map(s => [s.id, s.socMWh]));
+    Object.entries(overrides ?? {}).forEach(([id, mwh]) => soc.set(id, mwh));
+    return soc;
+}
+
 // ============================================================================
 // SCED INFERENCE ENGINE
 // ============================================================================
 
+/**
+ * DispatchStep - One interval of the optimization problem
+ */
+interface DispatchStep {
+    timestamp: string;
+    pricePerMWh: number;
+    loadMW: number;
+    loadTargetMW: number;
+    reserveRequirementMW: number;
+}
+
+/**
+ * StorageValuation - $/MWh value of stored end-of-horizon energy above (up)
+ * or below (down) the starting state of charge. down >= up keeps the LP convex.
+ */
+interface StorageValuation {
+    up: number;
+    down: number;
+}
+
+/** Per-battery valuation: efficiencies and wear differ between batteries */
+type StorageValuer = (battery: DispatchableResource) => StorageValuation;
+
 /**
  * Calculate confidence score based on signal strength
  * Higher price/load deltas = more confident decisions
@@ -133,147 +306,419 @@ function determineMarketCondition(price: number, load: number): SCEDAnalysisResu
 }
 
 /**
- * Generate dispatch decisions based on market conditions
+ * Default portfolio obligations when the caller does not provide them.
+ * Load target: our share of system load above the high-demand threshold.
+ * Reserve: base obligation plus any shortfall against RESERVE_LOW.
  */
-function generateDecisions(input: SCEDInput): DispatchDecision[] {
-    const { currentLoadMW, currentPricePerMWh, prevPricePerMWh = currentPricePerMWh } = input;
-    const priceChange = currentPricePerMWh - prevPricePerMWh;
-    const decisions: DispatchDecision[] = [];
+function resolveObligations(
+    loadMW: number,
+    overrides: { loadTargetMW?: number; reserveRequirementMW?: number; reserveMarginMW?: number }
+): { loadTargetMW: number; reserveRequirementMW: number } {
+    const loadTargetMW = overrides.loadTargetMW ??
+        Math.round(Math.max(0, loadMW - THRESHOLDS.LOAD_HIGH) * OPTIMIZER.LOAD_SHARE_ABOVE_HIGH);
 
-    const baseConfidence = calculateConfidence(currentPricePerMWh, currentLoadMW, priceChange);
+    let reserveRequirementMW = overrides.reserveRequirementMW ?? OPTIMIZER.BASE_RESERVE_MW;
+    if (overrides.reserveRequirementMW === undefined && overrides.reserveMarginMW !== undefined && overrides.reserveMarginMW < THRESHOLDS.RESERVE_LOW) {
+        reserveRequirementMW += THRESHOLDS.RESERVE_LOW - overrides.reserveMarginMW;
+    }
 
-    // ========================================
-    // SCENARIO 1: High Price - Deploy Batteries
-    // ========================================
-    if (currentPricePerMWh > THRESHOLDS.PRICE_HIGH) {
-        const battery = RESOURCES.find(r => r.id === 'BAT_WEST')!;
-        const profit = currentPricePerMWh - battery.marginalCost;
-        const deployMW = Math.min(battery.capacityMW, Math.round(profit * 2));
+    return { loadTargetMW: Math.max(0, loadTargetMW), reserveRequirementMW: Math.max(0, reserveRequirementMW) };
+}
 
-        decisions.push({
-            id: `sced-${Date.now()}-bat`,
-            action: 'DEPLOY',
-            resource: battery.name,
-            targetMW: deployMW,
-            confidence: baseConfidence + (currentPricePerMWh > THRESHOLDS.PRICE_SPIKE ? 0.15 : 0),
-            reasoning: [
-                `Price at $${currentPricePerMWh.toFixed(2)}/MWh exceeds $${THRESHOLDS.PRICE_HIGH} threshold`,
-                `Expected arbitrage profit: $${profit.toFixed(2)}/MWh`,
-                priceChange > 0 ? `Price trending UP (+$${priceChange.toFixed(2)})` : `Price stable`,
-                `Battery discharge at ${deployMW}MW recommended`
-            ],
-            modelId: 'sced-optimizer-v2',
-            expectedProfit: profit * deployMW,
-            priority: currentPricePerMWh > THRESHOLDS.PRICE_SPIKE ? 'CRITICAL' : 'HIGH'
+/**
+ * Build the dispatch LP over one or more 5-minute steps.
+ *
+ * Variables per step (MW): g (generation / DR / battery discharge), c (battery
+ * charge), r (10-minute reserve), plus penalty slacks for unserved load and
+ * reserve. Battery energy is tracked by soc (MWh, bounded by the SoC window)
+ * and linked across steps through charge/discharge efficiency.
+ * Objective ($): Σ (marginal cost − LMP)·g·Δh + Σ LMP·c·Δh, minus the value
+ * of energy left in storage at the end of the horizon.
+ * The load-balance row is only added when the portfolio has an obligation.
+ */
+function buildDispatchProblem(
+    steps: DispatchStep[],
+    current: Map<string, number>,
+    soc: Map<string, number>,
+    valuation: StorageValuer
+): { variables: LPVariable[]; constraints: LPConstraint[] } {
+    const variables: LPVariable[] = [];
+    const constraints: LPConstraint[] = [];
+    const dh = OPTIMIZER.INTERVAL_MIN / 60;
+    const netOf = (t: number, r: DispatchableResource): Record<string, number> =>
+        r.type === 'BATTERY' ? { [`g:${t}:${r.id}`]: 1, [`c:${t}:${r.id}`]: -1 } : { [`g:${t}:${r.id}`]: 1 };
+
+    steps.forEach((step, t) => {
+        const price = step.pricePerMWh;
+        const balance: Record<string, number> = { [`unserved:${t}`]: 1 };
+        const reserve: Record<string, number> = { [`reserve_short:${t}`]: 1 };
+
+        for (const r of RESOURCES) {
+            const rampMW = r.rampRate * OPTIMIZER.INTERVAL_MIN;
+            const net = netOf(t, r);
+
+            variables.push({ id: `g:${t}:${r.id}`, cost: (r.marginalCost - price) * dh, upper: r.capacityMW });
+            if (r.type === 'BATTERY') {
+                const { minMWh, maxMWh } = storageModel.getSocBounds(r.id);
+                const eta = storageModel.getEfficiencies(r.id);
+                variables.push({ id: `c:${t}:${r.id}`, cost: price * dh, upper: r.capacityMW });
+                variables.push({ id: `soc:${t}:${r.id}`, cost: 0, lower: minMWh, upper: maxMWh });
+                const prevSoc = t === 0 ? {} : { [`soc:${t - 1}:${r.id}`]: -1 };
+                constraints.push({
+                    id: `soc:${t}:${r.id}`,
+                    coeffs: { [`soc:${t}:${r.id}`]: 1, ...prevSoc, [`g:${t}:${r.id}`]: dh / eta.discharge, [`c:${t}:${r.id}`]: -dh * eta.charge },
+                    sense: '=',
+                    rhs: t === 0 ? Math.min(maxMWh, Math.max(minMWh, soc.get(r.id) ?? 0)) : 0
+                });
+                balance[`c:${t}:${r.id}`] = -1;
+            }
+            balance[`g:${t}:${r.id}`] = 1;
+
+            // Ramp limits against the previous step (or the current setpoint)
+            const prevNet = t === 0 ? {} : Object.fromEntries(Object.entries(netOf(t - 1, r)).map(([k, a]) => [k, -a]));
+            const prevRhs = t === 0 ? (current.get(r.id) ?? r.initialOutputMW) : 0;
+            constraints.push({ id: `ramp_up:${t}:${r.id}`, coeffs: { ...net, ...prevNet }, sense: '<=', rhs: prevRhs + rampMW });
+            constraints.push({ id: `ramp_dn:${t}:${r.id}`, coeffs: { ...net, ...prevNet }, sense: '>=', rhs: prevRhs - rampMW });
+
+            if (r.providesReserve) {
+                variables.push({ id: `r:${t}:${r.id}`, cost: 0, upper: r.rampRate * OPTIMIZER.RESERVE_DEPLOY_MIN });
+                constraints.push({ id: `headroom:${t}:${r.id}`, coeffs: { ...net, [`r:${t}:${r.id}`]: 1 }, sense: '<=', rhs: r.capacityMW });
+                reserve[`r:${t}:${r.id}`] = 1;
+            }
+        }
+
+        variables.push({ id: `unserved:${t}`, cost: OPTIMIZER.VOLL * dh });
+        variables.push({ id: `reserve_short:${t}`, cost: OPTIMIZER.RESERVE_SHORTAGE_COST * dh });
+        if (step.loadTargetMW > 0) {
+            constraints.push({ id: `balance:${t}`, coeffs: balance, sense: '>=', rhs: step.loadTargetMW });
+        }
+        constraints.push({ id: `reserve:${t}`, coeffs: reserve, sense: '>=', rhs: step.reserveRequirementMW });
+    });
+
+    // End-of-horizon storage value relative to the starting state of charge
+    const last = steps.length - 1;
+    for (const r of RESOURCES.filter(res => res.type === 'BATTERY')) {
+        const { up, down } = valuation(r);
+        variables.push({ id: `soc_up:${r.id}`, cost: -up });
+        variables.push({ id: `soc_down:${r.id}`, cost: down });
+        constraints.push({
+            id: `terminal:${r.id}`,
+            coeffs: { [`soc:${last}:${r.id}`]: 1, [`soc_up:${r.id}`]: -1, [`soc_down:${r.id}`]: 1 },
+            sense: '=',
+            rhs: Math.min(storageModel.getSocBounds(r.id).maxMWh, Math.max(storageModel.getSocBounds(r.id).minMWh, soc.get(r.id) ?? 0))
         });
     }
 
-    // ========================================
-    // SCENARIO 2: High Load - Dispatch Peakers
-    // ========================================
-    if (currentLoadMW > THRESHOLDS.LOAD_HIGH) {
-        const peaker = RESOURCES.find(r => r.id === 'PEAK_4')!;
-        const loadOverThreshold = currentLoadMW - THRESHOLDS.LOAD_HIGH;
-        const dispatchMW = Math.min(peaker.capacityMW, Math.round(loadOverThreshold * 0.5));
+    return { variables, constraints };
+}
 
-        decisions.push({
-            id: `sced-${Date.now()}-peak`,
-            action: 'RAMP_UP',
-            resource: peaker.name,
-            targetMW: dispatchMW,
-            confidence: baseConfidence,
-            reasoning: [
-                `System load ${(currentLoadMW / 1000).toFixed(1)}GW exceeds ${(THRESHOLDS.LOAD_HIGH / 1000).toFixed(1)}GW threshold`,
-                `Capacity shortfall of ${loadOverThreshold}MW detected`,
-                `Peaker dispatch at $${peaker.marginalCost}/MWh is economic`,
-                `Ramp rate: ${peaker.rampRate}MW/min, full dispatch in ${Math.ceil(dispatchMW / peaker.rampRate)}min`
-            ],
-            modelId: 'sced-optimizer-v2',
-            expectedProfit: (currentPricePerMWh - peaker.marginalCost) * dispatchMW,
-            priority: currentLoadMW > THRESHOLDS.LOAD_CRITICAL ? 'CRITICAL' : 'HIGH'
-        });
+/**
+ * Describe the binding constraints of a solved dispatch LP.
+ * Step-level duals are in $ per MW-interval; divide by Δh to report $/MWh.
+ */
+function collectBindingConstraints(solution: LPSolution, steps: DispatchStep[]): BindingConstraint[] {
+    const binding: BindingConstraint[] = [];
+    const names = new Map(RESOURCES.map(r => [r.id, r]));
+    const dh = OPTIMIZER.INTERVAL_MIN / 60;
+
+    for (const [id, dual] of Object.entries(solution.duals)) {
+        const [kind, step, resourceId] = id.split(':');
+        if (kind === 'terminal' || kind === 'soc') continue; // Energy balance rows are reported as stored energy value
+        const t = Number(step);
+        const r = resourceId ? names.get(resourceId) : undefined;
+        const shadowPrice = Math.abs(dual / dh);
+        if (shadowPrice < 0.01) continue;
+
+        let description = id;
+        if (kind === 'balance') description = `Load balance (${steps[t].loadTargetMW}MW portfolio target)`;
+        else if (kind === 'reserve') description = `Reserve requirement (${steps[t].reserveRequirementMW}MW within ${OPTIMIZER.RESERVE_DEPLOY_MIN}min)`;
+        else if (kind === 'ramp_up' && r) description = `${r.name} ramp-up limit (${r.rampRate}MW/min)`;
+        else if (kind === 'ramp_dn' && r) description = `${r.name} ramp-down limit (${r.rampRate}MW/min)`;
+        else if (kind === 'headroom' && r) description = `${r.name} capacity headroom (${r.capacityMW}MW)`;
+        binding.push({ id, description, shadowPrice, intervalIndex: t });
     }
 
-    // ========================================
-    // SCENARIO 3: Low/Negative Price - Curtail Wind
-    // ========================================
-    if (currentPricePerMWh < THRESHOLDS.PRICE_LOW) {
-        const wind = RESOURCES.find(r => r.id === 'WIND_COAST')!;
-        const curtailMW = Math.round(wind.capacityMW * 0.15); // Curtail 15%
+    for (const [id, dual] of Object.entries(solution.boundDuals)) {
+        const [kind, step, resourceId] = id.split(':');
+        const r = names.get(resourceId);
+        if (!r) continue;
+        const shadowPrice = Math.abs(kind === 'soc' ? dual : dual / dh);
+        if (shadowPrice < 0.01) continue;
+        const label = kind === 'c' ? `charge capacity (${r.capacityMW}MW)`
+            : kind === 'r' ? `reserve ramp capability (${r.rampRate * OPTIMIZER.RESERVE_DEPLOY_MIN}MW)`
+                : kind === 'soc' ? `maximum state of charge (${((storageModel.getAsset(r.id)?.maxSocPct ?? 1) * 100).toFixed(0)}%)`
+                    : `capacity (${r.capacityMW}MW)`;
+        binding.push({ id: `cap:${id}`, description: `${r.name} ${label}`, shadowPrice, intervalIndex: Number(step) });
+    }
 
-        decisions.push({
-            id: `sced-${Date.now()}-wind`,
-            action: 'CURTAIL',
-            resource: wind.name,
-            targetMW: curtailMW,
-            confidence: baseConfidence - 0.1, // Lower confidence for curtailment
-            reasoning: [
-                `Price at $${currentPricePerMWh.toFixed(2)}/MWh below $${THRESHOLDS.PRICE_LOW} threshold`,
-                currentPricePerMWh < 0 ? `NEGATIVE PRICING in effect - congestion present` : `Low demand period`,
-                `Wind curtailment reduces transmission congestion`,
-                `Recommended curtailment: ${curtailMW}MW (${((curtailMW / wind.capacityMW) * 100).toFixed(0)}% of capacity)`
-            ],
-            modelId: 'sced-optimizer-v2',
-            expectedProfit: Math.abs(currentPricePerMWh) * curtailMW, // Avoided negative revenue
-            priority: currentPricePerMWh < 0 ? 'HIGH' : 'MEDIUM'
+    // SoC floors are variable lower bounds: binding when the reduced cost is positive at the floor
+    for (const [id, reducedCost] of Object.entries(solution.reducedCosts)) {
+        const [kind, step, resourceId] = id.split(':');
+        if (kind !== 'soc' || reducedCost < 0.01) continue;
+        const asset = storageModel.getAsset(resourceId);
+        if (!asset || solution.values[id] > storageModel.getSocBounds(resourceId).minMWh + 1e-6) continue;
+        binding.push({
+            id: `floor:${id}`,
+            description: `${asset.name} minimum state of charge (${(asset.minSocPct * 100).toFixed(0)}%)`,
+            shadowPrice: reducedCost,
+            intervalIndex: Number(step)
         });
     }
 
-    // ========================================
-    // SCENARIO 4: Low Price - Charge Batteries
-    // ========================================
-    if (currentPricePerMWh < THRESHOLDS.PRICE_LOW && currentLoadMW < THRESHOLDS.LOAD_HIGH) {
-        const battery = RESOURCES.find(r => r.id === 'BAT_COAST')!;
-        const chargeMW = Math.round(battery.capacityMW * 0.8);
+    return binding.sort((a, b) => a.intervalIndex - b.intervalIndex || b.shadowPrice - a.shadowPrice);
+}
+
+/**
+ * Solve the dispatch LP and summarize its economics
+ */
+function solveDispatch(
+    steps: DispatchStep[],
+    current: Map<string, number>,
+    soc: Map<string, number>,
+    valuation: StorageValuer
+): { solution: LPSolution; costs: Map<string, number>; summary: SCEDSolverSummary } {
+    const problem = buildDispatchProblem(steps, current, soc, valuation);
+    const solution = solveLP(problem);
+
+    if (solution.status !== 'OPTIMAL') {
+        throw new Error(`SCED optimization failed: ${solution.status}`);
+    }
+
+    const dh = OPTIMIZER.INTERVAL_MIN / 60;
+    const summary: SCEDSolverSummary = {
+        status: solution.status,
+        objective: solution.objective,
+        systemLambda: steps[0].pricePerMWh + (solution.duals['balance:0'] ?? 0) / dh,
+        reservePrice: (solution.duals['reserve:0'] ?? 0) / dh,
+        loadTargetMW: steps[0].loadTargetMW,
+        reserveRequirementMW: steps[0].reserveRequirementMW,
+        unservedMW: solution.values['unserved:0'] ?? 0,
+        reserveShortfallMW: solution.values['reserve_short:0'] ?? 0,
+        bindingConstraints: collectBindingConstraints(solution, steps),
+        iterations: solution.iterations
+    };
+
+    return { solution, costs: new Map(problem.variables.map(v => [v.id, v.cost])), summary };
+}
+
+/**
+ * Turn the LP solution of one step into per-resource decisions
+ */
+function buildStepDecisions(
+    t: number,
+    steps: DispatchStep[],
+    previous: Map<string, number>,
+    solution: LPSolution,
+    costs: Map<string, number>,
+    bindingConstraints: BindingConstraint[],
+    baseConfidence: number
+): DispatchDecision[] {
+    const step = steps[t];
+    const price = step.pricePerMWh;
+    const v = solution.values;
+    const dh = OPTIMIZER.INTERVAL_MIN / 60;
+
+    const unservedMW = v[`unserved:${t}`] ?? 0;
+    const reserveShortfallMW = v[`reserve_short:${t}`] ?? 0;
+    const energyDual = (solution.duals[`balance:${t}`] ?? 0) / dh;
+    const reserveDual = (solution.duals[`reserve:${t}`] ?? 0) / dh;
+
+    // System-wide reasoning shared by every decision in this step
+    const systemReasons: string[] = [];
+    if (energyDual > 0.01) {
+        systemReasons.push(`Load balance binding at ${step.loadTargetMW}MW: shadow price $${energyDual.toFixed(2)}/MWh above LMP (λ = $${(price + energyDual).toFixed(2)}/MWh)`);
+    }
+    if (reserveDual > 0.01) {
+        systemReasons.push(`Reserve requirement binding at ${step.reserveRequirementMW}MW: shadow price $${reserveDual.toFixed(2)}/MWh`);
+    }
+    if (unservedMW > 0.5) systemReasons.push(`UNSERVED: ${unservedMW.toFixed(0)}MW of load target cannot be met within ramp/capacity limits`);
+    if (reserveShortfallMW > 0.5) systemReasons.push(`RESERVE SHORTFALL: ${reserveShortfallMW.toFixed(0)}MW below requirement`);
+
+    const stepBinding = bindingConstraints.filter(b => b.intervalIndex === t);
+    const decisions: DispatchDecision[] = [];
+
+    for (const r of RESOURCES) {
+        const prev = previous.get(r.id) ?? r.initialOutputMW;
+        const g = v[`g:${t}:${r.id}`] ?? 0;
+        const c = v[`c:${t}:${r.id}`] ?? 0;
+        const next = Math.round(g - c);
+        if (Math.abs(next - prev) < OPTIMIZER.MIN_MOVE_MW) continue;
+
+        let action: DispatchDecision['action'];
+        let targetMW: number;
+        if (r.type === 'BATTERY') {
+            action = next < 0 ? 'CHARGE' : next > 0 ? 'DEPLOY' : 'RAMP_DOWN'; // Zero = return to idle
+            targetMW = Math.abs(next);
+        } else if (r.type === 'WIND' || r.type === 'SOLAR') {
+            action = next < prev ? 'CURTAIL' : 'RAMP_UP';
+            targetMW = next < prev ? Math.round(prev - next) : next; // Curtailment is reported as MW removed
+        } else if (r.type === 'DEMAND_RESPONSE') {
+            action = next > prev ? 'DEPLOY' : 'RAMP_DOWN';
+            targetMW = next;
+        } else {
+            action = next > prev ? 'RAMP_UP' : 'RAMP_DOWN';
+            targetMW = next;
+        }
+
+        // Economic value ($/h) of the move versus holding the current setpoint
+        const value = (id: string, before: number, after: number) => ((costs.get(id) ?? 0) / dh) * (before - after);
+        const expectedProfit = r.type === 'BATTERY'
+            ? value(`g:${t}:${r.id}`, Math.max(0, prev), g) + value(`c:${t}:${r.id}`, Math.max(0, -prev), c)
+            : value(`g:${t}:${r.id}`, prev, g);
+
+        const margin = price - r.marginalCost;
+        const reasoning: string[] = [
+            `Merit order: marginal cost $${r.marginalCost.toFixed(2)}/MWh vs LMP $${price.toFixed(2)}/MWh (margin ${margin >= 0 ? '+' : '-'}$${Math.abs(margin).toFixed(2)}/MWh)`,
+            `Setpoint ${prev}MW → ${next}MW at ${r.rampRate}MW/min (${Math.ceil(Math.abs(next - prev) / r.rampRate)}min)`
+        ];
+        if (r.type === 'BATTERY') {
+            const asset = storageModel.getAsset(r.id)!;
+            const socMWh = v[`soc:${t}:${r.id}`] ?? 0;
+            reasoning.push(`State of charge after interval: ${socMWh.toFixed(1)}MWh of ${asset.energyMWh}MWh (${((socMWh / asset.energyMWh) * 100).toFixed(0)}%, window ${(asset.minSocPct * 100).toFixed(0)}-${(asset.maxSocPct * 100).toFixed(0)}%)`);
+            reasoning.push(`Round-trip efficiency ${(asset.roundTripEfficiency * 100).toFixed(0)}%, degradation $${r.marginalCost.toFixed(2)}/MWh ($${asset.degradationCostPerCycle}/cycle)`);
+            reasoning.push(`Marginal value of stored energy: $${Math.abs(solution.duals[`soc:${t}:${r.id}`] ?? 0).toFixed(2)}/MWh`);
+        }
+        stepBinding
+            .filter(b => b.id.endsWith(`:${r.id}`))
+            .forEach(b => reasoning.push(`Binding: ${b.description}, shadow price $${b.shadowPrice.toFixed(2)}/MWh`));
+        reasoning.push(...systemReasons);
+
+        let priority: DispatchDecision['priority'] = 'MEDIUM';
+        if (unservedMW > 0.5 || reserveShortfallMW > 0.5 || price > THRESHOLDS.PRICE_SPIKE || step.loadMW > THRESHOLDS.LOAD_CRITICAL) priority = 'CRITICAL';
+        else if (energyDual > 0.01 || reserveDual > 0.01 || price > THRESHOLDS.PRICE_HIGH || price < THRESHOLDS.PRICE_NEGATIVE) priority = 'HIGH';
+        else if (Math.abs(expectedProfit) < 100) priority = 'LOW';
 
         decisions.push({
-            id: `sced-${Date.now()}-charge`,
-            action: 'CHARGE',
-            resource: battery.name,
-            targetMW: chargeMW,
-            confidence: baseConfidence,
-            reasoning: [
-                `Low price period: $${currentPricePerMWh.toFixed(2)}/MWh`,
-                `Optimal charging window detected`,
-                `Charging at ${chargeMW}MW for peak arbitrage`,
-                `Expected peak price differential: +$${(THRESHOLDS.PRICE_HIGH - currentPricePerMWh).toFixed(2)}/MWh`
-            ],
-            modelId: 'sced-optimizer-v2',
-            expectedProfit: (THRESHOLDS.PRICE_HIGH - currentPricePerMWh) * chargeMW * 0.85, // 85% round-trip efficiency
-            priority: 'MEDIUM'
+            id: `sced-${Date.now()}-${steps.length > 1 ? `t${t}-` : ''}${r.id.toLowerCase()}`,
+            action,
+            resource: r.name,
+            resourceId: r.id,
+            targetMW,
+            setpointMW: next,
+            confidence: Math.min(0.99, baseConfidence + (stepBinding.length > 0 ? 0.05 : 0)),
+            reasoning,
+            modelId: 'sced-lp-v3',
+            expectedProfit,
+            priority,
+            ...(steps.length > 1 ? { intervalStart: step.timestamp } : {})
         });
     }
 
+    return decisions;
+}
+
+/**
+ * Sort by priority, then confidence
+ */
+function sortDecisions(decisions: DispatchDecision[]): DispatchDecision[] {
+    const priorityOrder = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+    return decisions.sort((a, b) => {
+        if (priorityOrder[a.priority] !== priorityOrder[b.priority]) {
+            return priorityOrder[a.priority] - priorityOrder[b.priority];
+        }
+        return b.confidence - a.confidence;
+    });
+}
+
+/**
+ * Actuation request for a dispatch decision (rule-pack tool 'sced_dispatch')
+ */
+function toActuationRequest(decision: DispatchDecision, source: ActuationSource, approvedBy?: string, dualAuthorizationId?: string): ActuationRequest {
+    const resource = RESOURCES.find(r => r.id === decision.resourceId);
+    return {
+        source,
+        toolName: 'sced_dispatch',
+        args: {
+            resourceId: decision.resourceId,
+            resourceType: resource?.type,
+            action: decision.action,
+            targetMW: decision.targetMW,
+            setpointMW: decision.setpointMW
+        },
+        resource: decision.resource,
+        magnitudeMW: decision.targetMW,
+        approvedBy,
+        dualAuthorizationId
+    };
+}
+
+/**
+ * Tag actionable decisions with their risk tier under current grid conditions
+ */
+function tagRiskTiers(decisions: DispatchDecision[]): DispatchDecision[] {
+    decisions.filter(d => d.action !== 'HOLD').forEach(d => {
+        const assessment = actuationGuard.assess(toActuationRequest(d, 'SCED'));
+        d.riskTier = assessment.riskTier;
+        d.disposition = assessment.disposition;
+        d.requiresSecondApprover = assessment.requiresSecondApprover;
+        d.riskReasons = assessment.reasons;
+    });
+    return decisions;
+}
+
+/**
+ * Generate single-interval dispatch decisions from the least-cost LP solution.
+ *
+ * Without a price forecast, stored energy is valued at the arbitrage
+ * thresholds: discharge only pays above PRICE_HIGH and charging below PRICE_LOW.
+ */
+function generateDecisions(input: SCEDInput): { decisions: DispatchDecision[]; solver: SCEDSolverSummary } {
+    const { currentLoadMW, currentPricePerMWh: price, prevPricePerMWh = price } = input;
+    const step: DispatchStep = {
+        timestamp: new Date().toISOString(),
+        pricePerMWh: price,
+        loadMW: currentLoadMW,
+        ...resolveObligations(currentLoadMW, input)
+    };
+
+    const current = currentSetpoints(input.currentSetpointsMW);
+    const soc = currentStateOfCharge();
+
+    // Threshold valuation expressed per MWh stored: charge pays below PRICE_LOW
+    // after charging losses, discharge pays above PRICE_HIGH after losses and wear.
+    const valuation: StorageValuer = battery => {
+        const eta = storageModel.getEfficiencies(battery.id);
+        return {
+            up: THRESHOLDS.PRICE_LOW / eta.charge,
+            down: (THRESHOLDS.PRICE_HIGH - battery.marginalCost) * eta.discharge
+        };
+    };
+    const { solution, costs, summary } = solveDispatch([step], current, soc, valuation);
+
+    const baseConfidence = calculateConfidence(price, currentLoadMW, price - prevPricePerMWh);
+    const decisions = buildStepDecisions(0, [step], current, solution, costs, summary.bindingConstraints, baseConfidence);
+
+    // Project each battery's SoC for the next hour holding the recommended setpoint
+    decisions.filter(d => storageModel.isStorage(d.resourceId)).forEach(d => {
+        d.socTrajectory = storageModel.projectTrajectory(d.resourceId, d.setpointMW, 12, OPTIMIZER.INTERVAL_MIN, soc.get(d.resourceId));
+    });
+
     // ========================================
     // DEFAULT: System Optimized
     // ========================================
     if (decisions.length === 0) {
+        const top = summary.bindingConstraints[0];
         decisions.push({
             id: `sced-${Date.now()}-hold`,
             action: 'HOLD',
             resource: 'All Assets',
+            resourceId: 'ALL',
             targetMW: 0,
+            setpointMW: 0,
             confidence: 0.85,
             reasoning: [
-                `Market price $${currentPricePerMWh.toFixed(2)}/MWh within normal band`,
-                `System load ${(currentLoadMW / 1000).toFixed(1)}GW within capacity`,
-                `No arbitrage opportunity detected`,
+                `Market price $${price.toFixed(2)}/MWh: current setpoints already least-cost`,
+                `System load ${(currentLoadMW / 1000).toFixed(1)}GW, portfolio target ${step.loadTargetMW}MW met`,
+                top ? `Binding: ${top.description} ($${top.shadowPrice.toFixed(2)}/MWh)` : `No binding constraints`,
                 `Maintaining current dispatch schedule`
             ],
-            modelId: 'sced-optimizer-v2',
+            modelId: 'sced-lp-v3',
             expectedProfit: 0,
             priority: 'LOW'
         });
     }
 
-    return decisions.sort((a, b) => {
-        // Sort by priority, then confidence
-        const priorityOrder = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
-        if (priorityOrder[a.priority] !== priorityOrder[b.priority]) {
-            return priorityOrder[a.priority] - priorityOrder[b.priority];
-        }
-        return b.confidence - a.confidence;
-    });
+    return { decisions: sortDecisions(tagRiskTiers(decisions)), solver: summary };
 }
 
 // ============================================================================
@@ -282,17 +727,18 @@ function generateDecisions(input: SCEDInput): DispatchDecision[] {
 
 /**
  * Run SCED analysis and return dispatch recommendations.
- * 
+ *
  * @param input - Current grid and market conditions
+ * @param triggeredBy - Operator whose console ran the analysis (audit attribution)
  * @returns Promise<SCEDAnalysisResult> - AI-generated dispatch decisions with reasoning
  */
-export async function getDispatchRecommendations(input: SCEDInput): Promise<SCEDAnalysisResult> {
+export async function getDispatchRecommendations(input: SCEDInput, triggeredBy: string = sessionService.getOperatorId()): Promise<SCEDAnalysisResult> {
     const startTime = Date.now();
 
     // Simulate computation time (essential for UI "feel")
     await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 300));
 
-    const decisions = generateDecisions(input);
+    const { decisions, solver } = generateDecisions(input);
     const marketCondition = determineMarketCondition(input.currentPricePerMWh, input.currentLoadMW);
 
     // Calculate system health (inverse of stress)
@@ -306,34 +752,319 @@ export async function getDispatchRecommendations(input: SCEDInput): Promise<SCED
         decisions,
         marketCondition,
         systemHealth,
-        analysisTimeMs: Date.now() - startTime
+        analysisTimeMs: Date.now() - startTime,
+        solver
     };
 
     // Log to audit trail
     auditService.log({
-        operatorId: 'SYS-SCED',
+        operatorId: triggeredBy,
         eventType: 'AI_RECOMMENDATION',
         resource: 'SCED_ANALYSIS',
-        details: `Generated ${decisions.length} recommendations. Market: ${marketCondition}. Top action: ${decisions[0]?.action || 'NONE'}`
+        details: `Generated ${decisions.length} recommendations. Market: ${marketCondition}. Top action: ${decisions[0]?.action || 'NONE'}. λ=$${solver.systemLambda.toFixed(2)}/MWh`,
+        metadata: {
+            objective: solver.objective,
+            bindingConstraints: solver.bindingConstraints.map(b => b.id)
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Build 5-minute look-ahead intervals from hourly forecast curves.
+ *
+ * Accepts points keyed by "HH:mm" (e.g. dataService.getForecast / getMarketPrices)
+ * or ISO timestamps (e.g. forecastService.predictNext24Hours) and linearly
+ * interpolates by time of day.
+ */
+export function buildLookaheadIntervals(
+    loadForecast: Array<{ time: string; value: number }>,
+    priceForecast: Array<{ time: string; value: number }>,
+    horizonMinutes = 60,
+    start: Date = new Date()
+): LookaheadInterval[] {
+    const minuteOfDay = (time: string): number => {
+        if (/^\d{1,2}:\d{2}$/.test(time)) {
+            const [h, m] = time.split(':').map(Number);
+            return h * 60 + m;
+        }
+        const d = new Date(time);
+        return d.getHours() * 60 + d.getMinutes();
+    };
+
+    const interpolate = (series: Array<{ time: string; value: number }>, minute: number): number => {
+        const points = series
+            .map(p => ({ minute: minuteOfDay(p.time), value: Number(p.value) }))
+            .filter(p => !isNaN(p.minute) && isFinite(p.value))
+            .sort((a, b) => a.minute - b.minute);
+        if (points.length === 0) return NaN;
+        if (points.length === 1) return points[0].value;
+
+        // Circular search over the day for the surrounding points
+        let before = points[points.length - 1];
+        let after = points[0];
+        for (const p of points) {
+            if (p.minute <= minute) before = p;
+            if (p.minute > minute) { after = p; break; }
+        }
+        const span = (after.minute - before.minute + 1440) % 1440 || 1440;
+        const offset = (minute - before.minute + 1440) % 1440;
+        return before.value + (after.value - before.value) * (offset / span);
+    };
+
+    const count = Math.min(OPTIMIZER.MAX_LOOKAHEAD_INTERVALS, Math.max(1, Math.round(horizonMinutes / OPTIMIZER.INTERVAL_MIN)));
+    const intervals: LookaheadInterval[] = [];
+    for (let i = 0; i < count; i++) {
+        const ts = new Date(start.getTime() + i * OPTIMIZER.INTERVAL_MIN * 60000);
+        const minute = ts.getHours() * 60 + ts.getMinutes();
+        intervals.push({
+            timestamp: ts.toISOString(),
+            loadMW: Math.round(interpolate(loadForecast, minute)),
+            pricePerMWh: Number(interpolate(priceForecast, minute).toFixed(2))
+        });
+    }
+    return intervals.filter(iv => isFinite(iv.loadMW) && isFinite(iv.pricePerMWh));
+}
+
+/**
+ * Run multi-interval look-ahead SCED over a forecast series.
+ *
+ * Solves all intervals in one LP so battery state of charge carries across
+ * intervals. Stored energy left at the end of the horizon is valued at the
+ * mean forecast price. Each CHARGE decision is linked to the next DEPLOY of
+ * the same battery via `linkedDecisionId`.
+ *
+ * @param input - 5-minute forecast intervals (max 24 = 2 hours)
+ * @param triggeredBy - Operator whose console ran the look-ahead (audit attribution)
+ * @returns Promise<SCEDLookaheadResult> - Per-interval schedule with SoC trajectory
+ */
+export async function getLookaheadSchedule(input: SCEDLookaheadInput, triggeredBy: string = sessionService.getOperatorId()): Promise<SCEDLookaheadResult> {
+    const startTime = Date.now();
+    const intervals = input.intervals.slice(0, OPTIMIZER.MAX_LOOKAHEAD_INTERVALS);
+    if (intervals.length === 0) {
+        throw new Error('Look-ahead SCED requires at least one forecast interval');
+    }
+
+    const steps: DispatchStep[] = intervals.map(iv => ({
+        timestamp: iv.timestamp,
+        pricePerMWh: iv.pricePerMWh,
+        loadMW: iv.loadMW,
+        ...resolveObligations(iv.loadMW, iv)
+    }));
+
+    const current = currentSetpoints(input.currentSetpointsMW);
+    const soc = currentStateOfCharge(input.initialStateOfChargeMWh);
+
+    // Energy left in storage is worth what it would sell for at the mean forecast price
+    const meanPrice = steps.reduce((sum, s) => sum + s.pricePerMWh, 0) / steps.length;
+    const valuation: StorageValuer = battery => {
+        const terminalValue = meanPrice * storageModel.getEfficiencies(battery.id).discharge;
+        return { up: terminalValue, down: terminalValue };
+    };
+    const { solution, costs, summary } = solveDispatch(steps, current, soc, valuation);
+
+    // Walk the horizon, carrying setpoints forward
+    const schedule: ScheduledInterval[] = [];
+    let previous = current;
+    steps.forEach((step, t) => {
+        const prevPrice = t === 0 ? step.pricePerMWh : steps[t - 1].pricePerMWh;
+        const baseConfidence = calculateConfidence(step.pricePerMWh, step.loadMW, step.pricePerMWh - prevPrice);
+        const decisions = buildStepDecisions(t, steps, previous, solution, costs, summary.bindingConstraints, baseConfidence);
+
+        const setpointsMW: Record<string, number> = {};
+        const stateOfChargeMWh: Record<string, number> = {};
+        for (const r of RESOURCES) {
+            setpointsMW[r.id] = Math.round((solution.values[`g:${t}:${r.id}`] ?? 0) - (solution.values[`c:${t}:${r.id}`] ?? 0));
+            if (r.type === 'BATTERY') stateOfChargeMWh[r.id] = Number((solution.values[`soc:${t}:${r.id}`] ?? 0).toFixed(2));
+        }
+        // Unchanged resources keep their previous setpoint (sub-MW moves are ignored)
+        previous = new Map(RESOURCES.map(r => [
+            r.id,
+            Math.abs(setpointsMW[r.id] - (previous.get(r.id) ?? 0)) < OPTIMIZER.MIN_MOVE_MW ? (previous.get(r.id) ?? 0) : setpointsMW[r.id]
+        ]));
+
+        schedule.push({
+            index: t,
+            timestamp: step.timestamp,
+            pricePerMWh: step.pricePerMWh,
+            loadMW: step.loadMW,
+            systemLambda: step.pricePerMWh + (solution.duals[`balance:${t}`] ?? 0) / (OPTIMIZER.INTERVAL_MIN / 60),
+            reservePrice: (solution.duals[`reserve:${t}`] ?? 0) / (OPTIMIZER.INTERVAL_MIN / 60),
+            unservedMW: solution.values[`unserved:${t}`] ?? 0,
+            setpointsMW,
+            stateOfChargeMWh,
+            decisions: sortDecisions(tagRiskTiers(decisions))
+        });
+    });
+
+    // Attach the planned SoC trajectory (from the start of the interval) to battery decisions
+    schedule.forEach((interval, t) => {
+        interval.decisions.filter(d => storageModel.isStorage(d.resourceId)).forEach(d => {
+            const asset = storageModel.getAsset(d.resourceId)!;
+            const startSoc = t === 0 ? (soc.get(d.resourceId) ?? 0) : schedule[t - 1].stateOfChargeMWh[d.resourceId];
+            d.socTrajectory = [
+                { timestamp: interval.timestamp, socMWh: startSoc },
+                ...schedule.slice(t).map(s => ({
+                    timestamp: new Date(new Date(s.timestamp).getTime() + OPTIMIZER.INTERVAL_MIN * 60000).toISOString(),
+                    socMWh: s.stateOfChargeMWh[d.resourceId]
+                }))
+            ].map(p => ({ ...p, socPct: Number((p.socMWh / asset.energyMWh).toFixed(4)) }));
+        });
+    });
+
+    // Tie each CHARGE to the next DEPLOY of the same battery
+    schedule.forEach((interval, t) => {
+        interval.decisions.filter(d => d.action === 'CHARGE').forEach(charge => {
+            for (const later of schedule.slice(t + 1)) {
+                const deploy = later.decisions.find(d => d.resourceId === charge.resourceId && d.action === 'DEPLOY');
+                if (!deploy) continue;
+                charge.linkedDecisionId = deploy.id;
+                charge.reasoning.push(`Energy stored now is released at ${new Date(later.timestamp).toLocaleTimeString('en-US', { hour12: false })} (DEPLOY ${deploy.targetMW}MW at $${later.pricePerMWh.toFixed(2)}/MWh)`);
+                break;
+            }
+        });
+    });
+
+    const result: SCEDLookaheadResult = {
+        timestamp: new Date().toISOString(),
+        horizonMinutes: steps.length * OPTIMIZER.INTERVAL_MIN,
+        schedule,
+        solver: summary,
+        analysisTimeMs: Date.now() - startTime
+    };
+
+    const actions = schedule.reduce((sum, s) => sum + s.decisions.length, 0);
+    auditService.log({
+        operatorId: triggeredBy,
+        eventType: 'AI_RECOMMENDATION',
+        resource: 'SCED_LOOKAHEAD',
+        details: `Look-ahead schedule: ${steps.length} intervals (${result.horizonMinutes}min), ${actions} scheduled actions. Net cost $${summary.objective.toFixed(0)}`,
+        metadata: {
+            horizonMinutes: result.horizonMinutes,
+            bindingConstraints: summary.bindingConstraints.length
+        }
     });
 
     return result;
 }
 
 /**
- * Execute a dispatch decision (send to control system)
+ * Current resource setpoints (MW, negative = charging)
  */
-export async function executeDispatch(decision: DispatchDecision): Promise<boolean> {
-    // Simulate control system communication
-    await new Promise(resolve => setTimeout(resolve, 200));
+export function getResourceSetpoints(): Record<string, number> {
+    return Object.fromEntries(currentSetpoints());
+}
+
+/**
+ * Apply a setpoint to the local resource model
+ */
+function applySetpoint(resourceId: string, setpointMW: number) {
+    if (storageModel.isStorage(resourceId)) storageModel.setSetpoint(resourceId, setpointMW);
+    if (setpoints.has(resourceId)) setpoints.set(resourceId, setpointMW);
+}
+
+// The local model follows the plant: a setpoint takes effect once the control
+// system acknowledges it, and a rollback restores the previous one.
+dispatchLedger.onTransition((command: DispatchCommand) => {
+    if (command.status === 'ACKNOWLEDGED') applySetpoint(command.resourceId, command.setpointMW);
+    else if (command.status === 'ROLLED_BACK') applySetpoint(command.resourceId, command.previousSetpointMW);
+});
+
+/**
+ * Ask a supervisor to co-approve a decision that falls under the two-person
+ * rule. Pass the resulting request id to executeDispatch once it is APPROVED.
+ */
+export function requestDispatchApproval(decision: DispatchDecision, requestedBy: AuthIdentity): DualAuthRequest {
+    return actuationGuard.requestSecondApproval(
+        toActuationRequest(decision, 'SCED', requestedBy.id),
+        requestedBy,
+        `${decision.action} ${decision.targetMW}MW on ${decision.resource}`
+    );
+}
+
+/**
+ * Execute a dispatch decision (send to control system via the dispatch ledger).
+ *
+ * The decision first passes the shared actuation guard: GREEN runs from any
+ * source, YELLOW needs an approving operator, RED and above-threshold moves
+ * also need a supervisor second approval (see requestDispatchApproval).
+ *
+ * Battery decisions are re-checked against the live state of charge: a
+ * setpoint that cannot be held for one interval is clipped, and refused
+ * entirely when no energy (or headroom) is left.
+ *
+ * Resolves once the control system acknowledges (or rejects) the command;
+ * ramping continues in the ledger.
+ *
+ * @param source - Who is actuating (operator click = 'SCED', unattended = 'AUTO_DISPATCH')
+ * @param approvedBy - Operator approving the decision; omit for unattended
+ *   execution so the guard applies its unattended (GREEN-only) rules
+ * @param dualAuthorizationId - Approved supervisor second approval (two-person rule)
+ */
+export async function executeDispatch(
+    decision: DispatchDecision,
+    source: ActuationSource = 'SCED',
+    approvedBy?: string,
+    dualAuthorizationId?: string
+): Promise<DispatchExecutionResult> {
+    const verdict = actuationGuard.authorize(toActuationRequest(decision, source, approvedBy, dualAuthorizationId));
+    if (!verdict.authorized) {
+        console.warn(`[SCED] Dispatch refused by guard: ${decision.action} on ${decision.resource}. ${verdict.reason}`);
+        return { executed: false, reason: verdict.reason, riskTier: verdict.riskTier };
+    }
+
+    // Unattended dispatch is attributed to the operator whose session enabled it
+    const operatorId = approvedBy ?? sessionService.getOperatorId();
+
+    let setpointMW = decision.setpointMW;
+    let clippedNote = '';
+    if (storageModel.isStorage(decision.resourceId)) {
+        const check = storageModel.checkDispatch(decision.resourceId, setpointMW, OPTIMIZER.INTERVAL_MIN);
+        if (!check.allowed) {
+            auditService.log({
+                operatorId,
+                eventType: 'SAFETY_SWITCH',
+                resource: decision.resource,
+                details: `Refused ${decision.action} ${decision.targetMW}MW: ${check.reason}`,
+                metadata: { decisionId: decision.id, socMWh: storageModel.getSocMWh(decision.resourceId) }
+            });
+            console.warn(`[SCED] Dispatch refused: ${decision.action} on ${decision.resource}. ${check.reason}`);
+            return { executed: false, reason: check.reason, riskTier: verdict.riskTier };
+        }
+        if (check.clipped) {
+            setpointMW = check.allowedMW;
+            clippedNote = ` Clipped to ${Math.abs(setpointMW)}MW (${check.reason}).`;
+        }
+    }
 
     auditService.log({
-        operatorId: 'OPERATOR',
-        eventType: 'OPERATOR_APPROVAL',
+        operatorId,
+        eventType: approvedBy ? 'OPERATOR_APPROVAL' : 'AI_ACTUATION',
         resource: decision.resource,
-        details: `Executed ${decision.action} for ${decision.targetMW}MW. Confidence: ${(decision.confidence * 100).toFixed(0)}%`
+        details: `${approvedBy ? 'Approved' : 'Auto-dispatched'} ${decision.action} for ${decision.targetMW}MW (${verdict.riskTier}). Confidence: ${(decision.confidence * 100).toFixed(0)}%.${clippedNote}`,
+        metadata: { decisionId: decision.id, source, riskTier: verdict.riskTier, safetyDecisionId: verdict.safety.decisionId, dualAuthorizationId }
     });
 
-    console.log(`[SCED] Dispatch executed: ${decision.action} ${decision.targetMW}MW on ${decision.resource}`);
-    return true;
+    const resource = RESOURCES.find(r => r.id === decision.resourceId);
+    const command = dispatchLedger.submit({
+        decisionId: decision.id,
+        resourceId: decision.resourceId,
+        resource: decision.resource,
+        action: decision.action,
+        targetMW: clippedNote ? Math.abs(setpointMW) : decision.targetMW,
+        setpointMW,
+        previousSetpointMW: currentSetpoints().get(decision.resourceId) ?? 0,
+        rampRateMWPerMin: resource?.rampRate ?? 10,
+        operatorId
+    });
+
+    const settled = await dispatchLedger.waitFor(command.id, ['ACKNOWLEDGED']);
+    if (settled.status === 'FAILED' || settled.status === 'CANCELLED') {
+        console.warn(`[SCED] Dispatch ${command.id} ${settled.status}: ${settled.error ?? ''}`);
+        return { executed: false, reason: settled.error ?? `Command ${settled.status.toLowerCase()}`, riskTier: verdict.riskTier, commandId: command.id };
+    }
+
+    console.log(`[SCED] Dispatch acknowledged: ${decision.action} ${decision.targetMW}MW on ${decision.resource} (${command.id})`);
+    return { executed: true, riskTier: verdict.riskTier, commandId: command.id };
 }
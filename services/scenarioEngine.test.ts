@@ -0,0 +1,52 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { parseScenario } from './scenarioEngine';
+import { ScenarioState } from '../types';
+
+const BASE: ScenarioState = {
+    temp: '75°F',
+    wind: '12 mph',
+    solar: '800 W/m²',
+    load: '45k MW',
+    growth: '2.1%',
+    ev: '1.5%',
+    gen: '50k MW',
+    reserves: '15%',
+    outages: 'None'
+};
+
+describe('parseScenario', () => {
+    it.each([
+        ['45k MW', 45000],
+        ['65,000 MW', 65000],
+        ['1,250,000 MW', 1250000],
+        ['1.2 GW', 1200],
+        ['62000', 62000],
+        ['45kMW', 45000],
+        ['2 GWh', 2],
+        ['unknown', 0]
+    ])('reads load %s as %d MW', (load, expected) => {
+        expect(parseScenario({ ...BASE, load }).baseLoadMW).toBe(expected);
+    });
+
+    it('keeps signs and decimals and falls back for a missing temperature', () => {
+        const params = parseScenario({ ...BASE, temp: '-5°F', growth: '-0.5%', gen: '71,500.5 MW' });
+        expect(params.tempF).toBe(-5);
+        expect(params.growthPercent).toBe(-0.5);
+        expect(params.generationMW).toBe(71500.5);
+        expect(parseScenario({ ...BASE, temp: '' }).tempF).toBe(75);
+    });
+
+    it('does not scale units that only start with k or gw', () => {
+        const params = parseScenario({ ...BASE, wind: '25 km/h', gen: '12 knots' });
+        expect(params.windMph).toBe(25);
+        expect(params.generationMW).toBe(12);
+        expect(parseScenario({ ...BASE, wind: '12 kts' }).windMph).toBe(12);
+    });
+
+    it('reads outage levels by name or MW', () => {
+        expect(parseScenario(BASE).outageMW).toBe(0);
+        expect(parseScenario({ ...BASE, outages: 'Moderate' }).outageMW).toBe(5000);
+        expect(parseScenario({ ...BASE, outages: '3,500 MW' }).outageMW).toBe(3500);
+    });
+});
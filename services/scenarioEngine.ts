@@ -0,0 +1,294 @@
+/**
+ * scenarioEngine.ts
+ *
+ * Deterministic What-If Scenario Engine
+ *
+ * Turns the Scenarios page inputs (strings with units, e.g. "95°F", "65k MW")
+ * into numbers and computes a supply/demand balance before any LLM is
+ * involved. The numbers here are the result; the LLM only narrates them, so a
+ * scenario runs the same with or without an API key.
+ *
+ * Features:
+ * - Input parsing (°F, mph, W/m², k/GW multipliers, %, outage keywords)
+ * - Fleet models: thermal heat/freeze derating, wind power curve, solar
+ *   irradiance with cell-temperature losses
+ * - Reserve margin and ERCOT EEA level from physical responsive capacity
+ * - Corridor risks from predictiveService's derating math
+ * - Template narrative (BLUF format) used when no LLM is available
+ */
+
+import { ScenarioState } from '../types';
+import { predictiveService, CorridorRisk } from './predictiveService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScenarioParameters {
+    tempF: number;
+    windMph: number;
+    solarWm2: number;
+    baseLoadMW: number;
+    growthPercent: number;
+    evPercent: number;
+    generationMW: number;
+    reservesPercent: number;
+    outageMW: number;
+}
+
+export interface ScenarioSupply {
+    thermalMW: number;
+    windMW: number;
+    solarMW: number;
+    reservesMW: number;
+    outageMW: number;
+    totalMW: number;
+}
+
+export type EeaLevel = 0 | 1 | 2 | 3;
+
+export interface ScenarioResult {
+    parameters: ScenarioParameters;
+    demandMW: number;
+    supply: ScenarioSupply;
+    /** Supply minus demand (physical responsive capacity) */
+    operatingReserveMW: number;
+    reserveMarginPercent: number;
+    eeaLevel: EeaLevel;
+    eeaLabel: string;
+    /** Demand that cannot be served at all */
+    shortfallMW: number;
+    /** Load to shed to hold operating reserves at the EEA3 floor */
+    loadShedMW: number;
+    corridorRisks: CorridorRisk[];
+    narrative: string;
+    narrativeSource: 'LLM' | 'TEMPLATE';
+}
+
+// ============================================================================
+// FLEET CONSTANTS (ERCOT-scale installed capacity)
+// ============================================================================
+
+const FLEET = {
+    WIND_CAPACITY_MW: 38000,
+    WIND_CUT_IN_MPH: 7,
+    WIND_RATED_MPH: 28,
+    WIND_CUT_OUT_MPH: 55,
+
+    SOLAR_CAPACITY_MW: 22000,
+    SOLAR_STC_WM2: 1000,        // Nameplate irradiance
+    SOLAR_TEMP_COEFF: 0.004,    // Output loss per °C of cell temp above 25°C
+    SOLAR_CELL_RISE_C: 25,      // Cell temp rise over ambient at 1000 W/m²
+
+    THERMAL_HEAT_F: 95,         // Cooling-water / air-density derating begins
+    THERMAL_HEAT_DERATE: 0.005, // per °F above THERMAL_HEAT_F
+    THERMAL_FREEZE_F: 25,       // Freeze-related forced outages begin
+    THERMAL_FREEZE_DERATE: 0.015,
+    THERMAL_MAX_DERATE: 0.4,
+};
+
+// Outage keywords as forced-outage MW
+const OUTAGE_LEVELS: Record<string, number> = {
+    none: 0,
+    minor: 2500,
+    moderate: 5000,
+    major: 10000,
+    severe: 20000,
+};
+
+// ERCOT Physical Responsive Capability triggers (MW)
+const EEA_THRESHOLDS = {
+    WATCH: 3000,
+    EEA1: 2500,
+    EEA2: 2000,
+    EEA3: 1500,
+};
+
+// Scenarios are evaluated at the afternoon peak
+const SCENARIO_HOUR = 17;
+
+// ============================================================================
+// INPUT PARSING
+// ============================================================================
+
+/**
+ * First number in a string, scaled by a trailing k (×1000) or GW (×1000).
+ * Thousands separators are ignored. Returns the fallback when no number is present.
+ *
+ * The unit must stand alone, so "25 km/h" and "12 knots" are not scaled.
+ *
+ * "45k MW" → 45000, "65,000 MW" → 65000, "1.2 GW" → 1200, "-5°F" → -5, "25 km/h" → 25
+ */
+function parseQuantity(value: string, fallback = 0): number {
+    const match = /(-?\d+(?:\.\d+)?)\s*(k\b|k(?=\s*mw\b)|gw\b)?/i.exec((value ?? '').replace(/(\d),(?=\d)/g, '$1'));
+    if (!match) return fallback;
+    const scale = match[2] ? 1000 : 1;
+    return parseFloat(match[1]) * scale;
+}
+
+function parseOutages(value: string): number {
+    const key = (value ?? '').trim().toLowerCase();
+    if (key in OUTAGE_LEVELS) return OUTAGE_LEVELS[key];
+    return Math.max(0, parseQuantity(value));
+}
+
+export function parseScenario(state: ScenarioState): ScenarioParameters {
+    return {
+        tempF: parseQuantity(state.temp, 75),
+        windMph: Math.max(0, parseQuantity(state.wind)),
+        solarWm2: Math.max(0, parseQuantity(state.solar)),
+        baseLoadMW: Math.max(0, parseQuantity(state.load)),
+        growthPercent: parseQuantity(state.growth),
+        evPercent: Math.max(0, parseQuantity(state.ev)),
+        generationMW: Math.max(0, parseQuantity(state.gen)),
+        reservesPercent: Math.max(0, parseQuantity(state.reserves)),
+        outageMW: parseOutages(state.outages),
+    };
+}
+
+// ============================================================================
+// FLEET MODELS
+// ============================================================================
+
+function thermalDerating(tempF: number): number {
+    let derate = 0;
+    if (tempF > FLEET.THERMAL_HEAT_F) {
+        derate = (tempF - FLEET.THERMAL_HEAT_F) * FLEET.THERMAL_HEAT_DERATE;
+    } else if (tempF < FLEET.THERMAL_FREEZE_F) {
+        derate = (FLEET.THERMAL_FREEZE_F - tempF) * FLEET.THERMAL_FREEZE_DERATE;
+    }
+    return 1 - Math.min(FLEET.THERMAL_MAX_DERATE, derate);
+}
+
+/**
+ * Fleet wind capacity factor: cubic between cut-in and rated speed,
+ * flat to cut-out, zero above (turbines feather)
+ */
+function windCapacityFactor(mph: number): number {
+    if (mph < FLEET.WIND_CUT_IN_MPH || mph >= FLEET.WIND_CUT_OUT_MPH) return 0;
+    if (mph >= FLEET.WIND_RATED_MPH) return 1;
+    const cutIn = FLEET.WIND_CUT_IN_MPH ** 3;
+    return (mph ** 3 - cutIn) / (FLEET.WIND_RATED_MPH ** 3 - cutIn);
+}
+
+function solarOutputMW(irradianceWm2: number, tempF: number): number {
+    const ambientC = (tempF - 32) * 5 / 9;
+    const cellC = ambientC + FLEET.SOLAR_CELL_RISE_C * irradianceWm2 / FLEET.SOLAR_STC_WM2;
+    const tempFactor = 1 - FLEET.SOLAR_TEMP_COEFF * Math.max(0, cellC - 25);
+    const irradianceFactor = Math.min(1.1, irradianceWm2 / FLEET.SOLAR_STC_WM2);
+    return FLEET.SOLAR_CAPACITY_MW * irradianceFactor * Math.max(0, tempFactor);
+}
+
+function eeaLevel(operatingReserveMW: number): EeaLevel {
+    if (operatingReserveMW < EEA_THRESHOLDS.EEA3) return 3;
+    if (operatingReserveMW < EEA_THRESHOLDS.EEA2) return 2;
+    if (operatingReserveMW < EEA_THRESHOLDS.EEA1) return 1;
+    return 0;
+}
+
+function eeaLabel(level: EeaLevel, operatingReserveMW: number): string {
+    switch (level) {
+        case 3: return 'EEA3: Firm load shed';
+        case 2: return 'EEA2: Emergency reserves and demand response deployed';
+        case 1: return 'EEA1: All available generation committed';
+        default: return operatingReserveMW < EEA_THRESHOLDS.WATCH ? 'Watch: Conservation appeal' : 'Normal';
+    }
+}
+
+// ============================================================================
+// NARRATIVE
+// ============================================================================
+
+const fmt = (mw: number) => Math.round(mw).toLocaleString('en-US');
+
+/**
+ * Deterministic BLUF narrative for the Scenarios report renderer
+ */
+export function templateNarrative(result: Omit<ScenarioResult, 'narrative' | 'narrativeSource'>): string {
+    const { supply, parameters: p } = result;
+    const topRisks = result.corridorRisks.filter(r => r.riskLevel === 'HIGH' || r.riskLevel === 'CRITICAL');
+
+    const bluf = result.eeaLevel === 3
+        ? `${fmt(result.loadShedMW)} MW of firm load shed required; operating reserves fall to ${fmt(result.operatingReserveMW)} MW (${result.eeaLabel}).`
+        : result.eeaLevel > 0
+            ? `Grid enters ${result.eeaLabel} with ${fmt(result.operatingReserveMW)} MW of operating reserves.`
+            : `Supply covers demand with a ${result.reserveMarginPercent.toFixed(1)}% reserve margin (${result.eeaLabel}).`;
+
+    const lines = [
+        `BLUF: ${bluf}`,
+        '',
+        '## Supply / Demand',
+        `- **Demand:** ${fmt(result.demandMW)} MW (${fmt(p.baseLoadMW)} MW base, ${p.growthPercent}% growth, ${p.evPercent}% EV charging)`,
+        `- **Thermal:** ${fmt(supply.thermalMW)} MW after ${p.tempF}°F derating and ${fmt(supply.outageMW)} MW forced outages`,
+        `- **Wind:** ${fmt(supply.windMW)} MW at ${p.windMph} mph`,
+        `- **Solar:** ${fmt(supply.solarMW)} MW at ${p.solarWm2} W/m²`,
+        `- **Committed reserves:** ${fmt(supply.reservesMW)} MW (${p.reservesPercent}% of generation)`,
+        `- **Operating reserves:** ${fmt(result.operatingReserveMW)} MW (${result.reserveMarginPercent.toFixed(1)}% margin)`,
+        '',
+        '## Corridor Risk',
+        ...(topRisks.length > 0
+            ? topRisks.map(r => `- **${r.corridorName}:** ${r.riskLevel} (${r.riskScore}) ${r.recommendation}`)
+            : ['- All corridors LOW or MODERATE at this load and temperature.']),
+        '',
+        '## Recommendation',
+    ];
+
+    if (result.eeaLevel === 3) {
+        lines.push(`- Prepare rotating outages for ${fmt(result.loadShedMW)} MW; deploy all emergency reserves and imports first.`);
+    } else if (result.eeaLevel > 0) {
+        lines.push('- Deploy demand response and emergency reserves; issue conservation appeal.');
+    } else if (result.operatingReserveMW < EEA_THRESHOLDS.WATCH) {
+        lines.push('- Issue conservation appeal and recall outage-scheduled units.');
+    } else {
+        lines.push('- No emergency action required; continue monitoring.');
+    }
+    if (result.shortfallMW > 0) {
+        lines.push(`- Demand exceeds available supply by ${fmt(result.shortfallMW)} MW before reserves.`);
+    }
+    return lines.join('\n');
+}
+
+// ============================================================================
+// SCENARIO ENGINE
+// ============================================================================
+
+/**
+ * Run the deterministic balance for a scenario. The narrative is the template
+ * one; genAiService replaces it with an LLM narration when available.
+ */
+export function runScenario(state: ScenarioState): ScenarioResult {
+    const p = parseScenario(state);
+
+    const demandMW = p.baseLoadMW * (1 + p.growthPercent / 100) * (1 + p.evPercent / 100);
+
+    const thermalMW = Math.max(0, p.generationMW * thermalDerating(p.tempF) - p.outageMW);
+    const windMW = FLEET.WIND_CAPACITY_MW * windCapacityFactor(p.windMph);
+    const solarMW = solarOutputMW(p.solarWm2, p.tempF);
+    const reservesMW = p.generationMW * p.reservesPercent / 100;
+    const totalMW = thermalMW + windMW + solarMW + reservesMW;
+
+    const operatingReserveMW = totalMW - demandMW;
+    const level = eeaLevel(operatingReserveMW);
+
+    const result = {
+        parameters: p,
+        demandMW: Math.round(demandMW),
+        supply: {
+            thermalMW: Math.round(thermalMW),
+            windMW: Math.round(windMW),
+            solarMW: Math.round(solarMW),
+            reservesMW: Math.round(reservesMW),
+            outageMW: Math.round(p.outageMW),
+            totalMW: Math.round(totalMW),
+        },
+        operatingReserveMW: Math.round(operatingReserveMW),
+        reserveMarginPercent: demandMW > 0 ? Number((operatingReserveMW / demandMW * 100).toFixed(2)) : 0,
+        eeaLevel: level,
+        eeaLabel: eeaLabel(level, operatingReserveMW),
+        shortfallMW: Math.round(Math.max(0, demandMW - (totalMW - reservesMW))),
+        loadShedMW: Math.round(Math.max(0, EEA_THRESHOLDS.EEA3 - operatingReserveMW)),
+        corridorRisks: predictiveService.assessCorridors(demandMW, p.tempF, SCENARIO_HOUR),
+    };
+
+    return { ...result, narrative: templateNarrative(result), narrativeSource: 'TEMPLATE' };
+}
@@ -0,0 +1,158 @@
+/**
+ * sessionService.ts
+ *
+ * Operator Session & Role-Based Access Control
+ *
+ * Holds the authenticated operator for this console and maps the operator
+ * roles from syncService (VIEWER / OPERATOR / SUPERVISOR / ADMIN) to
+ * permissions. Pages, safety toggles and actuation paths check permissions
+ * here, and audit entries take the operator ID from the session.
+ *
+ * Features:
+ * - Role → permission matrix
+ * - `authorize` records ACCESS_DENIED in the audit chain
+ * - Idle-timeout expiry (USER_LOGOUT with reason)
+ * - Subscribable for UI (see context/SessionContext.tsx)
+ */
+
+import { auditService } from './auditService';
+import { notificationService } from './notificationService';
+import { Operator } from './syncService';
+import { Permission } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OperatorRole = Operator['role'];
+
+export interface Session {
+    operatorId: string;
+    name: string;
+    role: OperatorRole;
+    startedAt: number;
+    lastActivityAt: number;
+}
+
+export type SessionEndReason = 'LOGOUT' | 'IDLE_TIMEOUT';
+
+const ROLE_PERMISSIONS: Record<OperatorRole, Permission[]> = {
+    VIEWER: [],
+    OPERATOR: ['ACTUATE'],
+    SUPERVISOR: ['ACTUATE', 'SECOND_APPROVAL', 'TOGGLE_SAFETY', 'VIEW_AUDIT', 'MANAGE_GOVERNANCE'],
+    ADMIN: ['ACTUATE', 'SECOND_APPROVAL', 'TOGGLE_SAFETY', 'VIEW_AUDIT', 'MANAGE_GOVERNANCE', 'EDIT_SETTINGS']
+};
+
+export const OPERATOR_ROLES: OperatorRole[] = ['VIEWER', 'OPERATOR', 'SUPERVISOR', 'ADMIN'];
+
+const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+const IDLE_CHECK_MS = 30 * 1000;
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'wheel', 'touchstart'];
+
+// ============================================================================
+// SESSION SERVICE
+// ============================================================================
+
+class SessionService {
+    private session: Session | null = null;
+    private listeners: ((session: Session | null) => void)[] = [];
+    private idleTimer: ReturnType<typeof setInterval> | null = null;
+    private readonly onActivity = () => this.touch();
+
+    /**
+     * Establish the console session for an authenticated operator
+     * (see accountService.login)
+     */
+    public start(operatorId: string, name: string, role: OperatorRole): Session {
+        if (this.session) this.end();
+
+        const now = Date.now();
+        this.session = { operatorId, name, role, startedAt: now, lastActivityAt: now };
+        ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, this.onActivity, { passive: true }));
+        this.idleTimer = setInterval(() => this.checkIdle(), IDLE_CHECK_MS);
+
+        this.notify();
+        return this.session;
+    }
+
+    public end(reason: SessionEndReason = 'LOGOUT'): void {
+        if (!this.session) return;
+
+        const session = this.session;
+        auditService.log({
+            operatorId: session.operatorId,
+            eventType: 'USER_LOGOUT',
+            resource: 'SESSION',
+            details: reason === 'IDLE_TIMEOUT'
+                ? `${session.name} signed out after ${IDLE_TIMEOUT_MS / 60000} min of inactivity`
+                : `${session.name} signed out`,
+            metadata: { reason, durationMs: Date.now() - session.startedAt }
+        });
+
+        ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, this.onActivity));
+        if (this.idleTimer) clearInterval(this.idleTimer);
+        this.idleTimer = null;
+        this.session = null;
+        this.notify();
+    }
+
+    /**
+     * Record operator activity (resets the idle timeout)
+     */
+    public touch(): void {
+        if (this.session) this.session.lastActivityAt = Date.now();
+    }
+
+    public getSession(): Session | null {
+        return this.session;
+    }
+
+    /**
+     * Operator ID for audit entries ('ANONYMOUS' outside a session)
+     */
+    public getOperatorId(): string {
+        return this.session?.operatorId ?? 'ANONYMOUS';
+    }
+
+    public can(permission: Permission, role: OperatorRole | undefined = this.session?.role): boolean {
+        return !!role && ROLE_PERMISSIONS[role].includes(permission);
+    }
+
+    /**
+     * Permission check for an operator action; denials are audited and shown
+     */
+    public authorize(permission: Permission, action: string): boolean {
+        if (this.can(permission)) return true;
+
+        const role = this.session?.role ?? 'NONE';
+        auditService.log({
+            operatorId: this.getOperatorId(),
+            eventType: 'ACCESS_DENIED',
+            resource: permission,
+            details: `${action} denied for role ${role}`,
+            metadata: { permission, role }
+        });
+        notificationService.error('Access Denied', `${action} requires ${permission.replace(/_/g, ' ').toLowerCase()} permission (role ${role}).`);
+        return false;
+    }
+
+    public subscribe(listener: (session: Session | null) => void): () => void {
+        this.listeners.push(listener);
+        listener(this.session);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private checkIdle() {
+        if (!this.session || Date.now() - this.session.lastActivityAt < IDLE_TIMEOUT_MS) return;
+        notificationService.warning('Session Expired', 'Signed out after inactivity. Please sign in again.');
+        this.end('IDLE_TIMEOUT');
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l(this.session));
+    }
+}
+
+export const sessionService = new SessionService();
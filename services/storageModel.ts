@@ -0,0 +1,246 @@
+/**
+ * storageModel.ts
+ *
+ * Battery Energy Storage Asset Model
+ *
+ * Features:
+ * - State-of-charge (SoC) tracking integrated over time from the active setpoint
+ * - Min/max SoC operating window per asset
+ * - Charge/discharge efficiency (round-trip efficiency split evenly)
+ * - Per-cycle degradation cost converted to $/MWh of discharge throughput
+ * - Feasibility check that clips or refuses dispatch when SoC is insufficient
+ * - SoC trajectory projection for display alongside dispatch decisions
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StorageAsset {
+    id: string;
+    name: string;
+    powerMW: number;
+    energyMWh: number;              // Nameplate energy capacity
+    minSocPct: number;              // 0-1, operating floor
+    maxSocPct: number;              // 0-1, operating ceiling
+    roundTripEfficiency: number;    // 0-1
+    degradationCostPerCycle: number; // $ per equivalent full cycle
+    initialSocPct: number;          // 0-1
+}
+
+export interface StorageState {
+    id: string;
+    socMWh: number;
+    socPct: number;
+    setpointMW: number;             // Positive = discharge, negative = charge
+    throughputMWh: number;          // Cumulative discharge energy
+    equivalentFullCycles: number;
+    degradationCost: number;        // $ accrued
+    updatedAt: number;
+}
+
+export interface StorageCheck {
+    allowed: boolean;
+    requestedMW: number;
+    allowedMW: number;
+    clipped: boolean;
+    reason?: string;
+}
+
+export interface SocTrajectoryPoint {
+    timestamp: string;
+    socMWh: number;
+    socPct: number;
+}
+
+// ============================================================================
+// ASSET DEFINITIONS
+// ============================================================================
+
+const STORAGE_ASSETS: StorageAsset[] = [
+    { id: 'BAT_WEST', name: 'Battery Storage West', powerMW: 200, energyMWh: 400, minSocPct: 0.10, maxSocPct: 0.95, roundTripEfficiency: 0.85, degradationCostPerCycle: 1700, initialSocPct: 0.5 },
+    { id: 'BAT_COAST', name: 'Battery Storage Coast', powerMW: 150, energyMWh: 300, minSocPct: 0.10, maxSocPct: 0.95, roundTripEfficiency: 0.85, degradationCostPerCycle: 1275, initialSocPct: 0.5 },
+];
+
+// ============================================================================
+// STORAGE MODEL
+// ============================================================================
+
+class StorageModel {
+    private assets = new Map<string, StorageAsset>(STORAGE_ASSETS.map(a => [a.id, a]));
+    private states = new Map<string, StorageState>();
+
+    constructor() {
+        const now = Date.now();
+        for (const a of STORAGE_ASSETS) {
+            this.states.set(a.id, {
+                id: a.id,
+                socMWh: a.energyMWh * a.initialSocPct,
+                socPct: a.initialSocPct,
+                setpointMW: 0,
+                throughputMWh: 0,
+                equivalentFullCycles: 0,
+                degradationCost: 0,
+                updatedAt: now
+            });
+        }
+    }
+
+    public isStorage(id: string): boolean {
+        return this.assets.has(id);
+    }
+
+    public getAsset(id: string): StorageAsset | undefined {
+        return this.assets.get(id);
+    }
+
+    public getAssets(): StorageAsset[] {
+        return Array.from(this.assets.values());
+    }
+
+    /**
+     * One-way efficiencies (round-trip efficiency split evenly)
+     */
+    public getEfficiencies(id: string): { charge: number; discharge: number } {
+        const eta = Math.sqrt(this.assets.get(id)?.roundTripEfficiency ?? 1);
+        return { charge: eta, discharge: eta };
+    }
+
+    public getSocBounds(id: string): { minMWh: number; maxMWh: number } {
+        const a = this.assets.get(id);
+        if (!a) return { minMWh: 0, maxMWh: 0 };
+        return { minMWh: a.energyMWh * a.minSocPct, maxMWh: a.energyMWh * a.maxSocPct };
+    }
+
+    /**
+     * Degradation cost per MWh discharged: one equivalent full cycle
+     * discharges the usable window (max − min SoC) once.
+     */
+    public getDegradationCostPerMWh(id: string): number {
+        const a = this.assets.get(id);
+        if (!a) return 0;
+        const usable = a.energyMWh * (a.maxSocPct - a.minSocPct);
+        return usable > 0 ? a.degradationCostPerCycle / usable : 0;
+    }
+
+    /**
+     * Current state, with SoC integrated up to now from the active setpoint
+     */
+    public getState(id: string): StorageState | undefined {
+        this.advance(id, Date.now());
+        const s = this.states.get(id);
+        return s ? { ...s } : undefined;
+    }
+
+    public getStates(): StorageState[] {
+        return Array.from(this.assets.keys()).map(id => this.getState(id)!);
+    }
+
+    public getSocMWh(id: string): number {
+        return this.getState(id)?.socMWh ?? 0;
+    }
+
+    /**
+     * Check whether a setpoint can be held for `durationMin` without leaving
+     * the SoC window. Returns the clipped setpoint when only part is feasible.
+     */
+    public checkDispatch(id: string, setpointMW: number, durationMin: number, socMWh = this.getSocMWh(id)): StorageCheck {
+        const a = this.assets.get(id);
+        if (!a) return { allowed: true, requestedMW: setpointMW, allowedMW: setpointMW, clipped: false };
+
+        const hours = durationMin / 60;
+        const { minMWh, maxMWh } = this.getSocBounds(id);
+        const eta = this.getEfficiencies(id);
+        let limitMW: number;
+        let reason: string | undefined;
+
+        if (setpointMW > 0) {
+            limitMW = Math.min(a.powerMW, Math.max(0, (socMWh - minMWh) * eta.discharge / hours));
+            if (limitMW < setpointMW) reason = `Insufficient energy: ${socMWh.toFixed(1)}MWh stored, floor ${minMWh.toFixed(1)}MWh (${(a.minSocPct * 100).toFixed(0)}%)`;
+        } else if (setpointMW < 0) {
+            limitMW = Math.min(a.powerMW, Math.max(0, (maxMWh - socMWh) / (eta.charge * hours)));
+            if (limitMW < -setpointMW) reason = `Insufficient headroom: ${socMWh.toFixed(1)}MWh stored, ceiling ${maxMWh.toFixed(1)}MWh (${(a.maxSocPct * 100).toFixed(0)}%)`;
+        } else {
+            return { allowed: true, requestedMW: 0, allowedMW: 0, clipped: false };
+        }
+
+        const allowedAbs = Math.floor(Math.min(Math.abs(setpointMW), limitMW));
+        const allowedMW = Math.sign(setpointMW) * allowedAbs;
+        return {
+            allowed: allowedAbs >= 1,
+            requestedMW: setpointMW,
+            allowedMW,
+            clipped: allowedAbs < Math.abs(setpointMW),
+            reason
+        };
+    }
+
+    /**
+     * Project SoC forward holding a setpoint, in fixed steps, clamped to the window
+     */
+    public projectTrajectory(id: string, setpointMW: number, steps: number, stepMin: number, fromSocMWh = this.getSocMWh(id), start = Date.now()): SocTrajectoryPoint[] {
+        const a = this.assets.get(id);
+        if (!a) return [];
+        const { minMWh, maxMWh } = this.getSocBounds(id);
+        const points: SocTrajectoryPoint[] = [];
+        let soc = fromSocMWh;
+        for (let i = 0; i <= steps; i++) {
+            points.push({
+                timestamp: new Date(start + i * stepMin * 60000).toISOString(),
+                socMWh: Number(soc.toFixed(2)),
+                socPct: Number((soc / a.energyMWh).toFixed(4))
+            });
+            soc = Math.min(maxMWh, Math.max(minMWh, soc + this.energyDelta(id, setpointMW, stepMin / 60)));
+        }
+        return points;
+    }
+
+    /**
+     * Apply a new setpoint (after integrating energy under the old one)
+     */
+    public setSetpoint(id: string, setpointMW: number) {
+        const s = this.states.get(id);
+        if (!s) return;
+        this.advance(id, Date.now());
+        s.setpointMW = setpointMW;
+    }
+
+    // --- INTERNALS ---
+
+    /**
+     * Stored-energy change (MWh) for a setpoint held `hours`
+     */
+    private energyDelta(id: string, setpointMW: number, hours: number): number {
+        const eta = this.getEfficiencies(id);
+        return setpointMW >= 0 ? -setpointMW * hours / eta.discharge : -setpointMW * hours * eta.charge;
+    }
+
+    private advance(id: string, now: number) {
+        const a = this.assets.get(id);
+        const s = this.states.get(id);
+        if (!a || !s) return;
+
+        const hours = (now - s.updatedAt) / 3600000;
+        s.updatedAt = now;
+        if (hours <= 0 || s.setpointMW === 0) return;
+
+        const { minMWh, maxMWh } = this.getSocBounds(id);
+        const next = Math.min(maxMWh, Math.max(minMWh, s.socMWh + this.energyDelta(id, s.setpointMW, hours)));
+
+        if (s.setpointMW > 0) {
+            const discharged = (s.socMWh - next) * this.getEfficiencies(id).discharge;
+            s.throughputMWh += discharged;
+            s.degradationCost += discharged * this.getDegradationCostPerMWh(id);
+            s.equivalentFullCycles = s.throughputMWh / (a.energyMWh * (a.maxSocPct - a.minSocPct));
+        }
+        s.socMWh = next;
+        s.socPct = next / a.energyMWh;
+
+        // Battery management system stops at the window edge
+        if ((s.setpointMW > 0 && next <= minMWh) || (s.setpointMW < 0 && next >= maxMWh)) {
+            s.setpointMW = 0;
+        }
+    }
+}
+
+export const storageModel = new StorageModel();
@@ -0,0 +1,146 @@
+/**
+ * structuredOutput.ts
+ *
+ * Schema-Validated LLM Output
+ *
+ * Providers are asked to follow a response schema, but local models and
+ * schema-less fallbacks still return malformed or out-of-range JSON. Every
+ * structured reply is parsed and checked here against the same schema; when
+ * it fails, the model is shown its own output and the list of problems and
+ * asked for a corrected object.
+ *
+ * Features:
+ * - Validator for the Gemini schema form (OBJECT, ARRAY, STRING, NUMBER,
+ *   INTEGER, BOOLEAN; required, enum, minimum/maximum)
+ * - Tolerant JSON extraction (code fences, prose around the object)
+ * - Repair retries that feed validation issues back to the model
+ */
+
+import type { LlmProvider, LlmRequest, LlmResponse } from './llmProvider';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export class SchemaValidationError extends Error {
+  constructor(public readonly issues: string[], public readonly raw: string) {
+    super(`Output failed schema validation: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+export interface StructuredResult<T> {
+  value: T;
+  /** Repair rounds needed before the output validated */
+  repairs: number;
+  response: LlmResponse;
+}
+
+const DEFAULT_REPAIRS = 2;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Issues found in `value` against `schema`, as "$.path: problem" strings;
+ * empty when valid
+ */
+export function validateSchema(value: any, schema: any, path = '$'): string[] {
+  const type = String(schema?.type ?? '').toUpperCase();
+  const issues: string[] = [];
+
+  switch (type) {
+    case 'OBJECT': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected object`];
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined || value[key] === null) issues.push(`${path}.${key}: required`);
+      }
+      for (const [key, child] of Object.entries<any>(schema.properties ?? {})) {
+        if (value[key] !== undefined && value[key] !== null) issues.push(...validateSchema(value[key], child, `${path}.${key}`));
+      }
+      return issues;
+    }
+    case 'ARRAY':
+      if (!Array.isArray(value)) return [`${path}: expected array`];
+      return value.flatMap((item, i) => validateSchema(item, schema.items, `${path}[${i}]`));
+    case 'STRING':
+      if (typeof value !== 'string') return [`${path}: expected string`];
+      if (schema.enum && !schema.enum.includes(value)) issues.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+      return issues;
+    case 'NUMBER':
+    case 'INTEGER':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path}: expected number`];
+      if (type === 'INTEGER' && !Number.isInteger(value)) issues.push(`${path}: expected integer`);
+      if (schema.minimum !== undefined && value < schema.minimum) issues.push(`${path}: below minimum ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) issues.push(`${path}: above maximum ${schema.maximum}`);
+      return issues;
+    case 'BOOLEAN':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean`];
+    default:
+      return [];
+  }
+}
+
+/**
+ * JSON from a model reply: plain, fenced in ```json, or embedded in prose
+ */
+export function parseJsonText(text: string): any {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : trimmed;
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start >= 0 && end > start) return JSON.parse(candidate.slice(start, end + 1));
+    throw new Error('Response is not JSON');
+  }
+}
+
+/**
+ * Parse and validate; throws SchemaValidationError listing every issue
+ */
+export function parseStructured<T>(raw: string, schema: any): T {
+  let value: any;
+  try {
+    value = parseJsonText(raw);
+  } catch (e) {
+    throw new SchemaValidationError([`$: ${e instanceof Error ? e.message : 'unparseable'}`], raw);
+  }
+  const issues = validateSchema(value, schema);
+  if (issues.length > 0) throw new SchemaValidationError(issues, raw);
+  return value as T;
+}
+
+// ============================================================================
+// GENERATION WITH REPAIR
+// ============================================================================
+
+function repairPrompt(contents: LlmRequest['contents'], failure: SchemaValidationError): LlmRequest['contents'] {
+  const note = `YOUR PREVIOUS RESPONSE:\n${failure.raw.slice(0, 2000)}\n\nIt failed validation:\n${failure.issues.map(i => `- ${i}`).join('\n')}\n\nReturn the corrected JSON object only.`;
+  return typeof contents === 'string' ? `${contents}\n\n${note}` : [...contents, { text: note }];
+}
+
+/**
+ * Generate JSON that satisfies `request.responseSchema`, re-prompting with
+ * the validation issues up to `repairs` times
+ */
+export async function generateStructured<T>(
+  provider: LlmProvider,
+  request: LlmRequest & { responseSchema: any },
+  repairs = DEFAULT_REPAIRS
+): Promise<StructuredResult<T>> {
+  let contents = request.contents;
+  for (let round = 0; ; round++) {
+    const response = await provider.generate({ ...request, contents, json: true });
+    try {
+      return { value: parseStructured<T>(response.text, request.responseSchema), repairs: round, response };
+    } catch (e) {
+      if (!(e instanceof SchemaValidationError) || round >= repairs || request.signal?.aborted) throw e;
+      console.warn(`[STRUCTURED] Repairing output (round ${round + 1}):`, e.issues);
+      contents = repairPrompt(request.contents, e);
+    }
+  }
+}
@@ -84,8 +84,8 @@ class SyncService {
     /**
      * Initialize current operator
      */
-    public initOperator(name: string, role: Operator['role'] = 'OPERATOR'): Operator {
-        const id = `op-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+    public initOperator(name: string, role: Operator['role'] = 'OPERATOR', operatorId?: string): Operator {
+        const id = operatorId ?? `op-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
         const colorIndex = Math.floor(Math.random() * this.OPERATOR_COLORS.length);
 
         this.currentOperator = {
@@ -0,0 +1,382 @@
+/**
+ * timeSeriesAnalysis.ts
+ *
+ * Local Time-Series Analysis
+ *
+ * Statistical pass over a loaded series (Historical page case studies) run
+ * entirely in the browser. Findings carry the index and chart label of the
+ * point they refer to so the UI can mark them; an LLM may narrate them
+ * afterwards (see genAiService.analyzeTimeSeries) but adds no numbers.
+ *
+ * Features:
+ * - Peaks / troughs (local extrema, separated)
+ * - Ramps (largest step changes, per hour when timestamps are known)
+ * - Anomalies by z-score and IQR on the de-seasonalized series
+ * - Mean-shift changepoints (binary segmentation)
+ * - Hour-of-day and weekday seasonality profiles
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SeriesPoint {
+    /** Chart label (x-axis key) */
+    time: string;
+    value: number;
+    value2?: number;
+    /** Epoch ms; enables per-hour ramps and seasonality */
+    timestamp?: number;
+}
+
+export type FindingKind = 'PEAK' | 'TROUGH' | 'RAMP' | 'ANOMALY' | 'CHANGEPOINT';
+
+export interface TimeSeriesFinding {
+    kind: FindingKind;
+    index: number;
+    time: string;
+    value: number;
+    severity: 'INFO' | 'WARNING' | 'CRITICAL';
+    message: string;
+    /** z-score, ramp rate, or shift size depending on kind */
+    magnitude: number;
+}
+
+export interface SeasonalityProfile {
+    /** Mean value per bucket (hour 0-23 or weekday 0-6, Sunday first); null when unobserved */
+    means: (number | null)[];
+    peakBucket: number;
+    troughBucket: number;
+    amplitude: number;
+    /** Share of variance explained by the profile (0-1) */
+    strength: number;
+}
+
+export interface TimeSeriesAnalysis {
+    summary: {
+        count: number;
+        start: string;
+        end: string;
+        min: number;
+        max: number;
+        mean: number;
+        stdDev: number;
+        /** Largest value2 - value (e.g. unserved demand) when a second series is present */
+        maxGap?: { index: number; time: string; value: number };
+    };
+    findings: TimeSeriesFinding[];
+    hourly?: SeasonalityProfile;
+    weekday?: SeasonalityProfile;
+}
+
+export interface TimeSeriesReport extends TimeSeriesAnalysis {
+    narrative: string;
+    narrativeSource: 'LLM' | 'TEMPLATE';
+    /** Provider and model that wrote an LLM narrative, e.g. "Local OpenAI-compatible server · llama3.1" */
+    narratedBy?: string;
+}
+
+const ANALYSIS = {
+    Z_THRESHOLD: 3,
+    Z_CRITICAL: 4.5,
+    IQR_FACTOR: 1.5,
+    EXTREMA_WINDOW: 3,          // Points on each side a peak must dominate
+    MAX_EXTREMA: 3,
+    MAX_RAMPS: 3,
+    MIN_SEGMENT: 6,             // Changepoint segments
+    MAX_CHANGEPOINTS: 4,
+    CHANGEPOINT_T: 6,           // Welch t-statistic for a real mean shift
+    MIN_HOURLY_DAYS: 2,
+    MIN_WEEKDAY_DAYS: 14,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// ============================================================================
+// STATISTICS HELPERS
+// ============================================================================
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+
+function stdDev(values: number[]): number {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+function quantile(sorted: number[], q: number): number {
+    const pos = (sorted.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+const fmt = (value: number) => Math.round(value).toLocaleString('en-US');
+
+function profile(values: number[], buckets: number[], size: number): SeasonalityProfile | undefined {
+    const sums = new Array(size).fill(0);
+    const counts = new Array(size).fill(0);
+    values.forEach((v, i) => { sums[buckets[i]] += v; counts[buckets[i]]++; });
+    const means = sums.map((s, b) => counts[b] > 0 ? s / counts[b] : null);
+    const observed = means.map((m, b) => ({ m, b })).filter((x): x is { m: number; b: number } => x.m !== null);
+    if (observed.length < 2) return undefined;
+
+    const peak = observed.reduce((a, b) => b.m > a.m ? b : a);
+    const trough = observed.reduce((a, b) => b.m < a.m ? b : a);
+    const overall = mean(values);
+    const total = values.reduce((sum, v) => sum + (v - overall) ** 2, 0);
+    const explained = values.reduce((sum, _, i) => sum + (means[buckets[i]]! - overall) ** 2, 0);
+    return {
+        means,
+        peakBucket: peak.b,
+        troughBucket: trough.b,
+        amplitude: peak.m - trough.m,
+        strength: total > 0 ? Number((explained / total).toFixed(3)) : 0
+    };
+}
+
+// ============================================================================
+// DETECTORS
+// ============================================================================
+
+function extrema(points: SeriesPoint[], kind: 'PEAK' | 'TROUGH'): TimeSeriesFinding[] {
+    const sign = kind === 'PEAK' ? 1 : -1;
+    const w = ANALYSIS.EXTREMA_WINDOW;
+    const candidates: number[] = [];
+    for (let i = 0; i < points.length; i++) {
+        const v = sign * points[i].value;
+        let dominant = true;
+        for (let j = Math.max(0, i - w); j <= Math.min(points.length - 1, i + w) && dominant; j++) {
+            if (j !== i && sign * points[j].value > v) dominant = false;
+        }
+        if (dominant) candidates.push(i);
+    }
+
+    const chosen: number[] = [];
+    for (const i of candidates.sort((a, b) => sign * (points[b].value - points[a].value))) {
+        if (chosen.every(c => Math.abs(c - i) > w)) chosen.push(i);
+        if (chosen.length >= ANALYSIS.MAX_EXTREMA) break;
+    }
+    return chosen.map((i, rank) => ({
+        kind,
+        index: i,
+        time: points[i].time,
+        value: points[i].value,
+        severity: 'INFO',
+        magnitude: points[i].value,
+        message: `${rank === 0 ? (kind === 'PEAK' ? 'Highest peak' : 'Deepest trough') : kind === 'PEAK' ? 'Peak' : 'Trough'} ${fmt(points[i].value)} at ${points[i].time}`
+    }));
+}
+
+function ramps(points: SeriesPoint[], timed: boolean): TimeSeriesFinding[] {
+    const steps = points.slice(1).map((p, k) => {
+        const hours = timed ? Math.max((p.timestamp! - points[k].timestamp!) / HOUR_MS, 1 / 60) : 1;
+        return { index: k + 1, rate: (p.value - points[k].value) / hours };
+    });
+    if (steps.length === 0) return [];
+    const rates = steps.map(s => Math.abs(s.rate));
+    const typical = mean(rates);
+    const spread = stdDev(rates);
+    const unit = timed ? '/h' : ' per step';
+
+    return [...steps]
+        .sort((a, b) => Math.abs(b.rate) - Math.abs(a.rate))
+        .slice(0, ANALYSIS.MAX_RAMPS)
+        .map(s => {
+            const z = spread > 0 ? (Math.abs(s.rate) - typical) / spread : 0;
+            return {
+                kind: 'RAMP' as const,
+                index: s.index,
+                time: points[s.index].time,
+                value: points[s.index].value,
+                severity: z >= ANALYSIS.Z_CRITICAL ? 'CRITICAL' as const : z >= ANALYSIS.Z_THRESHOLD ? 'WARNING' as const : 'INFO' as const,
+                magnitude: Number(s.rate.toFixed(1)),
+                message: `${s.rate >= 0 ? 'Ramp up' : 'Ramp down'} ${fmt(Math.abs(s.rate))}${unit} into ${points[s.index].time}`
+            };
+        });
+}
+
+/**
+ * z-score and IQR on residuals (daily cycle and level shifts removed) so a
+ * normal evening peak or a sustained outage is not flagged point by point
+ */
+function anomalies(points: SeriesPoint[], residuals: number[]): TimeSeriesFinding[] {
+    const m = mean(residuals);
+    const sd = stdDev(residuals);
+    const sorted = [...residuals].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const lower = q1 - ANALYSIS.IQR_FACTOR * (q3 - q1);
+    const upper = q3 + ANALYSIS.IQR_FACTOR * (q3 - q1);
+
+    const found: TimeSeriesFinding[] = [];
+    residuals.forEach((r, i) => {
+        const z = sd > 0 ? (r - m) / sd : 0;
+        const byZ = Math.abs(z) >= ANALYSIS.Z_THRESHOLD;
+        const byIqr = q3 > q1 && (r < lower || r > upper);
+        if (!byZ && !byIqr) return;
+        found.push({
+            kind: 'ANOMALY',
+            index: i,
+            time: points[i].time,
+            value: points[i].value,
+            severity: Math.abs(z) >= ANALYSIS.Z_CRITICAL ? 'CRITICAL' : byZ ? 'WARNING' : 'INFO',
+            magnitude: Number(z.toFixed(2)),
+            message: `${r >= 0 ? 'Above' : 'Below'} expected by ${fmt(Math.abs(r))} at ${points[i].time} (z=${z.toFixed(1)}${byIqr ? ', outside IQR fence' : ''})`
+        });
+    });
+    return found;
+}
+
+/**
+ * Binary segmentation on mean shifts of the de-seasonalized values: split
+ * where the Welch t-statistic between the two sides is largest, recurse while
+ * it stays significant
+ */
+function changepoints(points: SeriesPoint[], values: number[]): TimeSeriesFinding[] {
+    const splits: { index: number; t: number; before: number; after: number }[] = [];
+
+    const segment = (from: number, to: number) => {
+        if (splits.length >= ANALYSIS.MAX_CHANGEPOINTS || to - from < 2 * ANALYSIS.MIN_SEGMENT) return;
+        let best = { index: -1, t: 0, before: 0, after: 0 };
+        for (let k = from + ANALYSIS.MIN_SEGMENT; k <= to - ANALYSIS.MIN_SEGMENT; k++) {
+            const left = values.slice(from, k);
+            const right = values.slice(k, to);
+            const se = Math.sqrt(stdDev(left) ** 2 / left.length + stdDev(right) ** 2 / right.length);
+            const diff = mean(right) - mean(left);
+            const t = se > 0 ? Math.abs(diff) / se : 0;
+            if (t > best.t) best = { index: k, t, before: mean(left), after: mean(right) };
+        }
+        if (best.index < 0 || best.t < ANALYSIS.CHANGEPOINT_T) return;
+        splits.push(best);
+        segment(from, best.index);
+        segment(best.index, to);
+    };
+    segment(0, values.length);
+
+    return splits
+        .sort((a, b) => a.index - b.index)
+        .map(s => {
+            const shift = s.after - s.before;
+            const relative = s.before !== 0 ? Math.abs(shift / s.before) : 0;
+            return {
+                kind: 'CHANGEPOINT' as const,
+                index: s.index,
+                time: points[s.index].time,
+                value: points[s.index].value,
+                severity: relative >= 0.2 ? 'CRITICAL' as const : relative >= 0.1 ? 'WARNING' as const : 'INFO' as const,
+                magnitude: Number(shift.toFixed(1)),
+                message: `Level shift ${shift >= 0 ? '+' : '-'}${fmt(Math.abs(shift))} at ${points[s.index].time} (${fmt(s.before)} → ${fmt(s.after)} mean)`
+            };
+        });
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Analyze a series in chronological order
+ */
+export function analyzeSeries(input: SeriesPoint[]): TimeSeriesAnalysis {
+    const points = input.filter(p => typeof p.value === 'number' && isFinite(p.value));
+    if (points.length === 0) throw new Error('No numeric values to analyze');
+
+    const values = points.map(p => p.value);
+    const timed = points.every(p => typeof p.timestamp === 'number' && isFinite(p.timestamp));
+    const spanDays = timed ? (points[points.length - 1].timestamp! - points[0].timestamp!) / (24 * HOUR_MS) : 0;
+
+    const hourly = timed && spanDays >= ANALYSIS.MIN_HOURLY_DAYS
+        ? profile(values, points.map(p => new Date(p.timestamp!).getHours()), 24)
+        : undefined;
+    const weekday = timed && spanDays >= ANALYSIS.MIN_WEEKDAY_DAYS
+        ? profile(values, points.map(p => new Date(p.timestamp!).getDay()), 7)
+        : undefined;
+
+    // Remove the daily cycle, find level shifts, then remove those too
+    const overall = mean(values);
+    const deseasonalized = hourly
+        ? points.map(p => p.value - hourly.means[new Date(p.timestamp!).getHours()]! + overall)
+        : values;
+    const shifts = changepoints(points, deseasonalized);
+    const bounds = [0, ...shifts.map(c => c.index), points.length];
+    const residuals: number[] = [];
+    for (let b = 0; b < bounds.length - 1; b++) {
+        const segment = deseasonalized.slice(bounds[b], bounds[b + 1]);
+        const level = mean(segment);
+        residuals.push(...segment.map(v => v - level));
+    }
+
+    let maxGap: TimeSeriesAnalysis['summary']['maxGap'];
+    points.forEach((p, i) => {
+        if (typeof p.value2 !== 'number') return;
+        const gap = p.value2 - p.value;
+        if (gap > 0 && (!maxGap || gap > maxGap.value)) maxGap = { index: i, time: p.time, value: gap };
+    });
+
+    const severityRank = { CRITICAL: 0, WARNING: 1, INFO: 2 };
+    const findings = [
+        ...extrema(points, 'PEAK'),
+        ...extrema(points, 'TROUGH'),
+        ...ramps(points, timed),
+        ...anomalies(points, residuals),
+        ...shifts
+    ].sort((a, b) => severityRank[a.severity] - severityRank[b.severity] || a.index - b.index);
+
+    return {
+        summary: {
+            count: points.length,
+            start: points[0].time,
+            end: points[points.length - 1].time,
+            min: Math.min(...values),
+            max: Math.max(...values),
+            mean: Number(mean(values).toFixed(1)),
+            stdDev: Number(stdDev(values).toFixed(1)),
+            maxGap
+        },
+        findings,
+        hourly,
+        weekday
+    };
+}
+
+/**
+ * Deterministic BLUF narrative for the Historical page renderer
+ */
+export function templateNarrative(analysis: TimeSeriesAnalysis): string {
+    const { summary, findings } = analysis;
+    const critical = findings.filter(f => f.severity === 'CRITICAL');
+    const byKind = (kind: FindingKind) => findings.filter(f => f.kind === kind);
+    const lines = [
+        critical.length > 0
+            ? `BLUF: ${critical.length} critical finding(s); most severe: ${critical[0].message}.`
+            : `BLUF: No critical findings across ${summary.count} points (${summary.start} to ${summary.end}).`,
+        '',
+        '## Summary',
+        `- Range ${fmt(summary.min)} to ${fmt(summary.max)}, mean ${fmt(summary.mean)}, std dev ${fmt(summary.stdDev)}`
+    ];
+    if (summary.maxGap) lines.push(`- Largest gap to second series: ${fmt(summary.maxGap.value)} at ${summary.maxGap.time}`);
+
+    const section = (title: string, items: TimeSeriesFinding[]) => {
+        if (items.length === 0) return;
+        lines.push('', `## ${title}`, ...items.map(f => `- [${f.severity}] ${f.message}`));
+    };
+    section('Peaks & Troughs', [...byKind('PEAK'), ...byKind('TROUGH')]);
+    section('Ramps', byKind('RAMP'));
+    section('Anomalies', byKind('ANOMALY'));
+    section('Changepoints', byKind('CHANGEPOINT'));
+
+    if (analysis.hourly || analysis.weekday) {
+        lines.push('', '## Seasonality');
+        if (analysis.hourly) {
+            const h = analysis.hourly;
+            lines.push(`- Daily cycle: peak ${h.peakBucket}:00, trough ${h.troughBucket}:00, amplitude ${fmt(h.amplitude)} (explains ${Math.round(h.strength * 100)}% of variance)`);
+        }
+        if (analysis.weekday) {
+            const w = analysis.weekday;
+            lines.push(`- Weekly cycle: highest ${WEEKDAYS[w.peakBucket]}, lowest ${WEEKDAYS[w.troughBucket]}, spread ${fmt(w.amplitude)} (explains ${Math.round(w.strength * 100)}% of variance)`);
+        }
+    }
+    return lines.join('\n');
+}
@@ -8,11 +8,11 @@
  * - IndexedDB-backed embeddings storage
  * - Cosine similarity search
  * - Document chunking with overlap
- * - Embedding generation via Gemini
+ * - Embedding generation via the configured LLM provider
  * - Metadata filtering
  */
 
-import { getActiveKey } from './apiConfig';
+import { createLlmProvider, LlmProvider } from './llmProvider';
 import { notificationService } from './notificationService';
 
 // ============================================================================
@@ -55,7 +55,6 @@ export interface SearchResult {
 
 const CHUNK_SIZE = 500; // Characters per chunk
 const CHUNK_OVERLAP = 100; // Overlap between chunks
-const EMBEDDING_MODEL = 'text-embedding-004';
 const DB_NAME = 'GridGuardVectorStore';
 const DB_VERSION = 1;
 const CHUNKS_STORE = 'chunks';
@@ -93,54 +92,41 @@ function openVectorDB(): Promise<IDBDatabase> {
 
 class VectorStore {
     private embeddingCache: Map<string, number[]> = new Map();
-    private apiKey: string | null = null;
+    private provider: LlmProvider | null = null;
 
     constructor() {
-        this.apiKey = getActiveKey('GOOGLE_API_KEY');
+        this.provider = createLlmProvider(undefined, 'EMBEDDINGS');
     }
 
     /**
-     * Refresh API key
+     * Refresh the embedding provider after a configuration change
      */
     public refreshApiKey() {
-        this.apiKey = getActiveKey('GOOGLE_API_KEY');
+        this.provider = createLlmProvider(undefined, 'EMBEDDINGS');
     }
 
     /**
-     * Generate embedding for text using Gemini
+     * Generate embedding for text using the configured provider
      */
     private async generateEmbedding(text: string): Promise<number[]> {
-        // Check cache first
-        const cacheKey = text.substring(0, 100);
-        if (this.embeddingCache.has(cacheKey)) {
-            return this.embeddingCache.get(cacheKey)!;
-        }
-
-        if (!this.apiKey) {
+        if (!this.provider) {
             // Fallback: simple hash-based pseudo-embedding (for demo)
             return this.generatePseudoEmbedding(text);
         }
 
-        try {
-            const response = await fetch(
-                `https://generativelanguage.googleapis.com/v1beta/models/${EMBEDDING_MODEL}:embedContent?key=${this.apiKey}`,
-                {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        model: `models/${EMBEDDING_MODEL}`,
-                        content: { parts: [{ text }] }
-                    })
-                }
-            );
+        // Check cache first (keyed on the full text: short texts often share a
+        // prefix; and on the model, since providers differ in vector space)
+        const cacheKey = `${this.provider.modelFor('embedding')}:${text}`;
+        if (this.embeddingCache.has(cacheKey)) {
+            return this.embeddingCache.get(cacheKey)!;
+        }
 
-            if (!response.ok) {
+        try {
+            const embedding = await this.provider.embed(text);
+            if (embedding.length === 0) {
                 throw new Error('Embedding API failed');
             }
 
-            const data = await response.json();
-            const embedding = data.embedding?.values || [];
-
             // Cache the result
             this.embeddingCache.set(cacheKey, embedding);
 
@@ -213,6 +199,14 @@ class VectorStore {
         return denominator > 0 ? dotProduct / denominator : 0;
     }
 
+    /**
+     * Semantic similarity of two texts (cosine of their embeddings, 0-1)
+     */
+    public async similarity(a: string, b: string): Promise<number> {
+        const [ea, eb] = await Promise.all([this.generateEmbedding(a), this.generateEmbedding(b)]);
+        return Math.max(0, Math.min(1, this.cosineSimilarity(ea, eb)));
+    }
+
     /**
      * Chunk text with overlap
      */
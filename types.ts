@@ -35,10 +35,20 @@ export interface AgentData {
   lastAction?: string;
 }
 
+// Role-based access control (see services/sessionService.ts)
+export type Permission =
+  | 'ACTUATE'             // Approve/execute dispatch and chat tool actions
+  | 'SECOND_APPROVAL'     // Co-approve under the two-person rule
+  | 'TOGGLE_SAFETY'       // Kill switches, auto-dispatch
+  | 'VIEW_AUDIT'          // Audit trail and compliance exports
+  | 'MANAGE_GOVERNANCE'   // Governance page, safety rule packs
+  | 'EDIT_SETTINGS';      // API keys and system configuration
+
 export interface NavRoute {
   path: string;
   label: string;
   icon: ReactNode;
+  permission?: Permission;
 }
 
 export interface ConsensusResult {
@@ -52,6 +62,20 @@ export interface ConsensusResult {
   divergenceReason?: string;
 }
 
+// What-if inputs as entered on the Scenarios page (units in the strings,
+// e.g. "95°F", "65k MW", "5%"); parsed by services/scenarioEngine.ts
+export interface ScenarioState {
+  temp: string;
+  wind: string;
+  solar: string;
+  load: string;
+  growth: string;
+  ev: string;
+  gen: string;
+  reserves: string;
+  outages: string;
+}
+
 /**
  * CongestionZone - Real-time transmission congestion data
  * Used by Congestion Monitor panel